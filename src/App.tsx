@@ -11,16 +11,28 @@ import Home from "./pages/Home";
 import Cars from "./pages/Cars";
 import CarDetails from "./pages/CarDetails";
 import Booking from "./pages/Booking";
+import MyBookings from "./pages/MyBookings";
+import TrackBooking from "./pages/TrackBooking";
+import DriverTrips from "./pages/DriverTrips";
 import Login from "./pages/Login";
 import Register from "./pages/Register";
 import Contact from "./pages/Contact";
 import NotFound from "./pages/NotFound";
 import { AdminLayout } from "./components/admin/AdminLayout";
+import { BookingOutboxSync } from "./components/offline/BookingOutbox";
 
 const Dashboard = lazy(() => import("./pages/admin/Dashboard"));
 const CarsManagement = lazy(() => import("./pages/admin/CarsManagement"));
 const PricingManagement = lazy(() => import("./pages/admin/PricingManagement"));
+const ZonesManagement = lazy(() => import("./pages/admin/ZonesManagement"));
+const PromoCodesManagement = lazy(() => import("./pages/admin/PromoCodesManagement"));
+const CancellationPoliciesManagement = lazy(() => import("./pages/admin/CancellationPoliciesManagement"));
 const BookingsManagement = lazy(() => import("./pages/admin/BookingsManagement"));
+const InvoicesManagement = lazy(() => import("./pages/admin/InvoicesManagement"));
+const DriversManagement = lazy(() => import("./pages/admin/DriversManagement"));
+const MaintenanceManagement = lazy(() => import("./pages/admin/MaintenanceManagement"));
+const DocumentsManagement = lazy(() => import("./pages/admin/DocumentsManagement"));
+const Notifications = lazy(() => import("./pages/admin/Notifications"));
 const ExpensesManagement = lazy(() => import("./pages/admin/ExpensesManagement"));
 const Analytics = lazy(() => import("./pages/admin/Analytics"));
 const Reports = lazy(() => import("./pages/admin/Reports"));
@@ -42,6 +54,7 @@ const App = () => (
         <AuthProvider>
           <TooltipProvider>
             <Toaster />
+            <BookingOutboxSync />
             <Sonner />
             <BrowserRouter>
               <Routes>
@@ -49,6 +62,9 @@ const App = () => (
                 <Route path="/cars" element={<Cars />} />
                 <Route path="/cars/:id" element={<CarDetails />} />
                 <Route path="/booking" element={<Booking />} />
+                <Route path="/my-bookings" element={<MyBookings />} />
+                <Route path="/track" element={<TrackBooking />} />
+                <Route path="/driver" element={<DriverTrips />} />
                 <Route path="/login" element={<Login />} />
                 <Route path="/register" element={<Register />} />
                 <Route path="/contact" element={<Contact />} />
@@ -56,7 +72,15 @@ const App = () => (
                   <Route index element={<Suspense fallback={<Loading />}><Dashboard /></Suspense>} />
                   <Route path="cars" element={<Suspense fallback={<Loading />}><CarsManagement /></Suspense>} />
                   <Route path="pricing" element={<Suspense fallback={<Loading />}><PricingManagement /></Suspense>} />
+                  <Route path="zones" element={<Suspense fallback={<Loading />}><ZonesManagement /></Suspense>} />
+                  <Route path="promo-codes" element={<Suspense fallback={<Loading />}><PromoCodesManagement /></Suspense>} />
+                  <Route path="cancellation-policies" element={<Suspense fallback={<Loading />}><CancellationPoliciesManagement /></Suspense>} />
                   <Route path="bookings" element={<Suspense fallback={<Loading />}><BookingsManagement /></Suspense>} />
+                  <Route path="invoices" element={<Suspense fallback={<Loading />}><InvoicesManagement /></Suspense>} />
+                  <Route path="drivers" element={<Suspense fallback={<Loading />}><DriversManagement /></Suspense>} />
+                  <Route path="maintenance" element={<Suspense fallback={<Loading />}><MaintenanceManagement /></Suspense>} />
+                  <Route path="documents" element={<Suspense fallback={<Loading />}><DocumentsManagement /></Suspense>} />
+                  <Route path="notifications" element={<Suspense fallback={<Loading />}><Notifications /></Suspense>} />
                   <Route path="expenses" element={<Suspense fallback={<Loading />}><ExpensesManagement /></Suspense>} />
                   <Route path="analytics" element={<Suspense fallback={<Loading />}><Analytics /></Suspense>} />
                   <Route path="reports" element={<Suspense fallback={<Loading />}><Reports /></Suspense>} />
@@ -9,6 +9,13 @@ import {
   LogOut,
   Trophy,
   TrendingUp,
+  MapPin,
+  Ticket,
+  UserCheck,
+  ShieldCheck,
+  Wrench,
+  CalendarX,
+  FileCheck,
 } from 'lucide-react';
 import { NavLink, useNavigate } from 'react-router-dom';
 import { useAuth } from '@/contexts/AuthContext';
@@ -29,7 +36,14 @@ const menuItems = [
   { title: 'Dashboard', icon: LayoutDashboard, to: '/admin' },
   { title: 'Cars', icon: Car, to: '/admin/cars' },
   { title: 'Pricing', icon: DollarSign, to: '/admin/pricing' },
+  { title: 'Zones', icon: MapPin, to: '/admin/zones' },
+  { title: 'Promo Codes', icon: Ticket, to: '/admin/promo-codes' },
+  { title: 'Cancellations', icon: CalendarX, to: '/admin/cancellation-policies' },
   { title: 'Bookings', icon: CalendarCheck, to: '/admin/bookings' },
+  { title: 'Invoices', icon: FileCheck, to: '/admin/invoices' },
+  { title: 'Drivers', icon: UserCheck, to: '/admin/drivers' },
+  { title: 'Maintenance', icon: Wrench, to: '/admin/maintenance' },
+  { title: 'Documents', icon: ShieldCheck, to: '/admin/documents' },
   { title: 'Expenses', icon: Receipt, to: '/admin/expenses' },
 ];
 
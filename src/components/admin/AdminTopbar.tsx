@@ -1,10 +1,10 @@
-import { useState, useEffect } from 'react';
+import { useState } from 'react';
+import { Link, useNavigate } from 'react-router-dom';
 import { Bell, User, Sun, Moon } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { useTheme } from '@/contexts/ThemeContext';
 import { useAuth } from '@/contexts/AuthContext';
-import { supabase } from '@/integrations/supabase/client';
 import { SidebarTrigger } from '@/components/ui/sidebar';
 import {
   Sheet,
@@ -13,45 +13,37 @@ import {
   SheetTitle,
   SheetTrigger,
 } from '@/components/ui/sheet';
-
-interface Notification {
-  id: string;
-  title: string;
-  message: string;
-  type: string;
-  is_read: boolean;
-  created_at: string;
-}
+import { NotificationItem } from '@/components/admin/NotificationItem';
+import { NotificationTypeFilter } from '@/components/admin/NotificationTypeFilter';
+import {
+  useMarkAllNotificationsRead,
+  useMarkNotificationRead,
+  useNotifications,
+  useNotificationsRealtime,
+  useUnreadCount,
+} from '@/hooks/use-notifications';
+import type { AdminNotification } from '@/data/notifications';
 
 export function AdminTopbar() {
   const { theme, toggleTheme } = useTheme();
   const { user } = useAuth();
-  const [notifications, setNotifications] = useState<Notification[]>([]);
-  const unreadCount = notifications.filter((n) => !n.is_read).length;
+  const navigate = useNavigate();
+  const [open, setOpen] = useState(false);
+  const [type, setType] = useState('all');
+  const { data: latest } = useNotifications(type === 'all' ? undefined : type);
+  const { data: unreadCount = 0 } = useUnreadCount();
+  const markRead = useMarkNotificationRead(user?.id);
+  const markAllRead = useMarkAllNotificationsRead();
+  const notifications = latest?.rows || [];
 
-  useEffect(() => {
-    fetchNotifications();
-    const channel = supabase
-      .channel('notifications')
-      .on('postgres_changes', { event: 'INSERT', schema: 'public', table: 'notifications' }, (payload) => {
-        setNotifications((prev) => [payload.new as Notification, ...prev]);
-      })
-      .subscribe();
-    return () => { supabase.removeChannel(channel); };
-  }, []);
+  useNotificationsRealtime();
 
-  const fetchNotifications = async () => {
-    const { data } = await supabase
-      .from('notifications')
-      .select('*')
-      .order('created_at', { ascending: false })
-      .limit(20);
-    if (data) setNotifications(data as Notification[]);
-  };
-
-  const markAsRead = async (id: string) => {
-    await supabase.from('notifications').update({ is_read: true }).eq('id', id);
-    setNotifications((prev) => prev.map((n) => (n.id === id ? { ...n, is_read: true } : n)));
+  const openNotification = (n: AdminNotification) => {
+    if (!n.read) markRead.mutate(n.id);
+    if (n.link) {
+      setOpen(false);
+      navigate(n.link);
+    }
   };
 
   return (
@@ -65,13 +57,13 @@ export function AdminTopbar() {
           {theme === 'dark' ? <Sun className="w-4 h-4" /> : <Moon className="w-4 h-4" />}
         </Button>
 
-        <Sheet>
+        <Sheet open={open} onOpenChange={setOpen}>
           <SheetTrigger asChild>
             <Button variant="ghost" size="icon" className="relative">
               <Bell className="w-4 h-4" />
               {unreadCount > 0 && (
-                <Badge className="absolute -top-1 -right-1 h-5 w-5 p-0 flex items-center justify-center text-[10px] bg-destructive text-destructive-foreground">
-                  {unreadCount}
+                <Badge className="absolute -top-1 -right-1 h-5 min-w-5 px-1 flex items-center justify-center text-[10px] bg-destructive text-destructive-foreground">
+                  {unreadCount > 99 ? '99+' : unreadCount}
                 </Badge>
               )}
             </Button>
@@ -80,26 +72,27 @@ export function AdminTopbar() {
             <SheetHeader>
               <SheetTitle>Notifications</SheetTitle>
             </SheetHeader>
-            <div className="mt-4 space-y-3 overflow-y-auto max-h-[80vh]">
+            <div className="mt-4 flex items-center justify-between gap-2">
+              <NotificationTypeFilter value={type} onChange={setType} className="h-8 w-36" />
+              <Button
+                variant="ghost"
+                size="sm"
+                className="h-8 text-xs"
+                disabled={unreadCount === 0 || markAllRead.isPending}
+                onClick={() => markAllRead.mutate(type === 'all' ? undefined : type)}
+              >
+                Mark all read
+              </Button>
+            </div>
+            <div className="mt-4 space-y-3 overflow-y-auto max-h-[70vh]">
               {notifications.length === 0 && (
                 <p className="text-sm text-muted-foreground text-center py-8">No notifications</p>
               )}
-              {notifications.map((n) => (
-                <button
-                  key={n.id}
-                  onClick={() => markAsRead(n.id)}
-                  className={`w-full text-left p-3 rounded-lg border transition-smooth ${
-                    n.is_read ? 'border-border bg-muted/30' : 'border-accent/30 bg-accent/5'
-                  }`}
-                >
-                  <p className="text-sm font-medium">{n.title}</p>
-                  <p className="text-xs text-muted-foreground mt-1">{n.message}</p>
-                  <p className="text-xs text-muted-foreground mt-1">
-                    {new Date(n.created_at).toLocaleString()}
-                  </p>
-                </button>
-              ))}
+              {notifications.map((n) => <NotificationItem key={n.id} notification={n} onOpen={openNotification} />)}
             </div>
+            <Link to="/admin/notifications" onClick={() => setOpen(false)} className="block mt-4 text-center text-sm text-accent hover:underline">
+              View all notifications
+            </Link>
           </SheetContent>
         </Sheet>
 
@@ -0,0 +1,193 @@
+import { useEffect, useState } from 'react';
+import { format } from 'date-fns';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Sheet, SheetContent, SheetDescription, SheetHeader, SheetTitle } from '@/components/ui/sheet';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { supabase } from '@/integrations/supabase/client';
+import { useToast } from '@/hooks/use-toast';
+import type { Tables } from '@/integrations/supabase/types';
+import { cn } from '@/lib/utils';
+import { statusActions } from '@/data/bookings';
+import { fetchCancellationQuote, type CancellationQuote } from '@/data/cancellations';
+import type { Driver } from '@/data/drivers';
+import { BookingEditForm } from './BookingEditForm';
+import { BookingMessages } from './BookingMessages';
+import { BookingNotes } from './BookingNotes';
+import { BookingPayments } from './BookingPayments';
+import { BookingInspections } from '@/components/inspections/BookingInspections';
+
+type Booking = Tables<'bookings'>;
+type StatusChange = Tables<'booking_status_history'>;
+
+const statusDots: Record<string, string> = {
+  pending: 'bg-yellow-500',
+  approved: 'bg-green-500',
+  in_progress: 'bg-blue-500',
+  completed: 'bg-accent',
+  rejected: 'bg-destructive',
+  cancelled: 'bg-muted-foreground',
+};
+
+interface CarOption { id: string; name: string; }
+
+interface BookingDetailSheetProps {
+  bookingId: string | null;
+  transitions: Record<string, string[]>;
+  cars: CarOption[];
+  drivers: Driver[];
+  carName: (id: string | null) => string;
+  onOpenChange: (open: boolean) => void;
+  onChanged: () => void;
+}
+
+/** Full booking editor: fields and price, status actions with their timeline, payments, inspections and internal notes. */
+export function BookingDetailSheet({ bookingId, transitions, cars, drivers, carName, onOpenChange, onChanged }: BookingDetailSheetProps) {
+  const [booking, setBooking] = useState<Booking | null>(null);
+  const [history, setHistory] = useState<StatusChange[]>([]);
+  const [cancellation, setCancellation] = useState<CancellationQuote | null>(null);
+  const [reason, setReason] = useState('');
+  const [saving, setSaving] = useState(false);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    setReason('');
+    if (bookingId) fetchDetails(bookingId);
+    else { setBooking(null); setHistory([]); setCancellation(null); }
+  }, [bookingId]);
+
+  const fetchDetails = async (id: string) => {
+    const [{ data: row }, { data: changes }] = await Promise.all([
+      supabase.from('bookings').select('*').eq('id', id).maybeSingle(),
+      supabase.from('booking_status_history').select('*').eq('booking_id', id).order('created_at', { ascending: false }),
+    ]);
+    setBooking(row);
+    setHistory(changes || []);
+    fetchCancellationQuote(id).then(setCancellation).catch(() => setCancellation(null));
+  };
+
+  const handleSaved = () => {
+    if (bookingId) fetchDetails(bookingId);
+    onChanged();
+  };
+
+  const changeStatus = async (status: string) => {
+    if (!booking) return;
+    setSaving(true);
+    const { error } = await supabase.rpc('set_booking_status', { _booking_id: booking.id, _status: status, _reason: reason || undefined });
+    setSaving(false);
+    if (error) { toast({ title: 'Error', description: error.message, variant: 'destructive' }); return; }
+    toast({ title: `Booking ${status.replace('_', ' ')}` });
+    setReason('');
+    fetchDetails(booking.id);
+    onChanged();
+  };
+
+  const nextStatuses = booking ? transitions[booking.status] || [] : [];
+
+  return (
+    <Sheet open={!!bookingId} onOpenChange={onOpenChange}>
+      <SheetContent className="w-full sm:max-w-xl overflow-y-auto">
+        {booking && (
+          <>
+            <SheetHeader>
+              <SheetTitle className="flex items-center gap-2">
+                <span className="font-mono">{booking.reference}</span>
+                <Badge variant="outline">{booking.status.replace('_', ' ')}</Badge>
+              </SheetTitle>
+              <SheetDescription>{booking.client_name} · {carName(booking.car_id)}</SheetDescription>
+            </SheetHeader>
+
+            <Tabs defaultValue="details" className="mt-6">
+              <TabsList className="w-full">
+                <TabsTrigger value="details" className="flex-1">Details</TabsTrigger>
+                <TabsTrigger value="status" className="flex-1">Status</TabsTrigger>
+                <TabsTrigger value="payments" className="flex-1">Payments</TabsTrigger>
+                <TabsTrigger value="inspections" className="flex-1">Inspections</TabsTrigger>
+                <TabsTrigger value="notes" className="flex-1">Notes</TabsTrigger>
+              </TabsList>
+
+              <TabsContent value="details" className="mt-4">
+                <BookingEditForm booking={booking} cars={cars} drivers={drivers} onSaved={handleSaved} />
+              </TabsContent>
+
+              <TabsContent value="status" className="mt-4">
+                {nextStatuses.length > 0 && (
+                  <div className="space-y-3">
+                    <Label>Reason (optional)</Label>
+                    <Textarea value={reason} onChange={(e) => setReason(e.target.value)} rows={2} placeholder="Recorded in the timeline" />
+                    {nextStatuses.includes('cancelled') && cancellation && (
+                      <p className="text-xs text-muted-foreground">
+                        Cancelling now costs {cancellation.fee_percent}% (${Number(cancellation.fee).toLocaleString()})
+                        {cancellation.policy_name ? ` under the ${cancellation.policy_name} policy` : ', no policy applies'}.
+                        {cancellation.refund > 0 && ` $${Number(cancellation.refund).toLocaleString()} of the $${Number(cancellation.collected).toLocaleString()} collected will be queued for refund.`}
+                      </p>
+                    )}
+                    <div className="flex flex-wrap gap-2">
+                      {nextStatuses.map((status) => (
+                        <Button
+                          key={status}
+                          size="sm"
+                          variant="outline"
+                          disabled={saving}
+                          className={statusActions[status]?.className}
+                          onClick={() => changeStatus(status)}
+                        >
+                          {statusActions[status]?.label || status}
+                        </Button>
+                      ))}
+                    </div>
+                  </div>
+                )}
+
+                {booking.status === 'cancelled' && (
+                  <p className="text-sm">
+                    Cancellation fee: <span className="font-medium">${Number(booking.cancellation_fee).toLocaleString()}</span>
+                  </p>
+                )}
+
+                <div className="mt-8">
+                  <h3 className="text-sm font-semibold mb-4">Timeline</h3>
+                  <ol className="relative border-l border-border ml-2 space-y-5">
+                    {history.map((change) => (
+                      <li key={change.id} className="ml-4">
+                        <span className={cn('absolute -left-1.5 mt-1.5 w-3 h-3 rounded-full', statusDots[change.to_status] || 'bg-muted')} />
+                        <div className="text-sm font-medium">
+                          {change.from_status ? `${change.from_status.replace('_', ' ')} → ` : 'Created as '}{change.to_status.replace('_', ' ')}
+                        </div>
+                        <div className="text-xs text-muted-foreground">
+                          {format(new Date(change.created_at), 'PPP p')} · {change.actor_name || 'Unknown'}
+                        </div>
+                        {change.reason && <div className="text-xs mt-1">{change.reason}</div>}
+                      </li>
+                    ))}
+                    {history.length === 0 && <li className="ml-4 text-sm text-muted-foreground">No status changes recorded</li>}
+                  </ol>
+                </div>
+
+                <div className="mt-8">
+                  <h3 className="text-sm font-semibold mb-4">Customer messages</h3>
+                  <BookingMessages key={booking.status} bookingId={booking.id} />
+                </div>
+              </TabsContent>
+
+              <TabsContent value="payments" className="mt-4">
+                <BookingPayments key={booking.status} booking={booking} onChanged={onChanged} />
+              </TabsContent>
+
+              <TabsContent value="inspections" className="mt-4">
+                <BookingInspections bookingId={booking.id} onChargesChanged={handleSaved} />
+              </TabsContent>
+
+              <TabsContent value="notes" className="mt-4">
+                <BookingNotes bookingId={booking.id} />
+              </TabsContent>
+            </Tabs>
+          </>
+        )}
+      </SheetContent>
+    </Sheet>
+  );
+}
@@ -0,0 +1,219 @@
+import { useEffect, useState } from 'react';
+import { format } from 'date-fns';
+import { AlertTriangle } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { supabase } from '@/integrations/supabase/client';
+import { useToast } from '@/hooks/use-toast';
+import { usePricingZones } from '@/hooks/use-booking-quote';
+import { bookingRange, fetchConflictingBookings, isOverlapError, kigaliDateAndTime, type BookingConflict } from '@/data/bookings';
+import type { Driver } from '@/data/drivers';
+import { DriverPicker } from './DriverPicker';
+import type { Tables } from '@/integrations/supabase/types';
+
+type Booking = Tables<'bookings'>;
+
+interface CarOption { id: string; name: string; }
+
+const toForm = (b: Booking) => ({
+  client_name: b.client_name,
+  client_phone: b.client_phone || '',
+  client_email: b.client_email || '',
+  car_id: b.car_id || '',
+  pricing_type: b.pricing_type,
+  quantity: String(b.quantity),
+  ...kigaliDateAndTime(b.starts_at),
+  pickup_location: b.pickup_location,
+  pickup_zone_id: b.pickup_zone_id || '',
+  dropoff_location: b.dropoff_location || '',
+  dropoff_zone_id: b.dropoff_zone_id || '',
+  driver_id: b.driver_id,
+  notes: b.notes || '',
+});
+
+interface BookingEditFormProps {
+  booking: Booking;
+  cars: CarOption[];
+  drivers: Driver[];
+  onSaved: () => void;
+}
+
+/** Every editable booking field, with a live availability check when the car or dates change. */
+export function BookingEditForm({ booking, cars, drivers, onSaved }: BookingEditFormProps) {
+  const [form, setForm] = useState(() => toForm(booking));
+  const [conflicts, setConflicts] = useState<BookingConflict[]>([]);
+  const [adjustment, setAdjustment] = useState(String(booking.price_adjustment));
+  const [adjustmentReason, setAdjustmentReason] = useState(booking.price_adjustment_reason || '');
+  const [saving, setSaving] = useState(false);
+  const { data: zones = [] } = usePricingZones();
+  const { toast } = useToast();
+
+  useEffect(() => {
+    setForm(toForm(booking));
+    setAdjustment(String(booking.price_adjustment));
+    setAdjustmentReason(booking.price_adjustment_reason || '');
+  }, [booking]);
+
+  const quantity = parseInt(form.quantity) || 0;
+  const durationHours = form.pricing_type === 'day' ? quantity * 24 : quantity;
+  const range = form.date && form.time ? bookingRange(new Date(`${form.date}T00:00`), form.time, durationHours) : undefined;
+
+  useEffect(() => {
+    if (!form.car_id || !form.date || !form.time) { setConflicts([]); return; }
+    const wanted = bookingRange(new Date(`${form.date}T00:00`), form.time, durationHours);
+    fetchConflictingBookings('car_id', form.car_id, wanted, booking.id).then(setConflicts).catch(() => setConflicts([]));
+  }, [form.car_id, form.date, form.time, durationHours, booking.id]);
+
+  const handleSave = async () => {
+    if (!form.client_name || !form.pickup_location || !range || quantity < 1) {
+      toast({ title: 'Missing details', description: 'Client name, pickup, date, time and duration are required.', variant: 'destructive' });
+      return;
+    }
+    setSaving(true);
+    const { error } = await supabase.from('bookings').update({
+      client_name: form.client_name,
+      client_phone: form.client_phone || null,
+      client_email: form.client_email || null,
+      car_id: form.car_id || null,
+      pricing_type: form.pricing_type,
+      quantity,
+      duration_hours: durationHours,
+      starts_at: range.start.toISOString(),
+      ends_at: range.end.toISOString(),
+      pickup_location: form.pickup_location,
+      pickup_zone_id: form.pickup_zone_id || null,
+      dropoff_location: form.dropoff_location || null,
+      dropoff_zone_id: form.dropoff_zone_id || null,
+      driver_id: form.driver_id,
+      notes: form.notes || null,
+    }).eq('id', booking.id);
+    setSaving(false);
+    if (error) {
+      const description = isOverlapError(error) ? 'The car is already booked for part of that time.' : error.message;
+      toast({ title: 'Error', description, variant: 'destructive' });
+      return;
+    }
+    toast({ title: 'Booking updated' });
+    onSaved();
+  };
+
+  const handleAdjust = async () => {
+    const amount = parseFloat(adjustment) || 0;
+    if (amount !== 0 && !adjustmentReason.trim()) {
+      toast({ title: 'Reason required', description: 'Say why the price is being adjusted.', variant: 'destructive' });
+      return;
+    }
+    setSaving(true);
+    const { error } = await supabase.from('bookings').update({
+      price_adjustment: amount,
+      price_adjustment_reason: amount === 0 ? null : adjustmentReason.trim(),
+    }).eq('id', booking.id);
+    setSaving(false);
+    if (error) { toast({ title: 'Error', description: error.message, variant: 'destructive' }); return; }
+    toast({ title: 'Price adjusted' });
+    onSaved();
+  };
+
+  const quoted = Number(booking.total_price || 0) - Number(booking.price_adjustment);
+
+  return (
+    <div className="space-y-6">
+      <div className="grid grid-cols-2 gap-3">
+        <div className="col-span-2"><Label>Client name</Label><Input value={form.client_name} onChange={(e) => setForm({ ...form, client_name: e.target.value })} /></div>
+        <div><Label>Phone</Label><Input value={form.client_phone} onChange={(e) => setForm({ ...form, client_phone: e.target.value })} /></div>
+        <div><Label>Email</Label><Input type="email" value={form.client_email} onChange={(e) => setForm({ ...form, client_email: e.target.value })} /></div>
+        <div className="col-span-2">
+          <Label>Car</Label>
+          <Select value={form.car_id} onValueChange={(v) => setForm({ ...form, car_id: v })}>
+            <SelectTrigger><SelectValue placeholder="Select car" /></SelectTrigger>
+            <SelectContent>{cars.map((c) => <SelectItem key={c.id} value={c.id}>{c.name}</SelectItem>)}</SelectContent>
+          </Select>
+        </div>
+        <div><Label>Date</Label><Input type="date" value={form.date} onChange={(e) => setForm({ ...form, date: e.target.value })} /></div>
+        <div><Label>Time</Label><Input type="time" step={1800} value={form.time} onChange={(e) => setForm({ ...form, time: e.target.value })} /></div>
+        <div>
+          <Label>Plan</Label>
+          <Select value={form.pricing_type} onValueChange={(v) => setForm({ ...form, pricing_type: v })}>
+            <SelectTrigger><SelectValue /></SelectTrigger>
+            <SelectContent>
+              <SelectItem value="hour">Per hour</SelectItem>
+              <SelectItem value="day">Per day</SelectItem>
+              <SelectItem value="trip">Per trip</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+        <div><Label>Quantity</Label><Input type="number" min={1} value={form.quantity} onChange={(e) => setForm({ ...form, quantity: e.target.value })} /></div>
+        <div><Label>Pickup</Label><Input value={form.pickup_location} onChange={(e) => setForm({ ...form, pickup_location: e.target.value })} /></div>
+        <div>
+          <Label>Pickup zone</Label>
+          <Select value={form.pickup_zone_id || 'none'} onValueChange={(v) => setForm({ ...form, pickup_zone_id: v === 'none' ? '' : v })}>
+            <SelectTrigger><SelectValue /></SelectTrigger>
+            <SelectContent>
+              <SelectItem value="none">Other</SelectItem>
+              {zones.map((z) => <SelectItem key={z.id} value={z.id}>{z.name}</SelectItem>)}
+            </SelectContent>
+          </Select>
+        </div>
+        <div><Label>Dropoff</Label><Input value={form.dropoff_location} onChange={(e) => setForm({ ...form, dropoff_location: e.target.value })} /></div>
+        <div>
+          <Label>Dropoff zone</Label>
+          <Select value={form.dropoff_zone_id || 'none'} onValueChange={(v) => setForm({ ...form, dropoff_zone_id: v === 'none' ? '' : v })}>
+            <SelectTrigger><SelectValue /></SelectTrigger>
+            <SelectContent>
+              <SelectItem value="none">Other</SelectItem>
+              {zones.map((z) => <SelectItem key={z.id} value={z.id}>{z.name}</SelectItem>)}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="col-span-2">
+          <Label>Driver</Label>
+          <DriverPicker
+            drivers={drivers}
+            value={form.driver_id}
+            bookingId={booking.id}
+            range={range}
+            onChange={(driverId) => setForm({ ...form, driver_id: driverId })}
+            className="h-10 text-sm"
+          />
+        </div>
+        <div className="col-span-2"><Label>Customer notes</Label><Textarea value={form.notes} onChange={(e) => setForm({ ...form, notes: e.target.value })} rows={2} /></div>
+      </div>
+
+      {conflicts.length > 0 && (
+        <div className="flex gap-2 p-3 rounded-lg bg-destructive/10 text-destructive text-xs">
+          <AlertTriangle className="w-4 h-4 shrink-0" />
+          <div>
+            Not available at this time:
+            {conflicts.map((c) => (
+              <div key={c.id}>{c.reference} · {c.client_name} · {format(new Date(c.starts_at), 'PPP p')} → {format(new Date(c.ends_at), 'PPP p')}</div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      <Button onClick={handleSave} disabled={saving || conflicts.length > 0} className="w-full">Save changes</Button>
+
+      <div className="space-y-3 pt-4 border-t border-border">
+        <div className="flex justify-between text-sm">
+          <span className="text-muted-foreground">Quoted price</span>
+          <span>${quoted.toLocaleString()}</span>
+        </div>
+        <div className="grid grid-cols-3 gap-3">
+          <div>
+            <Label>Adjustment ($)</Label>
+            <Input type="number" value={adjustment} onChange={(e) => setAdjustment(e.target.value)} />
+          </div>
+          <div className="col-span-2">
+            <Label>Reason</Label>
+            <Input value={adjustmentReason} onChange={(e) => setAdjustmentReason(e.target.value)} placeholder="e.g. Goodwill discount" />
+          </div>
+        </div>
+        <p className="text-xs text-muted-foreground">Use a negative amount for a discount. The adjustment is kept if the booking is re-quoted.</p>
+        <Button variant="outline" onClick={handleAdjust} disabled={saving} className="w-full">Apply adjustment</Button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,76 @@
+import { useEffect, useState } from 'react';
+import { format } from 'date-fns';
+import { Mail, MessageSquare, RotateCw } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { supabase } from '@/integrations/supabase/client';
+import { useToast } from '@/hooks/use-toast';
+import type { Tables } from '@/integrations/supabase/types';
+
+type OutboxMessage = Tables<'message_outbox'>;
+
+const templateLabels: Record<string, string> = {
+  bookingApproved: 'Confirmation',
+  bookingRejected: 'Rejection',
+  bookingCancelled: 'Cancellation',
+  bookingReminder: 'Day-before reminder',
+};
+
+const statusVariants: Record<string, 'default' | 'secondary' | 'outline' | 'destructive'> = {
+  pending: 'outline',
+  sending: 'outline',
+  sent: 'default',
+  failed: 'destructive',
+};
+
+/** SMS and email sent to the customer about this booking, with a retry for failed ones. */
+export function BookingMessages({ bookingId }: { bookingId: string }) {
+  const [messages, setMessages] = useState<OutboxMessage[]>([]);
+  const { toast } = useToast();
+
+  useEffect(() => { fetchMessages(bookingId); }, [bookingId]);
+
+  const fetchMessages = async (id: string) => {
+    const { data } = await supabase.from('message_outbox').select('*').eq('booking_id', id).order('created_at', { ascending: false });
+    if (data) setMessages(data);
+  };
+
+  const handleRetry = async (message: OutboxMessage) => {
+    const { error } = await supabase
+      .from('message_outbox')
+      .update({ status: 'pending', attempts: 0, send_after: new Date().toISOString() })
+      .eq('id', message.id);
+    if (error) { toast({ title: 'Error', description: error.message, variant: 'destructive' }); return; }
+    toast({ title: 'Message queued again' });
+    fetchMessages(bookingId);
+  };
+
+  return (
+    <div className="space-y-2">
+      {messages.map((message) => (
+        <div key={message.id} className="flex items-start justify-between gap-3 p-2 rounded-lg bg-muted/50 text-sm">
+          <div className="min-w-0">
+            <div className="flex items-center gap-2">
+              {message.channel === 'email' ? <Mail className="w-3 h-3 shrink-0" /> : <MessageSquare className="w-3 h-3 shrink-0" />}
+              <span className="font-medium">{templateLabels[message.template] || message.template}</span>
+              <span className="text-xs text-muted-foreground uppercase">{message.language}</span>
+            </div>
+            <div className="text-xs text-muted-foreground truncate">
+              {message.recipient} · {format(new Date(message.sent_at || message.created_at), 'PPP p')}
+            </div>
+            {message.last_error && message.status !== 'sent' && <div className="text-xs text-destructive mt-1">{message.last_error}</div>}
+          </div>
+          <div className="flex items-center gap-1 shrink-0">
+            <Badge variant={statusVariants[message.status] || 'outline'}>{message.status}</Badge>
+            {message.status === 'failed' && (
+              <Button variant="ghost" size="sm" className="h-6 w-6 p-0" onClick={() => handleRetry(message)} aria-label="Retry">
+                <RotateCw className="w-3 h-3" />
+              </Button>
+            )}
+          </div>
+        </div>
+      ))}
+      {messages.length === 0 && <p className="text-sm text-muted-foreground">No messages sent yet</p>}
+    </div>
+  );
+}
@@ -0,0 +1,59 @@
+import { useEffect, useState } from 'react';
+import { format } from 'date-fns';
+import { Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Textarea } from '@/components/ui/textarea';
+import { supabase } from '@/integrations/supabase/client';
+import { useToast } from '@/hooks/use-toast';
+import type { Tables } from '@/integrations/supabase/types';
+
+type BookingNote = Tables<'booking_notes'>;
+
+/** Internal staff notes on a booking. Customers never see these. */
+export function BookingNotes({ bookingId }: { bookingId: string }) {
+  const [notes, setNotes] = useState<BookingNote[]>([]);
+  const [body, setBody] = useState('');
+  const { toast } = useToast();
+
+  useEffect(() => { fetchNotes(bookingId); }, [bookingId]);
+
+  const fetchNotes = async (id: string) => {
+    const { data } = await supabase.from('booking_notes').select('*').eq('booking_id', id).order('created_at', { ascending: false });
+    if (data) setNotes(data);
+  };
+
+  const handleAdd = async () => {
+    if (!body.trim()) return;
+    const { error } = await supabase.from('booking_notes').insert({ booking_id: bookingId, body: body.trim() });
+    if (error) { toast({ title: 'Error', description: error.message, variant: 'destructive' }); return; }
+    setBody('');
+    fetchNotes(bookingId);
+  };
+
+  const handleDelete = async (id: string) => {
+    if (!confirm('Delete this note?')) return;
+    await supabase.from('booking_notes').delete().eq('id', id);
+    fetchNotes(bookingId);
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="space-y-2">
+        <Textarea value={body} onChange={(e) => setBody(e.target.value)} rows={3} placeholder="Visible to admins only" />
+        <Button size="sm" onClick={handleAdd} disabled={!body.trim()}>Add note</Button>
+      </div>
+      <div className="space-y-3">
+        {notes.map((note) => (
+          <div key={note.id} className="p-3 rounded-lg bg-muted/50 text-sm">
+            <div className="flex items-center justify-between text-xs text-muted-foreground mb-1">
+              <span>{note.author_name || 'Admin'} · {format(new Date(note.created_at), 'PPP p')}</span>
+              <Button size="icon" variant="ghost" className="h-6 w-6" onClick={() => handleDelete(note.id)}><Trash2 className="w-3 h-3" /></Button>
+            </div>
+            <p className="whitespace-pre-wrap">{note.body}</p>
+          </div>
+        ))}
+        {notes.length === 0 && <p className="text-sm text-muted-foreground text-center py-4">No internal notes yet</p>}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,197 @@
+import { useEffect, useState } from 'react';
+import { format } from 'date-fns';
+import { Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useToast } from '@/hooks/use-toast';
+import type { Tables } from '@/integrations/supabase/types';
+import { cn } from '@/lib/utils';
+import {
+  bookingBalance, deletePayment, fetchBookingPayments, markRefundPaid, paymentMethodLabels, recordPayment,
+  type Payment, type PaymentKind, type PaymentMethod,
+} from '@/data/payments';
+import { BookingSecurityDeposit } from './BookingSecurityDeposit';
+
+const statusVariants: Record<string, 'default' | 'secondary' | 'outline' | 'destructive'> = {
+  pending: 'outline',
+  successful: 'default',
+  failed: 'destructive',
+};
+
+const emptyForm = () => ({ kind: 'payment' as PaymentKind, method: 'cash' as PaymentMethod, amount: '', paidAt: format(new Date(), "yyyy-MM-dd'T'HH:mm"), note: '' });
+
+interface BookingPaymentsProps {
+  booking: Pick<Tables<'bookings'>, 'id' | 'car_id' | 'total_price' | 'status' | 'cancellation_fee' | 'damage_total'>;
+  onChanged: () => void;
+}
+
+/** Ledger of money received and refunded for a booking, with its running balance and security deposit. */
+export function BookingPayments({ booking, onChanged }: BookingPaymentsProps) {
+  const [payments, setPayments] = useState<Payment[]>([]);
+  const [form, setForm] = useState(emptyForm);
+  const [saving, setSaving] = useState(false);
+  const { toast } = useToast();
+
+  useEffect(() => { fetchPayments(booking.id); }, [booking.id]);
+
+  const fetchPayments = async (id: string) => {
+    try {
+      setPayments(await fetchBookingPayments(id));
+    } catch {
+      setPayments([]);
+    }
+  };
+
+  const balance = bookingBalance(booking, payments);
+
+  const handleRecord = async () => {
+    const amount = Number(form.amount);
+    if (!(amount > 0)) return;
+    setSaving(true);
+    try {
+      await recordPayment({
+        bookingId: booking.id,
+        kind: form.kind,
+        method: form.method,
+        amount,
+        paidAt: new Date(form.paidAt).toISOString(),
+        note: form.note.trim(),
+      });
+      toast({ title: form.kind === 'refund' ? 'Refund recorded' : 'Payment recorded' });
+      setForm(emptyForm());
+      fetchPayments(booking.id);
+      onChanged();
+    } catch (error) {
+      toast({ title: 'Error', description: (error as Error).message, variant: 'destructive' });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleRefundPaid = async (payment: Payment) => {
+    try {
+      await markRefundPaid(payment.id);
+      toast({ title: 'Refund marked as paid' });
+      fetchPayments(booking.id);
+      onChanged();
+    } catch (error) {
+      toast({ title: 'Error', description: (error as Error).message, variant: 'destructive' });
+    }
+  };
+
+  const handleDelete = async (payment: Payment) => {
+    if (!confirm(`Delete this ${payment.kind} of $${Number(payment.amount).toLocaleString()}?`)) return;
+    try {
+      await deletePayment(payment.id);
+      fetchPayments(booking.id);
+      onChanged();
+    } catch (error) {
+      toast({ title: 'Error', description: (error as Error).message, variant: 'destructive' });
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-3 gap-3 p-3 rounded-lg bg-muted/50 text-sm">
+        <div>
+          {booking.status === 'cancelled' ? (
+            <>
+              <div className="text-xs text-muted-foreground">Cancellation fee</div>
+              ${Number(booking.cancellation_fee).toLocaleString()}
+            </>
+          ) : (
+            <>
+              <div className="text-xs text-muted-foreground">Total</div>
+              ${Number(booking.total_price).toLocaleString()}
+            </>
+          )}
+          {Number(booking.damage_total) > 0 && (
+            <span className="text-xs text-muted-foreground"> (+${Number(booking.damage_total).toLocaleString()} damage)</span>
+          )}
+        </div>
+        <div>
+          <div className="text-xs text-muted-foreground">Paid</div>
+          ${(balance.paid - balance.refunded).toLocaleString()}
+          {balance.refunded > 0 && <span className="text-xs text-muted-foreground"> (−${balance.refunded.toLocaleString()} refunded)</span>}
+        </div>
+        <div>
+          <div className="text-xs text-muted-foreground">{balance.balanceDue < 0 ? 'To refund' : 'Balance due'}</div>
+          {balance.paidInFull ? (
+            <Badge variant="outline" className="bg-green-500/20 text-green-600 border-green-500/30">Paid in full</Badge>
+          ) : (
+            <span className={cn(balance.balanceDue < 0 && 'text-destructive')}>${Math.abs(balance.balanceDue).toLocaleString()}</span>
+          )}
+        </div>
+      </div>
+
+      <BookingSecurityDeposit booking={booking} onSettled={() => { fetchPayments(booking.id); onChanged(); }} />
+
+      <div className="space-y-3 p-3 rounded-lg border">
+        <div className="grid grid-cols-2 gap-3">
+          <div className="space-y-1">
+            <Label>Type</Label>
+            <Select value={form.kind} onValueChange={(v) => setForm({ ...form, kind: v as PaymentKind })}>
+              <SelectTrigger><SelectValue /></SelectTrigger>
+              <SelectContent>
+                <SelectItem value="payment">Payment</SelectItem>
+                <SelectItem value="refund">Refund</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1">
+            <Label>Method</Label>
+            <Select value={form.method} onValueChange={(v) => setForm({ ...form, method: v as PaymentMethod })}>
+              <SelectTrigger><SelectValue /></SelectTrigger>
+              <SelectContent>
+                {(Object.keys(paymentMethodLabels) as PaymentMethod[]).map((method) => (
+                  <SelectItem key={method} value={method}>{paymentMethodLabels[method]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1">
+            <Label>Amount ($)</Label>
+            <Input type="number" min="0" step="0.01" value={form.amount} onChange={(e) => setForm({ ...form, amount: e.target.value })} />
+          </div>
+          <div className="space-y-1">
+            <Label>Paid at</Label>
+            <Input type="datetime-local" value={form.paidAt} onChange={(e) => setForm({ ...form, paidAt: e.target.value })} />
+          </div>
+        </div>
+        <Input placeholder="Note (receipt number, reason...)" value={form.note} onChange={(e) => setForm({ ...form, note: e.target.value })} />
+        <Button size="sm" onClick={handleRecord} disabled={saving || !(Number(form.amount) > 0) || !form.paidAt}>
+          {form.kind === 'refund' ? 'Record refund' : 'Record payment'}
+        </Button>
+      </div>
+
+      <div className="space-y-2">
+        {payments.map((payment) => (
+          <div key={payment.id} className="p-3 rounded-lg bg-muted/50 text-sm">
+            <div className="flex items-center justify-between gap-2">
+              <span className={cn('font-medium', payment.kind === 'refund' && 'text-destructive')}>
+                {payment.kind === 'refund' ? '−' : ''}${Number(payment.amount).toLocaleString()} · {paymentMethodLabels[payment.method as PaymentMethod] || payment.method}
+              </span>
+              <div className="flex items-center gap-1">
+                {payment.kind === 'refund' && payment.status === 'pending' && (
+                  <Button size="sm" variant="outline" className="h-6 text-xs" onClick={() => handleRefundPaid(payment)}>Mark refunded</Button>
+                )}
+                <Badge variant={statusVariants[payment.status] || 'outline'}>{payment.status}</Badge>
+                <Button size="icon" variant="ghost" className="h-6 w-6" onClick={() => handleDelete(payment)}><Trash2 className="w-3 h-3" /></Button>
+              </div>
+            </div>
+            <div className="text-xs text-muted-foreground mt-1">
+              {payment.kind === 'refund' ? 'Refund' : payment.purpose === 'deposit' ? 'Deposit' : payment.purpose === 'damage' ? 'Damage' : 'Payment'} · {format(new Date(payment.paid_at), 'PPP p')}
+              {' · '}{payment.recorded_by_name || payment.payer_phone || 'Customer'}
+            </div>
+            {payment.note && <p className="text-xs mt-1">“{payment.note}”</p>}
+            {payment.failure_reason && <p className="text-xs text-destructive mt-1">{payment.failure_reason}</p>}
+          </div>
+        ))}
+        {payments.length === 0 && <p className="text-sm text-muted-foreground text-center py-4">No payments recorded yet</p>}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,163 @@
+import { useEffect, useState } from 'react';
+import { format } from 'date-fns';
+import { Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { supabase } from '@/integrations/supabase/client';
+import { useToast } from '@/hooks/use-toast';
+import type { Tables } from '@/integrations/supabase/types';
+import { paymentMethodLabels, type PaymentMethod } from '@/data/payments';
+import {
+  deleteSecurityDeposit, depositSettlement, fetchSecurityDeposit, holdSecurityDeposit, settleSecurityDeposit,
+  type SecurityDeposit,
+} from '@/data/deposits';
+
+interface BookingSecurityDepositProps {
+  booking: Pick<Tables<'bookings'>, 'id' | 'car_id' | 'damage_total'>;
+  onSettled: () => void;
+}
+
+/** The refundable deposit held against damage: recorded at pickup, settled once the return inspection is charged. */
+export function BookingSecurityDeposit({ booking, onSettled }: BookingSecurityDepositProps) {
+  const [deposit, setDeposit] = useState<SecurityDeposit | null>(null);
+  const [loaded, setLoaded] = useState(false);
+  const [form, setForm] = useState({ amount: '', method: 'cash' as PaymentMethod, reference: '' });
+  const [note, setNote] = useState('');
+  const [saving, setSaving] = useState(false);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    fetchDeposit(booking.id);
+    // Suggest the car's deposit when none has been taken yet
+    if (booking.car_id) {
+      supabase.from('cars').select('security_deposit').eq('id', booking.car_id).maybeSingle().then(({ data }) => {
+        if (data && Number(data.security_deposit) > 0) setForm((f) => ({ ...f, amount: f.amount || String(data.security_deposit) }));
+      });
+    }
+  }, [booking.id, booking.car_id]);
+
+  const fetchDeposit = async (id: string) => {
+    try {
+      setDeposit(await fetchSecurityDeposit(id));
+    } catch {
+      setDeposit(null);
+    } finally {
+      setLoaded(true);
+    }
+  };
+
+  const run = async (action: () => Promise<unknown>, title: string) => {
+    setSaving(true);
+    try {
+      await action();
+      toast({ title });
+      fetchDeposit(booking.id);
+      return true;
+    } catch (error) {
+      toast({ title: 'Error', description: (error as Error).message, variant: 'destructive' });
+      return false;
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleHold = () =>
+    run(() => holdSecurityDeposit({ bookingId: booking.id, amount: Number(form.amount), method: form.method, reference: form.reference.trim() }), 'Security deposit recorded');
+
+  const handleSettle = async () => {
+    if (await run(() => settleSecurityDeposit(booking.id, note.trim()), 'Security deposit settled')) {
+      setNote('');
+      onSettled();
+    }
+  };
+
+  const handleDelete = () => {
+    if (!deposit || !confirm('Delete this security deposit? Only do this if it was recorded by mistake.')) return;
+    run(() => deleteSecurityDeposit(deposit.id), 'Security deposit deleted');
+  };
+
+  if (!loaded) return null;
+
+  const damage = Number(booking.damage_total || 0);
+  const settlement = depositSettlement(Number(deposit?.amount || 0), damage);
+  const methodLabel = (method: string) => paymentMethodLabels[method as PaymentMethod] || method;
+
+  return (
+    <div className="space-y-3 p-3 rounded-lg border">
+      <div className="flex items-center justify-between gap-2">
+        <h4 className="text-sm font-semibold">Security deposit</h4>
+        {deposit && (
+          <Badge variant={deposit.status === 'held' ? 'outline' : 'secondary'}>{deposit.status}</Badge>
+        )}
+      </div>
+
+      {!deposit && (
+        <>
+          <div className="grid grid-cols-3 gap-3">
+            <div className="space-y-1">
+              <Label>Amount ($)</Label>
+              <Input type="number" min="0" step="0.01" value={form.amount} onChange={(e) => setForm({ ...form, amount: e.target.value })} />
+            </div>
+            <div className="space-y-1">
+              <Label>Method</Label>
+              <Select value={form.method} onValueChange={(v) => setForm({ ...form, method: v as PaymentMethod })}>
+                <SelectTrigger><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(paymentMethodLabels) as PaymentMethod[]).map((method) => (
+                    <SelectItem key={method} value={method}>{paymentMethodLabels[method]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1">
+              <Label>Reference</Label>
+              <Input value={form.reference} onChange={(e) => setForm({ ...form, reference: e.target.value })} placeholder="Pre-auth code..." />
+            </div>
+          </div>
+          <Button size="sm" variant="outline" onClick={handleHold} disabled={saving || !(Number(form.amount) > 0)}>Record hold</Button>
+        </>
+      )}
+
+      {deposit && (
+        <div className="text-sm space-y-1">
+          <div className="flex items-center justify-between gap-2">
+            <span className="font-medium">${Number(deposit.amount).toLocaleString()} · {methodLabel(deposit.method)}</span>
+            {deposit.status === 'held' && (
+              <Button size="icon" variant="ghost" className="h-6 w-6" onClick={handleDelete} disabled={saving}><Trash2 className="w-3 h-3" /></Button>
+            )}
+          </div>
+          <div className="text-xs text-muted-foreground">
+            Held {format(new Date(deposit.held_at), 'PPP p')} · {deposit.held_by_name || '—'}
+            {deposit.reference && ` · ${deposit.reference}`}
+          </div>
+        </div>
+      )}
+
+      {deposit?.status === 'held' && (
+        <div className="space-y-2">
+          <p className="text-xs text-muted-foreground">
+            {damage > 0
+              ? `$${settlement.deducted.toLocaleString()} is kept for damage and $${settlement.released.toLocaleString()} goes back to the customer.`
+              : 'No damage has been charged, so the whole deposit goes back to the customer.'}
+            {settlement.uncovered > 0 && ` $${settlement.uncovered.toLocaleString()} of damage stays on the balance.`}
+          </p>
+          <Input placeholder="Note (optional)" value={note} onChange={(e) => setNote(e.target.value)} />
+          <Button size="sm" onClick={handleSettle} disabled={saving}>Settle and release</Button>
+        </div>
+      )}
+
+      {deposit?.status === 'released' && (
+        <div className="text-xs text-muted-foreground space-y-1">
+          <div>
+            Kept ${Number(deposit.deducted_amount).toLocaleString()} for damage · released ${Number(deposit.released_amount).toLocaleString()}
+          </div>
+          {deposit.released_at && <div>{format(new Date(deposit.released_at), 'PPP p')} · {deposit.released_by_name || '—'}</div>}
+          {deposit.note && <p className="text-foreground">“{deposit.note}”</p>}
+        </div>
+      )}
+    </div>
+  );
+}
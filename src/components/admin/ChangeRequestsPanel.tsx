@@ -0,0 +1,121 @@
+import { useEffect, useState } from 'react';
+import { format } from 'date-fns';
+import { Check, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { supabase } from '@/integrations/supabase/client';
+import { useToast } from '@/hooks/use-toast';
+
+interface ChangeRequest {
+  id: string;
+  booking_id: string;
+  kind: string;
+  requested_starts_at: string | null;
+  requested_ends_at: string | null;
+  reason: string | null;
+  created_at: string;
+  bookings: { client_name: string; client_phone: string | null; starts_at: string; car_id: string | null } | null;
+}
+
+/** Pending customer cancellation and reschedule requests, plus the cutoff customers must respect. */
+export function ChangeRequestsPanel({ carName, onResolved }: { carName: (id: string | null) => string; onResolved: () => void }) {
+  const [requests, setRequests] = useState<ChangeRequest[]>([]);
+  const [notes, setNotes] = useState<Record<string, string>>({});
+  const [cutoff, setCutoff] = useState('');
+  const { toast } = useToast();
+
+  useEffect(() => {
+    fetchRequests();
+    supabase.from('app_settings').select('value').eq('key', 'change_cutoff_hours').maybeSingle()
+      .then(({ data }) => setCutoff(data ? String(data.value) : '0'));
+
+    const channel = supabase
+      .channel('change-requests-realtime')
+      .on('postgres_changes', { event: '*', schema: 'public', table: 'booking_change_requests' }, () => fetchRequests())
+      .subscribe();
+    return () => { supabase.removeChannel(channel); };
+  }, []);
+
+  const fetchRequests = async () => {
+    const { data } = await supabase
+      .from('booking_change_requests')
+      .select('*, bookings(client_name, client_phone, starts_at, car_id)')
+      .eq('status', 'pending')
+      .order('created_at');
+    if (data) setRequests(data as ChangeRequest[]);
+  };
+
+  const resolve = async (request: ChangeRequest, approve: boolean) => {
+    const { error } = await supabase.rpc('resolve_booking_change', {
+      _request_id: request.id,
+      _approve: approve,
+      _note: notes[request.id],
+    });
+    if (error) { toast({ title: 'Error', description: error.message, variant: 'destructive' }); return; }
+    toast({ title: approve ? 'Request approved' : 'Request rejected' });
+    fetchRequests();
+    onResolved();
+  };
+
+  const saveCutoff = async () => {
+    const hours = parseInt(cutoff);
+    if (isNaN(hours) || hours < 0) {
+      toast({ title: 'Invalid cutoff', description: 'Enter a number of hours (0 or more).', variant: 'destructive' });
+      return;
+    }
+    const { error } = await supabase.from('app_settings').update({ value: hours }).eq('key', 'change_cutoff_hours');
+    if (error) { toast({ title: 'Error', description: error.message, variant: 'destructive' }); return; }
+    toast({ title: 'Cutoff updated' });
+  };
+
+  return (
+    <Card className="glass">
+      <CardHeader className="flex flex-row items-center justify-between flex-wrap gap-3">
+        <CardTitle className="text-base">Change Requests {requests.length > 0 && <Badge className="ml-2">{requests.length}</Badge>}</CardTitle>
+        <div className="flex items-end gap-2">
+          <div>
+            <Label className="text-xs">Cutoff before pickup (hours)</Label>
+            <Input type="number" min={0} value={cutoff} onChange={(e) => setCutoff(e.target.value)} className="h-8 w-24" />
+          </div>
+          <Button variant="outline" size="sm" className="h-8" onClick={saveCutoff}>Save</Button>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {requests.map((r) => (
+          <div key={r.id} className="flex flex-col md:flex-row md:items-center gap-3 p-3 rounded-lg bg-muted/50">
+            <div className="flex-1 text-sm">
+              <div className="flex items-center gap-2">
+                <Badge variant="outline" className={r.kind === 'cancel' ? 'text-destructive' : ''}>{r.kind}</Badge>
+                <span className="font-medium">{r.bookings?.client_name}</span>
+                <span className="text-muted-foreground">· {carName(r.bookings?.car_id ?? null)}</span>
+              </div>
+              <div className="text-xs text-muted-foreground mt-1">
+                Pickup {r.bookings && format(new Date(r.bookings.starts_at), 'PPP p')}
+                {r.requested_starts_at && ` → ${format(new Date(r.requested_starts_at), 'PPP p')}`}
+              </div>
+              {r.reason && <div className="text-xs mt-1">“{r.reason}”</div>}
+            </div>
+            <Input
+              placeholder="Note to customer (optional)"
+              value={notes[r.id] || ''}
+              onChange={(e) => setNotes({ ...notes, [r.id]: e.target.value })}
+              className="h-8 md:w-56 text-xs"
+            />
+            <div className="flex gap-1">
+              <Button size="sm" variant="outline" className="text-green-600 h-7 text-xs gap-1" onClick={() => resolve(r, true)}>
+                <Check className="w-3 h-3" /> Approve
+              </Button>
+              <Button size="sm" variant="outline" className="text-destructive h-7 text-xs gap-1" onClick={() => resolve(r, false)}>
+                <X className="w-3 h-3" /> Reject
+              </Button>
+            </div>
+          </div>
+        ))}
+        {requests.length === 0 && <p className="text-sm text-muted-foreground text-center py-4">No pending requests</p>}
+      </CardContent>
+    </Card>
+  );
+}
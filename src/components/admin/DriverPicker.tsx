@@ -0,0 +1,43 @@
+import { format } from 'date-fns';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { fetchConflictingBookings, type BusySlot } from '@/data/bookings';
+import type { Driver } from '@/data/drivers';
+import { cn } from '@/lib/utils';
+
+interface DriverPickerProps {
+  drivers: Driver[];
+  value: string | null;
+  bookingId: string;
+  range: BusySlot | undefined;
+  onChange: (driverId: string | null) => void;
+  className?: string;
+}
+
+/** Driver select that asks for confirmation when the driver already has an overlapping booking. */
+export function DriverPicker({ drivers, value, bookingId, range, onChange, className }: DriverPickerProps) {
+  // Drivers who are off the roster stay visible on bookings they were already assigned to
+  const options = drivers.filter((d) => d.status === 'active' || d.id === value);
+
+  const handleChange = async (next: string) => {
+    const driverId = next === 'none' ? null : next;
+    if (driverId && range) {
+      const conflicts = await fetchConflictingBookings('driver_id', driverId, range, bookingId).catch(() => []);
+      if (conflicts.length > 0) {
+        const name = drivers.find((d) => d.id === driverId)?.name;
+        const list = conflicts.map((c) => `${c.reference} (${format(new Date(c.starts_at), 'PPP p')})`).join(', ');
+        if (!confirm(`${name} is already assigned to ${list}. Assign anyway?`)) return;
+      }
+    }
+    onChange(driverId);
+  };
+
+  return (
+    <Select value={value || 'none'} onValueChange={handleChange}>
+      <SelectTrigger className={cn('h-8 text-xs', className)}><SelectValue /></SelectTrigger>
+      <SelectContent>
+        <SelectItem value="none">Unassigned</SelectItem>
+        {options.map((d) => <SelectItem key={d.id} value={d.id}>{d.name}</SelectItem>)}
+      </SelectContent>
+    </Select>
+  );
+}
@@ -0,0 +1,69 @@
+import { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { useToast } from '@/hooks/use-toast';
+import type { Tables } from '@/integrations/supabase/types';
+import { issueInvoice } from '@/data/invoices';
+import { downloadInvoicePdf } from '@/lib/invoice-pdf';
+
+type InvoiceBooking = Pick<Tables<'bookings'>, 'id' | 'reference' | 'client_name' | 'client_phone' | 'client_email'>;
+
+interface InvoiceDialogProps {
+  bookings: InvoiceBooking[];
+  onOpenChange: (open: boolean) => void;
+  onIssued?: () => void;
+}
+
+/** Bill-to details for a new invoice over one or more bookings, then issues and downloads it. */
+export function InvoiceDialog({ bookings, onOpenChange, onIssued }: InvoiceDialogProps) {
+  const [form, setForm] = useState({ company: '', tax_id: '', name: '', phone: '', email: '' });
+  const [issuing, setIssuing] = useState(false);
+  const { toast } = useToast();
+  const first = bookings[0];
+
+  useEffect(() => {
+    if (first) setForm({ company: '', tax_id: '', name: first.client_name, phone: first.client_phone || '', email: first.client_email || '' });
+  }, [first]);
+
+  const handleIssue = async () => {
+    setIssuing(true);
+    try {
+      const invoice = await issueInvoice(bookings.map((b) => b.id), form);
+      await downloadInvoicePdf(invoice);
+      toast({ title: `Invoice ${invoice.number}` });
+      onOpenChange(false);
+      onIssued?.();
+    } catch (error) {
+      toast({ title: 'Error', description: (error as Error).message, variant: 'destructive' });
+    } finally {
+      setIssuing(false);
+    }
+  };
+
+  return (
+    <Dialog open={bookings.length > 0} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Invoice {bookings.length === 1 ? first?.reference : `${bookings.length} bookings`}</DialogTitle>
+          <DialogDescription>
+            Bookings already on an invoice download that invoice again; void it from Invoices to change its details.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4">
+          <div className="grid grid-cols-2 gap-4">
+            <div><Label>Company (optional)</Label><Input value={form.company} onChange={(e) => setForm({ ...form, company: e.target.value })} /></div>
+            <div><Label>TIN (optional)</Label><Input value={form.tax_id} onChange={(e) => setForm({ ...form, tax_id: e.target.value })} /></div>
+          </div>
+          <div><Label>Name</Label><Input value={form.name} onChange={(e) => setForm({ ...form, name: e.target.value })} /></div>
+          <div className="grid grid-cols-2 gap-4">
+            <div><Label>Phone</Label><Input value={form.phone} onChange={(e) => setForm({ ...form, phone: e.target.value })} /></div>
+            <div><Label>Email</Label><Input type="email" value={form.email} onChange={(e) => setForm({ ...form, email: e.target.value })} /></div>
+          </div>
+          <Button onClick={handleIssue} disabled={issuing || !form.name.trim()} className="w-full">Issue and download PDF</Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,81 @@
+import { useEffect, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { addDays, format } from 'date-fns';
+import { Wrench } from 'lucide-react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { supabase } from '@/integrations/supabase/client';
+import {
+  fetchMaintenanceDue,
+  fetchServiceTypes,
+  fetchUpcomingMaintenance,
+  type MaintenanceDue,
+  type MaintenanceRecord,
+  type ServiceType,
+} from '@/data/maintenance';
+
+/** Services that are overdue or coming up, plus service windows already on the calendar for the next two weeks. */
+export function MaintenanceDueCard() {
+  const [due, setDue] = useState<MaintenanceDue[]>([]);
+  const [upcoming, setUpcoming] = useState<MaintenanceRecord[]>([]);
+  const [serviceTypes, setServiceTypes] = useState<ServiceType[]>([]);
+  const [cars, setCars] = useState<Record<string, string>>({});
+
+  useEffect(() => {
+    const horizon = addDays(new Date(), 14);
+    Promise.all([
+      fetchMaintenanceDue().catch(() => []),
+      fetchUpcomingMaintenance().catch(() => []),
+      fetchServiceTypes().catch(() => []),
+      supabase.from('cars').select('id, name'),
+    ]).then(([dueRows, scheduled, types, carsRes]) => {
+      setDue(dueRows);
+      setUpcoming(scheduled.filter((r) => new Date(r.starts_at) < horizon));
+      setServiceTypes(types);
+      setCars(Object.fromEntries((carsRes.data || []).map((c) => [c.id, c.name])));
+    });
+  }, []);
+
+  const typeName = (id: string | null) => serviceTypes.find((s) => s.id === id)?.name || 'Service';
+
+  const dueText = (row: MaintenanceDue) =>
+    [
+      row.due_on && `due ${format(new Date(`${row.due_on}T00:00:00`), 'MMM d')}`,
+      row.due_km && `at ${row.due_km.toLocaleString()} km${row.current_odometer ? ` (now ${row.current_odometer.toLocaleString()})` : ''}`,
+    ].filter(Boolean).join(' or ') + (row.last_done_on ? '' : ' · never done');
+
+  return (
+    <Card className="glass">
+      <CardHeader className="flex flex-row items-center justify-between">
+        <CardTitle className="text-base">Upcoming & Overdue Maintenance</CardTitle>
+        <Link to="/admin/maintenance" className="text-xs text-accent hover:underline">Manage</Link>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {due.length === 0 && upcoming.length === 0 && <p className="text-muted-foreground text-sm text-center py-4">Nothing due</p>}
+        {due.map((row) => (
+          <div key={`${row.car_id}-${row.service_type_id}`} className="flex items-center justify-between p-2 rounded-lg bg-muted/30">
+            <div>
+              <p className="text-sm font-medium">{cars[row.car_id] || '—'} · {typeName(row.service_type_id)}</p>
+              <p className="text-xs text-muted-foreground">{dueText(row)}</p>
+            </div>
+            <span className={`text-xs px-2 py-0.5 rounded-full ${row.overdue ? 'bg-destructive/20 text-destructive' : 'bg-yellow-500/20 text-yellow-600'}`}>
+              {row.overdue ? 'overdue' : 'due soon'}
+            </span>
+          </div>
+        ))}
+        {upcoming.map((record) => (
+          <div key={record.id} className="flex items-center justify-between p-2 rounded-lg bg-muted/30">
+            <div>
+              <p className="text-sm font-medium">{cars[record.car_id] || '—'} · {typeName(record.service_type_id)}</p>
+              <p className="text-xs text-muted-foreground">
+                {format(new Date(record.starts_at), 'MMM d, HH:mm')} – {format(new Date(record.ends_at), 'MMM d, HH:mm')}
+              </p>
+            </div>
+            <span className="text-xs px-2 py-0.5 rounded-full bg-blue-500/20 text-blue-600 flex items-center gap-1">
+              <Wrench className="w-3 h-3" /> {new Date(record.starts_at) <= new Date() ? 'in service' : 'scheduled'}
+            </span>
+          </div>
+        ))}
+      </CardContent>
+    </Card>
+  );
+}
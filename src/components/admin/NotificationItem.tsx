@@ -0,0 +1,27 @@
+import { Badge } from '@/components/ui/badge';
+import { notificationTypeLabels, type AdminNotification } from '@/data/notifications';
+
+interface NotificationItemProps {
+  notification: AdminNotification;
+  onOpen: (notification: AdminNotification) => void;
+}
+
+export function NotificationItem({ notification: n, onOpen }: NotificationItemProps) {
+  return (
+    <button
+      onClick={() => onOpen(n)}
+      className={`w-full text-left p-3 rounded-lg border transition-smooth ${
+        n.read ? 'border-border bg-muted/30' : 'border-accent/30 bg-accent/5'
+      }`}
+    >
+      <div className="flex items-center justify-between gap-2">
+        <p className="text-sm font-medium">{n.title}</p>
+        <Badge variant="outline" className="text-[10px]">{notificationTypeLabels[n.type] || n.type}</Badge>
+      </div>
+      <p className="text-xs text-muted-foreground mt-1">{n.message}</p>
+      <p className="text-xs text-muted-foreground mt-1">
+        {new Date(n.created_at).toLocaleString()}
+      </p>
+    </button>
+  );
+}
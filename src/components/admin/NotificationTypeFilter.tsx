@@ -0,0 +1,20 @@
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { notificationTypeLabels } from '@/data/notifications';
+
+interface NotificationTypeFilterProps {
+  value: string;
+  onChange: (value: string) => void;
+  className?: string;
+}
+
+export function NotificationTypeFilter({ value, onChange, className }: NotificationTypeFilterProps) {
+  return (
+    <Select value={value} onValueChange={onChange}>
+      <SelectTrigger className={className}><SelectValue /></SelectTrigger>
+      <SelectContent>
+        <SelectItem value="all">All types</SelectItem>
+        {Object.entries(notificationTypeLabels).map(([value, label]) => <SelectItem key={value} value={value}>{label}</SelectItem>)}
+      </SelectContent>
+    </Select>
+  );
+}
@@ -0,0 +1,113 @@
+import { useEffect, useState } from 'react';
+import { addMonths, eachDayOfInterval, endOfMonth, format, getDay, isToday, startOfMonth, subMonths } from 'date-fns';
+import { ChevronLeft, ChevronRight } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { supabase } from '@/integrations/supabase/client';
+import { cn } from '@/lib/utils';
+
+interface CarOption { id: string; name: string; }
+interface CalendarDay { day: string; rule_id: string | null; name: string | null; amount: number | null; }
+
+const RULE_COLORS = [
+  'bg-accent/10 border-accent/30',
+  'bg-yellow-500/10 border-yellow-500/30',
+  'bg-green-500/10 border-green-500/30',
+  'bg-purple-500/10 border-purple-500/30',
+  'bg-orange-500/10 border-orange-500/30',
+  'bg-pink-500/10 border-pink-500/30',
+];
+
+const WEEKDAYS = ['Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat', 'Sun'];
+
+/** Month view of the pricing rule that wins on each day for one car and pricing type. */
+export function PricingCalendar({ cars, carId: initialCarId, refreshKey }: { cars: CarOption[]; carId?: string; refreshKey?: unknown }) {
+  const [carId, setCarId] = useState(initialCarId || '');
+  const [pricingType, setPricingType] = useState('day');
+  const [month, setMonth] = useState(() => startOfMonth(new Date()));
+  const [days, setDays] = useState<CalendarDay[]>([]);
+
+  const activeCarId = carId || cars[0]?.id || '';
+
+  useEffect(() => {
+    if (initialCarId) setCarId(initialCarId);
+  }, [initialCarId]);
+
+  useEffect(() => {
+    if (!activeCarId) return;
+    supabase
+      .rpc('pricing_calendar', {
+        _car_id: activeCarId,
+        _pricing_type: pricingType,
+        _from: format(month, 'yyyy-MM-dd'),
+        _to: format(endOfMonth(month), 'yyyy-MM-dd'),
+      })
+      .then(({ data }) => setDays((data || []) as CalendarDay[]));
+  }, [activeCarId, pricingType, month, refreshKey]);
+
+  const ruleIds = Array.from(new Set(days.map((d) => d.rule_id).filter(Boolean)));
+  const colorFor = (ruleId: string | null) =>
+    ruleId ? RULE_COLORS[ruleIds.indexOf(ruleId) % RULE_COLORS.length] : 'bg-destructive/10 border-destructive/30';
+
+  const monthDays = eachDayOfInterval({ start: month, end: endOfMonth(month) });
+  const leadingBlanks = (getDay(month) + 6) % 7;
+  const byDay = Object.fromEntries(days.map((d) => [d.day, d]));
+
+  return (
+    <Card className="glass">
+      <CardHeader className="flex flex-row items-center justify-between flex-wrap gap-3">
+        <CardTitle className="text-base">Rate Calendar</CardTitle>
+        <div className="flex gap-2 flex-wrap">
+          <Select value={activeCarId} onValueChange={setCarId}>
+            <SelectTrigger className="w-[180px]"><SelectValue placeholder="Select car" /></SelectTrigger>
+            <SelectContent>{cars.map((c) => <SelectItem key={c.id} value={c.id}>{c.name}</SelectItem>)}</SelectContent>
+          </Select>
+          <Select value={pricingType} onValueChange={setPricingType}>
+            <SelectTrigger className="w-[120px]"><SelectValue /></SelectTrigger>
+            <SelectContent>
+              <SelectItem value="hour">Per Hour</SelectItem>
+              <SelectItem value="day">Per Day</SelectItem>
+              <SelectItem value="trip">Per Trip</SelectItem>
+            </SelectContent>
+          </Select>
+          <div className="flex items-center gap-1">
+            <Button variant="outline" size="icon" className="h-9 w-9" onClick={() => setMonth(subMonths(month, 1))}>
+              <ChevronLeft className="w-4 h-4" />
+            </Button>
+            <span className="text-sm font-medium w-28 text-center">{format(month, 'MMMM yyyy')}</span>
+            <Button variant="outline" size="icon" className="h-9 w-9" onClick={() => setMonth(addMonths(month, 1))}>
+              <ChevronRight className="w-4 h-4" />
+            </Button>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent>
+        <div className="grid grid-cols-7 gap-1 text-xs">
+          {WEEKDAYS.map((d) => <div key={d} className="text-center text-muted-foreground font-medium py-1">{d}</div>)}
+          {Array.from({ length: leadingBlanks }, (_, i) => <div key={`blank-${i}`} />)}
+          {monthDays.map((date) => {
+            const entry = byDay[format(date, 'yyyy-MM-dd')];
+            return (
+              <div
+                key={date.toISOString()}
+                className={cn('rounded-lg border p-1.5 min-h-[64px]', colorFor(entry?.rule_id ?? null), isToday(date) && 'ring-2 ring-accent')}
+                title={entry?.name || undefined}
+              >
+                <div className="text-muted-foreground">{format(date, 'd')}</div>
+                {entry?.rule_id ? (
+                  <>
+                    <div className="font-bold">${Number(entry.amount).toLocaleString()}</div>
+                    <div className="truncate text-muted-foreground">{entry.name || 'Standard'}</div>
+                  </>
+                ) : (
+                  <div className="text-destructive">No rate</div>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
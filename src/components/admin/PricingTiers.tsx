@@ -0,0 +1,207 @@
+import { useEffect, useState } from 'react';
+import { Plus, Trash2, Edit } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { supabase } from '@/integrations/supabase/client';
+import { useToast } from '@/hooks/use-toast';
+
+interface CarOption { id: string; name: string; }
+interface PricingTier {
+  id: string;
+  car_id: string;
+  pricing_type: string;
+  kind: string;
+  name: string | null;
+  from_unit: number | null;
+  to_unit: number | null;
+  discount_percent: number | null;
+  units: number | null;
+  amount: number | null;
+}
+
+const emptyForm = { car_id: '', pricing_type: 'day', kind: 'discount', name: '', from_unit: 4, to_unit: '', discount_percent: 10, units: 7, amount: 0 };
+
+/** Duration discounts (e.g. days 4–7 at −10%) and flat packages (e.g. a weekly rate) per car. */
+export function PricingTiers({ cars, carId }: { cars: CarOption[]; carId?: string }) {
+  const [tiers, setTiers] = useState<PricingTier[]>([]);
+  const [form, setForm] = useState(emptyForm);
+  const [editId, setEditId] = useState<string | null>(null);
+  const [open, setOpen] = useState(false);
+  const { toast } = useToast();
+
+  useEffect(() => { fetchTiers(); }, []);
+
+  const fetchTiers = async () => {
+    const { data } = await supabase.from('pricing_tiers').select('*').order('kind').order('from_unit').order('units');
+    if (data) setTiers(data as PricingTier[]);
+  };
+
+  const filtered = carId ? tiers.filter((t) => t.car_id === carId) : tiers;
+  const carName = (id: string) => cars.find((c) => c.id === id)?.name || 'Unknown';
+
+  const describe = (tier: PricingTier) => {
+    const unit = tier.pricing_type === 'day' ? 'days' : `${tier.pricing_type}s`;
+    return tier.kind === 'discount'
+      ? `${unit} ${tier.from_unit}${tier.to_unit ? `–${tier.to_unit}` : '+'} at −${tier.discount_percent}%`
+      : `${tier.units} ${unit} for $${Number(tier.amount).toLocaleString()}`;
+  };
+
+  const handleSave = async () => {
+    if (!form.car_id) {
+      toast({ title: 'Missing fields', description: 'Select a car for this tier.', variant: 'destructive' });
+      return;
+    }
+    const isDiscount = form.kind === 'discount';
+    if (isDiscount && form.to_unit && Number(form.to_unit) < form.from_unit) {
+      toast({ title: 'Invalid range', description: 'The last unit must be on or after the first unit.', variant: 'destructive' });
+      return;
+    }
+    const payload = {
+      car_id: form.car_id,
+      pricing_type: form.pricing_type,
+      kind: form.kind,
+      name: form.name || null,
+      from_unit: isDiscount ? form.from_unit : null,
+      to_unit: isDiscount && form.to_unit ? Number(form.to_unit) : null,
+      discount_percent: isDiscount ? form.discount_percent : null,
+      units: isDiscount ? null : form.units,
+      amount: isDiscount ? null : form.amount,
+    };
+    const { error } = editId
+      ? await supabase.from('pricing_tiers').update(payload).eq('id', editId)
+      : await supabase.from('pricing_tiers').insert(payload);
+    if (error) { toast({ title: 'Error', description: error.message, variant: 'destructive' }); return; }
+    toast({ title: editId ? 'Tier updated' : 'Tier added' });
+    setOpen(false); setEditId(null); setForm(emptyForm);
+    fetchTiers();
+  };
+
+  const handleEdit = (tier: PricingTier) => {
+    setForm({
+      car_id: tier.car_id,
+      pricing_type: tier.pricing_type,
+      kind: tier.kind,
+      name: tier.name || '',
+      from_unit: tier.from_unit ?? emptyForm.from_unit,
+      to_unit: tier.to_unit?.toString() || '',
+      discount_percent: tier.discount_percent ?? emptyForm.discount_percent,
+      units: tier.units ?? emptyForm.units,
+      amount: tier.amount ?? 0,
+    });
+    setEditId(tier.id);
+    setOpen(true);
+  };
+
+  const handleDelete = async (id: string) => {
+    if (!confirm('Delete this tier?')) return;
+    await supabase.from('pricing_tiers').delete().eq('id', id);
+    toast({ title: 'Tier deleted' });
+    fetchTiers();
+  };
+
+  return (
+    <Card className="glass">
+      <CardHeader className="flex flex-row items-center justify-between flex-wrap gap-3">
+        <div>
+          <CardTitle className="text-base">Duration Tiers &amp; Packages</CardTitle>
+          <p className="text-xs text-muted-foreground mt-1">Packages cover whole blocks first; discounts apply to the remaining units in their range.</p>
+        </div>
+        <Dialog open={open} onOpenChange={(v) => { setOpen(v); if (!v) { setEditId(null); setForm(emptyForm); } }}>
+          <DialogTrigger asChild>
+            <Button variant="outline" className="gap-2" onClick={() => setForm({ ...emptyForm, car_id: carId || '' })}>
+              <Plus className="w-4 h-4" /> Add Tier
+            </Button>
+          </DialogTrigger>
+          <DialogContent>
+            <DialogHeader><DialogTitle>{editId ? 'Edit Tier' : 'Add Tier'}</DialogTitle></DialogHeader>
+            <div className="space-y-4 mt-2">
+              <div>
+                <Label>Car</Label>
+                <Select value={form.car_id} onValueChange={(v) => setForm({ ...form, car_id: v })}>
+                  <SelectTrigger><SelectValue placeholder="Select car" /></SelectTrigger>
+                  <SelectContent>{cars.map((c) => <SelectItem key={c.id} value={c.id}>{c.name}</SelectItem>)}</SelectContent>
+                </Select>
+              </div>
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <Label>Type</Label>
+                  <Select value={form.pricing_type} onValueChange={(v) => setForm({ ...form, pricing_type: v })}>
+                    <SelectTrigger><SelectValue /></SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="hour">Per Hour</SelectItem>
+                      <SelectItem value="day">Per Day</SelectItem>
+                      <SelectItem value="trip">Per Trip</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div>
+                  <Label>Tier</Label>
+                  <Select value={form.kind} onValueChange={(v) => setForm({ ...form, kind: v })}>
+                    <SelectTrigger><SelectValue /></SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="discount">Discount (%)</SelectItem>
+                      <SelectItem value="package">Flat package</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+              <div><Label>Name (optional)</Label><Input value={form.name} onChange={(e) => setForm({ ...form, name: e.target.value })} placeholder={form.kind === 'package' ? 'e.g. Weekly rate' : 'e.g. Long rental'} /></div>
+              {form.kind === 'discount' ? (
+                <div className="grid grid-cols-3 gap-4">
+                  <div><Label>From unit</Label><Input type="number" min={1} value={form.from_unit} onChange={(e) => setForm({ ...form, from_unit: parseInt(e.target.value) || 1 })} /></div>
+                  <div><Label>To unit</Label><Input type="number" min={1} value={form.to_unit} onChange={(e) => setForm({ ...form, to_unit: e.target.value })} placeholder="No limit" /></div>
+                  <div><Label>Discount (%)</Label><Input type="number" min={1} max={100} value={form.discount_percent} onChange={(e) => setForm({ ...form, discount_percent: parseFloat(e.target.value) || 0 })} /></div>
+                </div>
+              ) : (
+                <div className="grid grid-cols-2 gap-4">
+                  <div><Label>Units in package</Label><Input type="number" min={1} value={form.units} onChange={(e) => setForm({ ...form, units: parseInt(e.target.value) || 1 })} /></div>
+                  <div><Label>Package price ($)</Label><Input type="number" value={form.amount} onChange={(e) => setForm({ ...form, amount: parseFloat(e.target.value) || 0 })} /></div>
+                </div>
+              )}
+              <Button onClick={handleSave} className="w-full">{editId ? 'Update' : 'Add Tier'}</Button>
+            </div>
+          </DialogContent>
+        </Dialog>
+      </CardHeader>
+      <CardContent>
+        <div className="border rounded-lg overflow-auto">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Car</TableHead>
+                <TableHead>Name</TableHead>
+                <TableHead>Tier</TableHead>
+                <TableHead>Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {filtered.map((tier) => (
+                <TableRow key={tier.id}>
+                  <TableCell className="font-medium">{carName(tier.car_id)}</TableCell>
+                  <TableCell className="text-muted-foreground">{tier.name || '—'}</TableCell>
+                  <TableCell className="capitalize">{describe(tier)}</TableCell>
+                  <TableCell>
+                    <div className="flex gap-1">
+                      <Button variant="outline" size="sm" className="h-7" onClick={() => handleEdit(tier)}>
+                        <Edit className="w-3 h-3" />
+                      </Button>
+                      <Button variant="outline" size="sm" className="h-7 text-destructive" onClick={() => handleDelete(tier.id)}>
+                        <Trash2 className="w-3 h-3" />
+                      </Button>
+                    </div>
+                  </TableCell>
+                </TableRow>
+              ))}
+              {filtered.length === 0 && <TableRow><TableCell colSpan={4} className="text-center text-muted-foreground py-8">No tiers yet</TableCell></TableRow>}
+            </TableBody>
+          </Table>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,77 @@
+import { useEffect, useState } from 'react';
+import { CheckCircle2, Loader2, XCircle } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import { useLanguage } from '@/i18n/LanguageContext';
+import { useDepositStatus, useRequestDeposit } from '@/hooks/use-deposit';
+import { mobileMoneyMethods, paymentMethodLabels, type MobileMoneyMethod } from '@/data/payments';
+import { cn } from '@/lib/utils';
+
+interface DepositPaymentProps {
+  clientRequestId: string;
+  method: MobileMoneyMethod;
+  phone: string;
+  className?: string;
+}
+
+/**
+ * Sends the mobile money prompt as soon as the booking exists, then follows it until the customer answers.
+ * After a failure or an unanswered prompt the customer can try again with another number or method.
+ */
+export function DepositPayment({ clientRequestId, method, phone, className }: DepositPaymentProps) {
+  const { t } = useLanguage();
+  const request = useRequestDeposit();
+  const [paymentId, setPaymentId] = useState<string>();
+  const [payer, setPayer] = useState({ method, phone });
+  const { data: status } = useDepositStatus(clientRequestId, paymentId);
+  const { mutate } = request;
+
+  // Repeating the request while one is open returns that same request, so a remount cannot charge twice
+  useEffect(() => {
+    mutate({ clientRequestId, method, phone }, { onSuccess: (payment) => setPaymentId(payment.paymentId) });
+  }, [mutate, clientRequestId, method, phone]);
+
+  const retry = () => {
+    mutate({ clientRequestId, ...payer, phone: payer.phone.trim() }, { onSuccess: (payment) => setPaymentId(payment.paymentId) });
+  };
+
+  const current = status || request.data;
+  const failed = request.isError || current?.status === 'failed';
+
+  return (
+    <div className={cn('p-4 rounded-xl bg-muted/50 space-y-3 text-sm', className)}>
+      <div className="font-medium">
+        {paymentMethodLabels[payer.method]} · {payer.phone}
+        {current && <span className="text-muted-foreground"> · {current.chargedAmount.toLocaleString()} {current.chargedCurrency}</span>}
+      </div>
+      {failed ? (
+        <div className="space-y-2">
+          <p className="flex items-center gap-2 text-destructive">
+            <XCircle className="w-4 h-4" /> {t('booking.depositFailed')}
+          </p>
+          {(current?.failureReason || request.error?.message) && (
+            <p className="text-xs text-muted-foreground">{current?.failureReason || request.error?.message}</p>
+          )}
+          <RadioGroup value={payer.method} onValueChange={(v) => setPayer({ ...payer, method: v as MobileMoneyMethod })} className="flex gap-4">
+            {mobileMoneyMethods.map((m) => (
+              <label key={m} className="flex items-center gap-2 text-sm cursor-pointer">
+                <RadioGroupItem value={m} /> {paymentMethodLabels[m]}
+              </label>
+            ))}
+          </RadioGroup>
+          <Input type="tel" value={payer.phone} onChange={(e) => setPayer({ ...payer, phone: e.target.value })} aria-label={t('booking.depositPhone')} className="h-8" />
+          <Button size="sm" variant="outline" onClick={retry} disabled={request.isPending || !payer.phone.trim()}>{t('booking.depositRetry')}</Button>
+        </div>
+      ) : current?.status === 'successful' ? (
+        <p className="flex items-center gap-2 text-green-600">
+          <CheckCircle2 className="w-4 h-4" /> {t('booking.depositSuccess')}
+        </p>
+      ) : (
+        <p className="flex items-center gap-2 text-muted-foreground">
+          <Loader2 className="w-4 h-4 animate-spin" /> {t('booking.depositPending')}
+        </p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,27 @@
+import { format, parseISO } from 'date-fns';
+import type { BookingQuote } from '@/data/pricing';
+import { cn } from '@/lib/utils';
+
+const money = (value: number) => `${value < 0 ? '−' : ''}$${Math.abs(Number(value)).toLocaleString()}`;
+
+/** Itemised lines of a server quote: rate periods, flat packages, duration discounts and promo codes. */
+export function QuoteBreakdown({ quote, unitLabel, className }: { quote: BookingQuote; unitLabel: string; className?: string }) {
+  return (
+    <ul className={cn('space-y-1 text-sm', className)}>
+      {quote.lines.map((line, i) => (
+        <li key={i} className="flex items-center justify-between gap-4">
+          <span className="text-muted-foreground">
+            {line.description}
+            {(line.kind === 'rate' || line.kind === 'package') && (
+              <span className="text-xs"> · {line.quantity} × {line.kind === 'rate' ? `${money(line.unit_price)} / ${unitLabel}` : money(line.unit_price)}</span>
+            )}
+            {line.kind === 'rate' && line.from && quote.pricing_type === 'day' && (
+              <span className="text-xs"> · {format(parseISO(line.from), 'MMM d')}</span>
+            )}
+          </span>
+          <span className={cn('font-medium', line.amount < 0 && 'text-green-600')}>{money(line.amount)}</span>
+        </li>
+      ))}
+    </ul>
+  );
+}
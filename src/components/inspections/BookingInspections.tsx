@@ -0,0 +1,52 @@
+import { useState } from 'react';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { useLanguage } from '@/i18n/LanguageContext';
+import { useInspections } from '@/hooks/use-inspections';
+import type { InspectionKind } from '@/data/inspections';
+import { DamageCharges } from './DamageCharges';
+import { InspectionComparison } from './InspectionComparison';
+import { InspectionForm } from './InspectionForm';
+
+interface BookingInspectionsProps {
+  bookingId: string;
+  onChargesChanged?: () => void;
+}
+
+/** Inspection comparison for a booking, with a dialog to record or correct either side and the damage charged for. */
+export function BookingInspections({ bookingId, onChargesChanged }: BookingInspectionsProps) {
+  const { t } = useLanguage();
+  const { data: inspections = [], isLoading } = useInspections(bookingId);
+  const [recording, setRecording] = useState<InspectionKind | null>(null);
+
+  if (isLoading) return <div className="text-center text-muted-foreground animate-pulse py-6">{t('common.loading')}</div>;
+
+  return (
+    <>
+      <InspectionComparison inspections={inspections} onRecord={setRecording} />
+      <div className="mt-6">
+        {/* Remount when the return inspection changes so the panel picker starts on its new damage */}
+        <DamageCharges
+          key={inspections.find((i) => i.kind === 'return')?.updated_at}
+          bookingId={bookingId}
+          inspections={inspections}
+          onChanged={onChargesChanged}
+        />
+      </div>
+      <Dialog open={!!recording} onOpenChange={(v) => { if (!v) setRecording(null); }}>
+        <DialogContent className="max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{recording === 'return' ? t('inspection.returnTitle') : t('inspection.pickupTitle')}</DialogTitle>
+          </DialogHeader>
+          {recording && (
+            <InspectionForm
+              bookingId={bookingId}
+              kind={recording}
+              inspection={inspections.find((i) => i.kind === recording)}
+              onSaved={() => setRecording(null)}
+            />
+          )}
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
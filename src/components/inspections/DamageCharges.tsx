@@ -0,0 +1,132 @@
+import { useState } from 'react';
+import { Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useToast } from '@/hooks/use-toast';
+import { useLanguage } from '@/i18n/LanguageContext';
+import { useAddDamageCharge, useDamageCharges, useDeleteDamageCharge } from '@/hooks/use-damage-charges';
+import { conditionOf, damagePanels, newDamagePanels, type Inspection } from '@/data/inspections';
+
+const OTHER = 'other';
+
+interface DamageChargesProps {
+  bookingId: string;
+  inspections: Inspection[];
+  onChanged?: () => void;
+}
+
+/** Itemized charges for damage found at return, taken from the security deposit when it is settled. */
+export function DamageCharges({ bookingId, inspections, onChanged }: DamageChargesProps) {
+  const { t } = useLanguage();
+  const { toast } = useToast();
+  const { data: charges = [] } = useDamageCharges(bookingId);
+  const addCharge = useAddDamageCharge();
+  const deleteCharge = useDeleteDamageCharge(bookingId);
+  const dropoff = inspections.find((i) => i.kind === 'return');
+  const newDamage = newDamagePanels(inspections);
+  const [panel, setPanel] = useState(newDamage[0] || OTHER);
+  const [description, setDescription] = useState('');
+  const [amount, setAmount] = useState('');
+
+  const panelLabel = (value: string | null) => (value ? t(`inspection.panels.${value}`) : t('inspection.otherDamage'));
+  const total = charges.reduce((sum, charge) => sum + Number(charge.amount), 0);
+
+  // New damage is offered first, but any panel can be charged for
+  const panelOptions = [...newDamage, ...damagePanels.filter((p) => !newDamage.includes(p))];
+
+  const handleAdd = async () => {
+    const value = Number(amount);
+    if (!(value > 0) || !description.trim()) return;
+    try {
+      await addCharge.mutateAsync({
+        bookingId,
+        inspectionId: dropoff?.id ?? null,
+        panel: panel === OTHER ? null : panel,
+        description: description.trim(),
+        amount: value,
+      });
+      setDescription('');
+      setAmount('');
+      onChanged?.();
+    } catch (error) {
+      toast({ title: 'Error', description: (error as Error).message, variant: 'destructive' });
+    }
+  };
+
+  const handleDelete = async (id: string) => {
+    if (!confirm('Delete this damage charge?')) return;
+    try {
+      await deleteCharge.mutateAsync(id);
+      onChanged?.();
+    } catch (error) {
+      toast({ title: 'Error', description: (error as Error).message, variant: 'destructive' });
+    }
+  };
+
+  const selectPanel = (value: string) => {
+    setPanel(value);
+    if (!description && value !== OTHER && dropoff) {
+      const condition = conditionOf(dropoff, value);
+      if (condition !== 'ok') setDescription(t(`inspection.conditions.${condition}`));
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      <h4 className="text-sm font-semibold">{t('inspection.damageCharges')}</h4>
+
+      <div className="space-y-2">
+        {charges.map((charge) => (
+          <div key={charge.id} className="flex items-center justify-between gap-2 p-2 rounded-lg bg-muted/50 text-sm">
+            <div className="min-w-0">
+              <div className="font-medium">{panelLabel(charge.panel)} · ${Number(charge.amount).toLocaleString()}</div>
+              <div className="text-xs text-muted-foreground truncate">{charge.description} · {charge.created_by_name || '—'}</div>
+            </div>
+            <Button size="icon" variant="ghost" className="h-6 w-6 shrink-0" onClick={() => handleDelete(charge.id)}>
+              <Trash2 className="w-3 h-3" />
+            </Button>
+          </div>
+        ))}
+        {charges.length === 0 ? (
+          <p className="text-xs text-muted-foreground">{t('inspection.noCharges')}</p>
+        ) : (
+          <div className="flex justify-between text-sm font-medium px-2">
+            <span>{t('inspection.chargesTotal')}</span>
+            <span>${total.toLocaleString()}</span>
+          </div>
+        )}
+      </div>
+
+      {dropoff && (
+        <div className="space-y-2 p-3 rounded-lg border">
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-1">
+              <Label>{t('inspection.chargeFor')}</Label>
+              <Select value={panel} onValueChange={selectPanel}>
+                <SelectTrigger><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  {panelOptions.map((p) => (
+                    <SelectItem key={p} value={p}>
+                      {t(`inspection.panels.${p}`)}{newDamage.includes(p) ? ` · ${t('inspection.newDamage')}` : ''}
+                    </SelectItem>
+                  ))}
+                  <SelectItem value={OTHER}>{t('inspection.otherDamage')}</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1">
+              <Label>{t('inspection.chargeAmount')}</Label>
+              <Input type="number" min="0" step="0.01" value={amount} onChange={(e) => setAmount(e.target.value)} />
+            </div>
+          </div>
+          <Input placeholder={t('inspection.chargeDescription')} value={description} onChange={(e) => setDescription(e.target.value)} />
+          <Button size="sm" onClick={handleAdd} disabled={addCharge.isPending || !(Number(amount) > 0) || !description.trim()}>
+            {t('inspection.addCharge')}
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,93 @@
+import { format } from 'date-fns';
+import { Button } from '@/components/ui/button';
+import { useLanguage } from '@/i18n/LanguageContext';
+import { usePhotoUrls } from '@/hooks/use-inspections';
+import { conditionOf, damagePanels, fuelLabel, newDamagePanels, type Inspection, type InspectionKind } from '@/data/inspections';
+import { cn } from '@/lib/utils';
+
+interface InspectionComparisonProps {
+  inspections: Inspection[];
+  onRecord?: (kind: InspectionKind) => void;
+}
+
+/** Pickup and return inspections side by side, with damage that appeared during the rental highlighted. */
+export function InspectionComparison({ inspections, onRecord }: InspectionComparisonProps) {
+  const { t } = useLanguage();
+  const pickup = inspections.find((i) => i.kind === 'pickup');
+  const dropoff = inspections.find((i) => i.kind === 'return');
+  const { data: photoUrls = {} } = usePhotoUrls([...(pickup?.photos || []), ...(dropoff?.photos || [])]);
+
+  const newDamage = newDamagePanels(inspections);
+  const isNewDamage = (panel: string) => newDamage.includes(panel);
+
+  const column = (kind: InspectionKind, inspection: Inspection | undefined) => (
+    <div className="space-y-2 min-w-0">
+      <div className="flex items-center justify-between gap-2">
+        <h4 className="text-sm font-semibold">{t(`inspection.${kind}`)}</h4>
+        {onRecord && (
+          <Button size="sm" variant="ghost" className="h-6 text-xs" onClick={() => onRecord(kind)}>
+            {inspection ? 'Edit' : 'Record'}
+          </Button>
+        )}
+      </div>
+      {inspection ? (
+        <>
+          <div className="text-xs text-muted-foreground">
+            {format(new Date(inspection.updated_at), 'PPP p')} · {inspection.inspector_name || '—'}
+          </div>
+          <div className="text-sm">{inspection.odometer.toLocaleString()} km · {t('inspection.fuel')} {fuelLabel(inspection.fuel_level)}</div>
+          <div className="grid grid-cols-3 gap-1">
+            {inspection.photos.map((path) => (
+              <a key={path} href={photoUrls[path]} target="_blank" rel="noreferrer" className="aspect-square rounded overflow-hidden bg-muted">
+                {photoUrls[path] && <img src={photoUrls[path]} alt="" className="w-full h-full object-cover" />}
+              </a>
+            ))}
+          </div>
+          {inspection.notes && <p className="text-xs">“{inspection.notes}”</p>}
+        </>
+      ) : (
+        <p className="text-xs text-muted-foreground">{t('inspection.notRecorded')}</p>
+      )}
+    </div>
+  );
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-2 gap-4">
+        {column('pickup', pickup)}
+        {column('return', dropoff)}
+      </div>
+
+      {pickup && dropoff && (
+        <div className="grid grid-cols-2 gap-3 p-3 rounded-lg bg-muted/50 text-sm">
+          <div>
+            <div className="text-xs text-muted-foreground">{t('inspection.distance')}</div>
+            {(dropoff.odometer - pickup.odometer).toLocaleString()} km
+          </div>
+          <div>
+            <div className="text-xs text-muted-foreground">{t('inspection.fuelChange')}</div>
+            {fuelLabel(pickup.fuel_level)} → {fuelLabel(dropoff.fuel_level)}
+          </div>
+        </div>
+      )}
+
+      {(pickup || dropoff) && (
+        <div className="border rounded-lg divide-y text-xs">
+          {damagePanels.map((panel) => (
+            <div key={panel} className={cn('grid grid-cols-3 gap-2 px-3 py-1.5', isNewDamage(panel) && 'bg-destructive/10 text-destructive font-medium')}>
+              <span>{t(`inspection.panels.${panel}`)}</span>
+              <span>{pickup ? t(`inspection.conditions.${conditionOf(pickup, panel)}`) : '—'}</span>
+              <span>{dropoff ? t(`inspection.conditions.${conditionOf(dropoff, panel)}`) : '—'}</span>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {newDamage.length > 0 && (
+        <p className="text-sm text-destructive">
+          {t('inspection.newDamage')}: {newDamage.map((panel) => t(`inspection.panels.${panel}`)).join(', ')}
+        </p>
+      )}
+    </div>
+  );
+}
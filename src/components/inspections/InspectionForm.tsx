@@ -0,0 +1,149 @@
+import { useState } from 'react';
+import { Camera, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Slider } from '@/components/ui/slider';
+import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useLanguage } from '@/i18n/LanguageContext';
+import { useToast } from '@/hooks/use-toast';
+import { usePhotoUrls, useSaveInspection } from '@/hooks/use-inspections';
+import {
+  damageConditions,
+  damagePanels,
+  fuelLabel,
+  uploadInspectionPhoto,
+  type DamageCondition,
+  type Inspection,
+  type InspectionKind,
+} from '@/data/inspections';
+
+interface InspectionFormProps {
+  bookingId: string;
+  kind: InspectionKind;
+  inspection?: Inspection;
+  onSaved: () => void;
+}
+
+/** Odometer, fuel, per-panel damage and photos for one side of a rental. Shared by admins and drivers. */
+export function InspectionForm({ bookingId, kind, inspection, onSaved }: InspectionFormProps) {
+  const { t } = useLanguage();
+  const { toast } = useToast();
+  const save = useSaveInspection();
+  const [odometer, setOdometer] = useState(inspection ? String(inspection.odometer) : '');
+  const [fuelLevel, setFuelLevel] = useState(inspection?.fuel_level ?? 8);
+  const [damage, setDamage] = useState<Record<string, DamageCondition>>(
+    (inspection?.damage as Record<string, DamageCondition> | undefined) || {},
+  );
+  const [photos, setPhotos] = useState<string[]>(inspection?.photos || []);
+  const [notes, setNotes] = useState(inspection?.notes || '');
+  const [uploading, setUploading] = useState(false);
+  const { data: photoUrls = {} } = usePhotoUrls(photos);
+
+  const handleFiles = async (files: FileList | null) => {
+    if (!files?.length) return;
+    setUploading(true);
+    try {
+      const images = Array.from(files).filter((file) => file.type.startsWith('image/'));
+      const paths = await Promise.all(images.map((file) => uploadInspectionPhoto(bookingId, kind, file)));
+      setPhotos((prev) => [...prev, ...paths]);
+    } catch (error) {
+      toast({ title: 'Upload failed', description: (error as Error).message, variant: 'destructive' });
+    } finally {
+      setUploading(false);
+    }
+  };
+
+  const handleSave = () => {
+    const km = parseInt(odometer);
+    if (isNaN(km) || km < 0) {
+      toast({ title: 'Error', description: t('inspection.odometer'), variant: 'destructive' });
+      return;
+    }
+    save.mutate(
+      { bookingId, kind, odometer: km, fuelLevel, damage, photos, notes },
+      {
+        onSuccess: () => {
+          toast({ title: t('inspection.saved') });
+          onSaved();
+        },
+        onError: (error) => toast({ title: 'Error', description: error.message, variant: 'destructive' }),
+      },
+    );
+  };
+
+  return (
+    <div className="space-y-5">
+      <div className="grid grid-cols-2 gap-4">
+        <div>
+          <Label>{t('inspection.odometer')}</Label>
+          <Input type="number" inputMode="numeric" min={0} value={odometer} onChange={(e) => setOdometer(e.target.value)} />
+        </div>
+        <div>
+          <Label>{t('inspection.fuel')}: <span className="font-semibold">{fuelLabel(fuelLevel)}</span></Label>
+          <Slider className="mt-4" min={0} max={8} step={1} value={[fuelLevel]} onValueChange={([v]) => setFuelLevel(v)} />
+        </div>
+      </div>
+
+      <div>
+        <Label>{t('inspection.damage')}</Label>
+        <div className="grid sm:grid-cols-2 gap-2 mt-2">
+          {damagePanels.map((panel) => (
+            <div key={panel} className="flex items-center justify-between gap-2 text-sm">
+              <span>{t(`inspection.panels.${panel}`)}</span>
+              <Select value={damage[panel] || 'ok'} onValueChange={(v) => setDamage({ ...damage, [panel]: v as DamageCondition })}>
+                <SelectTrigger className={`h-8 w-28 text-xs ${damage[panel] && damage[panel] !== 'ok' ? 'text-destructive' : ''}`}>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {damageConditions.map((c) => <SelectItem key={c} value={c}>{t(`inspection.conditions.${c}`)}</SelectItem>)}
+                </SelectContent>
+              </Select>
+            </div>
+          ))}
+        </div>
+      </div>
+
+      <div>
+        <Label>{t('inspection.photos')}</Label>
+        <div className="grid grid-cols-3 gap-2 mt-2">
+          {photos.map((path) => (
+            <div key={path} className="relative aspect-square rounded-lg overflow-hidden bg-muted">
+              {photoUrls[path] && <img src={photoUrls[path]} alt="" className="w-full h-full object-cover" />}
+              <button
+                type="button"
+                className="absolute top-1 right-1 p-1 rounded-full bg-background/80"
+                onClick={() => setPhotos(photos.filter((p) => p !== path))}
+              >
+                <X className="w-3 h-3" />
+              </button>
+            </div>
+          ))}
+          <label className="aspect-square rounded-lg border-2 border-dashed border-border flex flex-col items-center justify-center gap-1 text-xs text-muted-foreground cursor-pointer">
+            <Camera className="w-5 h-5" />
+            {uploading ? t('inspection.uploading') : t('inspection.addPhotos')}
+            <input
+              type="file"
+              accept="image/*"
+              capture="environment"
+              multiple
+              className="hidden"
+              disabled={uploading}
+              onChange={(e) => { handleFiles(e.target.files); e.target.value = ''; }}
+            />
+          </label>
+        </div>
+      </div>
+
+      <div>
+        <Label>{t('inspection.notes')}</Label>
+        <Textarea value={notes} onChange={(e) => setNotes(e.target.value)} rows={2} />
+      </div>
+
+      <Button onClick={handleSave} disabled={save.isPending || uploading || !odometer} className="w-full">
+        {t('inspection.save')}
+      </Button>
+    </div>
+  );
+}
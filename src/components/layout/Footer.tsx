@@ -1,6 +1,7 @@
 import { Link } from 'react-router-dom';
 import { Car, Phone, Mail, MapPin, Clock, Facebook, Twitter, Instagram, Youtube } from 'lucide-react';
 import { useLanguage } from '@/i18n/LanguageContext';
+import { company } from '@/data/company';
 
 export function Footer() {
   const { t } = useLanguage();
@@ -9,6 +10,7 @@ export function Footer() {
     { to: '/', label: t('nav.home') },
     { to: '/cars', label: t('nav.cars') },
     { to: '/booking', label: t('nav.booking') },
+    { to: '/track', label: t('nav.trackBooking') },
     { to: '/contact', label: t('contact.title') },
   ];
 
@@ -82,15 +84,15 @@ export function Footer() {
               <ul className="space-y-3">
                 <li className="flex items-start gap-3 text-sm text-muted-foreground">
                   <Phone className="w-4 h-4 mt-0.5 text-accent shrink-0" />
-                  <span>+250 788 000 000</span>
+                  <span>{company.phone}</span>
                 </li>
                 <li className="flex items-start gap-3 text-sm text-muted-foreground">
                   <Mail className="w-4 h-4 mt-0.5 text-accent shrink-0" />
-                  <span>info@smartmove.rw</span>
+                  <span>{company.email}</span>
                 </li>
                 <li className="flex items-start gap-3 text-sm text-muted-foreground">
                   <MapPin className="w-4 h-4 mt-0.5 text-accent shrink-0" />
-                  <span>KG 11 Ave, Kigali, Rwanda</span>
+                  <span>{company.address}</span>
                 </li>
               </ul>
             </div>
@@ -124,7 +126,7 @@ export function Footer() {
           {/* Divider */}
           <div className="mt-10 pt-6 border-t border-border/40 flex flex-col sm:flex-row items-center justify-between gap-4">
             <p className="text-xs text-muted-foreground text-center sm:text-left">
-              © {new Date().getFullYear()} Smart Move Transport. All rights reserved.
+              © {new Date().getFullYear()} {company.name}. All rights reserved.
             </p>
             <div className="flex items-center gap-4 text-xs text-muted-foreground">
               <Link to="#" className="hover:text-accent transition-smooth">Privacy Policy</Link>
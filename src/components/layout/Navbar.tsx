@@ -1,6 +1,6 @@
 import { useState } from 'react';
 import { Link, useLocation, useNavigate } from 'react-router-dom';
-import { Menu, X, Sun, Moon, Globe, Car, Shield } from 'lucide-react';
+import { Menu, X, Sun, Moon, Globe, Car, Shield, CalendarCheck } from 'lucide-react';
 import { motion, AnimatePresence } from 'framer-motion';
 import { Button } from '@/components/ui/button';
 import { useLanguage } from '@/i18n/LanguageContext';
@@ -84,6 +84,11 @@ export function Navbar() {
             {/* Auth Buttons */}
             {user ? (
               <>
+                <Link to="/my-bookings">
+                  <Button variant="ghost" size="sm" className="gap-1">
+                    <CalendarCheck className="w-4 h-4" /> {t('nav.myBookings')}
+                  </Button>
+                </Link>
                 {isAdmin && (
                   <Link to="/admin">
                     <Button variant="ghost" size="sm" className="gap-1">
@@ -169,6 +174,9 @@ export function Navbar() {
               <div className="flex gap-3 pt-2">
                 {user ? (
                   <>
+                    <Link to="/my-bookings" className="flex-1" onClick={() => setIsOpen(false)}>
+                      <Button variant="outline" className="w-full gap-1"><CalendarCheck className="w-4 h-4" /> {t('nav.myBookings')}</Button>
+                    </Link>
                     {isAdmin && (
                       <Link to="/admin" className="flex-1" onClick={() => setIsOpen(false)}>
                         <Button variant="outline" className="w-full gap-1"><Shield className="w-4 h-4" /> Admin</Button>
@@ -0,0 +1,103 @@
+import { useEffect, useRef } from 'react';
+import { AlertCircle, Check, Clock, Loader2, RotateCw, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { useLanguage } from '@/i18n/LanguageContext';
+import { useToast } from '@/hooks/use-toast';
+import { useBookingOutbox } from '@/hooks/use-booking-outbox';
+import { useOnlineStatus } from '@/components/offline/OfflineBanner';
+import { flushOutbox, migrateLegacyQueue, removeOutboxItem, retryOutboxItem, type OutboxStatus } from '@/data/booking-outbox';
+import { cn } from '@/lib/utils';
+
+const RETRY_INTERVAL_MS = 30 * 1000;
+
+/** Sends queued bookings whenever the app is online, retrying on an interval, and reports the outcome. */
+export function BookingOutboxSync() {
+  const isOnline = useOnlineStatus();
+  const { t } = useLanguage();
+  const { toast } = useToast();
+  // The translator changes identity on every render; read the latest one without restarting the timer
+  const tRef = useRef(t);
+  tRef.current = t;
+  // Report a broken sync once, not on every retry
+  const lastSyncError = useRef<string | null>(null);
+
+  useEffect(() => {
+    if (!isOnline) return;
+    const sync = () =>
+      migrateLegacyQueue()
+        .then(flushOutbox)
+        .then((settled) => {
+          lastSyncError.current = null;
+          settled.forEach((item) => {
+            if (item.status === 'synced') {
+              toast({ title: tRef.current('offline.syncedToast'), description: [item.reference, item.summary.carName, `${item.summary.date} ${item.summary.time}`].filter(Boolean).join(' · ') });
+            } else {
+              toast({ title: tRef.current('offline.failedToast'), description: item.lastError || undefined, variant: 'destructive' });
+            }
+          });
+        })
+        .catch((error: Error) => {
+          if (lastSyncError.current === error.message) return;
+          lastSyncError.current = error.message;
+          toast({ title: tRef.current('offline.syncErrorToast'), description: error.message, variant: 'destructive' });
+        });
+    sync();
+    const timer = window.setInterval(sync, RETRY_INTERVAL_MS);
+    return () => window.clearInterval(timer);
+  }, [isOnline, toast]);
+
+  return null;
+}
+
+const statusIcons: Record<OutboxStatus, JSX.Element> = {
+  pending: <Clock className="w-4 h-4 text-muted-foreground" />,
+  syncing: <Loader2 className="w-4 h-4 animate-spin text-accent" />,
+  synced: <Check className="w-4 h-4 text-green-600" />,
+  failed: <AlertCircle className="w-4 h-4 text-destructive" />,
+};
+
+const statusKeys: Record<OutboxStatus, string> = {
+  pending: 'offline.statusPending',
+  syncing: 'offline.statusSyncing',
+  synced: 'offline.statusSynced',
+  failed: 'offline.statusFailed',
+};
+
+/** Bookings placed on this device that went through the outbox, with their sync status. */
+export function BookingOutboxList({ className }: { className?: string }) {
+  const items = useBookingOutbox();
+  const { t } = useLanguage();
+
+  if (items.length === 0) return null;
+
+  return (
+    <div className={cn('glass rounded-2xl p-4 space-y-3', className)}>
+      <h2 className="text-sm font-semibold">{t('offline.outboxTitle')}</h2>
+      {items.map((item) => (
+        <div key={item.id} className="flex items-start justify-between gap-3 text-sm">
+          <div className="flex items-start gap-2 min-w-0">
+            <span className="mt-0.5">{statusIcons[item.status]}</span>
+            <div className="min-w-0">
+              <div className="font-medium truncate">{item.summary.carName || item.payload.client_name} · {item.summary.date} {item.summary.time}</div>
+              <div className={cn('text-xs', item.status === 'failed' ? 'text-destructive' : 'text-muted-foreground')}>
+                {t(statusKeys[item.status])}{item.reference && ` · ${item.reference}`}{item.lastError && ` — ${item.lastError}`}
+              </div>
+            </div>
+          </div>
+          <div className="flex gap-1 shrink-0">
+            {item.status === 'failed' && (
+              <Button variant="ghost" size="icon" className="h-7 w-7" title={t('offline.retry')} onClick={() => retryOutboxItem(item).then(flushOutbox)}>
+                <RotateCw className="w-3.5 h-3.5" />
+              </Button>
+            )}
+            {(item.status === 'synced' || item.status === 'failed') && (
+              <Button variant="ghost" size="icon" className="h-7 w-7" title={t('offline.dismiss')} onClick={() => removeOutboxItem(item.id)}>
+                <X className="w-3.5 h-3.5" />
+              </Button>
+            )}
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -6,8 +6,9 @@ interface AuthContextType {
   user: User | null;
   session: Session | null;
   isAdmin: boolean;
+  isDriver: boolean;
   loading: boolean;
-  signIn: (email: string, password: string) => Promise<{ error: any }>;
+  signIn: (email: string, password: string) => Promise<{ error: any; isAdmin?: boolean; isDriver?: boolean }>;
   signUp: (email: string, password: string, fullName: string) => Promise<{ error: any }>;
   signOut: () => Promise<void>;
 }
@@ -18,20 +19,22 @@ export function AuthProvider({ children }: { children: ReactNode }) {
   const [user, setUser] = useState<User | null>(null);
   const [session, setSession] = useState<Session | null>(null);
   const [isAdmin, setIsAdmin] = useState(false);
+  const [isDriver, setIsDriver] = useState(false);
   const [loading, setLoading] = useState(true);
 
-  const checkAdmin = async (userId: string): Promise<boolean> => {
+  const checkRoles = async (userId: string): Promise<{ admin: boolean; driver: boolean }> => {
     try {
-      const { data } = await supabase.rpc('has_role', {
-        _user_id: userId,
-        _role: 'admin',
-      });
-      const admin = !!data;
-      setIsAdmin(admin);
-      return admin;
+      const [{ data: admin }, { data: driver }] = await Promise.all([
+        supabase.rpc('has_role', { _user_id: userId, _role: 'admin' }),
+        supabase.rpc('has_role', { _user_id: userId, _role: 'driver' }),
+      ]);
+      setIsAdmin(!!admin);
+      setIsDriver(!!driver);
+      return { admin: !!admin, driver: !!driver };
     } catch {
       setIsAdmin(false);
-      return false;
+      setIsDriver(false);
+      return { admin: false, driver: false };
     }
   };
 
@@ -45,14 +48,15 @@ export function AuthProvider({ children }: { children: ReactNode }) {
         setSession(session);
         setUser(session?.user ?? null);
         if (session?.user) {
-          setTimeout(() => checkAdmin(session.user.id), 0);
+          setTimeout(() => checkRoles(session.user.id), 0);
         } else {
           setIsAdmin(false);
+          setIsDriver(false);
         }
       }
     );
 
-    // Initial load - wait for admin check before setting loading false
+    // Initial load - wait for role check before setting loading false
     const initializeAuth = async () => {
       try {
         const { data: { session } } = await supabase.auth.getSession();
@@ -60,7 +64,7 @@ export function AuthProvider({ children }: { children: ReactNode }) {
         setSession(session);
         setUser(session?.user ?? null);
         if (session?.user) {
-          await checkAdmin(session.user.id);
+          await checkRoles(session.user.id);
         }
       } finally {
         if (isMounted) setLoading(false);
@@ -78,7 +82,8 @@ export function AuthProvider({ children }: { children: ReactNode }) {
   const signIn = async (email: string, password: string) => {
     const { data, error } = await supabase.auth.signInWithPassword({ email, password });
     if (!error && data.session?.user) {
-      await checkAdmin(data.session.user.id);
+      const roles = await checkRoles(data.session.user.id);
+      return { error, isAdmin: roles.admin, isDriver: roles.driver };
     }
     return { error };
   };
@@ -98,10 +103,11 @@ export function AuthProvider({ children }: { children: ReactNode }) {
   const signOut = async () => {
     await supabase.auth.signOut();
     setIsAdmin(false);
+    setIsDriver(false);
   };
 
   return (
-    <AuthContext.Provider value={{ user, session, isAdmin, loading, signIn, signUp, signOut }}>
+    <AuthContext.Provider value={{ user, session, isAdmin, isDriver, loading, signIn, signUp, signOut }}>
       {children}
     </AuthContext.Provider>
   );
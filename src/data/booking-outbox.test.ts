@@ -0,0 +1,121 @@
+import 'fake-indexeddb/auto';
+import { IDBFactory } from 'fake-indexeddb';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { enqueueBooking, flushOutbox, isRetryableError, listOutbox, type BookingPayload } from '@/data/booking-outbox';
+
+const { upsert, fetchBookingReference } = vi.hoisted(() => ({
+  upsert: vi.fn(),
+  fetchBookingReference: vi.fn(),
+}));
+
+vi.mock('@/integrations/supabase/client', () => ({
+  supabase: { from: () => ({ upsert }) },
+}));
+
+vi.mock('@/data/bookings', () => ({ fetchBookingReference }));
+
+const summary = { carName: 'Toyota RAV4', date: '2026-05-01', time: '09:00' };
+
+const queue = (id: string) =>
+  enqueueBooking({ client_request_id: id, client_name: 'Aline', pickup_location: 'Airport' } as BookingPayload, summary);
+
+describe('isRetryableError', () => {
+  it('retries network failures, which carry no Postgres code', () => {
+    expect(isRetryableError({})).toBe(true);
+  });
+
+  it('retries connection errors and statement timeouts', () => {
+    expect(isRetryableError({ code: '08006' })).toBe(true);
+    expect(isRetryableError({ code: '57014' })).toBe(true);
+  });
+
+  it('does not retry bookings the database rejected', () => {
+    expect(isRetryableError({ code: '23P01' })).toBe(false);
+    expect(isRetryableError({ code: 'P0001' })).toBe(false);
+  });
+});
+
+describe('flushOutbox', () => {
+  beforeEach(() => {
+    globalThis.indexedDB = new IDBFactory();
+    upsert.mockReset();
+    fetchBookingReference.mockReset();
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('marks a booking synced with its reference once it is inserted', async () => {
+    await queue('a');
+    upsert.mockResolvedValue({ error: null });
+    fetchBookingReference.mockResolvedValue('SM-1001');
+
+    const settled = await flushOutbox();
+
+    expect(settled).toMatchObject([{ id: 'a', status: 'synced', reference: 'SM-1001', attempts: 1, lastError: null }]);
+    expect(await listOutbox()).toMatchObject([{ id: 'a', status: 'synced' }]);
+  });
+
+  it('keeps the booking queued when the network fails', async () => {
+    await queue('a');
+    upsert.mockResolvedValue({ error: { message: 'Failed to fetch' } });
+
+    expect(await flushOutbox()).toEqual([]);
+    expect(await listOutbox()).toMatchObject([{ id: 'a', status: 'pending', attempts: 1, lastError: 'Failed to fetch' }]);
+  });
+
+  it('keeps the booking queued when the request throws', async () => {
+    await queue('a');
+    upsert.mockRejectedValue(new Error('Network request failed'));
+
+    expect(await flushOutbox()).toEqual([]);
+    expect(await listOutbox()).toMatchObject([{ id: 'a', status: 'pending', lastError: 'Network request failed' }]);
+  });
+
+  it('fails a booking the database rejected when it never reached the server', async () => {
+    await queue('a');
+    upsert.mockResolvedValue({ error: { code: '23P01', message: 'Slot taken' } });
+    fetchBookingReference.mockResolvedValue(null);
+
+    expect(await flushOutbox()).toMatchObject([{ id: 'a', status: 'failed', lastError: 'Slot taken' }]);
+    expect(fetchBookingReference).toHaveBeenCalledWith('a');
+  });
+
+  it('treats a rejected retry as synced when an earlier attempt already created the booking', async () => {
+    await queue('a');
+    upsert.mockResolvedValue({ error: { code: 'P0001', message: 'Car is in maintenance' } });
+    fetchBookingReference.mockResolvedValue('SM-1002');
+
+    expect(await flushOutbox()).toMatchObject([{ id: 'a', status: 'synced', reference: 'SM-1002', lastError: null }]);
+  });
+
+  it('leaves synced and failed items alone', async () => {
+    await queue('a');
+    upsert.mockResolvedValue({ error: null });
+    fetchBookingReference.mockResolvedValue('SM-1001');
+    await flushOutbox();
+
+    expect(await flushOutbox()).toEqual([]);
+    expect(upsert).toHaveBeenCalledTimes(1);
+  });
+
+  it('sends nothing while offline', async () => {
+    await queue('a');
+    vi.spyOn(navigator, 'onLine', 'get').mockReturnValue(false);
+
+    expect(await flushOutbox()).toEqual([]);
+    expect(upsert).not.toHaveBeenCalled();
+  });
+
+  it('shares one pass between concurrent callers', async () => {
+    await queue('a');
+    upsert.mockResolvedValue({ error: null });
+    fetchBookingReference.mockResolvedValue('SM-1001');
+
+    const [first, second] = await Promise.all([flushOutbox(), flushOutbox()]);
+
+    expect(first).toBe(second);
+    expect(upsert).toHaveBeenCalledTimes(1);
+  });
+});
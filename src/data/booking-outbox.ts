@@ -0,0 +1,177 @@
+import { supabase } from '@/integrations/supabase/client';
+import type { TablesInsert } from '@/integrations/supabase/types';
+import { fetchBookingReference } from '@/data/bookings';
+
+export type BookingPayload = TablesInsert<'bookings'> & { client_request_id: string };
+
+export type OutboxStatus = 'pending' | 'syncing' | 'synced' | 'failed';
+
+/** A booking waiting to reach Supabase. Items are only removed when the customer dismisses them. */
+export interface OutboxItem {
+  id: string;
+  payload: BookingPayload;
+  summary: { carName: string; date: string; time: string };
+  status: OutboxStatus;
+  attempts: number;
+  lastError: string | null;
+  /** Set once the booking is on the server. */
+  reference?: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+const DB_NAME = 'smart-move';
+const STORE = 'bookingOutbox';
+const CHANGE_EVENT = 'booking-outbox-change';
+const LEGACY_KEY = 'pendingBookings';
+
+function openDb(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, 1);
+    request.onupgradeneeded = () => request.result.createObjectStore(STORE, { keyPath: 'id' });
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+async function withStore<T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+  const db = await openDb();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(STORE, mode);
+    const request = run(tx.objectStore(STORE));
+    tx.oncomplete = () => { db.close(); resolve(request.result); };
+    tx.onerror = () => { db.close(); reject(tx.error); };
+  });
+}
+
+function notify() {
+  window.dispatchEvent(new Event(CHANGE_EVENT));
+}
+
+async function putItem(item: OutboxItem) {
+  await withStore('readwrite', (store) => store.put(item));
+  notify();
+}
+
+export function subscribeToOutbox(listener: () => void): () => void {
+  window.addEventListener(CHANGE_EVENT, listener);
+  return () => window.removeEventListener(CHANGE_EVENT, listener);
+}
+
+export async function listOutbox(): Promise<OutboxItem[]> {
+  const items = await withStore<OutboxItem[]>('readonly', (store) => store.getAll());
+  return items.sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+}
+
+export async function enqueueBooking(payload: BookingPayload, summary: OutboxItem['summary']): Promise<OutboxItem> {
+  const now = new Date().toISOString();
+  const item: OutboxItem = {
+    id: payload.client_request_id,
+    payload,
+    summary,
+    status: 'pending',
+    attempts: 0,
+    lastError: null,
+    createdAt: now,
+    updatedAt: now,
+  };
+  await putItem(item);
+  return item;
+}
+
+export async function removeOutboxItem(id: string) {
+  await withStore('readwrite', (store) => store.delete(id));
+  notify();
+}
+
+/** Puts a failed item back in the queue, e.g. after the customer asks to try again. */
+export async function retryOutboxItem(item: OutboxItem) {
+  await putItem({ ...item, status: 'pending', lastError: null, updatedAt: new Date().toISOString() });
+}
+
+// Network failures come back without a Postgres error code; anything with a code was rejected by
+// the database (slot taken, invalid promo code, ...) and will fail the same way if retried.
+export function isRetryableError(error: { code?: string }): boolean {
+  return !error.code || error.code.startsWith('08') || error.code === '57014';
+}
+
+/**
+ * Inserts one booking. The idempotency key makes this safe to repeat: if an earlier attempt
+ * reached the server, the duplicate is ignored rather than creating a second booking.
+ */
+export async function submitBooking(payload: BookingPayload) {
+  return supabase.from('bookings').upsert(payload, { onConflict: 'client_request_id', ignoreDuplicates: true });
+}
+
+let flushing: Promise<OutboxItem[]> | null = null;
+
+/**
+ * Sends one item and works out where it ended up. A rejected retry is checked against the server
+ * first: if an earlier attempt already created the booking, triggers such as the maintenance block
+ * can still reject the repeat, but the booking exists and the item is synced.
+ */
+async function sendItem(item: OutboxItem): Promise<OutboxItem> {
+  try {
+    const { error } = await submitBooking(item.payload);
+    if (!error) {
+      return { ...item, status: 'synced', lastError: null, reference: await fetchBookingReference(item.id).catch(() => null) };
+    }
+    if (isRetryableError(error)) return { ...item, status: 'pending', lastError: error.message };
+    const reference = await fetchBookingReference(item.id);
+    return reference
+      ? { ...item, status: 'synced', lastError: null, reference }
+      : { ...item, status: 'failed', lastError: error.message };
+  } catch (error) {
+    // Thrown rather than returned, e.g. the connection dropped mid-request: try again later
+    return { ...item, status: 'pending', lastError: (error as Error).message };
+  }
+}
+
+/**
+ * Sends every pending item and resolves with the ones that reached a final state. Runs one pass at
+ * a time; concurrent callers share the same pass. Items left `syncing` by a closed tab are resent.
+ */
+export function flushOutbox(): Promise<OutboxItem[]> {
+  if (!flushing) {
+    flushing = (async () => {
+      const settled: OutboxItem[] = [];
+      for (const item of await listOutbox()) {
+        if (item.status === 'synced' || item.status === 'failed' || !navigator.onLine) continue;
+        await putItem({ ...item, status: 'syncing', attempts: item.attempts + 1, updatedAt: new Date().toISOString() });
+        const next = await sendItem(item);
+        next.attempts = item.attempts + 1;
+        next.updatedAt = new Date().toISOString();
+        await putItem(next);
+        if (next.status !== 'pending') settled.push(next);
+      }
+      return settled;
+    })().finally(() => { flushing = null; });
+  }
+  return flushing;
+}
+
+let migrating: Promise<void> | null = null;
+
+/** Moves bookings saved by the old localStorage queue into the outbox so they are not lost. */
+export function migrateLegacyQueue(): Promise<void> {
+  if (!migrating) migrating = moveLegacyItems();
+  return migrating;
+}
+
+async function moveLegacyItems() {
+  let legacy: (TablesInsert<'bookings'> & { createdAt?: string })[] = [];
+  try {
+    legacy = JSON.parse(localStorage.getItem(LEGACY_KEY) || '[]');
+  } catch {
+    return;
+  }
+  if (!legacy.length) return;
+  for (const { createdAt, ...payload } of legacy) {
+    const item = await enqueueBooking(
+      { ...payload, client_request_id: crypto.randomUUID() },
+      { carName: '', date: payload.booking_date, time: payload.booking_time || '' },
+    );
+    if (createdAt) await putItem({ ...item, createdAt });
+  }
+  localStorage.removeItem(LEGACY_KEY);
+}
@@ -0,0 +1,152 @@
+import { addHours } from 'date-fns';
+import { supabase } from '@/integrations/supabase/client';
+import type { Database, Tables } from '@/integrations/supabase/types';
+
+export interface BusySlot {
+  start: Date;
+  end: Date;
+}
+
+// Postgres exclusion_violation, raised by the bookings_no_overlap constraint
+const OVERLAP_ERROR_CODE = '23P01';
+
+/** Admin action labels, keyed by the status the action moves a booking to. */
+export const statusActions: Record<string, { label: string; className?: string }> = {
+  approved: { label: 'Approve', className: 'text-green-600' },
+  rejected: { label: 'Reject', className: 'text-destructive' },
+  in_progress: { label: 'Start rental' },
+  completed: { label: 'Complete' },
+  cancelled: { label: 'Cancel', className: 'text-destructive' },
+};
+
+/** Allowed next statuses for each status, from the `booking_status_transitions` table. */
+export async function fetchStatusTransitions(): Promise<Record<string, string[]>> {
+  const { data, error } = await supabase.from('booking_status_transitions').select('from_status, to_status');
+  if (error) throw error;
+  const transitions: Record<string, string[]> = {};
+  data.forEach(({ from_status, to_status }) => {
+    transitions[from_status] = [...(transitions[from_status] || []), to_status];
+  });
+  return transitions;
+}
+
+export function isOverlapError(error: { code?: string } | null | undefined): boolean {
+  return error?.code === OVERLAP_ERROR_CODE;
+}
+
+// Rwanda stays on UTC+2 all year, so this matches the database's Africa/Kigali conversions
+const KIGALI_UTC_OFFSET_HOURS = 2;
+
+/** The instant of an "HH:mm" Kigali wall-clock time on the calendar day of `date`, whatever the browser's zone. */
+export function kigaliDateTime(date: Date, time: string): Date {
+  const [hours, minutes] = time.split(':').map(Number);
+  return new Date(Date.UTC(date.getFullYear(), date.getMonth(), date.getDate(), (hours || 0) - KIGALI_UTC_OFFSET_HOURS, minutes || 0));
+}
+
+/** "yyyy-MM-dd" and "HH:mm" of an instant on the Kigali wall clock, for prefilling date and time inputs. */
+export function kigaliDateAndTime(instant: string | Date): { date: string; time: string } {
+  const shifted = addHours(new Date(instant), KIGALI_UTC_OFFSET_HOURS).toISOString();
+  return { date: shifted.slice(0, 10), time: shifted.slice(11, 16) };
+}
+
+/** Combines the wizard's date and "HH:mm" Kigali time into the booked [start, end) range. */
+export function bookingRange(date: Date, time: string, durationHours: number): BusySlot {
+  const start = kigaliDateTime(date, time);
+  return { start, end: addHours(start, Math.max(durationHours, 1)) };
+}
+
+export function overlapsAny(range: BusySlot, busy: BusySlot[]): boolean {
+  return busy.some((slot) => range.start < slot.end && slot.start < range.end);
+}
+
+/** Pending and approved bookings for a car that intersect [from, to). */
+export async function fetchCarAvailability(carId: string, from: Date, to: Date): Promise<BusySlot[]> {
+  const { data, error } = await supabase.rpc('get_car_availability', {
+    _car_id: carId,
+    _from: from.toISOString(),
+    _to: to.toISOString(),
+  });
+  if (error) throw error;
+  return (data || []).map((slot) => ({ start: new Date(slot.starts_at), end: new Date(slot.ends_at) }));
+}
+
+export type BookingConflict = Pick<Tables<'bookings'>, 'id' | 'reference' | 'client_name' | 'starts_at' | 'ends_at'>;
+
+/** Other pending, approved or running bookings holding the car or driver during [start, end). Admin only. */
+export async function fetchConflictingBookings(
+  column: 'car_id' | 'driver_id',
+  id: string,
+  range: BusySlot,
+  excludeBookingId?: string,
+): Promise<BookingConflict[]> {
+  let query = supabase
+    .from('bookings')
+    .select('id, reference, client_name, starts_at, ends_at')
+    .eq(column, id)
+    .in('status', ['pending', 'approved', 'in_progress'])
+    .lt('starts_at', range.end.toISOString())
+    .gt('ends_at', range.start.toISOString());
+  if (excludeBookingId) query = query.neq('id', excludeBookingId);
+  const { data, error } = await query;
+  if (error) throw error;
+  return data;
+}
+
+export type ChangeRequest = Tables<'booking_change_requests'>;
+
+export type MyBooking = Tables<'bookings'> & {
+  cars: Pick<Tables<'cars'>, 'name' | 'image'> | null;
+  booking_change_requests: ChangeRequest[];
+};
+
+/** The signed-in customer's bookings (RLS limits the rows to their own), newest pickup first. */
+export async function fetchMyBookings(userId: string): Promise<MyBooking[]> {
+  const { data, error } = await supabase
+    .from('bookings')
+    .select('*, cars(name, image), booking_change_requests(*)')
+    .eq('user_id', userId)
+    .order('starts_at', { ascending: false });
+  if (error) throw error;
+  return data as MyBooking[];
+}
+
+/** Hours before pickup after which customers can no longer ask for changes. */
+export async function fetchChangeCutoffHours(): Promise<number> {
+  const { data, error } = await supabase.from('app_settings').select('value').eq('key', 'change_cutoff_hours').maybeSingle();
+  if (error) throw error;
+  return Number(data?.value ?? 0);
+}
+
+export interface ChangeRequestInput {
+  bookingId: string;
+  kind: 'cancel' | 'reschedule';
+  startsAt?: string;
+  reason?: string;
+}
+
+export async function requestBookingChange({ bookingId, kind, startsAt, reason }: ChangeRequestInput): Promise<ChangeRequest> {
+  const { data, error } = await supabase.rpc('request_booking_change', {
+    _booking_id: bookingId,
+    _kind: kind,
+    _starts_at: startsAt,
+    _reason: reason,
+  });
+  if (error) throw error;
+  return data;
+}
+
+/** Reference of a booking placed from this device, found by its idempotency key. */
+export async function fetchBookingReference(clientRequestId: string): Promise<string | null> {
+  const { data, error } = await supabase.rpc('booking_reference', { _client_request_id: clientRequestId });
+  if (error) throw error;
+  return data;
+}
+
+export type BookingLookup = Database['public']['Functions']['lookup_booking']['Returns'][number];
+
+/** Public status check for guests. Resolves to null when the reference and phone do not match. */
+export async function lookupBooking(reference: string, phone: string): Promise<BookingLookup | null> {
+  const { data, error } = await supabase.rpc('lookup_booking', { _reference: reference, _phone: phone });
+  if (error) throw error;
+  return data?.[0] ?? null;
+}
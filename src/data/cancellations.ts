@@ -0,0 +1,92 @@
+import { supabase } from '@/integrations/supabase/client';
+import type { Tables } from '@/integrations/supabase/types';
+
+export type CancellationTier = Pick<Tables<'cancellation_policy_tiers'>, 'hours_before' | 'fee_percent'>;
+
+export type CancellationPolicy = Tables<'cancellation_policies'> & {
+  cancellation_policy_tiers: CancellationTier[];
+};
+
+/** What cancelling a booking now costs, from the `cancellation_quote` function. */
+export interface CancellationQuote {
+  policy_id: string | null;
+  policy_name: string | null;
+  notice_hours: number;
+  fee_percent: number;
+  fee: number;
+  collected: number;
+  refund: number;
+}
+
+/** Tiers ordered from the longest notice to the shortest, the order they are checked in. */
+export function sortTiers(tiers: CancellationTier[]): CancellationTier[] {
+  return [...tiers].sort((a, b) => b.hours_before - a.hours_before);
+}
+
+const feeLabel = (percent: number) => (Number(percent) === 0 ? 'free' : `${percent}% fee`);
+
+/** One-line summary such as "24h+ before: free · 0h+ before: 50% fee · after pickup: 100% fee". */
+export function describePolicy(policy: Pick<CancellationPolicy, 'cancellation_policy_tiers' | 'after_pickup_fee_percent'>): string {
+  return [
+    ...sortTiers(policy.cancellation_policy_tiers).map((tier) =>
+      tier.hours_before === 0 ? `before pickup: ${feeLabel(tier.fee_percent)}` : `${tier.hours_before}h+ before: ${feeLabel(tier.fee_percent)}`,
+    ),
+    `after pickup: ${feeLabel(policy.after_pickup_fee_percent)}`,
+  ].join(' · ');
+}
+
+export async function fetchCancellationPolicies(): Promise<CancellationPolicy[]> {
+  const { data, error } = await supabase
+    .from('cancellation_policies')
+    .select('*, cancellation_policy_tiers(hours_before, fee_percent)')
+    .order('is_default', { ascending: false })
+    .order('name');
+  if (error) throw error;
+  return data;
+}
+
+export interface CancellationPolicyInput {
+  name: string;
+  description: string | null;
+  after_pickup_fee_percent: number;
+  car_types: string[] | null;
+  is_default: boolean;
+  tiers: CancellationTier[];
+}
+
+/** Creates or updates a policy and replaces its tiers. */
+export async function saveCancellationPolicy(id: string | null, { tiers, ...fields }: CancellationPolicyInput): Promise<void> {
+  // Only one policy can be the default, so clear the old one first
+  if (fields.is_default) {
+    let query = supabase.from('cancellation_policies').update({ is_default: false }).eq('is_default', true);
+    if (id) query = query.neq('id', id);
+    const { error } = await query;
+    if (error) throw error;
+  }
+
+  const { data: policy, error } = id
+    ? await supabase.from('cancellation_policies').update(fields).eq('id', id).select().single()
+    : await supabase.from('cancellation_policies').insert(fields).select().single();
+  if (error) throw error;
+
+  const { error: deleteError } = await supabase.from('cancellation_policy_tiers').delete().eq('policy_id', policy.id);
+  if (deleteError) throw deleteError;
+  if (tiers.length > 0) {
+    const { error: insertError } = await supabase
+      .from('cancellation_policy_tiers')
+      .insert(tiers.map((tier) => ({ ...tier, policy_id: policy.id })));
+    if (insertError) throw insertError;
+  }
+}
+
+export async function deleteCancellationPolicy(id: string): Promise<void> {
+  const { error } = await supabase.from('cancellation_policies').delete().eq('id', id);
+  if (error) throw error;
+}
+
+/** Fee and refund if the booking were cancelled now. Customers can only quote their own bookings. */
+export async function fetchCancellationQuote(bookingId: string): Promise<CancellationQuote> {
+  const { data, error } = await supabase.rpc('cancellation_quote', { _booking_id: bookingId });
+  if (error) throw error;
+  return data as unknown as CancellationQuote;
+}
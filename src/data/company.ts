@@ -0,0 +1,10 @@
+/** Business details shown in the footer, on the contact page and on invoices. */
+export const company = {
+  name: 'Smart Move Transport',
+  phone: '+250 788 123 456',
+  email: 'info@smartmove.rw',
+  address: 'KG 11 Ave, Kigali, Rwanda',
+};
+
+/** `tel:` and WhatsApp links need the number without spaces or the leading plus. */
+export const companyPhoneDigits = company.phone.replace(/\D/g, '');
@@ -0,0 +1,86 @@
+import { supabase } from '@/integrations/supabase/client';
+import type { Tables } from '@/integrations/supabase/types';
+import type { PaymentMethod } from './payments';
+
+export type SecurityDeposit = Tables<'security_deposits'>;
+export type DamageCharge = Tables<'damage_charges'>;
+
+export interface DepositSettlement {
+  /** Taken from the deposit to cover damage. */
+  deducted: number;
+  /** Handed back to the customer. */
+  released: number;
+  /** Damage beyond the deposit, left on the booking's balance. */
+  uncovered: number;
+}
+
+/** Same split `settle_security_deposit` makes, for previewing it before the deposit is released. */
+export function depositSettlement(held: number, damageTotal: number): DepositSettlement {
+  const deducted = Math.min(held, damageTotal);
+  return { deducted, released: held - deducted, uncovered: damageTotal - deducted };
+}
+
+export async function fetchSecurityDeposit(bookingId: string): Promise<SecurityDeposit | null> {
+  const { data, error } = await supabase.from('security_deposits').select('*').eq('booking_id', bookingId).maybeSingle();
+  if (error) throw error;
+  return data;
+}
+
+export interface HoldDepositInput {
+  bookingId: string;
+  amount: number;
+  method: PaymentMethod;
+  reference?: string;
+}
+
+/** Records the deposit taken at pickup. A booking holds at most one. */
+export async function holdSecurityDeposit({ bookingId, amount, method, reference }: HoldDepositInput): Promise<SecurityDeposit> {
+  const { data, error } = await supabase
+    .from('security_deposits')
+    .insert({ booking_id: bookingId, amount, method, reference: reference || null })
+    .select()
+    .single();
+  if (error) throw error;
+  return data;
+}
+
+/** Keeps what the damage charges need and releases the rest. */
+export async function settleSecurityDeposit(bookingId: string, note?: string): Promise<SecurityDeposit> {
+  const { data, error } = await supabase.rpc('settle_security_deposit', { _booking_id: bookingId, _note: note || undefined });
+  if (error) throw error;
+  return data;
+}
+
+export async function deleteSecurityDeposit(id: string): Promise<void> {
+  const { error } = await supabase.from('security_deposits').delete().eq('id', id).eq('status', 'held');
+  if (error) throw error;
+}
+
+export async function fetchDamageCharges(bookingId: string): Promise<DamageCharge[]> {
+  const { data, error } = await supabase.from('damage_charges').select('*').eq('booking_id', bookingId).order('created_at');
+  if (error) throw error;
+  return data;
+}
+
+export interface DamageChargeInput {
+  bookingId: string;
+  inspectionId: string | null;
+  panel: string | null;
+  description: string;
+  amount: number;
+}
+
+export async function addDamageCharge({ bookingId, inspectionId, panel, description, amount }: DamageChargeInput): Promise<DamageCharge> {
+  const { data, error } = await supabase
+    .from('damage_charges')
+    .insert({ booking_id: bookingId, inspection_id: inspectionId, panel, description, amount })
+    .select()
+    .single();
+  if (error) throw error;
+  return data;
+}
+
+export async function deleteDamageCharge(id: string): Promise<void> {
+  const { error } = await supabase.from('damage_charges').delete().eq('id', id);
+  if (error) throw error;
+}
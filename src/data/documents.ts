@@ -0,0 +1,45 @@
+import { differenceInCalendarDays } from 'date-fns';
+import { supabase } from '@/integrations/supabase/client';
+import type { Tables } from '@/integrations/supabase/types';
+
+export type CarDocument = Tables<'car_documents'>;
+
+export const documentKindLabels: Record<string, string> = {
+  insurance: 'Insurance',
+  technical_control: 'Technical control',
+  registration: 'Registration',
+  other: 'Other',
+};
+
+const BUCKET = 'car-documents';
+
+export async function fetchCarDocuments(): Promise<CarDocument[]> {
+  const { data, error } = await supabase.from('car_documents').select('*').order('expires_on');
+  if (error) throw error;
+  return data;
+}
+
+/** Whole days until the document expires; negative once it has. */
+export function daysUntilExpiry(document: CarDocument, today = new Date()): number {
+  return differenceInCalendarDays(new Date(`${document.expires_on}T00:00:00`), today);
+}
+
+export async function uploadCarDocument(carId: string, file: File): Promise<string> {
+  const ext = file.name.split('.').pop();
+  const path = `${carId}/${Date.now()}-${Math.random().toString(36).slice(2)}.${ext}`;
+  const { error } = await supabase.storage.from(BUCKET).upload(path, file);
+  if (error) throw error;
+  return path;
+}
+
+export async function removeCarDocumentFile(path: string): Promise<void> {
+  const { error } = await supabase.storage.from(BUCKET).remove([path]);
+  if (error) throw error;
+}
+
+/** A short-lived link to the private scan. */
+export async function fetchDocumentUrl(path: string): Promise<string> {
+  const { data, error } = await supabase.storage.from(BUCKET).createSignedUrl(path, 60 * 10);
+  if (error) throw error;
+  return data.signedUrl;
+}
@@ -0,0 +1,67 @@
+import { supabase } from '@/integrations/supabase/client';
+import type { Tables } from '@/integrations/supabase/types';
+
+export type Driver = Tables<'drivers'>;
+
+export const driverStatusLabels: Record<string, string> = {
+  active: 'Active',
+  on_leave: 'On leave',
+  inactive: 'Inactive',
+};
+
+export async function fetchDrivers(): Promise<Driver[]> {
+  const { data, error } = await supabase.from('drivers').select('*').order('name');
+  if (error) throw error;
+  return data;
+}
+
+/** Number of pending, approved or running bookings per driver that have not ended yet. */
+export async function fetchDriverWorkloads(): Promise<Record<string, number>> {
+  const { data, error } = await supabase
+    .from('bookings')
+    .select('driver_id')
+    .not('driver_id', 'is', null)
+    .in('status', ['pending', 'approved', 'in_progress'])
+    .gt('ends_at', new Date().toISOString());
+  if (error) throw error;
+  const workloads: Record<string, number> = {};
+  data.forEach(({ driver_id }) => {
+    if (driver_id) workloads[driver_id] = (workloads[driver_id] || 0) + 1;
+  });
+  return workloads;
+}
+
+/** The roster entry linked to the signed-in account, if any. */
+export async function fetchCurrentDriver(userId: string): Promise<Driver | null> {
+  const { data, error } = await supabase.from('drivers').select('*').eq('user_id', userId).maybeSingle();
+  if (error) throw error;
+  return data;
+}
+
+export type DriverTrip = Tables<'bookings'> & {
+  cars: Pick<Tables<'cars'>, 'name' | 'image'> | null;
+  booking_inspections: Tables<'booking_inspections'>[];
+};
+
+/** A driver's assigned bookings that are still running or start before `until`, soonest first. */
+export async function fetchDriverTrips(driverId: string, from: Date, until: Date): Promise<DriverTrip[]> {
+  const { data, error } = await supabase
+    .from('bookings')
+    .select('*, cars(name, image), booking_inspections(*)')
+    .eq('driver_id', driverId)
+    .in('status', ['pending', 'approved', 'in_progress', 'completed'])
+    .gte('ends_at', from.toISOString())
+    .lt('starts_at', until.toISOString())
+    .order('starts_at');
+  if (error) throw error;
+  return data as DriverTrip[];
+}
+
+export type TripEvent = 'picked_up' | 'dropped_off';
+
+/** Marks pickup (starts the rental) or dropoff (completes it) on a trip assigned to the signed-in driver. */
+export async function recordTripEvent({ bookingId, event }: { bookingId: string; event: TripEvent }) {
+  const { data, error } = await supabase.rpc('record_trip_event', { _booking_id: bookingId, _event: event });
+  if (error) throw error;
+  return data;
+}
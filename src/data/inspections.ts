@@ -0,0 +1,98 @@
+import { supabase } from '@/integrations/supabase/client';
+import type { Tables } from '@/integrations/supabase/types';
+
+const BUCKET = 'inspection-photos';
+
+export type InspectionKind = 'pickup' | 'return';
+export type Inspection = Tables<'booking_inspections'>;
+export type DamageCondition = 'ok' | 'scratch' | 'dent' | 'crack' | 'missing';
+
+export const damagePanels = [
+  'front_bumper',
+  'hood',
+  'windshield',
+  'roof',
+  'front_left',
+  'front_right',
+  'rear_left',
+  'rear_right',
+  'trunk',
+  'rear_bumper',
+  'wheels',
+  'interior',
+] as const;
+
+export const damageConditions: DamageCondition[] = ['ok', 'scratch', 'dent', 'crack', 'missing'];
+
+export const conditionOf = (inspection: Inspection | undefined, panel: string): DamageCondition =>
+  (inspection?.damage as Record<string, DamageCondition> | undefined)?.[panel] || 'ok';
+
+/** Panels the return inspection found damaged that were not already in that state at pickup. */
+export function newDamagePanels(inspections: Inspection[]): string[] {
+  const pickup = inspections.find((i) => i.kind === 'pickup');
+  const dropoff = inspections.find((i) => i.kind === 'return');
+  if (!dropoff) return [];
+  return damagePanels.filter((panel) => conditionOf(dropoff, panel) !== 'ok' && conditionOf(dropoff, panel) !== conditionOf(pickup, panel));
+}
+
+/** Fuel gauge reading in eighths, e.g. 4 -> "4/8". */
+export const fuelLabel = (level: number) => (level === 0 ? 'E' : level === 8 ? 'F' : `${level}/8`);
+
+export interface InspectionInput {
+  bookingId: string;
+  kind: InspectionKind;
+  odometer: number;
+  fuelLevel: number;
+  damage: Record<string, DamageCondition>;
+  photos: string[];
+  notes?: string;
+}
+
+export async function fetchInspections(bookingId: string): Promise<Inspection[]> {
+  const { data, error } = await supabase.from('booking_inspections').select('*').eq('booking_id', bookingId);
+  if (error) throw error;
+  return data;
+}
+
+/** Creates the pickup or return inspection, or replaces it if one was already recorded. */
+export async function saveInspection(input: InspectionInput): Promise<Inspection> {
+  const { data, error } = await supabase
+    .from('booking_inspections')
+    .upsert(
+      {
+        booking_id: input.bookingId,
+        kind: input.kind,
+        odometer: input.odometer,
+        fuel_level: input.fuelLevel,
+        damage: input.damage,
+        photos: input.photos,
+        notes: input.notes || null,
+      },
+      { onConflict: 'booking_id,kind' },
+    )
+    .select()
+    .single();
+  if (error) throw error;
+  return data;
+}
+
+/** Uploads a photo under `<booking>/<kind>/` and returns its storage path. */
+export async function uploadInspectionPhoto(bookingId: string, kind: InspectionKind, file: File): Promise<string> {
+  const ext = file.name.split('.').pop();
+  const path = `${bookingId}/${kind}/${Date.now()}-${Math.random().toString(36).slice(2)}.${ext}`;
+  const { error } = await supabase.storage.from(BUCKET).upload(path, file);
+  if (error) throw error;
+  return path;
+}
+
+/** Short-lived URLs for private inspection photos, keyed by storage path. */
+export async function fetchPhotoUrls(paths: string[]): Promise<Record<string, string>> {
+  if (paths.length === 0) return {};
+  const { data, error } = await supabase.storage.from(BUCKET).createSignedUrls(paths, 60 * 60);
+  if (error) throw error;
+  const urls: Record<string, string> = {};
+  data.forEach((item) => {
+    if (item.path && item.signedUrl) urls[item.path] = item.signedUrl;
+  });
+  return urls;
+}
@@ -0,0 +1,51 @@
+import { describe, expect, it, vi } from 'vitest';
+import { canInvoice, invoiceStatus, type Invoice } from '@/data/invoices';
+
+vi.mock('@/integrations/supabase/client', () => ({ supabase: {} }));
+
+const invoice = (total: number, voidedAt: string | null = null) => ({ total, voided_at: voidedAt }) as Invoice;
+
+describe('invoiceStatus', () => {
+  it('is unpaid until something is collected', () => {
+    expect(invoiceStatus(invoice(200), { paid: 0, refunded: 0 })).toEqual({ status: 'unpaid', balanceDue: 200 });
+  });
+
+  it('is partly paid while a balance remains', () => {
+    expect(invoiceStatus(invoice(200), { paid: 60, refunded: 0 })).toEqual({ status: 'partial', balanceDue: 140 });
+  });
+
+  it('is paid once payments less refunds match the total', () => {
+    expect(invoiceStatus(invoice(200), { paid: 220, refunded: 20 })).toEqual({ status: 'paid', balanceDue: 0 });
+  });
+
+  it('owes a refund when more was collected than invoiced', () => {
+    expect(invoiceStatus(invoice(50), { paid: 200, refunded: 0 })).toEqual({ status: 'refund_due', balanceDue: -150 });
+  });
+
+  it('rounds to cents so VAT splits do not leave dust', () => {
+    expect(invoiceStatus(invoice(100.1), { paid: 100.1000000001, refunded: 0 }).status).toBe('paid');
+    expect(invoiceStatus(invoice(0.3), { paid: 0.1 + 0.2, refunded: 0 }).status).toBe('paid');
+  });
+
+  it('reports a voided invoice as void whatever was paid', () => {
+    expect(invoiceStatus(invoice(200, '2026-05-01T10:00:00Z'), { paid: 200, refunded: 0 })).toEqual({ status: 'void', balanceDue: 0 });
+  });
+});
+
+describe('canInvoice', () => {
+  it('invoices approved bookings onwards', () => {
+    expect(canInvoice({ status: 'approved', cancellation_fee: 0 })).toBe(true);
+    expect(canInvoice({ status: 'in_progress', cancellation_fee: 0 })).toBe(true);
+    expect(canInvoice({ status: 'completed', cancellation_fee: 0 })).toBe(true);
+  });
+
+  it('refuses pending and rejected bookings', () => {
+    expect(canInvoice({ status: 'pending', cancellation_fee: 0 })).toBe(false);
+    expect(canInvoice({ status: 'rejected', cancellation_fee: 0 })).toBe(false);
+  });
+
+  it('invoices a cancellation only when a fee was kept', () => {
+    expect(canInvoice({ status: 'cancelled', cancellation_fee: 50 })).toBe(true);
+    expect(canInvoice({ status: 'cancelled', cancellation_fee: 0 })).toBe(false);
+  });
+});
@@ -0,0 +1,97 @@
+import { supabase } from '@/integrations/supabase/client';
+import type { Tables } from '@/integrations/supabase/types';
+
+export type Invoice = Tables<'invoices'>;
+
+export interface InvoiceLine {
+  kind: 'rate' | 'package' | 'discount' | 'promo' | 'adjustment' | 'rental' | 'cancellation' | 'damage';
+  description: string;
+  quantity: number;
+  unit_price: number;
+  amount: number;
+}
+
+/** One booking on an invoice, as it stood when the invoice was issued. */
+export interface InvoiceItem {
+  booking_id: string;
+  reference: string;
+  car_name: string | null;
+  starts_at: string;
+  ends_at: string;
+  pickup_location: string;
+  status: string;
+  lines: InvoiceLine[];
+}
+
+/** Payments and deposits on an invoice's bookings now, from the `invoice_statement` function. */
+export interface InvoiceStatement {
+  paid: number;
+  refunded: number;
+  payments: { reference: string; kind: string; purpose: string; method: string; amount: number; paid_at: string }[];
+  deposits: { reference: string; amount: number; status: string; deducted_amount: number; released_amount: number | null }[];
+}
+
+export type InvoiceStatus = 'void' | 'paid' | 'partial' | 'unpaid' | 'refund_due';
+
+export interface BillTo {
+  name?: string;
+  company?: string;
+  tax_id?: string;
+  phone?: string;
+  email?: string;
+}
+
+export const invoiceItems = (invoice: Invoice) => invoice.items as unknown as InvoiceItem[];
+
+/** Mirrors `issue_invoice`: approved bookings onwards, or cancelled ones that kept a fee. */
+export const canInvoice = (booking: Pick<Tables<'bookings'>, 'status' | 'cancellation_fee'>) =>
+  ['approved', 'in_progress', 'completed'].includes(booking.status) || (booking.status === 'cancelled' && Number(booking.cancellation_fee) > 0);
+
+/** Where an invoice stands against what has been collected on its bookings. */
+export function invoiceStatus(invoice: Invoice, statement: Pick<InvoiceStatement, 'paid' | 'refunded'>): { status: InvoiceStatus; balanceDue: number } {
+  // Rounded to cents so VAT-split totals do not leave a fraction of a cent outstanding
+  const balanceDue = Math.round((Number(invoice.total) - (Number(statement.paid) - Number(statement.refunded))) * 100) / 100;
+  if (invoice.voided_at) return { status: 'void', balanceDue };
+  if (balanceDue < 0) return { status: 'refund_due', balanceDue };
+  if (balanceDue === 0) return { status: 'paid', balanceDue };
+  return { status: Number(statement.paid) > 0 ? 'partial' : 'unpaid', balanceDue };
+}
+
+/**
+ * Issues the invoice for these bookings, or returns the one they are already on. Numbers come from
+ * a per-year counter in the database, so they are sequential and never skipped. An invoice is voided
+ * by the database once its booking's price, damage, dates or status change, so this then issues anew.
+ */
+export async function issueInvoice(bookingIds: string[], billTo: BillTo = {}): Promise<Invoice> {
+  const { data, error } = await supabase.rpc('issue_invoice', { _booking_ids: bookingIds, _bill_to: { ...billTo } });
+  if (error) throw error;
+  return data;
+}
+
+export async function fetchInvoiceStatement(invoiceId: string): Promise<InvoiceStatement> {
+  const { data, error } = await supabase.rpc('invoice_statement', { _invoice_id: invoiceId });
+  if (error) throw error;
+  return data as unknown as InvoiceStatement;
+}
+
+export async function fetchInvoices(): Promise<Invoice[]> {
+  const { data, error } = await supabase.from('invoices').select('*').order('year', { ascending: false }).order('sequence', { ascending: false });
+  if (error) throw error;
+  return data;
+}
+
+export async function voidInvoice(id: string, reason: string): Promise<void> {
+  const { error } = await supabase.rpc('void_invoice', { _invoice_id: id, _reason: reason });
+  if (error) throw error;
+}
+
+export async function fetchInvoiceTaxRate(): Promise<number> {
+  const { data, error } = await supabase.from('app_settings').select('value').eq('key', 'invoice_tax_rate').maybeSingle();
+  if (error) throw error;
+  return Number(data?.value ?? 0);
+}
+
+export async function saveInvoiceTaxRate(rate: number): Promise<void> {
+  const { error } = await supabase.from('app_settings').update({ value: rate }).eq('key', 'invoice_tax_rate');
+  if (error) throw error;
+}
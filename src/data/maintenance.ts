@@ -0,0 +1,40 @@
+import { supabase } from '@/integrations/supabase/client';
+import type { Database, Tables } from '@/integrations/supabase/types';
+
+export type ServiceType = Tables<'service_types'>;
+export type MaintenanceRecord = Tables<'maintenance_records'>;
+export type MaintenanceDue = Database['public']['Functions']['maintenance_due']['Returns'][number];
+
+export async function fetchServiceTypes(): Promise<ServiceType[]> {
+  const { data, error } = await supabase.from('service_types').select('*').order('name');
+  if (error) throw error;
+  return data;
+}
+
+/** Service history, newest window first; all cars unless one is given. */
+export async function fetchMaintenanceRecords(carId?: string): Promise<MaintenanceRecord[]> {
+  let query = supabase.from('maintenance_records').select('*').order('starts_at', { ascending: false });
+  if (carId) query = query.eq('car_id', carId);
+  const { data, error } = await query;
+  if (error) throw error;
+  return data;
+}
+
+/** Overdue services and those due within two weeks or 500 km. */
+export async function fetchMaintenanceDue(): Promise<MaintenanceDue[]> {
+  const { data, error } = await supabase.rpc('maintenance_due');
+  if (error) throw error;
+  return data;
+}
+
+/** Scheduled service windows that have not ended yet. */
+export async function fetchUpcomingMaintenance(): Promise<MaintenanceRecord[]> {
+  const { data, error } = await supabase
+    .from('maintenance_records')
+    .select('*')
+    .eq('status', 'scheduled')
+    .gt('ends_at', new Date().toISOString())
+    .order('starts_at');
+  if (error) throw error;
+  return data;
+}
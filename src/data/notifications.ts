@@ -0,0 +1,52 @@
+import { supabase } from '@/integrations/supabase/client';
+import type { Tables } from '@/integrations/supabase/types';
+
+export type AdminNotification = Tables<'notifications'> & { read: boolean };
+
+export const notificationTypeLabels: Record<string, string> = {
+  info: 'Info',
+  booking: 'Bookings',
+  warning: 'Warnings',
+  system: 'System',
+};
+
+interface NotificationQuery {
+  type?: string;
+  page?: number;
+  pageSize?: number;
+}
+
+/**
+ * Newest first, with the current admin's read state. Read receipts are only visible to their
+ * owner, so the embedded list is either empty or the caller's own receipt.
+ */
+export async function fetchNotifications({ type, page = 0, pageSize = 20 }: NotificationQuery = {}): Promise<{ rows: AdminNotification[]; total: number }> {
+  let query = supabase
+    .from('notifications')
+    .select('*, notification_reads(read_at)', { count: 'exact' })
+    .order('created_at', { ascending: false })
+    .range(page * pageSize, page * pageSize + pageSize - 1);
+  if (type) query = query.eq('type', type);
+  const { data, count, error } = await query;
+  if (error) throw error;
+  const rows = data.map(({ notification_reads, ...n }) => ({ ...n, read: notification_reads.length > 0 }));
+  return { rows, total: count ?? 0 };
+}
+
+export async function fetchUnreadCount(): Promise<number> {
+  const { data, error } = await supabase.rpc('unread_notification_count');
+  if (error) throw error;
+  return data;
+}
+
+export async function markNotificationRead(notificationId: string, userId: string): Promise<void> {
+  const { error } = await supabase
+    .from('notification_reads')
+    .upsert({ notification_id: notificationId, user_id: userId }, { onConflict: 'notification_id,user_id', ignoreDuplicates: true });
+  if (error) throw error;
+}
+
+export async function markAllNotificationsRead(type?: string): Promise<void> {
+  const { error } = await supabase.rpc('mark_all_notifications_read', { _type: type });
+  if (error) throw error;
+}
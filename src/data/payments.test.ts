@@ -0,0 +1,74 @@
+import { describe, expect, it, vi } from 'vitest';
+import { amountOwed, bookingBalance, type LedgerEntry } from '@/data/payments';
+
+vi.mock('@/integrations/supabase/client', () => ({ supabase: {} }));
+
+const booking = (status: string, extra: Partial<{ cancellation_fee: number; damage_total: number }> = {}) => ({
+  total_price: 200,
+  cancellation_fee: 0,
+  damage_total: 0,
+  status,
+  ...extra,
+});
+
+const paid = (amount: number, status = 'successful'): LedgerEntry => ({ amount, kind: 'payment', status });
+const refund = (amount: number, status = 'successful'): LedgerEntry => ({ amount, kind: 'refund', status });
+
+describe('amountOwed', () => {
+  it('owes the full price while pending or under way', () => {
+    expect(amountOwed(booking('pending'))).toBe(200);
+    expect(amountOwed(booking('approved'))).toBe(200);
+    expect(amountOwed(booking('completed'))).toBe(200);
+  });
+
+  it('owes nothing once rejected', () => {
+    expect(amountOwed(booking('rejected'))).toBe(0);
+  });
+
+  it('owes only the fee once cancelled', () => {
+    expect(amountOwed(booking('cancelled'))).toBe(0);
+    expect(amountOwed(booking('cancelled', { cancellation_fee: 50 }))).toBe(50);
+  });
+
+  it('adds damage whatever the status', () => {
+    expect(amountOwed(booking('completed', { damage_total: 80 }))).toBe(280);
+    expect(amountOwed(booking('cancelled', { cancellation_fee: 50, damage_total: 80 }))).toBe(130);
+    expect(amountOwed(booking('rejected', { damage_total: 80 }))).toBe(80);
+  });
+});
+
+describe('bookingBalance', () => {
+  it('counts only settled entries', () => {
+    const balance = bookingBalance(booking('pending'), [paid(60), paid(100, 'pending'), paid(100, 'failed'), refund(20, 'pending')]);
+
+    expect(balance).toEqual({ paid: 60, refunded: 0, balanceDue: 140, paidInFull: false });
+  });
+
+  it('is paid in full once payments less refunds cover the price', () => {
+    expect(bookingBalance(booking('approved'), [paid(150), paid(50)]).paidInFull).toBe(true);
+    expect(bookingBalance(booking('approved'), [paid(200), refund(10)])).toEqual({ paid: 200, refunded: 10, balanceDue: 10, paidInFull: false });
+  });
+
+  it('owes the customer the deposit back after a rejection', () => {
+    expect(bookingBalance(booking('rejected'), [paid(60)])).toEqual({ paid: 60, refunded: 0, balanceDue: -60, paidInFull: false });
+    expect(bookingBalance(booking('rejected'), [paid(60), refund(60)]).balanceDue).toBe(0);
+  });
+
+  it('keeps the cancellation fee out of the refund', () => {
+    const balance = bookingBalance(booking('cancelled', { cancellation_fee: 50 }), [paid(200)]);
+
+    expect(balance.balanceDue).toBe(-150);
+    expect(balance.paidInFull).toBe(true);
+  });
+
+  it('charges damage on top of what was paid', () => {
+    const balance = bookingBalance(booking('completed', { damage_total: 80 }), [paid(200)]);
+
+    expect(balance.balanceDue).toBe(80);
+    expect(balance.paidInFull).toBe(false);
+  });
+
+  it('is never paid in full when nothing is owed', () => {
+    expect(bookingBalance(booking('rejected'), []).paidInFull).toBe(false);
+  });
+});
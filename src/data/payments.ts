@@ -0,0 +1,177 @@
+import { supabase } from '@/integrations/supabase/client';
+import type { Tables } from '@/integrations/supabase/types';
+
+export type Payment = Tables<'payments'>;
+export type PaymentMethod = 'cash' | 'mtn_momo' | 'airtel_money' | 'card' | 'bank_transfer';
+export type MobileMoneyMethod = Extract<PaymentMethod, 'mtn_momo' | 'airtel_money'>;
+export type PaymentKind = 'payment' | 'refund';
+
+export const paymentMethodLabels: Record<PaymentMethod, string> = {
+  cash: 'Cash',
+  mtn_momo: 'MTN MoMo',
+  airtel_money: 'Airtel Money',
+  card: 'Card',
+  bank_transfer: 'Bank transfer',
+};
+
+/** Methods customers can pay a deposit with from the booking wizard. */
+export const mobileMoneyMethods: MobileMoneyMethod[] = ['mtn_momo', 'airtel_money'];
+
+export type LedgerEntry = Pick<Payment, 'amount' | 'kind' | 'status'>;
+
+export interface BookingBalance {
+  paid: number;
+  refunded: number;
+  /** Negative when the customer holds a refund, e.g. after a cancellation. */
+  balanceDue: number;
+  paidInFull: boolean;
+}
+
+type OwingBooking = Pick<Tables<'bookings'>, 'total_price' | 'status' | 'cancellation_fee' | 'damage_total'>;
+
+/** What a booking owes: nothing once rejected, only its fee once cancelled, plus any damage charged. */
+export function amountOwed(booking: OwingBooking): number {
+  const damage = Number(booking.damage_total || 0);
+  if (booking.status === 'rejected') return damage;
+  if (booking.status === 'cancelled') return Number(booking.cancellation_fee || 0) + damage;
+  return Number(booking.total_price || 0) + damage;
+}
+
+/** Same arithmetic as the `booking_balances` view, for ledgers already loaded with their booking. */
+export function bookingBalance(booking: OwingBooking, entries: LedgerEntry[]): BookingBalance {
+  const settled = entries.filter((e) => e.status === 'successful');
+  const paid = settled.filter((e) => e.kind === 'payment').reduce((sum, e) => sum + Number(e.amount), 0);
+  const refunded = settled.filter((e) => e.kind === 'refund').reduce((sum, e) => sum + Number(e.amount), 0);
+  const owed = amountOwed(booking);
+  return {
+    paid,
+    refunded,
+    balanceDue: owed - (paid - refunded),
+    paidInFull: owed > 0 ? paid - refunded >= owed : false,
+  };
+}
+
+/** Every ledger entry for a booking, including pending and failed mobile money requests. Admin only. */
+export async function fetchBookingPayments(bookingId: string): Promise<Payment[]> {
+  const { data, error } = await supabase.from('payments').select('*').eq('booking_id', bookingId).order('paid_at', { ascending: false });
+  if (error) throw error;
+  return data;
+}
+
+export interface RecordPaymentInput {
+  bookingId: string;
+  kind: PaymentKind;
+  method: PaymentMethod;
+  amount: number;
+  paidAt: string;
+  note?: string;
+}
+
+/** Money received or refunded outside the momo-payments flow, entered by an admin. */
+export async function recordPayment({ bookingId, kind, method, amount, paidAt, note }: RecordPaymentInput): Promise<Payment> {
+  const { data, error } = await supabase
+    .from('payments')
+    .insert({
+      booking_id: bookingId,
+      kind,
+      purpose: 'balance',
+      method,
+      amount,
+      paid_at: paidAt,
+      note: note || null,
+      status: 'successful',
+      completed_at: paidAt,
+    })
+    .select()
+    .single();
+  if (error) throw error;
+  return data;
+}
+
+/** Settles a pending refund, such as the one created when a booking is cancelled, once the money is sent. */
+export async function markRefundPaid(id: string): Promise<void> {
+  const { error } = await supabase
+    .from('payments')
+    .update({ status: 'successful', completed_at: new Date().toISOString() })
+    .eq('id', id)
+    .eq('kind', 'refund')
+    .eq('status', 'pending');
+  if (error) throw error;
+}
+
+export async function deletePayment(id: string): Promise<void> {
+  const { error } = await supabase.from('payments').delete().eq('id', id);
+  if (error) throw error;
+}
+
+export interface CollectedIncome {
+  /** Kigali calendar month, as YYYY-MM. */
+  month: string;
+  carId: string;
+  collected: number;
+  refunded: number;
+}
+
+// PostgREST caps every response at this many rows, so longer results are read page by page
+const PAGE_SIZE = 1000;
+
+/** Settled payments and refunds summed per Kigali month and car, optionally between two inclusive Kigali dates. */
+export async function fetchCollectedIncome(range?: { from: string; to: string }): Promise<CollectedIncome[]> {
+  const rows: CollectedIncome[] = [];
+  for (let offset = 0; ; offset += PAGE_SIZE) {
+    const { data, error } = await supabase
+      .rpc('collected_income', range ? { _from: range.from, _to: range.to } : {})
+      .range(offset, offset + PAGE_SIZE - 1);
+    if (error) throw error;
+    rows.push(...data.map((row) => ({
+      month: row.month,
+      carId: row.car_id,
+      collected: Number(row.collected),
+      refunded: Number(row.refunded),
+    })));
+    if (data.length < PAGE_SIZE) return rows;
+  }
+}
+
+export type BookingBalanceRow = Tables<'booking_balances'>;
+
+export async function fetchBookingBalances(): Promise<BookingBalanceRow[]> {
+  const { data, error } = await supabase.from('booking_balances').select('*');
+  if (error) throw error;
+  return data;
+}
+
+/** What the momo-payments function reports back to the customer. */
+export interface DepositStatus {
+  paymentId: string;
+  status: 'pending' | 'successful' | 'failed';
+  amount: number;
+  chargedAmount: number;
+  chargedCurrency: string;
+  failureReason: string | null;
+}
+
+export async function fetchDepositPercent(): Promise<number> {
+  const { data, error } = await supabase.from('app_settings').select('value').eq('key', 'deposit_percent').maybeSingle();
+  if (error) throw error;
+  return Number(data?.value ?? 0);
+}
+
+async function invokePayments<T>(body: Record<string, unknown>): Promise<T> {
+  const { data, error } = await supabase.functions.invoke('momo-payments', { body });
+  if (error) {
+    // Non-2xx responses carry the function's own message in the body
+    const details = await error.context?.json?.().catch(() => null);
+    throw new Error(details?.error || error.message);
+  }
+  return data as T;
+}
+
+/** Sends the approval prompt to the payer's phone. Repeating it while a request is open returns that request. */
+export function requestDeposit(clientRequestId: string, method: MobileMoneyMethod, phone: string): Promise<DepositStatus> {
+  return invokePayments({ action: 'request', clientRequestId, method, phone });
+}
+
+export function fetchDepositStatus(clientRequestId: string, paymentId: string): Promise<DepositStatus> {
+  return invokePayments({ action: 'status', clientRequestId, paymentId });
+}
@@ -0,0 +1,57 @@
+import { supabase } from '@/integrations/supabase/client';
+import type { Tables } from '@/integrations/supabase/types';
+import type { PricingType } from '@/data/cars';
+
+export type PricingZone = Tables<'pricing_zones'>;
+
+export interface QuoteRequest {
+  carId: string;
+  pricingType: PricingType;
+  quantity: number;
+  pickupZoneId?: string;
+  dropoffZoneId?: string;
+  startsAt?: string;
+  promoCode?: string;
+}
+
+/** `rate` lines come from pricing rules, `package` lines from flat tiers; `discount` and `promo` lines are negative. */
+export interface QuoteLine {
+  kind: 'rate' | 'package' | 'discount' | 'promo';
+  rule_id: string | null;
+  description: string;
+  from: string | null;
+  unit_price: number;
+  quantity: number;
+  amount: number;
+}
+
+/** Price returned by the `quote_booking` RPC; the same figure the database stores on insert. */
+export interface BookingQuote {
+  pricing_type: PricingType;
+  quantity: number;
+  total: number;
+  lines: QuoteLine[];
+  promo_code?: string;
+  /** Why the requested promo code was not applied; the quote is then undiscounted. */
+  promo_error?: string;
+}
+
+export async function fetchBookingQuote({ carId, pricingType, quantity, pickupZoneId, dropoffZoneId, startsAt, promoCode }: QuoteRequest): Promise<BookingQuote> {
+  const { data, error } = await supabase.rpc('quote_booking', {
+    _car_id: carId,
+    _pricing_type: pricingType,
+    _quantity: quantity,
+    _pickup_zone_id: pickupZoneId,
+    _dropoff_zone_id: dropoffZoneId,
+    _starts_at: startsAt,
+    _promo_code: promoCode,
+  });
+  if (error) throw error;
+  return data as unknown as BookingQuote;
+}
+
+export async function fetchPricingZones(): Promise<PricingZone[]> {
+  const { data, error } = await supabase.from('pricing_zones').select('*').order('name');
+  if (error) throw error;
+  return data;
+}
@@ -0,0 +1,19 @@
+import { useQuery } from '@tanstack/react-query';
+import { addHours } from 'date-fns';
+import { fetchCarAvailability, kigaliDateTime } from '@/data/bookings';
+
+/**
+ * Busy windows for a car on the given Kigali calendar day, widened by the requested duration
+ * so that bookings starting late in the day still see what follows.
+ */
+export function useCarAvailability(carId: string | undefined, date: Date | undefined, durationHours: number) {
+  const from = date ? kigaliDateTime(date, '00:00') : undefined;
+  const to = from ? addHours(from, 24 + durationHours) : undefined;
+
+  return useQuery({
+    queryKey: ['availability', carId, from?.toISOString(), to?.toISOString()],
+    queryFn: () => fetchCarAvailability(carId!, from!, to!),
+    enabled: !!carId && !!from && navigator.onLine,
+    staleTime: 30 * 1000,
+  });
+}
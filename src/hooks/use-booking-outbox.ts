@@ -0,0 +1,15 @@
+import { useEffect, useState } from 'react';
+import { listOutbox, subscribeToOutbox, type OutboxItem } from '@/data/booking-outbox';
+
+/** Live contents of the offline booking outbox on this device. */
+export function useBookingOutbox() {
+  const [items, setItems] = useState<OutboxItem[]>([]);
+
+  useEffect(() => {
+    const refresh = () => { listOutbox().then(setItems).catch(() => setItems([])); };
+    refresh();
+    return subscribeToOutbox(refresh);
+  }, []);
+
+  return items;
+}
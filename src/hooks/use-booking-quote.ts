@@ -0,0 +1,21 @@
+import { keepPreviousData, useQuery } from '@tanstack/react-query';
+import { fetchBookingQuote, fetchPricingZones, type QuoteRequest } from '@/data/pricing';
+
+export function useBookingQuote(request: Partial<QuoteRequest>) {
+  const { carId, pricingType, quantity, pickupZoneId, dropoffZoneId, startsAt, promoCode } = request;
+  return useQuery({
+    queryKey: ['quote', carId, pricingType, quantity, pickupZoneId, dropoffZoneId, startsAt, promoCode],
+    queryFn: () => fetchBookingQuote({ carId: carId!, pricingType: pricingType!, quantity: quantity!, pickupZoneId, dropoffZoneId, startsAt, promoCode }),
+    enabled: !!carId && !!pricingType && !!quantity && navigator.onLine,
+    placeholderData: keepPreviousData,
+    retry: false,
+  });
+}
+
+export function usePricingZones() {
+  return useQuery({
+    queryKey: ['pricing-zones'],
+    queryFn: fetchPricingZones,
+    staleTime: 5 * 60 * 1000,
+  });
+}
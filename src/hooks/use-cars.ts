@@ -0,0 +1,18 @@
+import { useQuery } from '@tanstack/react-query';
+import { fetchCatalog, getCarById, readCatalogSnapshot } from '@/data/cars';
+
+export const CATALOG_QUERY_KEY = ['catalog'] as const;
+
+export function useCars() {
+  return useQuery({
+    queryKey: CATALOG_QUERY_KEY,
+    queryFn: fetchCatalog,
+    placeholderData: readCatalogSnapshot,
+    staleTime: 60 * 1000,
+  });
+}
+
+export function useCar(id: string | undefined) {
+  const query = useCars();
+  return { ...query, data: id ? getCarById(query.data, id) : undefined };
+}
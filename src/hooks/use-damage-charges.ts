@@ -0,0 +1,26 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { addDamageCharge, deleteDamageCharge, fetchDamageCharges } from '@/data/deposits';
+
+export function useDamageCharges(bookingId: string | undefined) {
+  return useQuery({
+    queryKey: ['damage-charges', bookingId],
+    queryFn: () => fetchDamageCharges(bookingId!),
+    enabled: !!bookingId,
+  });
+}
+
+export function useAddDamageCharge() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: addDamageCharge,
+    onSuccess: (charge) => queryClient.invalidateQueries({ queryKey: ['damage-charges', charge.booking_id] }),
+  });
+}
+
+export function useDeleteDamageCharge(bookingId: string) {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: deleteDamageCharge,
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: ['damage-charges', bookingId] }),
+  });
+}
@@ -0,0 +1,27 @@
+import { useMutation, useQuery } from '@tanstack/react-query';
+import { fetchDepositPercent, fetchDepositStatus, requestDeposit, type MobileMoneyMethod } from '@/data/payments';
+
+export function useDepositPercent() {
+  return useQuery({
+    queryKey: ['deposit-percent'],
+    queryFn: fetchDepositPercent,
+    staleTime: 5 * 60 * 1000,
+  });
+}
+
+export function useRequestDeposit() {
+  return useMutation({
+    mutationFn: ({ clientRequestId, method, phone }: { clientRequestId: string; method: MobileMoneyMethod; phone: string }) =>
+      requestDeposit(clientRequestId, method, phone),
+  });
+}
+
+/** Polls while the customer approves the prompt on their phone. */
+export function useDepositStatus(clientRequestId: string, paymentId: string | undefined) {
+  return useQuery({
+    queryKey: ['deposit-status', paymentId],
+    queryFn: () => fetchDepositStatus(clientRequestId, paymentId!),
+    enabled: !!paymentId,
+    refetchInterval: (query) => (query.state.data?.status === 'pending' || !query.state.data ? 3000 : false),
+  });
+}
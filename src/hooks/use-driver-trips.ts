@@ -0,0 +1,32 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { addDays, startOfDay } from 'date-fns';
+import { fetchCurrentDriver, fetchDriverTrips, recordTripEvent } from '@/data/drivers';
+
+export function useCurrentDriver(userId: string | undefined) {
+  return useQuery({
+    queryKey: ['current-driver', userId],
+    queryFn: () => fetchCurrentDriver(userId!),
+    enabled: !!userId,
+  });
+}
+
+/** Today and the coming week. */
+export function useDriverTrips(driverId: string | undefined) {
+  return useQuery({
+    queryKey: ['driver-trips', driverId],
+    queryFn: () => {
+      const today = startOfDay(new Date());
+      return fetchDriverTrips(driverId!, today, addDays(today, 8));
+    },
+    enabled: !!driverId,
+    refetchInterval: 60 * 1000,
+  });
+}
+
+export function useRecordTripEvent() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: recordTripEvent,
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: ['driver-trips'] }),
+  });
+}
@@ -0,0 +1,31 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { fetchInspections, fetchPhotoUrls, saveInspection } from '@/data/inspections';
+
+export function useInspections(bookingId: string | undefined) {
+  return useQuery({
+    queryKey: ['inspections', bookingId],
+    queryFn: () => fetchInspections(bookingId!),
+    enabled: !!bookingId,
+  });
+}
+
+/** Signed URLs expire after an hour, so they are refreshed well before that. */
+export function usePhotoUrls(paths: string[]) {
+  return useQuery({
+    queryKey: ['inspection-photos', ...paths],
+    queryFn: () => fetchPhotoUrls(paths),
+    enabled: paths.length > 0,
+    staleTime: 30 * 60 * 1000,
+  });
+}
+
+export function useSaveInspection() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: saveInspection,
+    onSuccess: (inspection) => {
+      queryClient.invalidateQueries({ queryKey: ['inspections', inspection.booking_id] });
+      queryClient.invalidateQueries({ queryKey: ['driver-trips'] });
+    },
+  });
+}
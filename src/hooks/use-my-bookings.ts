@@ -0,0 +1,49 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { fetchChangeCutoffHours, fetchMyBookings, requestBookingChange } from '@/data/bookings';
+import { fetchCancellationQuote } from '@/data/cancellations';
+import { issueInvoice } from '@/data/invoices';
+import { downloadInvoicePdf } from '@/lib/invoice-pdf';
+
+export function useMyBookings(userId: string | undefined) {
+  return useQuery({
+    queryKey: ['my-bookings', userId],
+    queryFn: () => fetchMyBookings(userId!),
+    enabled: !!userId,
+  });
+}
+
+export function useChangeCutoffHours() {
+  return useQuery({
+    queryKey: ['settings', 'change_cutoff_hours'],
+    queryFn: fetchChangeCutoffHours,
+    staleTime: 5 * 60 * 1000,
+  });
+}
+
+/** What cancelling would cost right now, shown before the customer sends a cancellation request. */
+export function useCancellationQuote(bookingId: string | undefined) {
+  return useQuery({
+    queryKey: ['cancellation-quote', bookingId],
+    queryFn: () => fetchCancellationQuote(bookingId!),
+    enabled: !!bookingId,
+  });
+}
+
+export function useRequestBookingChange() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: requestBookingChange,
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: ['my-bookings'] }),
+  });
+}
+
+/** Issues the booking's invoice the first time, then downloads the same numbered invoice until the booking changes. */
+export function useDownloadInvoice() {
+  return useMutation({
+    mutationFn: async (bookingId: string) => {
+      const invoice = await issueInvoice([bookingId]);
+      await downloadInvoicePdf(invoice);
+      return invoice;
+    },
+  });
+}
@@ -14,21 +14,284 @@ export type Database = {
   }
   public: {
     Tables: {
+      app_settings: {
+        Row: {
+          description: string | null
+          key: string
+          updated_at: string
+          value: Json
+        }
+        Insert: {
+          description?: string | null
+          key: string
+          updated_at?: string
+          value: Json
+        }
+        Update: {
+          description?: string | null
+          key?: string
+          updated_at?: string
+          value?: Json
+        }
+        Relationships: []
+      }
+      booking_change_requests: {
+        Row: {
+          admin_note: string | null
+          booking_id: string
+          created_at: string
+          id: string
+          kind: string
+          reason: string | null
+          requested_ends_at: string | null
+          requested_starts_at: string | null
+          resolved_at: string | null
+          resolved_by: string | null
+          status: string
+          user_id: string | null
+        }
+        Insert: {
+          admin_note?: string | null
+          booking_id: string
+          created_at?: string
+          id?: string
+          kind: string
+          reason?: string | null
+          requested_ends_at?: string | null
+          requested_starts_at?: string | null
+          resolved_at?: string | null
+          resolved_by?: string | null
+          status?: string
+          user_id?: string | null
+        }
+        Update: {
+          admin_note?: string | null
+          booking_id?: string
+          created_at?: string
+          id?: string
+          kind?: string
+          reason?: string | null
+          requested_ends_at?: string | null
+          requested_starts_at?: string | null
+          resolved_at?: string | null
+          resolved_by?: string | null
+          status?: string
+          user_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "booking_change_requests_booking_id_fkey"
+            columns: ["booking_id"]
+            isOneToOne: false
+            referencedRelation: "bookings"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      booking_inspections: {
+        Row: {
+          booking_id: string
+          created_at: string
+          damage: Json
+          fuel_level: number
+          id: string
+          inspected_by: string | null
+          inspector_name: string | null
+          kind: string
+          notes: string | null
+          odometer: number
+          photos: string[]
+          updated_at: string
+        }
+        Insert: {
+          booking_id: string
+          created_at?: string
+          damage?: Json
+          fuel_level: number
+          id?: string
+          inspected_by?: string | null
+          inspector_name?: string | null
+          kind: string
+          notes?: string | null
+          odometer: number
+          photos?: string[]
+          updated_at?: string
+        }
+        Update: {
+          booking_id?: string
+          created_at?: string
+          damage?: Json
+          fuel_level?: number
+          id?: string
+          inspected_by?: string | null
+          inspector_name?: string | null
+          kind?: string
+          notes?: string | null
+          odometer?: number
+          photos?: string[]
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "booking_inspections_booking_id_fkey"
+            columns: ["booking_id"]
+            isOneToOne: false
+            referencedRelation: "bookings"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      booking_lookup_attempts: {
+        Row: {
+          attempted_at: string
+          client_ip: string | null
+          id: number
+          reference: string
+          succeeded: boolean
+        }
+        Insert: {
+          attempted_at?: string
+          client_ip?: string | null
+          id?: number
+          reference: string
+          succeeded: boolean
+        }
+        Update: {
+          attempted_at?: string
+          client_ip?: string | null
+          id?: number
+          reference?: string
+          succeeded?: boolean
+        }
+        Relationships: []
+      }
+      booking_notes: {
+        Row: {
+          author_id: string | null
+          author_name: string | null
+          body: string
+          booking_id: string
+          created_at: string
+          id: string
+        }
+        Insert: {
+          author_id?: string | null
+          author_name?: string | null
+          body: string
+          booking_id: string
+          created_at?: string
+          id?: string
+        }
+        Update: {
+          author_id?: string | null
+          author_name?: string | null
+          body?: string
+          booking_id?: string
+          created_at?: string
+          id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "booking_notes_booking_id_fkey"
+            columns: ["booking_id"]
+            isOneToOne: false
+            referencedRelation: "bookings"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      booking_status_history: {
+        Row: {
+          actor_name: string | null
+          booking_id: string
+          changed_by: string | null
+          created_at: string
+          from_status: string | null
+          id: string
+          reason: string | null
+          to_status: string
+        }
+        Insert: {
+          actor_name?: string | null
+          booking_id: string
+          changed_by?: string | null
+          created_at?: string
+          from_status?: string | null
+          id?: string
+          reason?: string | null
+          to_status: string
+        }
+        Update: {
+          actor_name?: string | null
+          booking_id?: string
+          changed_by?: string | null
+          created_at?: string
+          from_status?: string | null
+          id?: string
+          reason?: string | null
+          to_status?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "booking_status_history_booking_id_fkey"
+            columns: ["booking_id"]
+            isOneToOne: false
+            referencedRelation: "bookings"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      booking_status_transitions: {
+        Row: {
+          from_status: string
+          to_status: string
+        }
+        Insert: {
+          from_status: string
+          to_status: string
+        }
+        Update: {
+          from_status?: string
+          to_status?: string
+        }
+        Relationships: []
+      }
       bookings: {
         Row: {
           booking_date: string
           booking_time: string | null
+          cancellation_fee: number
+          cancellation_policy_id: string | null
           car_id: string | null
           client_email: string | null
           client_name: string
           client_phone: string | null
+          client_request_id: string | null
           created_at: string
-          driver: string | null
+          damage_total: number
+          driver_id: string | null
           dropoff_location: string | null
+          dropoff_zone_id: string | null
+          dropped_off_at: string | null
           duration_hours: number | null
+          ends_at: string
           id: string
+          language: string
           notes: string | null
+          overlap_flagged: boolean
+          picked_up_at: string | null
           pickup_location: string
+          pickup_zone_id: string | null
+          price_adjustment: number
+          price_adjustment_reason: string | null
+          price_lines: Json | null
+          pricing_type: string
+          promo_code: string | null
+          promo_code_id: string | null
+          promo_discount: number
+          quantity: number
+          reference: string
+          starts_at: string
           status: string
           total_price: number | null
           updated_at: string
@@ -37,17 +300,38 @@ export type Database = {
         Insert: {
           booking_date: string
           booking_time?: string | null
+          cancellation_fee?: number
+          cancellation_policy_id?: string | null
           car_id?: string | null
           client_email?: string | null
           client_name: string
           client_phone?: string | null
+          client_request_id?: string | null
           created_at?: string
-          driver?: string | null
+          damage_total?: number
+          driver_id?: string | null
           dropoff_location?: string | null
+          dropoff_zone_id?: string | null
+          dropped_off_at?: string | null
           duration_hours?: number | null
+          ends_at?: string
           id?: string
+          language?: string
           notes?: string | null
+          overlap_flagged?: boolean
+          picked_up_at?: string | null
           pickup_location: string
+          pickup_zone_id?: string | null
+          price_adjustment?: number
+          price_adjustment_reason?: string | null
+          price_lines?: Json | null
+          pricing_type?: string
+          promo_code?: string | null
+          promo_code_id?: string | null
+          promo_discount?: number
+          quantity?: number
+          reference?: string
+          starts_at?: string
           status?: string
           total_price?: number | null
           updated_at?: string
@@ -56,17 +340,38 @@ export type Database = {
         Update: {
           booking_date?: string
           booking_time?: string | null
+          cancellation_fee?: number
+          cancellation_policy_id?: string | null
           car_id?: string | null
           client_email?: string | null
           client_name?: string
           client_phone?: string | null
+          client_request_id?: string | null
           created_at?: string
-          driver?: string | null
+          damage_total?: number
+          driver_id?: string | null
           dropoff_location?: string | null
+          dropoff_zone_id?: string | null
+          dropped_off_at?: string | null
           duration_hours?: number | null
+          ends_at?: string
           id?: string
+          language?: string
           notes?: string | null
+          overlap_flagged?: boolean
+          picked_up_at?: string | null
           pickup_location?: string
+          pickup_zone_id?: string | null
+          price_adjustment?: number
+          price_adjustment_reason?: string | null
+          price_lines?: Json | null
+          pricing_type?: string
+          promo_code?: string | null
+          promo_code_id?: string | null
+          promo_discount?: number
+          quantity?: number
+          reference?: string
+          starts_at?: string
           status?: string
           total_price?: number | null
           updated_at?: string
@@ -80,146 +385,154 @@ export type Database = {
             referencedRelation: "cars"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "bookings_dropoff_zone_id_fkey"
+            columns: ["dropoff_zone_id"]
+            isOneToOne: false
+            referencedRelation: "pricing_zones"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "bookings_pickup_zone_id_fkey"
+            columns: ["pickup_zone_id"]
+            isOneToOne: false
+            referencedRelation: "pricing_zones"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "bookings_promo_code_id_fkey"
+            columns: ["promo_code_id"]
+            isOneToOne: false
+            referencedRelation: "promo_codes"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "bookings_driver_id_fkey"
+            columns: ["driver_id"]
+            isOneToOne: false
+            referencedRelation: "drivers"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "bookings_cancellation_policy_id_fkey"
+            columns: ["cancellation_policy_id"]
+            isOneToOne: false
+            referencedRelation: "cancellation_policies"
+            referencedColumns: ["id"]
+          },
         ]
       }
-      cars: {
+      cancellation_policies: {
         Row: {
+          after_pickup_fee_percent: number
+          car_types: string[] | null
           created_at: string
           description: string | null
-          features: string[] | null
           id: string
-          image: string | null
-          images: string[] | null
+          is_default: boolean
           name: string
-          seats: number
-          status: string
-          type: string
           updated_at: string
         }
         Insert: {
+          after_pickup_fee_percent?: number
+          car_types?: string[] | null
           created_at?: string
           description?: string | null
-          features?: string[] | null
           id?: string
-          image?: string | null
-          images?: string[] | null
+          is_default?: boolean
           name: string
-          seats?: number
-          status?: string
-          type: string
           updated_at?: string
         }
         Update: {
+          after_pickup_fee_percent?: number
+          car_types?: string[] | null
           created_at?: string
           description?: string | null
-          features?: string[] | null
           id?: string
-          image?: string | null
-          images?: string[] | null
+          is_default?: boolean
           name?: string
-          seats?: number
-          status?: string
-          type?: string
           updated_at?: string
         }
         Relationships: []
       }
-      expenses: {
+      cancellation_policy_tiers: {
         Row: {
-          amount: number
-          car_id: string | null
           created_at: string
-          description: string
-          expense_date: string
+          fee_percent: number
+          hours_before: number
           id: string
+          policy_id: string
         }
         Insert: {
-          amount?: number
-          car_id?: string | null
           created_at?: string
-          description: string
-          expense_date?: string
+          fee_percent: number
+          hours_before: number
           id?: string
+          policy_id: string
         }
         Update: {
-          amount?: number
-          car_id?: string | null
           created_at?: string
-          description?: string
-          expense_date?: string
+          fee_percent?: number
+          hours_before?: number
           id?: string
+          policy_id?: string
         }
         Relationships: [
           {
-            foreignKeyName: "expenses_car_id_fkey"
-            columns: ["car_id"]
+            foreignKeyName: "cancellation_policy_tiers_policy_id_fkey"
+            columns: ["policy_id"]
             isOneToOne: false
-            referencedRelation: "cars"
+            referencedRelation: "cancellation_policies"
             referencedColumns: ["id"]
           },
         ]
       }
-      notifications: {
-        Row: {
-          created_at: string
-          id: string
-          is_read: boolean
-          message: string
-          title: string
-          type: string
-        }
-        Insert: {
-          created_at?: string
-          id?: string
-          is_read?: boolean
-          message: string
-          title: string
-          type?: string
-        }
-        Update: {
-          created_at?: string
-          id?: string
-          is_read?: boolean
-          message?: string
-          title?: string
-          type?: string
-        }
-        Relationships: []
-      }
-      pricing_rules: {
+      car_documents: {
         Row: {
-          amount: number
           car_id: string
           created_at: string
+          expires_on: string
+          file_path: string | null
           id: string
-          location: string | null
+          issued_on: string | null
+          kind: string
           notes: string | null
-          pricing_type: string
+          notified_days: number[]
+          reference: string | null
+          reminder_days: number[]
           updated_at: string
         }
         Insert: {
-          amount?: number
           car_id: string
           created_at?: string
+          expires_on: string
+          file_path?: string | null
           id?: string
-          location?: string | null
+          issued_on?: string | null
+          kind: string
           notes?: string | null
-          pricing_type: string
+          notified_days?: number[]
+          reference?: string | null
+          reminder_days?: number[]
           updated_at?: string
         }
         Update: {
-          amount?: number
           car_id?: string
           created_at?: string
+          expires_on?: string
+          file_path?: string | null
           id?: string
-          location?: string | null
+          issued_on?: string | null
+          kind?: string
           notes?: string | null
-          pricing_type?: string
+          notified_days?: number[]
+          reference?: string | null
+          reminder_days?: number[]
           updated_at?: string
         }
         Relationships: [
           {
-            foreignKeyName: "pricing_rules_car_id_fkey"
+            foreignKeyName: "car_documents_car_id_fkey"
             columns: ["car_id"]
             isOneToOne: false
             referencedRelation: "cars"
@@ -227,45 +540,917 @@ export type Database = {
           },
         ]
       }
-      profiles: {
+      cars: {
         Row: {
-          avatar_url: string | null
           created_at: string
-          full_name: string | null
+          description: string | null
+          features: string[] | null
           id: string
+          image: string | null
+          images: string[] | null
+          name: string
+          seats: number
+          security_deposit: number
+          status: string
+          type: string
           updated_at: string
-          user_id: string
         }
         Insert: {
-          avatar_url?: string | null
           created_at?: string
-          full_name?: string | null
+          description?: string | null
+          features?: string[] | null
           id?: string
+          image?: string | null
+          images?: string[] | null
+          name: string
+          seats?: number
+          security_deposit?: number
+          status?: string
+          type: string
           updated_at?: string
-          user_id: string
         }
         Update: {
-          avatar_url?: string | null
           created_at?: string
-          full_name?: string | null
+          description?: string | null
+          features?: string[] | null
           id?: string
+          image?: string | null
+          images?: string[] | null
+          name?: string
+          seats?: number
+          security_deposit?: number
+          status?: string
+          type?: string
           updated_at?: string
-          user_id?: string
         }
         Relationships: []
       }
-      user_roles: {
+      damage_charges: {
         Row: {
+          amount: number
+          booking_id: string
           created_at: string
+          created_by: string | null
+          created_by_name: string | null
+          description: string
           id: string
-          role: Database["public"]["Enums"]["app_role"]
-          user_id: string
+          inspection_id: string | null
+          panel: string | null
+          updated_at: string
         }
         Insert: {
+          amount: number
+          booking_id: string
           created_at?: string
+          created_by?: string | null
+          created_by_name?: string | null
+          description: string
           id?: string
-          role: Database["public"]["Enums"]["app_role"]
-          user_id: string
+          inspection_id?: string | null
+          panel?: string | null
+          updated_at?: string
+        }
+        Update: {
+          amount?: number
+          booking_id?: string
+          created_at?: string
+          created_by?: string | null
+          created_by_name?: string | null
+          description?: string
+          id?: string
+          inspection_id?: string | null
+          panel?: string | null
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "damage_charges_booking_id_fkey"
+            columns: ["booking_id"]
+            isOneToOne: false
+            referencedRelation: "bookings"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "damage_charges_inspection_id_fkey"
+            columns: ["inspection_id"]
+            isOneToOne: false
+            referencedRelation: "booking_inspections"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      drivers: {
+        Row: {
+          created_at: string
+          email: string | null
+          id: string
+          languages: string[]
+          license_expiry: string | null
+          license_number: string | null
+          name: string
+          phone: string | null
+          status: string
+          updated_at: string
+          user_id: string | null
+        }
+        Insert: {
+          created_at?: string
+          email?: string | null
+          id?: string
+          languages?: string[]
+          license_expiry?: string | null
+          license_number?: string | null
+          name: string
+          phone?: string | null
+          status?: string
+          updated_at?: string
+          user_id?: string | null
+        }
+        Update: {
+          created_at?: string
+          email?: string | null
+          id?: string
+          languages?: string[]
+          license_expiry?: string | null
+          license_number?: string | null
+          name?: string
+          phone?: string | null
+          status?: string
+          updated_at?: string
+          user_id?: string | null
+        }
+        Relationships: []
+      }
+      expenses: {
+        Row: {
+          amount: number
+          car_id: string | null
+          created_at: string
+          description: string
+          expense_date: string
+          id: string
+        }
+        Insert: {
+          amount?: number
+          car_id?: string | null
+          created_at?: string
+          description: string
+          expense_date?: string
+          id?: string
+        }
+        Update: {
+          amount?: number
+          car_id?: string | null
+          created_at?: string
+          description?: string
+          expense_date?: string
+          id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "expenses_car_id_fkey"
+            columns: ["car_id"]
+            isOneToOne: false
+            referencedRelation: "cars"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      invoice_bookings: {
+        Row: {
+          booking_id: string
+          invoice_id: string
+        }
+        Insert: {
+          booking_id: string
+          invoice_id: string
+        }
+        Update: {
+          booking_id?: string
+          invoice_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "invoice_bookings_booking_id_fkey"
+            columns: ["booking_id"]
+            isOneToOne: false
+            referencedRelation: "bookings"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "invoice_bookings_invoice_id_fkey"
+            columns: ["invoice_id"]
+            isOneToOne: false
+            referencedRelation: "invoices"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      invoice_counters: {
+        Row: {
+          last_number: number
+          year: number
+        }
+        Insert: {
+          last_number?: number
+          year: number
+        }
+        Update: {
+          last_number?: number
+          year?: number
+        }
+        Relationships: []
+      }
+      invoices: {
+        Row: {
+          bill_to_company: string | null
+          bill_to_email: string | null
+          bill_to_name: string
+          bill_to_phone: string | null
+          bill_to_tax_id: string | null
+          id: string
+          issued_at: string
+          issued_by: string | null
+          issued_by_name: string | null
+          items: Json
+          number: string
+          sequence: number
+          subtotal: number
+          tax_amount: number
+          tax_rate: number
+          total: number
+          user_id: string | null
+          void_reason: string | null
+          voided_at: string | null
+          voided_by_name: string | null
+          year: number
+        }
+        Insert: {
+          bill_to_company?: string | null
+          bill_to_email?: string | null
+          bill_to_name: string
+          bill_to_phone?: string | null
+          bill_to_tax_id?: string | null
+          id?: string
+          issued_at?: string
+          issued_by?: string | null
+          issued_by_name?: string | null
+          items: Json
+          number: string
+          sequence: number
+          subtotal: number
+          tax_amount: number
+          tax_rate: number
+          total: number
+          user_id?: string | null
+          void_reason?: string | null
+          voided_at?: string | null
+          voided_by_name?: string | null
+          year: number
+        }
+        Update: {
+          bill_to_company?: string | null
+          bill_to_email?: string | null
+          bill_to_name?: string
+          bill_to_phone?: string | null
+          bill_to_tax_id?: string | null
+          id?: string
+          issued_at?: string
+          issued_by?: string | null
+          issued_by_name?: string | null
+          items?: Json
+          number?: string
+          sequence?: number
+          subtotal?: number
+          tax_amount?: number
+          tax_rate?: number
+          total?: number
+          user_id?: string | null
+          void_reason?: string | null
+          voided_at?: string | null
+          voided_by_name?: string | null
+          year?: number
+        }
+        Relationships: []
+      }
+      maintenance_records: {
+        Row: {
+          car_id: string
+          cost: number
+          created_at: string
+          ends_at: string
+          expense_id: string | null
+          id: string
+          notes: string | null
+          odometer: number | null
+          service_type_id: string | null
+          starts_at: string
+          status: string
+          updated_at: string
+        }
+        Insert: {
+          car_id: string
+          cost?: number
+          created_at?: string
+          ends_at: string
+          expense_id?: string | null
+          id?: string
+          notes?: string | null
+          odometer?: number | null
+          service_type_id?: string | null
+          starts_at: string
+          status?: string
+          updated_at?: string
+        }
+        Update: {
+          car_id?: string
+          cost?: number
+          created_at?: string
+          ends_at?: string
+          expense_id?: string | null
+          id?: string
+          notes?: string | null
+          odometer?: number | null
+          service_type_id?: string | null
+          starts_at?: string
+          status?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "maintenance_records_car_id_fkey"
+            columns: ["car_id"]
+            isOneToOne: false
+            referencedRelation: "cars"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "maintenance_records_expense_id_fkey"
+            columns: ["expense_id"]
+            isOneToOne: false
+            referencedRelation: "expenses"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "maintenance_records_service_type_id_fkey"
+            columns: ["service_type_id"]
+            isOneToOne: false
+            referencedRelation: "service_types"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      message_outbox: {
+        Row: {
+          attempts: number
+          booking_id: string | null
+          channel: string
+          created_at: string
+          dedupe_key: string | null
+          id: string
+          language: string
+          last_error: string | null
+          params: Json
+          provider: string | null
+          provider_message_id: string | null
+          recipient: string
+          send_after: string
+          sent_at: string | null
+          status: string
+          template: string
+          updated_at: string
+        }
+        Insert: {
+          attempts?: number
+          booking_id?: string | null
+          channel: string
+          created_at?: string
+          dedupe_key?: string | null
+          id?: string
+          language?: string
+          last_error?: string | null
+          params?: Json
+          provider?: string | null
+          provider_message_id?: string | null
+          recipient: string
+          send_after?: string
+          sent_at?: string | null
+          status?: string
+          template: string
+          updated_at?: string
+        }
+        Update: {
+          attempts?: number
+          booking_id?: string | null
+          channel?: string
+          created_at?: string
+          dedupe_key?: string | null
+          id?: string
+          language?: string
+          last_error?: string | null
+          params?: Json
+          provider?: string | null
+          provider_message_id?: string | null
+          recipient?: string
+          send_after?: string
+          sent_at?: string | null
+          status?: string
+          template?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "message_outbox_booking_id_fkey"
+            columns: ["booking_id"]
+            isOneToOne: false
+            referencedRelation: "bookings"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      notification_reads: {
+        Row: {
+          notification_id: string
+          read_at: string
+          user_id: string
+        }
+        Insert: {
+          notification_id: string
+          read_at?: string
+          user_id: string
+        }
+        Update: {
+          notification_id?: string
+          read_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "notification_reads_notification_id_fkey"
+            columns: ["notification_id"]
+            isOneToOne: false
+            referencedRelation: "notifications"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      notifications: {
+        Row: {
+          created_at: string
+          dedupe_key: string | null
+          id: string
+          link: string | null
+          message: string
+          title: string
+          type: string
+        }
+        Insert: {
+          created_at?: string
+          dedupe_key?: string | null
+          id?: string
+          link?: string | null
+          message: string
+          title: string
+          type?: string
+        }
+        Update: {
+          created_at?: string
+          dedupe_key?: string | null
+          id?: string
+          link?: string | null
+          message?: string
+          title?: string
+          type?: string
+        }
+        Relationships: []
+      }
+      payments: {
+        Row: {
+          amount: number
+          booking_id: string
+          charged_amount: number | null
+          charged_currency: string | null
+          completed_at: string | null
+          created_at: string
+          failure_reason: string | null
+          id: string
+          kind: string
+          method: string
+          note: string | null
+          paid_at: string
+          payer_phone: string | null
+          provider_transaction_id: string | null
+          purpose: string
+          recorded_by: string | null
+          recorded_by_name: string | null
+          status: string
+          updated_at: string
+        }
+        Insert: {
+          amount: number
+          booking_id: string
+          charged_amount?: number | null
+          charged_currency?: string | null
+          completed_at?: string | null
+          created_at?: string
+          failure_reason?: string | null
+          id?: string
+          kind?: string
+          method: string
+          note?: string | null
+          paid_at?: string
+          payer_phone?: string | null
+          provider_transaction_id?: string | null
+          purpose?: string
+          recorded_by?: string | null
+          recorded_by_name?: string | null
+          status?: string
+          updated_at?: string
+        }
+        Update: {
+          amount?: number
+          booking_id?: string
+          charged_amount?: number | null
+          charged_currency?: string | null
+          completed_at?: string | null
+          created_at?: string
+          failure_reason?: string | null
+          id?: string
+          kind?: string
+          method?: string
+          note?: string | null
+          paid_at?: string
+          payer_phone?: string | null
+          provider_transaction_id?: string | null
+          purpose?: string
+          recorded_by?: string | null
+          recorded_by_name?: string | null
+          status?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "payments_booking_id_fkey"
+            columns: ["booking_id"]
+            isOneToOne: false
+            referencedRelation: "bookings"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      pricing_rules: {
+        Row: {
+          amount: number
+          cancellation_policy_id: string | null
+          car_id: string
+          created_at: string
+          day_filter: string
+          ends_on: string | null
+          id: string
+          name: string | null
+          notes: string | null
+          pricing_type: string
+          priority: number
+          starts_on: string | null
+          updated_at: string
+          zone_id: string | null
+        }
+        Insert: {
+          amount?: number
+          cancellation_policy_id?: string | null
+          car_id: string
+          created_at?: string
+          day_filter?: string
+          ends_on?: string | null
+          id?: string
+          name?: string | null
+          notes?: string | null
+          pricing_type: string
+          priority?: number
+          starts_on?: string | null
+          updated_at?: string
+          zone_id?: string | null
+        }
+        Update: {
+          amount?: number
+          cancellation_policy_id?: string | null
+          car_id?: string
+          created_at?: string
+          day_filter?: string
+          ends_on?: string | null
+          id?: string
+          name?: string | null
+          notes?: string | null
+          pricing_type?: string
+          priority?: number
+          starts_on?: string | null
+          updated_at?: string
+          zone_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "pricing_rules_car_id_fkey"
+            columns: ["car_id"]
+            isOneToOne: false
+            referencedRelation: "cars"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "pricing_rules_zone_id_fkey"
+            columns: ["zone_id"]
+            isOneToOne: false
+            referencedRelation: "pricing_zones"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "pricing_rules_cancellation_policy_id_fkey"
+            columns: ["cancellation_policy_id"]
+            isOneToOne: false
+            referencedRelation: "cancellation_policies"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      pricing_tiers: {
+        Row: {
+          amount: number | null
+          car_id: string
+          created_at: string
+          discount_percent: number | null
+          from_unit: number | null
+          id: string
+          kind: string
+          name: string | null
+          pricing_type: string
+          to_unit: number | null
+          units: number | null
+          updated_at: string
+        }
+        Insert: {
+          amount?: number | null
+          car_id: string
+          created_at?: string
+          discount_percent?: number | null
+          from_unit?: number | null
+          id?: string
+          kind: string
+          name?: string | null
+          pricing_type: string
+          to_unit?: number | null
+          units?: number | null
+          updated_at?: string
+        }
+        Update: {
+          amount?: number | null
+          car_id?: string
+          created_at?: string
+          discount_percent?: number | null
+          from_unit?: number | null
+          id?: string
+          kind?: string
+          name?: string | null
+          pricing_type?: string
+          to_unit?: number | null
+          units?: number | null
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "pricing_tiers_car_id_fkey"
+            columns: ["car_id"]
+            isOneToOne: false
+            referencedRelation: "cars"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      pricing_zones: {
+        Row: {
+          created_at: string
+          id: string
+          name: string
+          notes: string | null
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          name: string
+          notes?: string | null
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          name?: string
+          notes?: string | null
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      profiles: {
+        Row: {
+          avatar_url: string | null
+          created_at: string
+          full_name: string | null
+          id: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          avatar_url?: string | null
+          created_at?: string
+          full_name?: string | null
+          id?: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          avatar_url?: string | null
+          created_at?: string
+          full_name?: string | null
+          id?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      promo_code_attempts: {
+        Row: {
+          attempted_at: string
+          client_ip: string
+          id: number
+          succeeded: boolean
+        }
+        Insert: {
+          attempted_at?: string
+          client_ip: string
+          id?: number
+          succeeded: boolean
+        }
+        Update: {
+          attempted_at?: string
+          client_ip?: string
+          id?: number
+          succeeded?: boolean
+        }
+        Relationships: []
+      }
+      promo_codes: {
+        Row: {
+          car_types: string[] | null
+          code: string
+          created_at: string
+          description: string | null
+          discount_type: string
+          discount_value: number
+          id: string
+          is_active: boolean
+          max_uses: number | null
+          updated_at: string
+          used_count: number
+          valid_from: string | null
+          valid_until: string | null
+        }
+        Insert: {
+          car_types?: string[] | null
+          code: string
+          created_at?: string
+          description?: string | null
+          discount_type: string
+          discount_value: number
+          id?: string
+          is_active?: boolean
+          max_uses?: number | null
+          updated_at?: string
+          used_count?: number
+          valid_from?: string | null
+          valid_until?: string | null
+        }
+        Update: {
+          car_types?: string[] | null
+          code?: string
+          created_at?: string
+          description?: string | null
+          discount_type?: string
+          discount_value?: number
+          id?: string
+          is_active?: boolean
+          max_uses?: number | null
+          updated_at?: string
+          used_count?: number
+          valid_from?: string | null
+          valid_until?: string | null
+        }
+        Relationships: []
+      }
+      security_deposits: {
+        Row: {
+          amount: number
+          booking_id: string
+          created_at: string
+          deducted_amount: number
+          held_at: string
+          held_by: string | null
+          held_by_name: string | null
+          id: string
+          method: string
+          note: string | null
+          reference: string | null
+          released_amount: number | null
+          released_at: string | null
+          released_by: string | null
+          released_by_name: string | null
+          status: string
+          updated_at: string
+        }
+        Insert: {
+          amount: number
+          booking_id: string
+          created_at?: string
+          deducted_amount?: number
+          held_at?: string
+          held_by?: string | null
+          held_by_name?: string | null
+          id?: string
+          method: string
+          note?: string | null
+          reference?: string | null
+          released_amount?: number | null
+          released_at?: string | null
+          released_by?: string | null
+          released_by_name?: string | null
+          status?: string
+          updated_at?: string
+        }
+        Update: {
+          amount?: number
+          booking_id?: string
+          created_at?: string
+          deducted_amount?: number
+          held_at?: string
+          held_by?: string | null
+          held_by_name?: string | null
+          id?: string
+          method?: string
+          note?: string | null
+          reference?: string | null
+          released_amount?: number | null
+          released_at?: string | null
+          released_by?: string | null
+          released_by_name?: string | null
+          status?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "security_deposits_booking_id_fkey"
+            columns: ["booking_id"]
+            isOneToOne: true
+            referencedRelation: "bookings"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      service_types: {
+        Row: {
+          created_at: string
+          id: string
+          interval_days: number | null
+          interval_km: number | null
+          name: string
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          interval_days?: number | null
+          interval_km?: number | null
+          name: string
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          interval_days?: number | null
+          interval_km?: number | null
+          name?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      user_roles: {
+        Row: {
+          created_at: string
+          id: string
+          role: Database["public"]["Enums"]["app_role"]
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          role: Database["public"]["Enums"]["app_role"]
+          user_id: string
         }
         Update: {
           created_at?: string
@@ -277,9 +1462,99 @@ export type Database = {
       }
     }
     Views: {
-      [_ in never]: never
+      booking_balances: {
+        Row: {
+          amount_paid: number | null
+          amount_refunded: number | null
+          balance_due: number | null
+          booking_id: string | null
+          paid_in_full: boolean | null
+          total_price: number | null
+        }
+        Relationships: []
+      }
     }
     Functions: {
+      apply_promo: {
+        Args: {
+          _promo: Database["public"]["Tables"]["promo_codes"]["Row"]
+          _quote: Json
+        }
+        Returns: Json
+      }
+      booking_reference: {
+        Args: {
+          _client_request_id: string
+        }
+        Returns: string
+      }
+      cancellation_policy_for: {
+        Args: {
+          _booking: Database["public"]["Tables"]["bookings"]["Row"]
+        }
+        Returns: Database["public"]["Tables"]["cancellation_policies"]["Row"]
+      }
+      cancellation_quote: {
+        Args: {
+          _booking_id: string
+        }
+        Returns: Json
+      }
+      cancellation_terms: {
+        Args: {
+          _at?: string
+          _booking: Database["public"]["Tables"]["bookings"]["Row"]
+        }
+        Returns: Json
+      }
+      claim_outbox_messages: {
+        Args: {
+          _limit?: number
+        }
+        Returns: Database["public"]["Tables"]["message_outbox"]["Row"][]
+      }
+      collected_income: {
+        Args: {
+          _from?: string
+          _to?: string
+        }
+        Returns: {
+          car_id: string
+          collected: number
+          month: string
+          refunded: number
+        }[]
+      }
+      current_driver_id: {
+        Args: never
+        Returns: string
+      }
+      enqueue_booking_reminders: {
+        Args: never
+        Returns: number
+      }
+      find_promo_code: {
+        Args: {
+          _car_id: string
+          _code: string
+        }
+        Returns: Database["public"]["Tables"]["promo_codes"]["Row"]
+      }
+      generate_booking_reference: {
+        Args: never
+        Returns: string
+      }
+      get_car_availability: {
+        Args: {
+          _car_id: string
+          _from: string
+          _to: string
+        }
+        Returns: {
+          ends_at: string
+          starts_at: string
+        }[]
+      }
       has_role: {
         Args: {
           _role: Database["public"]["Enums"]["app_role"]
@@ -287,9 +1562,186 @@ export type Database = {
         }
         Returns: boolean
       }
+      invoice_statement: {
+        Args: {
+          _invoice_id: string
+        }
+        Returns: Json
+      }
+      issue_invoice: {
+        Args: {
+          _bill_to?: Json
+          _booking_ids: string[]
+        }
+        Returns: Database["public"]["Tables"]["invoices"]["Row"]
+      }
+      lookup_booking: {
+        Args: {
+          _phone: string
+          _reference: string
+        }
+        Returns: {
+          car_name: string
+          ends_at: string
+          pickup_location: string
+          reference: string
+          starts_at: string
+          status: string
+          total_price: number
+        }[]
+      }
+      maintenance_due: {
+        Args: {
+          _within_days?: number
+          _within_km?: number
+        }
+        Returns: {
+          car_id: string
+          current_odometer: number
+          due_km: number
+          due_on: string
+          last_done_on: string
+          overdue: boolean
+          service_type_id: string
+        }[]
+      }
+      mark_all_notifications_read: {
+        Args: {
+          _type?: string
+        }
+        Returns: number
+      }
+      notify_document_expiry: {
+        Args: never
+        Returns: number
+      }
+      notify_unassigned_bookings: {
+        Args: never
+        Returns: number
+      }
+      phone_key: {
+        Args: {
+          _phone: string
+        }
+        Returns: string
+      }
+      pricing_calendar: {
+        Args: {
+          _car_id: string
+          _from: string
+          _pricing_type: string
+          _to: string
+        }
+        Returns: {
+          amount: number
+          day: string
+          name: string
+          rule_id: string
+        }[]
+      }
+      pricing_rule_for_day: {
+        Args: {
+          _car_id: string
+          _day: string
+          _dropoff_zone_id?: string
+          _pickup_zone_id?: string
+          _pricing_type: string
+        }
+        Returns: Database["public"]["Tables"]["pricing_rules"]["Row"]
+      }
+      quote_booking: {
+        Args: {
+          _car_id: string
+          _dropoff_zone_id?: string
+          _pickup_zone_id?: string
+          _pricing_type: string
+          _promo_code?: string
+          _quantity: number
+          _starts_at?: string
+        }
+        Returns: Json
+      }
+      quote_line: {
+        Args: {
+          _description: string
+          _from?: string
+          _kind: string
+          _quantity: number
+          _rule_id?: string
+          _unit_price: number
+        }
+        Returns: Json
+      }
+      record_promo_attempt: {
+        Args: {
+          _succeeded: boolean
+        }
+        Returns: undefined
+      }
+      record_trip_event: {
+        Args: {
+          _booking_id: string
+          _event: string
+        }
+        Returns: Database["public"]["Tables"]["bookings"]["Row"]
+      }
+      redeem_promo_code: {
+        Args: {
+          _car_id: string
+          _code: string
+        }
+        Returns: Database["public"]["Tables"]["promo_codes"]["Row"]
+      }
+      request_booking_change: {
+        Args: {
+          _booking_id: string
+          _kind: string
+          _reason?: string
+          _starts_at?: string
+        }
+        Returns: Database["public"]["Tables"]["booking_change_requests"]["Row"]
+      }
+      request_ip: {
+        Args: never
+        Returns: string
+      }
+      resolve_booking_change: {
+        Args: {
+          _approve: boolean
+          _note?: string
+          _request_id: string
+        }
+        Returns: Database["public"]["Tables"]["booking_change_requests"]["Row"]
+      }
+      set_booking_status: {
+        Args: {
+          _booking_id: string
+          _reason?: string
+          _status: string
+        }
+        Returns: Database["public"]["Tables"]["bookings"]["Row"]
+      }
+      settle_security_deposit: {
+        Args: {
+          _booking_id: string
+          _note?: string
+        }
+        Returns: Database["public"]["Tables"]["security_deposits"]["Row"]
+      }
+      unread_notification_count: {
+        Args: never
+        Returns: number
+      }
+      void_invoice: {
+        Args: {
+          _invoice_id: string
+          _reason: string
+        }
+        Returns: Database["public"]["Tables"]["invoices"]["Row"]
+      }
     }
     Enums: {
-      app_role: "admin"
+      app_role: "admin" | "driver"
     }
     CompositeTypes: {
       [_ in never]: never
@@ -417,7 +1869,7 @@ export type CompositeTypes<
 export const Constants = {
   public: {
     Enums: {
-      app_role: ["admin"],
+      app_role: ["admin", "driver"],
     },
   },
 } as const
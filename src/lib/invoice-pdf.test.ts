@@ -0,0 +1,152 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { downloadInvoicePdf } from '@/lib/invoice-pdf';
+import type { Invoice, InvoiceItem, InvoiceLine, InvoiceStatement } from '@/data/invoices';
+
+const { fetchInvoiceStatement, pages, saved } = vi.hoisted(() => ({
+  fetchInvoiceStatement: vi.fn(),
+  // Text drawn on each page, with where it was drawn
+  pages: [] as { value: string; x: number; y: number }[][],
+  saved: [] as string[],
+}));
+
+vi.mock('@/integrations/supabase/client', () => ({ supabase: {} }));
+
+vi.mock('@/data/invoices', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@/data/invoices')>()),
+  fetchInvoiceStatement,
+}));
+
+vi.mock('jspdf', () => ({
+  jsPDF: class {
+    constructor() { pages.push([]); }
+    setFont() { return this; }
+    setFontSize() { return this; }
+    setTextColor() { return this; }
+    setDrawColor() { return this; }
+    line() { return this; }
+    addPage() { pages.push([]); return this; }
+    splitTextToSize(value: string) { return [value]; }
+    text(value: string, x: number, y: number) { pages[pages.length - 1].push({ value, x, y }); return this; }
+    save(name: string) { saved.push(name); }
+  },
+}));
+
+const line = (description: string, amount: number): InvoiceLine => ({ kind: 'rate', description, quantity: 1, unit_price: amount, amount });
+
+const item = (reference: string, lines: InvoiceLine[], status = 'completed'): InvoiceItem => ({
+  booking_id: reference,
+  reference,
+  car_name: 'Toyota RAV4',
+  starts_at: '2026-05-01T07:00:00Z',
+  ends_at: '2026-05-02T07:00:00Z',
+  pickup_location: 'Airport',
+  status,
+  lines,
+});
+
+const invoice = (items: InvoiceItem[], extra: Partial<Invoice> = {}) => ({
+  id: 'inv-1',
+  number: 'INV-2026-00042',
+  issued_at: '2026-05-03T10:00:00Z',
+  bill_to_name: 'Aline Uwase',
+  bill_to_company: 'Kivu Tours',
+  bill_to_tax_id: '123456789',
+  bill_to_phone: null,
+  bill_to_email: 'aline@example.com',
+  items,
+  subtotal: 169.49,
+  tax_rate: 18,
+  tax_amount: 30.51,
+  total: 200,
+  voided_at: null,
+  void_reason: null,
+  ...extra,
+}) as unknown as Invoice;
+
+const statement = (extra: Partial<InvoiceStatement> = {}): InvoiceStatement => ({
+  paid: 0, refunded: 0, payments: [], deposits: [], ...extra,
+});
+
+const texts = () => pages.flat().map((t) => t.value);
+
+describe('downloadInvoicePdf', () => {
+  beforeEach(() => {
+    pages.length = 0;
+    saved.length = 0;
+    fetchInvoiceStatement.mockReset();
+  });
+
+  it('saves the invoice under its number with the customer, lines and totals', async () => {
+    fetchInvoiceStatement.mockResolvedValue(statement({ paid: 60 }));
+
+    await downloadInvoicePdf(invoice([item('SM-1001', [line('2 days', 180), line('Airport delivery', 20)])]));
+
+    expect(fetchInvoiceStatement).toHaveBeenCalledWith('inv-1');
+    expect(saved).toEqual(['INV-2026-00042.pdf']);
+    expect(texts()).toEqual(expect.arrayContaining([
+      'INV-2026-00042', 'PARTIALLY PAID', 'Kivu Tours', 'Attn: Aline Uwase', 'TIN: 123456789',
+      'SM-1001 · Toyota RAV4', '2 days', '$180.00', 'Airport delivery', '$20.00',
+      'Subtotal (excl. VAT)', '$169.49', 'VAT 18%', '$30.51', 'Total', '$200.00', 'Paid', '$60.00', 'Balance due', '$140.00',
+    ]));
+  });
+
+  it('bills the named customer directly when there is no company', async () => {
+    fetchInvoiceStatement.mockResolvedValue(statement());
+
+    await downloadInvoicePdf(invoice([item('SM-1001', [line('2 days', 200)])], { bill_to_company: null, bill_to_tax_id: null }));
+
+    expect(texts()).toContain('Aline Uwase');
+    expect(texts()).not.toContain('Attn: Aline Uwase');
+    expect(texts()).toContain('UNPAID');
+  });
+
+  it('marks cancelled bookings and what is owed back to the customer', async () => {
+    fetchInvoiceStatement.mockResolvedValue(statement({ paid: 200 }));
+
+    await downloadInvoicePdf(invoice([item('SM-1001', [line('Cancellation fee', 50)], 'cancelled')], { total: 50 }));
+
+    expect(texts()).toEqual(expect.arrayContaining(['SM-1001 · Toyota RAV4 (cancelled)', 'REFUND DUE', 'Due to customer', '$150.00']));
+  });
+
+  it('lists payments, refunds and security deposits', async () => {
+    fetchInvoiceStatement.mockResolvedValue(statement({
+      paid: 200,
+      refunded: 20,
+      payments: [
+        { reference: 'SM-1001', kind: 'payment', purpose: 'deposit', method: 'mtn_momo', amount: 200, paid_at: '2026-05-01T08:00:00Z' },
+        { reference: 'SM-1001', kind: 'refund', purpose: 'balance', method: 'cash', amount: 20, paid_at: '2026-05-02T08:00:00Z' },
+      ],
+      deposits: [{ reference: 'SM-1001', amount: 100, status: 'held', deducted_amount: 0, released_amount: null }],
+    }));
+
+    await downloadInvoicePdf(invoice([item('SM-1001', [line('2 days', 200)])]));
+
+    const all = texts();
+    expect(all.some((t) => t.endsWith('SM-1001 · Payment · MTN MoMo'))).toBe(true);
+    expect(all.some((t) => t.endsWith('SM-1001 · Refund · Cash'))).toBe(true);
+    expect(all).toEqual(expect.arrayContaining(['Refunded', '-$20.00', 'SM-1001 · $100.00 held']));
+  });
+
+  it('stamps a voided invoice with the reason', async () => {
+    fetchInvoiceStatement.mockResolvedValue(statement());
+
+    await downloadInvoicePdf(invoice([item('SM-1001', [line('2 days', 200)])], {
+      voided_at: '2026-05-04T10:00:00Z',
+      void_reason: 'Wrong company details',
+    }));
+
+    expect(texts()).toContain('VOID');
+    expect(texts().some((t) => t.startsWith('Voided ') && t.endsWith(': Wrong company details'))).toBe(true);
+  });
+
+  it('starts a new page instead of writing past the bottom margin', async () => {
+    fetchInvoiceStatement.mockResolvedValue(statement());
+    const lines = Array.from({ length: 30 }, (_, i) => line(`Day ${i + 1}`, 10));
+
+    await downloadInvoicePdf(invoice([item('SM-1001', lines), item('SM-1002', lines)]));
+
+    expect(pages.length).toBeGreaterThan(1);
+    expect(pages.flat().every((t) => t.y <= 297 - 18)).toBe(true);
+    expect(pages[pages.length - 1].map((t) => t.value)).toContain('Total');
+  });
+});
@@ -0,0 +1,173 @@
+import { format } from 'date-fns';
+import type { jsPDF } from 'jspdf';
+import { company } from '@/data/company';
+import { paymentMethodLabels, type PaymentMethod } from '@/data/payments';
+import {
+  fetchInvoiceStatement, invoiceItems, invoiceStatus,
+  type Invoice, type InvoiceStatement, type InvoiceStatus,
+} from '@/data/invoices';
+
+const PAGE_WIDTH = 210;
+const PAGE_HEIGHT = 297;
+const MARGIN = 18;
+const RIGHT = PAGE_WIDTH - MARGIN;
+
+const statusLabels: Record<InvoiceStatus, string> = {
+  void: 'VOID',
+  paid: 'PAID',
+  partial: 'PARTIALLY PAID',
+  unpaid: 'UNPAID',
+  refund_due: 'REFUND DUE',
+};
+
+const money = (value: number) =>
+  `${value < 0 ? '-' : ''}$${Math.abs(Number(value)).toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+const methodLabel = (method: string) => paymentMethodLabels[method as PaymentMethod] || method;
+
+/** Lays the invoice out on A4 pages: company and customer, one block of lines per booking, totals and payments. */
+function renderInvoice(doc: jsPDF, invoice: Invoice, statement: InvoiceStatement) {
+  const { status, balanceDue } = invoiceStatus(invoice, statement);
+  let y = MARGIN;
+
+  const ensureSpace = (height: number) => {
+    if (y + height > PAGE_HEIGHT - MARGIN) {
+      doc.addPage();
+      y = MARGIN;
+    }
+  };
+  const text = (value: string, x: number, options: { bold?: boolean; size?: number; align?: 'left' | 'right'; muted?: boolean } = {}) => {
+    doc.setFont('helvetica', options.bold ? 'bold' : 'normal');
+    doc.setFontSize(options.size ?? 10);
+    doc.setTextColor(options.muted ? 110 : 20);
+    doc.text(value, x, y, { align: options.align ?? 'left' });
+  };
+  const rule = () => {
+    doc.setDrawColor(200);
+    doc.line(MARGIN, y, RIGHT, y);
+  };
+  const row = (label: string, amount: string, options: { bold?: boolean } = {}) => {
+    ensureSpace(6);
+    text(label, RIGHT - 60, options);
+    text(amount, RIGHT, { ...options, align: 'right' });
+    y += 6;
+  };
+
+  // Company and invoice number
+  text(company.name, MARGIN, { bold: true, size: 16 });
+  text('INVOICE', RIGHT, { bold: true, size: 16, align: 'right' });
+  y += 6;
+  text(company.address, MARGIN, { muted: true, size: 9 });
+  text(invoice.number, RIGHT, { bold: true, align: 'right' });
+  y += 5;
+  text(`${company.phone} · ${company.email}`, MARGIN, { muted: true, size: 9 });
+  text(`Issued ${format(new Date(invoice.issued_at), 'PPP')}`, RIGHT, { muted: true, size: 9, align: 'right' });
+  y += 5;
+  text(statusLabels[status], RIGHT, { bold: true, size: 9, align: 'right' });
+  y += 10;
+
+  // Customer
+  text('Bill to', MARGIN, { bold: true, size: 9, muted: true });
+  y += 5;
+  [
+    invoice.bill_to_company,
+    invoice.bill_to_company ? `Attn: ${invoice.bill_to_name}` : invoice.bill_to_name,
+    invoice.bill_to_tax_id && `TIN: ${invoice.bill_to_tax_id}`,
+    invoice.bill_to_phone,
+    invoice.bill_to_email,
+  ].filter(Boolean).forEach((line) => {
+    text(line as string, MARGIN);
+    y += 5;
+  });
+  y += 5;
+
+  // Column headings
+  text('Description', MARGIN, { bold: true, size: 9 });
+  text('Qty', RIGHT - 60, { bold: true, size: 9, align: 'right' });
+  text('Unit price', RIGHT - 30, { bold: true, size: 9, align: 'right' });
+  text('Amount', RIGHT, { bold: true, size: 9, align: 'right' });
+  y += 2;
+  rule();
+  y += 6;
+
+  invoiceItems(invoice).forEach((item) => {
+    ensureSpace(12);
+    const dates = `${format(new Date(item.starts_at), 'MMM d, yyyy p')} - ${format(new Date(item.ends_at), 'MMM d, yyyy p')}`;
+    text(`${item.reference} · ${item.car_name || 'Car'}${item.status === 'cancelled' ? ' (cancelled)' : ''}`, MARGIN, { bold: true });
+    y += 5;
+    text(`${dates} · ${item.pickup_location}`, MARGIN, { muted: true, size: 8 });
+    y += 6;
+    item.lines.forEach((line) => {
+      const description: string[] = doc.setFontSize(9).splitTextToSize(line.description, RIGHT - 75 - MARGIN);
+      ensureSpace(description.length * 4.5 + 1.5);
+      description.forEach((part, i) => {
+        text(part, MARGIN + 3, { size: 9 });
+        if (i === 0) {
+          text(String(line.quantity), RIGHT - 60, { size: 9, align: 'right' });
+          text(money(line.unit_price), RIGHT - 30, { size: 9, align: 'right' });
+          text(money(line.amount), RIGHT, { size: 9, align: 'right' });
+        }
+        y += 4.5;
+      });
+      y += 1.5;
+    });
+    y += 3;
+  });
+
+  rule();
+  y += 6;
+  row('Subtotal (excl. VAT)', money(Number(invoice.subtotal)));
+  row(`VAT ${Number(invoice.tax_rate)}%`, money(Number(invoice.tax_amount)));
+  row('Total', money(Number(invoice.total)), { bold: true });
+  row('Paid', money(Number(statement.paid)));
+  if (Number(statement.refunded) > 0) row('Refunded', money(-Number(statement.refunded)));
+  row(balanceDue < 0 ? 'Due to customer' : 'Balance due', money(Math.abs(balanceDue)), { bold: true });
+  y += 4;
+
+  if (statement.payments.length > 0) {
+    ensureSpace(12);
+    text('Payments', MARGIN, { bold: true, size: 9, muted: true });
+    y += 5;
+    statement.payments.forEach((payment) => {
+      ensureSpace(5);
+      const kind = payment.kind === 'refund' ? 'Refund' : payment.purpose === 'damage' ? 'Damage, from deposit' : 'Payment';
+      text(`${format(new Date(payment.paid_at), 'PPP')} · ${payment.reference} · ${kind} · ${methodLabel(payment.method)}`, MARGIN, { size: 9 });
+      text(money(payment.kind === 'refund' ? -payment.amount : payment.amount), RIGHT, { size: 9, align: 'right' });
+      y += 5;
+    });
+    y += 4;
+  }
+
+  if (statement.deposits.length > 0) {
+    ensureSpace(12);
+    text('Security deposits (refundable, not part of the total)', MARGIN, { bold: true, size: 9, muted: true });
+    y += 5;
+    statement.deposits.forEach((deposit) => {
+      ensureSpace(5);
+      const outcome = deposit.status === 'held'
+        ? 'held'
+        : `released ${money(Number(deposit.released_amount))}${Number(deposit.deducted_amount) > 0 ? `, ${money(Number(deposit.deducted_amount))} kept for damage` : ''}`;
+      text(`${deposit.reference} · ${money(Number(deposit.amount))} ${outcome}`, MARGIN, { size: 9 });
+      y += 5;
+    });
+    y += 4;
+  }
+
+  if (invoice.voided_at) {
+    ensureSpace(10);
+    text(`Voided ${format(new Date(invoice.voided_at), 'PPP')}${invoice.void_reason ? `: ${invoice.void_reason}` : ''}`, MARGIN, { bold: true, size: 9 });
+    y += 6;
+  }
+
+  ensureSpace(8);
+  text(`Prices include VAT. Thank you for choosing ${company.name}.`, MARGIN, { muted: true, size: 8 });
+}
+
+/** Fetches what has been paid so far and saves the invoice as `<number>.pdf`. */
+export async function downloadInvoicePdf(invoice: Invoice): Promise<void> {
+  // jsPDF is only needed here, so it stays out of the main bundle
+  const [{ jsPDF }, statement] = await Promise.all([import('jspdf'), fetchInvoiceStatement(invoice.id)]);
+  const doc = new jsPDF({ unit: 'mm', format: 'a4' });
+  renderInvoice(doc, invoice, statement);
+  doc.save(`${invoice.number}.pdf`);
+}
@@ -1,16 +1,29 @@
-import { useState, useEffect } from 'react';
+import { useState } from 'react';
 import { useSearchParams, useNavigate } from 'react-router-dom';
 import { motion, AnimatePresence } from 'framer-motion';
 import { format } from 'date-fns';
-import { Calendar as CalendarIcon, MapPin, Clock, Check, ChevronRight, ChevronLeft, User, Mail, Phone } from 'lucide-react';
+import { Calendar as CalendarIcon, MapPin, Clock, Check, ChevronRight, ChevronLeft, User, Mail, Phone, Tag } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Calendar } from '@/components/ui/calendar';
 import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Checkbox } from '@/components/ui/checkbox';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
 import { useLanguage } from '@/i18n/LanguageContext';
-import { cars, getCarById } from '@/data/cars';
+import { getCarById } from '@/data/cars';
+import { useCars } from '@/hooks/use-cars';
+import { useCarAvailability } from '@/hooks/use-availability';
+import { useBookingQuote, usePricingZones } from '@/hooks/use-booking-quote';
+import { fetchBookingQuote } from '@/data/pricing';
+import { QuoteBreakdown } from '@/components/booking/QuoteBreakdown';
+import { DepositPayment } from '@/components/booking/DepositPayment';
+import { useDepositPercent } from '@/hooks/use-deposit';
+import { mobileMoneyMethods, paymentMethodLabels, type MobileMoneyMethod } from '@/data/payments';
+import { bookingRange, fetchBookingReference, isOverlapError, overlapsAny } from '@/data/bookings';
+import { enqueueBooking, isRetryableError, submitBooking, type BookingPayload } from '@/data/booking-outbox';
+import { BookingOutboxList } from '@/components/offline/BookingOutbox';
 import { Layout } from '@/components/layout/Layout';
 import { useOnlineStatus } from '@/components/offline/OfflineBanner';
 import { useAuth } from '@/contexts/AuthContext';
@@ -29,19 +42,24 @@ interface BookingData {
   clientPhone: string;
   pickupLocation: string;
   dropoffLocation: string;
+  pickupZoneId: string;
+  dropoffZoneId: string;
   date: Date | undefined;
   time: string;
   pricingPlan: PricingPlan;
   duration: number;
+  promoCode: string;
 }
 
 export default function Booking() {
   const [searchParams] = useSearchParams();
   const navigate = useNavigate();
-  const { t } = useLanguage();
+  const { t, language } = useLanguage();
   const { toast } = useToast();
   const isOnline = useOnlineStatus();
   const { user } = useAuth();
+  const { data: cars = [] } = useCars();
+  const { data: zones = [] } = usePricingZones();
 
   const [step, setStep] = useState(0);
   const [booking, setBooking] = useState<BookingData>({
@@ -51,23 +69,75 @@ export default function Booking() {
     clientPhone: '',
     pickupLocation: '',
     dropoffLocation: '',
+    pickupZoneId: '',
+    dropoffZoneId: '',
     date: undefined,
     time: '',
     pricingPlan: 'hour',
     duration: 1,
+    promoCode: '',
   });
   const [isSubmitted, setIsSubmitted] = useState(false);
   const [submitting, setSubmitting] = useState(false);
+  const [promoInput, setPromoInput] = useState('');
+  const [promoError, setPromoError] = useState('');
+  const [applyingPromo, setApplyingPromo] = useState(false);
+  // Idempotency key for this booking; resubmitting after a lost response cannot create a duplicate
+  const [requestId] = useState(() => crypto.randomUUID());
+  const [queued, setQueued] = useState(false);
+  const [reference, setReference] = useState<string | null>(null);
+  const [deposit, setDeposit] = useState<{ enabled: boolean; method: MobileMoneyMethod; phone: string }>({ enabled: false, method: 'mtn_momo', phone: '' });
+  const { data: depositPercent = 0 } = useDepositPercent();
 
-  const selectedCar = booking.carId ? getCarById(booking.carId) : undefined;
+  const selectedCar = booking.carId ? getCarById(cars, booking.carId) : undefined;
+  const durationHours = booking.pricingPlan === 'day' ? booking.duration * 24 : booking.duration;
+  const { data: busySlots = [] } = useCarAvailability(booking.carId || undefined, booking.date, durationHours);
 
-  const calculatePrice = () => {
-    if (!selectedCar) return 0;
-    switch (booking.pricingPlan) {
-      case 'hour': return selectedCar.pricePerHour * booking.duration;
-      case 'day': return selectedCar.pricePerDay * booking.duration;
-      case 'trip': return selectedCar.pricePerTrip * booking.duration;
-      default: return 0;
+  const isSlotTaken = (time: string) =>
+    !!booking.date && overlapsAny(bookingRange(booking.date, time, durationHours), busySlots);
+
+  const range = booking.date && booking.time ? bookingRange(booking.date, booking.time, durationHours) : undefined;
+  const { data: quote, error: quoteError, isFetching: quoting } = useBookingQuote({
+    carId: booking.carId || undefined,
+    pricingType: booking.pricingPlan,
+    quantity: booking.duration,
+    pickupZoneId: booking.pickupZoneId || undefined,
+    dropoffZoneId: booking.dropoffZoneId || undefined,
+    startsAt: range?.start.toISOString(),
+    promoCode: booking.promoCode || undefined,
+  });
+
+  const quoteLabel = () => {
+    if (!isOnline) return t('booking.priceOnConfirm');
+    if (quoteError) return t('booking.quoteUnavailable');
+    if (!quote || quoting) return '…';
+    return `$${Number(quote.total).toLocaleString()}`;
+  };
+
+  const handleApplyPromo = async () => {
+    const code = promoInput.trim().toUpperCase();
+    if (!code || !booking.carId) return;
+    setApplyingPromo(true);
+    setPromoError('');
+    try {
+      const { promo_error } = await fetchBookingQuote({
+        carId: booking.carId,
+        pricingType: booking.pricingPlan,
+        quantity: booking.duration,
+        pickupZoneId: booking.pickupZoneId || undefined,
+        dropoffZoneId: booking.dropoffZoneId || undefined,
+        startsAt: range?.start.toISOString(),
+        promoCode: code,
+      });
+      if (promo_error) {
+        setPromoError(promo_error);
+        return;
+      }
+      setBooking({ ...booking, promoCode: code });
+    } catch (error) {
+      setPromoError((error as { message?: string }).message || t('booking.quoteUnavailable'));
+    } finally {
+      setApplyingPromo(false);
     }
   };
 
@@ -91,56 +161,69 @@ export default function Booking() {
     switch (step) {
       case 0: return !!booking.carId;
       case 1: return !!booking.clientName && !!booking.clientPhone && !!booking.pickupLocation;
-      case 2: return !!booking.date && !!booking.time && booking.duration > 0;
+      case 2: return !!booking.date && !!booking.time && booking.duration > 0 && !isSlotTaken(booking.time);
       default: return true;
     }
   };
 
   const handleSubmit = async () => {
     setSubmitting(true);
-    const bookingPayload = {
+    const bookingPayload: BookingPayload = {
+      client_request_id: requestId,
       car_id: booking.carId || null,
       client_name: booking.clientName,
       client_email: booking.clientEmail || null,
       client_phone: booking.clientPhone || null,
       pickup_location: booking.pickupLocation,
       dropoff_location: booking.dropoffLocation || null,
+      pickup_zone_id: booking.pickupZoneId || null,
+      dropoff_zone_id: booking.dropoffZoneId || null,
       booking_date: booking.date ? format(booking.date, 'yyyy-MM-dd') : '',
       booking_time: booking.time || null,
-      duration_hours: booking.pricingPlan === 'day' ? booking.duration * 24 : booking.duration,
-      total_price: calculatePrice(),
+      duration_hours: durationHours,
+      starts_at: range?.start.toISOString(),
+      ends_at: range?.end.toISOString(),
+      pricing_type: booking.pricingPlan,
+      quantity: booking.duration,
+      promo_code: booking.promoCode || null,
       user_id: user?.id || null,
+      language,
       status: 'pending',
     };
 
-    if (!isOnline) {
-      const pending = JSON.parse(localStorage.getItem('pendingBookings') || '[]');
-      pending.push({ ...bookingPayload, createdAt: new Date().toISOString() });
-      localStorage.setItem('pendingBookings', JSON.stringify(pending));
+    const queueForLater = async () => {
+      await enqueueBooking(bookingPayload, {
+        carName: selectedCar?.name || '',
+        date: bookingPayload.booking_date,
+        time: booking.time,
+      });
+      setQueued(true);
       setIsSubmitted(true);
-      setSubmitting(false);
-      return;
-    }
+    };
 
-    const { error } = await supabase.from('bookings').insert(bookingPayload);
-    setSubmitting(false);
-    if (error) {
-      toast({ title: 'Booking failed', description: error.message, variant: 'destructive' });
-    } else {
-      setIsSubmitted(true);
-    }
-  };
+    try {
+      if (!isOnline) {
+        await queueForLater();
+        return;
+      }
 
-  // Offline sync
-  useEffect(() => {
-    if (isOnline) {
-      const pending = JSON.parse(localStorage.getItem('pendingBookings') || '[]');
-      if (pending.length > 0) {
-        console.log('Syncing pending bookings:', pending);
-        localStorage.setItem('pendingBookings', '[]');
+      const { error } = await submitBooking(bookingPayload);
+      if (error && isRetryableError(error)) {
+        await queueForLater();
+      } else if (isOverlapError(error)) {
+        toast({ title: 'Booking failed', description: t('booking.slotTaken'), variant: 'destructive' });
+      } else if (error) {
+        toast({ title: 'Booking failed', description: error.message, variant: 'destructive' });
+      } else {
+        setReference(await fetchBookingReference(requestId).catch(() => null));
+        setIsSubmitted(true);
       }
+    } catch (error) {
+      toast({ title: 'Booking failed', description: (error as Error).message, variant: 'destructive' });
+    } finally {
+      setSubmitting(false);
     }
-  }, [isOnline]);
+  };
 
   if (isSubmitted) {
     return (
@@ -153,8 +236,19 @@ export default function Booking() {
               </div>
               <h1 className="text-2xl font-bold mb-4">{t('booking.success')}</h1>
               <p className="text-muted-foreground mb-8">
-                {!isOnline ? t('booking.offlineMessage') : t('booking.successMessage')}
+                {queued ? t('booking.offlineMessage') : t('booking.successMessage')}
               </p>
+              {reference && (
+                <div className="mb-8 p-4 bg-accent/10 rounded-xl">
+                  <div className="text-sm text-muted-foreground">{t('booking.reference')}</div>
+                  <div className="text-3xl font-bold font-mono tracking-wider text-accent">{reference}</div>
+                  <div className="text-xs text-muted-foreground mt-2">{t('booking.referenceHint')}</div>
+                </div>
+              )}
+              {!queued && deposit.enabled && deposit.phone.trim() && (
+                <DepositPayment clientRequestId={requestId} method={deposit.method} phone={deposit.phone.trim()} className="mb-8 text-left" />
+              )}
+              {queued && <BookingOutboxList className="mb-8 text-left" />}
               <Button onClick={() => navigate('/')} className="btn-accent text-white">
                 {t('common.back')}
               </Button>
@@ -173,6 +267,8 @@ export default function Booking() {
             <h1 className="text-3xl md:text-5xl font-bold mb-4">{t('booking.title')}</h1>
           </motion.div>
 
+          <BookingOutboxList className="max-w-2xl mx-auto mb-8" />
+
           {/* Progress Steps */}
           <div className="max-w-2xl mx-auto mb-12">
             <div className="flex items-center justify-between">
@@ -255,6 +351,15 @@ export default function Booking() {
                           <MapPin className="absolute left-3 top-1/2 -translate-y-1/2 w-5 h-5 text-muted-foreground" />
                           <Input id="pickup" value={booking.pickupLocation} onChange={(e) => setBooking({ ...booking, pickupLocation: e.target.value })} className="pl-10" placeholder="Enter pickup location" required />
                         </div>
+                        <Select value={booking.pickupZoneId || 'none'} onValueChange={(v) => setBooking({ ...booking, pickupZoneId: v === 'none' ? '' : v })}>
+                          <SelectTrigger className="mt-2">
+                            <SelectValue placeholder={t('booking.zone')} />
+                          </SelectTrigger>
+                          <SelectContent>
+                            <SelectItem value="none">{t('booking.otherZone')}</SelectItem>
+                            {zones.map((z) => <SelectItem key={z.id} value={z.id}>{z.name}</SelectItem>)}
+                          </SelectContent>
+                        </Select>
                       </div>
                       <div>
                         <Label htmlFor="dropoff">Dropoff Location</Label>
@@ -262,6 +367,15 @@ export default function Booking() {
                           <MapPin className="absolute left-3 top-1/2 -translate-y-1/2 w-5 h-5 text-muted-foreground" />
                           <Input id="dropoff" value={booking.dropoffLocation} onChange={(e) => setBooking({ ...booking, dropoffLocation: e.target.value })} className="pl-10" placeholder="Enter dropoff location" />
                         </div>
+                        <Select value={booking.dropoffZoneId || 'none'} onValueChange={(v) => setBooking({ ...booking, dropoffZoneId: v === 'none' ? '' : v })}>
+                          <SelectTrigger className="mt-2">
+                            <SelectValue placeholder={t('booking.zone')} />
+                          </SelectTrigger>
+                          <SelectContent>
+                            <SelectItem value="none">{t('booking.otherZone')}</SelectItem>
+                            {zones.map((z) => <SelectItem key={z.id} value={z.id}>{z.name}</SelectItem>)}
+                          </SelectContent>
+                        </Select>
                       </div>
                     </div>
                   </div>
@@ -321,11 +435,15 @@ export default function Booking() {
                             <SelectValue placeholder="Select time" />
                           </SelectTrigger>
                           <SelectContent>
-                            {Array.from({ length: 24 }, (_, i) => (
-                              <SelectItem key={i} value={`${i.toString().padStart(2, '0')}:00`}>
-                                {i.toString().padStart(2, '0')}:00
-                              </SelectItem>
-                            ))}
+                            {Array.from({ length: 24 }, (_, i) => {
+                              const time = `${i.toString().padStart(2, '0')}:00`;
+                              const taken = isSlotTaken(time);
+                              return (
+                                <SelectItem key={i} value={time} disabled={taken}>
+                                  {time}{taken && ` · ${t('booking.unavailable')}`}
+                                </SelectItem>
+                              );
+                            })}
                           </SelectContent>
                         </Select>
                       </div>
@@ -350,13 +468,20 @@ export default function Booking() {
                       </div>
                     </div>
 
+                    {booking.time && isSlotTaken(booking.time) && (
+                      <p className="text-sm text-destructive">{t('booking.slotTaken')}</p>
+                    )}
+
                     {/* Live Price Preview */}
                     {selectedCar && (
-                      <div className="p-4 bg-accent/10 rounded-xl flex items-center justify-between">
-                        <span className="text-sm text-muted-foreground">
-                          {booking.duration} {getDurationLabel()} × ${booking.pricingPlan === 'hour' ? selectedCar.pricePerHour : booking.pricingPlan === 'day' ? selectedCar.pricePerDay : selectedCar.pricePerTrip}
-                        </span>
-                        <span className="text-2xl font-bold text-accent">${calculatePrice()}</span>
+                      <div className="p-4 bg-accent/10 rounded-xl space-y-3">
+                        {quote && isOnline && !quoteError && (
+                          <QuoteBreakdown quote={quote} unitLabel={booking.pricingPlan} />
+                        )}
+                        <div className="flex items-center justify-between">
+                          <span className="text-sm text-muted-foreground">{t('booking.total')}</span>
+                          <span className="text-2xl font-bold text-accent">{quoteLabel()}</span>
+                        </div>
                       </div>
                     )}
                   </div>
@@ -389,6 +514,9 @@ export default function Booking() {
                         <div className="p-4 bg-muted/50 rounded-xl">
                           <div className="text-muted-foreground mb-1">{t('booking.pickupLocation')}</div>
                           <div className="font-medium">{booking.pickupLocation}</div>
+                          {booking.pickupZoneId && (
+                            <div className="text-xs text-muted-foreground">{zones.find((z) => z.id === booking.pickupZoneId)?.name}</div>
+                          )}
                         </div>
                         <div className="p-4 bg-muted/50 rounded-xl">
                           <div className="text-muted-foreground mb-1">{t('booking.date')}</div>
@@ -397,10 +525,88 @@ export default function Booking() {
                         </div>
                       </div>
 
-                      <div className="p-6 bg-accent/10 rounded-xl flex items-center justify-between">
-                        <div className="text-lg font-semibold">{t('booking.total')}</div>
-                        <div className="text-3xl font-bold text-accent">${calculatePrice()}</div>
+                      <div className="p-4 bg-muted/50 rounded-xl space-y-2">
+                        <Label htmlFor="promo">{t('booking.promoCode')}</Label>
+                        {booking.promoCode ? (
+                          <div className="flex items-center justify-between gap-3">
+                            <span className="flex items-center gap-2 text-sm font-medium">
+                              <Tag className="w-4 h-4 text-accent" /> {booking.promoCode} · {t('booking.promoApplied')}
+                            </span>
+                            <Button variant="ghost" size="sm" onClick={() => { setBooking({ ...booking, promoCode: '' }); setPromoInput(''); }}>
+                              {t('booking.removePromo')}
+                            </Button>
+                          </div>
+                        ) : (
+                          <div className="flex gap-2">
+                            <Input
+                              id="promo"
+                              value={promoInput}
+                              onChange={(e) => { setPromoInput(e.target.value); setPromoError(''); }}
+                              className="uppercase"
+                            />
+                            <Button variant="outline" onClick={handleApplyPromo} disabled={!promoInput.trim() || applyingPromo || !isOnline}>
+                              {t('booking.applyPromo')}
+                            </Button>
+                          </div>
+                        )}
+                        {(promoError || (booking.promoCode && quote?.promo_error)) && (
+                          <p className="text-sm text-destructive">{promoError || quote?.promo_error}</p>
+                        )}
+                      </div>
+
+                      <div className="p-6 bg-accent/10 rounded-xl space-y-4">
+                        {quote && isOnline && !quoteError && (
+                          <QuoteBreakdown quote={quote} unitLabel={booking.pricingPlan} className="pb-4 border-b border-accent/20" />
+                        )}
+                        <div className="flex items-center justify-between">
+                          <div className="text-lg font-semibold">{t('booking.total')}</div>
+                          <div className="text-3xl font-bold text-accent">{quoteLabel()}</div>
+                        </div>
+                        {selectedCar.securityDeposit > 0 && (
+                          <div className="pt-4 border-t border-accent/20 text-sm">
+                            <div className="flex items-center justify-between">
+                              <span className="font-medium">{t('booking.securityDeposit')}</span>
+                              <span className="font-medium">${selectedCar.securityDeposit.toLocaleString()}</span>
+                            </div>
+                            <p className="text-muted-foreground mt-1">{t('booking.securityDepositHint')}</p>
+                          </div>
+                        )}
                       </div>
+
+                      {isOnline && depositPercent > 0 && quote && !quoteError && (
+                        <div className="p-4 bg-muted/50 rounded-xl space-y-3">
+                          <label className="flex items-start gap-3 cursor-pointer">
+                            <Checkbox
+                              checked={deposit.enabled}
+                              onCheckedChange={(v) => setDeposit({ ...deposit, enabled: v === true, phone: deposit.phone || booking.clientPhone })}
+                              className="mt-0.5"
+                            />
+                            <div>
+                              <div className="font-medium">{t('booking.deposit')}</div>
+                              <div className="text-sm text-muted-foreground">
+                                {t('booking.depositHint')
+                                  .replace('{percent}', String(depositPercent))
+                                  .replace('{amount}', `$${(Math.round(Number(quote.total) * depositPercent) / 100).toLocaleString()}`)}
+                              </div>
+                            </div>
+                          </label>
+                          {deposit.enabled && (
+                            <div className="grid md:grid-cols-2 gap-4 pl-7">
+                              <RadioGroup value={deposit.method} onValueChange={(v) => setDeposit({ ...deposit, method: v as MobileMoneyMethod })}>
+                                {mobileMoneyMethods.map((method) => (
+                                  <label key={method} className="flex items-center gap-2 text-sm cursor-pointer">
+                                    <RadioGroupItem value={method} /> {paymentMethodLabels[method]}
+                                  </label>
+                                ))}
+                              </RadioGroup>
+                              <div>
+                                <Label htmlFor="depositPhone">{t('booking.depositPhone')}</Label>
+                                <Input id="depositPhone" type="tel" value={deposit.phone} onChange={(e) => setDeposit({ ...deposit, phone: e.target.value })} placeholder="+250 788 123 456" className="mt-2" />
+                              </div>
+                            </div>
+                          )}
+                        </div>
+                      )}
                     </div>
                   </div>
                 )}
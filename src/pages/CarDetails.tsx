@@ -4,7 +4,7 @@ import { useState } from 'react';
 import { ChevronLeft, ChevronRight, Users, Phone, MessageCircle, Check } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { useLanguage } from '@/i18n/LanguageContext';
-import { getCarById } from '@/data/cars';
+import { useCar } from '@/hooks/use-cars';
 import { Layout } from '@/components/layout/Layout';
 
 export default function CarDetails() {
@@ -13,7 +13,17 @@ export default function CarDetails() {
   const { t } = useLanguage();
   const [currentImage, setCurrentImage] = useState(0);
 
-  const car = id ? getCarById(id) : undefined;
+  const { data: car, isLoading } = useCar(id);
+
+  if (!car && isLoading) {
+    return (
+      <Layout>
+        <div className="container mx-auto px-4 py-20 text-center text-muted-foreground animate-pulse">
+          {t('common.loading')}
+        </div>
+      </Layout>
+    );
+  }
 
   if (!car) {
     return (
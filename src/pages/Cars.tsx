@@ -3,11 +3,12 @@ import { motion } from 'framer-motion';
 import { Users, Phone, MessageCircle } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { useLanguage } from '@/i18n/LanguageContext';
-import { cars } from '@/data/cars';
+import { useCars } from '@/hooks/use-cars';
 import { Layout } from '@/components/layout/Layout';
 
 export default function Cars() {
   const { t } = useLanguage();
+  const { data: cars = [], isLoading } = useCars();
 
   return (
     <Layout>
@@ -25,6 +26,10 @@ export default function Cars() {
             </p>
           </motion.div>
 
+          {isLoading && cars.length === 0 && (
+            <div className="text-center text-muted-foreground animate-pulse">{t('common.loading')}</div>
+          )}
+
           {/* Car Grid */}
           <div className="grid md:grid-cols-2 lg:grid-cols-3 gap-8">
             {cars.map((car, i) => (
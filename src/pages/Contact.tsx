@@ -9,6 +9,7 @@ import { Label } from '@/components/ui/label';
 import { useState } from 'react';
 import { motion } from 'framer-motion';
 import { useToast } from '@/hooks/use-toast';
+import { company, companyPhoneDigits } from '@/data/company';
 
 export default function Contact() {
   const { t } = useLanguage();
@@ -22,11 +23,11 @@ export default function Contact() {
   };
 
   const details = [
-    { icon: Phone, label: t('contact.phone'), value: '+250 788 123 456', href: 'tel:+250788123456' },
-    { icon: Mail, label: t('contact.email'), value: 'info@smartmove.rw', href: 'mailto:info@smartmove.rw' },
-    { icon: MapPin, label: t('contact.address'), value: 'KG 11 Ave, Kigali, Rwanda' },
+    { icon: Phone, label: t('contact.phone'), value: company.phone, href: `tel:+${companyPhoneDigits}` },
+    { icon: Mail, label: t('contact.email'), value: company.email, href: `mailto:${company.email}` },
+    { icon: MapPin, label: t('contact.address'), value: company.address },
     { icon: Clock, label: t('contact.hours'), value: t('contact.hoursValue') },
-    { icon: MessageCircle, label: 'WhatsApp', value: '+250 788 123 456', href: 'https://wa.me/250788123456' },
+    { icon: MessageCircle, label: 'WhatsApp', value: company.phone, href: `https://wa.me/${companyPhoneDigits}` },
   ];
 
   return (
@@ -0,0 +1,184 @@
+import { useEffect, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { format, isToday, max, startOfDay } from 'date-fns';
+import { Car, CheckCircle2, ClipboardCheck, LogOut, MapPin, Navigation, Phone } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { InspectionForm } from '@/components/inspections/InspectionForm';
+import { useAuth } from '@/contexts/AuthContext';
+import { useLanguage } from '@/i18n/LanguageContext';
+import { useToast } from '@/hooks/use-toast';
+import { useCurrentDriver, useDriverTrips, useRecordTripEvent } from '@/hooks/use-driver-trips';
+import type { DriverTrip, TripEvent } from '@/data/drivers';
+import type { InspectionKind } from '@/data/inspections';
+
+const statusColors: Record<string, string> = {
+  pending: 'bg-yellow-500/20 text-yellow-600 border-yellow-500/30',
+  approved: 'bg-green-500/20 text-green-600 border-green-500/30',
+  in_progress: 'bg-blue-500/20 text-blue-600 border-blue-500/30',
+  completed: 'bg-accent/20 text-accent border-accent/30',
+};
+
+export default function DriverTrips() {
+  const { user, isDriver, loading, signOut } = useAuth();
+  const navigate = useNavigate();
+  const { t } = useLanguage();
+  const { toast } = useToast();
+  const { data: driver, isLoading: loadingDriver } = useCurrentDriver(user?.id);
+  const { data: trips = [], isLoading: loadingTrips } = useDriverTrips(driver?.id);
+  const recordEvent = useRecordTripEvent();
+  const [inspecting, setInspecting] = useState<{ trip: DriverTrip; kind: InspectionKind } | null>(null);
+
+  useEffect(() => {
+    if (!loading && (!user || !isDriver)) navigate('/login');
+  }, [user, isDriver, loading, navigate]);
+
+  const handleEvent = (trip: DriverTrip, event: TripEvent) => {
+    recordEvent.mutate(
+      { bookingId: trip.id, event },
+      {
+        onSuccess: () => toast({ title: t('driver.updated') }),
+        onError: (error) => toast({ title: 'Error', description: error.message, variant: 'destructive' }),
+      },
+    );
+  };
+
+  const handleLogout = async () => {
+    await signOut();
+    navigate('/');
+  };
+
+  // Trips that started on an earlier day but are still running are listed under today
+  const today = startOfDay(new Date());
+  const days = trips.reduce<Record<string, DriverTrip[]>>((groups, trip) => {
+    const key = format(max([startOfDay(new Date(trip.starts_at)), today]), 'yyyy-MM-dd');
+    groups[key] = [...(groups[key] || []), trip];
+    return groups;
+  }, {});
+
+  const renderTrip = (trip: DriverTrip) => (
+    <div key={trip.id} className="glass rounded-2xl p-4 space-y-3">
+      <div className="flex items-center justify-between gap-2">
+        <div>
+          <div className="text-lg font-bold">{format(new Date(trip.starts_at), 'HH:mm')}</div>
+          <div className="text-xs text-muted-foreground font-mono">{trip.reference}</div>
+        </div>
+        <Badge variant="outline" className={statusColors[trip.status] || ''}>{trip.status.replace('_', ' ')}</Badge>
+      </div>
+
+      <div className="flex items-center gap-2 text-sm">
+        <Car className="w-4 h-4 text-muted-foreground" /> {trip.cars?.name || '—'}
+      </div>
+
+      <div className="flex items-center justify-between gap-2">
+        <span className="font-medium">{trip.client_name}</span>
+        {trip.client_phone && (
+          <a href={`tel:${trip.client_phone.replace(/\s/g, '')}`}>
+            <Button size="sm" variant="outline" className="gap-1"><Phone className="w-4 h-4" /> {t('driver.call')}</Button>
+          </a>
+        )}
+      </div>
+
+      <div className="space-y-1 text-sm">
+        <div className="flex gap-2">
+          <MapPin className="w-4 h-4 text-green-600 shrink-0 mt-0.5" />
+          <span><span className="text-muted-foreground">{t('driver.pickup')}:</span> {trip.pickup_location}</span>
+        </div>
+        {trip.dropoff_location && (
+          <div className="flex gap-2">
+            <Navigation className="w-4 h-4 text-destructive shrink-0 mt-0.5" />
+            <span><span className="text-muted-foreground">{t('driver.dropoff')}:</span> {trip.dropoff_location}</span>
+          </div>
+        )}
+        {trip.notes && <p className="text-xs text-muted-foreground pt-1">“{trip.notes}”</p>}
+      </div>
+
+      {trip.picked_up_at && (
+        <p className="text-xs text-muted-foreground">{t('driver.pickedUpAt')} {format(new Date(trip.picked_up_at), 'HH:mm')}</p>
+      )}
+      {trip.dropped_off_at && (
+        <p className="text-xs text-muted-foreground">{t('driver.droppedOffAt')} {format(new Date(trip.dropped_off_at), 'HH:mm')}</p>
+      )}
+
+      {(['pickup', 'return'] as InspectionKind[])
+        .filter((kind) => (kind === 'pickup' ? ['approved', 'in_progress'] : ['in_progress', 'completed']).includes(trip.status))
+        .map((kind) => {
+          const done = trip.booking_inspections.some((i) => i.kind === kind);
+          return (
+            <Button key={kind} variant="outline" className="w-full gap-2" onClick={() => setInspecting({ trip, kind })}>
+              {done ? <CheckCircle2 className="w-4 h-4 text-green-600" /> : <ClipboardCheck className="w-4 h-4" />}
+              {kind === 'pickup' ? t('driver.inspectPickup') : t('driver.inspectReturn')}
+            </Button>
+          );
+        })}
+
+      {trip.status === 'pending' && <p className="text-xs text-yellow-600">{t('driver.awaitingApproval')}</p>}
+      {trip.status === 'approved' && (
+        <Button className="w-full h-12 btn-accent text-white gap-2" disabled={recordEvent.isPending} onClick={() => handleEvent(trip, 'picked_up')}>
+          <CheckCircle2 className="w-5 h-5" /> {t('driver.markPickedUp')}
+        </Button>
+      )}
+      {trip.status === 'in_progress' && (
+        <Button className="w-full h-12 gap-2" disabled={recordEvent.isPending} onClick={() => handleEvent(trip, 'dropped_off')}>
+          <CheckCircle2 className="w-5 h-5" /> {t('driver.markDroppedOff')}
+        </Button>
+      )}
+    </div>
+  );
+
+  return (
+    <div className="min-h-screen bg-background">
+      <header className="sticky top-0 z-10 glass border-b border-border px-4 py-3 flex items-center justify-between">
+        <div>
+          <h1 className="text-lg font-bold">{t('driver.title')}</h1>
+          {driver && <p className="text-xs text-muted-foreground">{driver.name}</p>}
+        </div>
+        <Button variant="ghost" size="icon" onClick={handleLogout} aria-label={t('nav.logout')}>
+          <LogOut className="w-5 h-5" />
+        </Button>
+      </header>
+
+      <main className="max-w-md mx-auto p-4 space-y-6">
+        {loading || loadingDriver || loadingTrips ? (
+          <div className="text-center text-muted-foreground animate-pulse py-12">{t('common.loading')}</div>
+        ) : !driver ? (
+          <p className="text-center text-muted-foreground py-12">{t('driver.notLinked')}</p>
+        ) : trips.length === 0 ? (
+          <p className="text-center text-muted-foreground py-12">{t('driver.noTrips')}</p>
+        ) : (
+          <>
+            <p className="text-sm text-muted-foreground">{t('driver.subtitle')}</p>
+            {Object.entries(days).map(([day, dayTrips]) => {
+              const date = new Date(`${day}T00:00:00`);
+              return (
+                <section key={day} className="space-y-3">
+                  <h2 className="text-sm font-semibold uppercase tracking-wide text-muted-foreground">
+                    {isToday(date) ? t('driver.today') : format(date, 'EEEE d MMM')}
+                  </h2>
+                  {dayTrips.map(renderTrip)}
+                </section>
+              );
+            })}
+          </>
+        )}
+      </main>
+
+      <Dialog open={!!inspecting} onOpenChange={(v) => { if (!v) setInspecting(null); }}>
+        <DialogContent className="max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{inspecting?.kind === 'return' ? t('inspection.returnTitle') : t('inspection.pickupTitle')}</DialogTitle>
+          </DialogHeader>
+          {inspecting && (
+            <InspectionForm
+              bookingId={inspecting.trip.id}
+              kind={inspecting.kind}
+              inspection={inspecting.trip.booking_inspections.find((i) => i.kind === inspecting.kind)}
+              onSaved={() => setInspecting(null)}
+            />
+          )}
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -4,7 +4,7 @@ import { motion } from 'framer-motion';
 import { ChevronLeft, ChevronRight, Star, Shield, Clock } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { useLanguage } from '@/i18n/LanguageContext';
-import { cars } from '@/data/cars';
+import { useCars } from '@/hooks/use-cars';
 import { Layout } from '@/components/layout/Layout';
 
 const heroImages = [
@@ -15,6 +15,7 @@ const heroImages = [
 
 export default function Home() {
   const { t } = useLanguage();
+  const { data: cars = [] } = useCars();
   const [currentSlide, setCurrentSlide] = useState(0);
 
   useEffect(() => {
@@ -22,14 +22,14 @@ export default function Login() {
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     setLoading(true);
-    const { error } = await signIn(form.email, form.password);
+    const { error, isAdmin, isDriver } = await signIn(form.email, form.password);
     setLoading(false);
     if (error) {
       toast({ title: 'Login failed', description: error.message, variant: 'destructive' });
     } else {
       toast({ title: 'Welcome back!' });
-      // Small delay to ensure isAdmin state is set before navigating
-      setTimeout(() => navigate('/admin'), 100);
+      // Small delay to ensure role state is set before navigating; drivers land on their trip list
+      setTimeout(() => navigate(isDriver && !isAdmin ? '/driver' : '/admin'), 100);
     }
   };
 
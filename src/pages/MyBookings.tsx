@@ -0,0 +1,231 @@
+import { useEffect, useState } from 'react';
+import { Link, useNavigate } from 'react-router-dom';
+import { motion } from 'framer-motion';
+import { addHours, format, isAfter } from 'date-fns';
+import { CalendarClock, FileText, MapPin, XCircle } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Layout } from '@/components/layout/Layout';
+import { useAuth } from '@/contexts/AuthContext';
+import { useLanguage } from '@/i18n/LanguageContext';
+import { useToast } from '@/hooks/use-toast';
+import { useCancellationQuote, useChangeCutoffHours, useDownloadInvoice, useMyBookings, useRequestBookingChange } from '@/hooks/use-my-bookings';
+import { kigaliDateAndTime, kigaliDateTime, type MyBooking } from '@/data/bookings';
+import { canInvoice } from '@/data/invoices';
+
+const statusColors: Record<string, string> = {
+  pending: 'bg-yellow-500/20 text-yellow-600 border-yellow-500/30',
+  approved: 'bg-green-500/20 text-green-600 border-green-500/30',
+  in_progress: 'bg-blue-500/20 text-blue-600 border-blue-500/30',
+  rejected: 'bg-destructive/20 text-destructive border-destructive/30',
+  completed: 'bg-accent/20 text-accent border-accent/30',
+  cancelled: 'bg-muted text-muted-foreground border-border',
+};
+
+type ChangeKind = 'cancel' | 'reschedule';
+
+export default function MyBookings() {
+  const { user, loading } = useAuth();
+  const navigate = useNavigate();
+  const { t } = useLanguage();
+  const { toast } = useToast();
+  const { data: bookings = [], isLoading } = useMyBookings(user?.id);
+  const { data: cutoffHours = 0 } = useChangeCutoffHours();
+  const requestChange = useRequestBookingChange();
+  const downloadInvoice = useDownloadInvoice();
+
+  const [dialog, setDialog] = useState<{ booking: MyBooking; kind: ChangeKind } | null>(null);
+  const [reason, setReason] = useState('');
+  const [newDate, setNewDate] = useState('');
+  const [newTime, setNewTime] = useState('');
+  const { data: cancelQuote } = useCancellationQuote(dialog?.kind === 'cancel' ? dialog.booking.id : undefined);
+
+  useEffect(() => {
+    if (!loading && !user) navigate('/login');
+  }, [user, loading, navigate]);
+
+  const now = new Date();
+  const upcoming = bookings.filter((b) => isAfter(new Date(b.ends_at), now)).reverse();
+  const past = bookings.filter((b) => !isAfter(new Date(b.ends_at), now));
+
+  const pendingRequest = (b: MyBooking) => b.booking_change_requests.find((r) => r.status === 'pending');
+  const lastRequest = (b: MyBooking) =>
+    [...b.booking_change_requests].sort((a, c) => c.created_at.localeCompare(a.created_at))[0];
+  const canRequestChange = (b: MyBooking) =>
+    ['pending', 'approved'].includes(b.status) &&
+    !pendingRequest(b) &&
+    isAfter(new Date(b.starts_at), addHours(now, cutoffHours));
+  // Pending bookings may still be rejected, and a free cancellation has nothing to bill
+  const handleInvoice = (b: MyBooking) =>
+    downloadInvoice.mutate(b.id, {
+      onError: (error) => toast({ title: 'Error', description: error.message, variant: 'destructive' }),
+    });
+
+  const openDialog = (booking: MyBooking, kind: ChangeKind) => {
+    setDialog({ booking, kind });
+    setReason('');
+    const { date, time } = kigaliDateAndTime(booking.starts_at);
+    setNewDate(date);
+    setNewTime(time);
+  };
+
+  const handleSubmit = () => {
+    if (!dialog) return;
+    requestChange.mutate(
+      {
+        bookingId: dialog.booking.id,
+        kind: dialog.kind,
+        startsAt: dialog.kind === 'reschedule' ? kigaliDateTime(new Date(`${newDate}T00:00`), newTime).toISOString() : undefined,
+        reason,
+      },
+      {
+        onSuccess: () => {
+          toast({ title: t('myBookings.requestSent') });
+          setDialog(null);
+        },
+        onError: (error) => toast({ title: 'Error', description: error.message, variant: 'destructive' }),
+      },
+    );
+  };
+
+  const renderBooking = (b: MyBooking) => {
+    const pending = pendingRequest(b);
+    const last = lastRequest(b);
+    return (
+      <div key={b.id} className="glass rounded-2xl p-4 flex flex-col sm:flex-row gap-4">
+        <img src={b.cars?.image || '/placeholder.svg'} alt={b.cars?.name || ''} className="w-full sm:w-32 h-24 object-cover rounded-lg" />
+        <div className="flex-1 space-y-1">
+          <div className="flex items-center justify-between gap-2">
+            <span className="font-semibold">
+              {b.cars?.name || '—'} <span className="font-mono text-xs text-muted-foreground">{b.reference}</span>
+            </span>
+            <Badge variant="outline" className={statusColors[b.status] || ''}>{b.status.replace('_', ' ')}</Badge>
+          </div>
+          <div className="text-sm text-muted-foreground flex items-center gap-1">
+            <CalendarClock className="w-4 h-4" />
+            {format(new Date(b.starts_at), 'PPP p')} → {format(new Date(b.ends_at), 'PPP p')}
+          </div>
+          <div className="text-sm text-muted-foreground flex items-center gap-1">
+            <MapPin className="w-4 h-4" /> {b.pickup_location}
+          </div>
+          <div className="font-bold text-accent">${Number(b.total_price).toLocaleString()}</div>
+          {b.status === 'cancelled' && Number(b.cancellation_fee) > 0 && (
+            <p className="text-xs text-muted-foreground">{t('myBookings.cancellationFee')}: ${Number(b.cancellation_fee).toLocaleString()}</p>
+          )}
+          {Number(b.damage_total) > 0 && (
+            <p className="text-xs text-muted-foreground">{t('myBookings.damageCharges')}: ${Number(b.damage_total).toLocaleString()}</p>
+          )}
+          {pending && (
+            <p className="text-xs text-yellow-600">
+              {pending.kind === 'cancel' ? t('myBookings.pendingCancel') : t('myBookings.pendingReschedule')}
+              {pending.requested_starts_at && ` · ${format(new Date(pending.requested_starts_at), 'PPP p')}`}
+            </p>
+          )}
+          {!pending && last?.status === 'rejected' && (
+            <p className="text-xs text-destructive">{t('myBookings.requestRejected')}{last.admin_note && `: ${last.admin_note}`}</p>
+          )}
+        </div>
+        {(canRequestChange(b) || canInvoice(b)) && (
+          <div className="flex sm:flex-col gap-2 sm:justify-center">
+            {canRequestChange(b) && (
+              <>
+                <Button variant="outline" size="sm" className="gap-1" onClick={() => openDialog(b, 'reschedule')}>
+                  <CalendarClock className="w-4 h-4" /> {t('myBookings.reschedule')}
+                </Button>
+                <Button variant="outline" size="sm" className="gap-1 text-destructive" onClick={() => openDialog(b, 'cancel')}>
+                  <XCircle className="w-4 h-4" /> {t('myBookings.cancel')}
+                </Button>
+              </>
+            )}
+            {canInvoice(b) && (
+              <Button
+                variant="outline"
+                size="sm"
+                className="gap-1"
+                disabled={downloadInvoice.isPending && downloadInvoice.variables === b.id}
+                onClick={() => handleInvoice(b)}
+              >
+                <FileText className="w-4 h-4" /> {t('myBookings.invoice')}
+              </Button>
+            )}
+          </div>
+        )}
+      </div>
+    );
+  };
+
+  const renderList = (list: MyBooking[]) =>
+    list.length ? (
+      <div className="space-y-4">{list.map(renderBooking)}</div>
+    ) : (
+      <div className="text-center py-12 text-muted-foreground space-y-4">
+        <p>{t('myBookings.empty')}</p>
+        <Link to="/booking"><Button className="btn-accent text-white">{t('myBookings.bookNow')}</Button></Link>
+      </div>
+    );
+
+  return (
+    <Layout>
+      <section className="py-12 md:py-20">
+        <div className="container mx-auto px-4 max-w-3xl">
+          <motion.div initial={{ opacity: 0, y: 20 }} animate={{ opacity: 1, y: 0 }} className="mb-8">
+            <h1 className="text-3xl md:text-4xl font-bold mb-2">{t('myBookings.title')}</h1>
+            {cutoffHours > 0 && (
+              <p className="text-sm text-muted-foreground">{t('myBookings.cutoffNotice').replace('{hours}', String(cutoffHours))}</p>
+            )}
+          </motion.div>
+
+          {isLoading || loading ? (
+            <div className="text-center text-muted-foreground animate-pulse py-12">{t('common.loading')}</div>
+          ) : (
+            <Tabs defaultValue="upcoming">
+              <TabsList className="mb-6">
+                <TabsTrigger value="upcoming">{t('myBookings.upcoming')} ({upcoming.length})</TabsTrigger>
+                <TabsTrigger value="past">{t('myBookings.past')} ({past.length})</TabsTrigger>
+              </TabsList>
+              <TabsContent value="upcoming">{renderList(upcoming)}</TabsContent>
+              <TabsContent value="past">{renderList(past)}</TabsContent>
+            </Tabs>
+          )}
+        </div>
+      </section>
+
+      <Dialog open={!!dialog} onOpenChange={(v) => { if (!v) setDialog(null); }}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{dialog?.kind === 'cancel' ? t('myBookings.cancelTitle') : t('myBookings.rescheduleTitle')}</DialogTitle>
+          </DialogHeader>
+          <div className="space-y-4 mt-2">
+            {dialog?.kind === 'reschedule' && (
+              <div className="grid grid-cols-2 gap-4">
+                <div><Label>{t('myBookings.newDate')}</Label><Input type="date" value={newDate} onChange={(e) => setNewDate(e.target.value)} /></div>
+                <div><Label>{t('myBookings.newTime')}</Label><Input type="time" step={1800} value={newTime} onChange={(e) => setNewTime(e.target.value)} /></div>
+              </div>
+            )}
+            {dialog?.kind === 'cancel' && cancelQuote && (
+              <p className="text-sm text-muted-foreground">
+                {cancelQuote.fee > 0
+                  ? t('myBookings.cancelFee').replace('{percent}', String(cancelQuote.fee_percent)).replace('{fee}', Number(cancelQuote.fee).toLocaleString())
+                  : t('myBookings.cancelFree')}
+                {cancelQuote.refund > 0 && ` ${t('myBookings.cancelRefund').replace('{amount}', Number(cancelQuote.refund).toLocaleString())}`}
+              </p>
+            )}
+            <div><Label>{t('myBookings.reason')}</Label><Textarea value={reason} onChange={(e) => setReason(e.target.value)} rows={3} /></div>
+            <Button
+              onClick={handleSubmit}
+              disabled={requestChange.isPending || (dialog?.kind === 'reschedule' && (!newDate || !newTime))}
+              className="w-full"
+            >
+              {t('myBookings.sendRequest')}
+            </Button>
+          </div>
+        </DialogContent>
+      </Dialog>
+    </Layout>
+  );
+}
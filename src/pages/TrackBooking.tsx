@@ -0,0 +1,95 @@
+import { useState } from 'react';
+import { useSearchParams } from 'react-router-dom';
+import { motion } from 'framer-motion';
+import { format } from 'date-fns';
+import { Search } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Layout } from '@/components/layout/Layout';
+import { useLanguage } from '@/i18n/LanguageContext';
+import { lookupBooking, type BookingLookup } from '@/data/bookings';
+
+const statusColors: Record<string, string> = {
+  pending: 'bg-yellow-500/20 text-yellow-600 border-yellow-500/30',
+  approved: 'bg-green-500/20 text-green-600 border-green-500/30',
+  in_progress: 'bg-blue-500/20 text-blue-600 border-blue-500/30',
+  rejected: 'bg-destructive/20 text-destructive border-destructive/30',
+  completed: 'bg-accent/20 text-accent border-accent/30',
+  cancelled: 'bg-muted text-muted-foreground border-border',
+};
+
+export default function TrackBooking() {
+  const [searchParams] = useSearchParams();
+  const { t } = useLanguage();
+  const [reference, setReference] = useState(searchParams.get('ref') || '');
+  const [phone, setPhone] = useState('');
+  const [result, setResult] = useState<BookingLookup | null>(null);
+  const [error, setError] = useState('');
+  const [searching, setSearching] = useState(false);
+
+  const handleSearch = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSearching(true);
+    setError('');
+    setResult(null);
+    try {
+      const booking = await lookupBooking(reference, phone);
+      if (booking) setResult(booking);
+      else setError(t('lookup.notFound'));
+    } catch (err) {
+      setError((err as { message?: string }).message || t('lookup.notFound'));
+    } finally {
+      setSearching(false);
+    }
+  };
+
+  return (
+    <Layout>
+      <section className="py-12 md:py-20">
+        <div className="container mx-auto px-4 max-w-md">
+          <motion.div initial={{ opacity: 0, y: 20 }} animate={{ opacity: 1, y: 0 }} className="text-center mb-8">
+            <h1 className="text-3xl md:text-4xl font-bold mb-2">{t('lookup.title')}</h1>
+            <p className="text-muted-foreground">{t('lookup.subtitle')}</p>
+          </motion.div>
+
+          <form onSubmit={handleSearch} className="glass rounded-2xl p-6 space-y-4">
+            <div>
+              <Label htmlFor="reference">{t('lookup.reference')}</Label>
+              <Input
+                id="reference"
+                value={reference}
+                onChange={(e) => setReference(e.target.value.toUpperCase())}
+                placeholder="SM-7K3Q"
+                className="font-mono uppercase"
+              />
+            </div>
+            <div>
+              <Label htmlFor="phone">{t('lookup.phone')}</Label>
+              <Input id="phone" type="tel" value={phone} onChange={(e) => setPhone(e.target.value)} placeholder="+250 7XX XXX XXX" />
+            </div>
+            <Button type="submit" disabled={!reference.trim() || !phone.trim() || searching} className="w-full btn-accent text-white gap-2">
+              <Search className="w-4 h-4" /> {t('lookup.search')}
+            </Button>
+            {error && <p className="text-sm text-destructive text-center">{error}</p>}
+          </form>
+
+          {result && (
+            <motion.div initial={{ opacity: 0, y: 10 }} animate={{ opacity: 1, y: 0 }} className="glass rounded-2xl p-6 mt-6 space-y-3 text-sm">
+              <div className="flex items-center justify-between">
+                <span className="font-mono font-bold text-lg">{result.reference}</span>
+                <Badge variant="outline" className={statusColors[result.status] || ''}>{result.status.replace('_', ' ')}</Badge>
+              </div>
+              <div className="flex justify-between"><span className="text-muted-foreground">{t('lookup.car')}</span><span className="font-medium">{result.car_name || '—'}</span></div>
+              <div className="flex justify-between"><span className="text-muted-foreground">{t('lookup.pickup')}</span><span className="font-medium">{format(new Date(result.starts_at), 'PPP p')}</span></div>
+              <div className="flex justify-between"><span className="text-muted-foreground">{t('lookup.return')}</span><span className="font-medium">{format(new Date(result.ends_at), 'PPP p')}</span></div>
+              <div className="flex justify-between"><span className="text-muted-foreground">{t('booking.pickupLocation')}</span><span className="font-medium">{result.pickup_location}</span></div>
+              <div className="flex justify-between pt-3 border-t border-border"><span className="font-semibold">{t('booking.total')}</span><span className="font-bold text-accent">${Number(result.total_price).toLocaleString()}</span></div>
+            </motion.div>
+          )}
+        </div>
+      </section>
+    </Layout>
+  );
+}
@@ -1,6 +1,8 @@
 import { useEffect, useState } from 'react';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { supabase } from '@/integrations/supabase/client';
+import { toast } from '@/hooks/use-toast';
+import { fetchCollectedIncome, type CollectedIncome } from '@/data/payments';
 import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, PieChart, Pie, Cell, Legend } from 'recharts';
 
 const COLORS = ['hsl(210,100%,50%)', 'hsl(45,80%,55%)', 'hsl(0,72%,51%)', 'hsl(150,60%,45%)', 'hsl(280,60%,55%)', 'hsl(30,50%,45%)'];
@@ -13,9 +15,13 @@ export default function Analytics() {
   useEffect(() => { fetchData(); }, []);
 
   const fetchData = async () => {
-    const [{ data: cars }, { data: bookings }, { data: expenses }] = await Promise.all([
+    const [{ data: cars }, { count: bookingCount }, collected, { data: expenses }] = await Promise.all([
       supabase.from('cars').select('id, name'),
-      supabase.from('bookings').select('car_id, total_price'),
+      supabase.from('bookings').select('id', { count: 'exact', head: true }),
+      fetchCollectedIncome().catch((error): CollectedIncome[] => {
+        toast({ title: 'Could not load income', description: error.message, variant: 'destructive' });
+        return [];
+      }),
       supabase.from('expenses').select('car_id, amount'),
     ]);
 
@@ -25,8 +31,8 @@ export default function Analytics() {
     const incomeMap: Record<string, number> = {};
     const expenseMap: Record<string, number> = {};
 
-    (bookings || []).forEach((b: any) => {
-      if (b.car_id) incomeMap[b.car_id] = (incomeMap[b.car_id] || 0) + Number(b.total_price || 0);
+    collected.forEach((row) => {
+      incomeMap[row.carId] = (incomeMap[row.carId] || 0) + row.collected - row.refunded;
     });
 
     (expenses || []).forEach((e: any) => {
@@ -49,7 +55,7 @@ export default function Analytics() {
     setInsights({
       mostProfitable: sorted[0] ? carMap[sorted[0][0]] || '' : 'N/A',
       highestCost: highCost[0] ? carMap[highCost[0][0]] || '' : 'N/A',
-      totalBookings: bookings?.length || 0,
+      totalBookings: bookingCount || 0,
     });
   };
 
@@ -4,6 +4,8 @@ import { Trophy, TrendingUp, Car, Star } from 'lucide-react';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { supabase } from '@/integrations/supabase/client';
+import { toast } from '@/hooks/use-toast';
+import { fetchCollectedIncome, type CollectedIncome } from '@/data/payments';
 import {
   BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, Cell
 } from 'recharts';
@@ -27,9 +29,13 @@ export default function BestPerformers() {
   useEffect(() => { fetchData(); }, []);
 
   const fetchData = async () => {
-    const [{ data: cars }, { data: bookings }, { data: expenses }] = await Promise.all([
+    const [{ data: cars }, { data: bookings }, collected, { data: expenses }] = await Promise.all([
       supabase.from('cars').select('id, name, image, type'),
-      supabase.from('bookings').select('car_id, total_price'),
+      supabase.from('bookings').select('car_id'),
+      fetchCollectedIncome().catch((error): CollectedIncome[] => {
+        toast({ title: 'Could not load income', description: error.message, variant: 'destructive' });
+        return [];
+      }),
       supabase.from('expenses').select('car_id, amount'),
     ]);
 
@@ -38,10 +44,11 @@ export default function BestPerformers() {
     const expenseMap: Record<string, number> = {};
 
     (bookings || []).forEach((b: any) => {
-      if (b.car_id) {
-        incomeMap[b.car_id] = (incomeMap[b.car_id] || 0) + Number(b.total_price || 0);
-        bookingCountMap[b.car_id] = (bookingCountMap[b.car_id] || 0) + 1;
-      }
+      if (b.car_id) bookingCountMap[b.car_id] = (bookingCountMap[b.car_id] || 0) + 1;
+    });
+
+    collected.forEach((row) => {
+      incomeMap[row.carId] = (incomeMap[row.carId] || 0) + row.collected - row.refunded;
     });
 
     (expenses || []).forEach((e: any) => {
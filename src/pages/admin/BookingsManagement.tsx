@@ -1,22 +1,44 @@
 import { useEffect, useState } from 'react';
+import { useSearchParams } from 'react-router-dom';
 import { supabase } from '@/integrations/supabase/client';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { Input } from '@/components/ui/input';
+import { Checkbox } from '@/components/ui/checkbox';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
 import { useToast } from '@/hooks/use-toast';
+import { ChangeRequestsPanel } from '@/components/admin/ChangeRequestsPanel';
+import { BookingDetailSheet } from '@/components/admin/BookingDetailSheet';
+import { DriverPicker } from '@/components/admin/DriverPicker';
+import { InvoiceDialog } from '@/components/admin/InvoiceDialog';
+import { fetchStatusTransitions, statusActions } from '@/data/bookings';
+import { fetchDrivers, type Driver } from '@/data/drivers';
+import { canInvoice } from '@/data/invoices';
+import { bookingBalance, paymentMethodLabels, type Payment, type PaymentMethod } from '@/data/payments';
 
 interface Booking {
   id: string;
+  reference: string;
   client_name: string;
   client_phone: string | null;
+  client_email: string | null;
   car_id: string | null;
   booking_date: string;
+  booking_time: string | null;
+  starts_at: string;
+  ends_at: string;
   pickup_location: string;
   total_price: number;
+  cancellation_fee: number;
+  damage_total: number;
+  promo_code: string | null;
+  promo_discount: number;
+  price_adjustment: number;
   status: string;
-  driver: string | null;
+  overlap_flagged: boolean;
+  driver_id: string | null;
+  payments: Pick<Payment, 'amount' | 'status' | 'method' | 'kind'>[];
 }
 
 interface CarOption { id: string; name: string; }
@@ -24,6 +46,7 @@ interface CarOption { id: string; name: string; }
 const statusColors: Record<string, string> = {
   pending: 'bg-yellow-500/20 text-yellow-600 border-yellow-500/30',
   approved: 'bg-green-500/20 text-green-600 border-green-500/30',
+  in_progress: 'bg-blue-500/20 text-blue-600 border-blue-500/30',
   rejected: 'bg-destructive/20 text-destructive border-destructive/30',
   completed: 'bg-accent/20 text-accent border-accent/30',
   cancelled: 'bg-muted text-muted-foreground border-border',
@@ -32,72 +55,122 @@ const statusColors: Record<string, string> = {
 export default function BookingsManagement() {
   const [bookings, setBookings] = useState<Booking[]>([]);
   const [cars, setCars] = useState<CarOption[]>([]);
+  const [drivers, setDrivers] = useState<Driver[]>([]);
   const [statusFilter, setStatusFilter] = useState('all');
   const [search, setSearch] = useState('');
+  const [transitions, setTransitions] = useState<Record<string, string[]>>({});
+  // Bookings ticked for a group invoice, and the ones the invoice dialog is open for
+  const [selected, setSelected] = useState<string[]>([]);
+  const [invoiceFor, setInvoiceFor] = useState<Booking[]>([]);
+  // The open booking lives in the URL so notifications can link straight to it
+  const [searchParams, setSearchParams] = useSearchParams();
+  const detailId = searchParams.get('booking');
+  const setDetailId = (id: string | null) => setSearchParams(id ? { booking: id } : {});
   const { toast } = useToast();
 
   useEffect(() => {
     fetchBookings();
     supabase.from('cars').select('id, name').then(({ data }) => { if (data) setCars(data as CarOption[]); });
+    fetchDrivers().then(setDrivers).catch(() => setDrivers([]));
+    fetchStatusTransitions().then(setTransitions).catch(() => setTransitions({}));
 
     const channel = supabase
       .channel('bookings-realtime')
       .on('postgres_changes', { event: '*', schema: 'public', table: 'bookings' }, () => fetchBookings())
+      .on('postgres_changes', { event: '*', schema: 'public', table: 'payments' }, () => fetchBookings())
       .subscribe();
     return () => { supabase.removeChannel(channel); };
   }, []);
 
   const fetchBookings = async () => {
-    const { data } = await supabase.from('bookings').select('*').order('created_at', { ascending: false });
+    const { data } = await supabase.from('bookings').select('*, payments(amount, status, method, kind)').order('created_at', { ascending: false });
     if (data) setBookings(data as Booking[]);
   };
 
   const updateStatus = async (id: string, status: string) => {
-    await supabase.from('bookings').update({ status }).eq('id', id);
-    toast({ title: `Booking ${status}` });
+    const { error } = await supabase.rpc('set_booking_status', { _booking_id: id, _status: status });
+    if (error) { toast({ title: 'Error', description: error.message, variant: 'destructive' }); return; }
+    toast({ title: `Booking ${status.replace('_', ' ')}` });
     fetchBookings();
   };
 
-  const updateDriver = async (id: string, driver: string) => {
-    await supabase.from('bookings').update({ driver }).eq('id', id);
+  const updateDriver = async (id: string, driverId: string | null) => {
+    const { error } = await supabase.from('bookings').update({ driver_id: driverId }).eq('id', id);
+    if (error) { toast({ title: 'Error', description: error.message, variant: 'destructive' }); return; }
+    toast({ title: driverId ? 'Driver assigned' : 'Driver removed' });
+    fetchBookings();
+  };
+
+  const paymentBadge = (b: Booking) => {
+    const balance = bookingBalance(b, b.payments);
+    const pending = b.payments.find((p) => p.status === 'pending');
+    if (balance.paidInFull) return <Badge variant="outline" className="bg-green-500/20 text-green-600 border-green-500/30">Paid in full</Badge>;
+    if (balance.balanceDue < 0) return <Badge variant="outline" className="text-destructive border-destructive/30">Refund ${Math.abs(balance.balanceDue).toLocaleString()}</Badge>;
+    if (pending) return <Badge variant="outline" className="text-yellow-600 border-yellow-500/30">Awaiting {paymentMethodLabels[pending.method as PaymentMethod]}</Badge>;
+    if (balance.paid > 0) {
+      return (
+        <div>
+          <Badge variant="outline" className="text-yellow-600 border-yellow-500/30">Paid ${(balance.paid - balance.refunded).toLocaleString()}</Badge>
+          <p className="text-xs text-muted-foreground">${balance.balanceDue.toLocaleString()} due</p>
+        </div>
+      );
+    }
+    if (b.payments.some((p) => p.status === 'failed')) return <Badge variant="outline" className="text-destructive border-destructive/30">Payment failed</Badge>;
+    return <span className="text-xs text-muted-foreground">—</span>;
   };
 
   const carName = (id: string | null) => cars.find((c) => c.id === id)?.name || '—';
 
   const filtered = bookings.filter((b) => {
     if (statusFilter !== 'all' && b.status !== statusFilter) return false;
-    if (search && !b.client_name.toLowerCase().includes(search.toLowerCase())) return false;
+    if (search && !`${b.client_name} ${b.reference}`.toLowerCase().includes(search.toLowerCase())) return false;
     return true;
   });
 
+  const toggleSelected = (id: string, checked: boolean) =>
+    setSelected(checked ? [...selected, id] : selected.filter((s) => s !== id));
+
   return (
     <div className="space-y-6">
       <h1 className="text-2xl font-bold">Bookings Management</h1>
 
+      <ChangeRequestsPanel carName={carName} onResolved={fetchBookings} />
+
       <div className="flex gap-3 flex-wrap">
-        <Input placeholder="Search by client name..." value={search} onChange={(e) => setSearch(e.target.value)} className="w-64" />
+        <Input placeholder="Search by client or reference..." value={search} onChange={(e) => setSearch(e.target.value)} className="w-64" />
         <Select value={statusFilter} onValueChange={setStatusFilter}>
           <SelectTrigger className="w-40"><SelectValue /></SelectTrigger>
           <SelectContent>
             <SelectItem value="all">All Status</SelectItem>
             <SelectItem value="pending">Pending</SelectItem>
             <SelectItem value="approved">Approved</SelectItem>
+            <SelectItem value="in_progress">In progress</SelectItem>
             <SelectItem value="rejected">Rejected</SelectItem>
             <SelectItem value="completed">Completed</SelectItem>
             <SelectItem value="cancelled">Cancelled</SelectItem>
           </SelectContent>
         </Select>
+        {selected.length > 0 && (
+          <div className="flex items-center gap-2 ml-auto">
+            <Button variant="outline" onClick={() => setInvoiceFor(bookings.filter((b) => selected.includes(b.id)))}>
+              Invoice {selected.length} selected
+            </Button>
+            <Button variant="ghost" onClick={() => setSelected([])}>Clear</Button>
+          </div>
+        )}
       </div>
 
       <div className="border rounded-lg overflow-auto">
         <Table>
           <TableHeader>
             <TableRow>
+              <TableHead className="w-8" />
               <TableHead>Client</TableHead>
               <TableHead>Car</TableHead>
               <TableHead>Date</TableHead>
               <TableHead>Location</TableHead>
               <TableHead>Price</TableHead>
+              <TableHead>Payment</TableHead>
               <TableHead>Status</TableHead>
               <TableHead>Driver</TableHead>
               <TableHead>Actions</TableHead>
@@ -106,46 +179,87 @@ export default function BookingsManagement() {
           <TableBody>
             {filtered.map((b) => (
               <TableRow key={b.id}>
+                <TableCell>
+                  <Checkbox
+                    checked={selected.includes(b.id)}
+                    disabled={!canInvoice(b)}
+                    onCheckedChange={(v) => toggleSelected(b.id, v === true)}
+                  />
+                </TableCell>
                 <TableCell>
                   <p className="font-medium">{b.client_name}</p>
+                  <p className="text-xs font-mono text-muted-foreground">{b.reference}</p>
                   {b.client_phone && <p className="text-xs text-muted-foreground">{b.client_phone}</p>}
                 </TableCell>
                 <TableCell>{carName(b.car_id)}</TableCell>
-                <TableCell>{b.booking_date}</TableCell>
+                <TableCell>
+                  {b.booking_date}
+                  {b.booking_time && <p className="text-xs text-muted-foreground">{b.booking_time}</p>}
+                </TableCell>
                 <TableCell className="max-w-[150px] truncate">{b.pickup_location}</TableCell>
-                <TableCell>${Number(b.total_price).toLocaleString()}</TableCell>
                 <TableCell>
-                  <Badge variant="outline" className={statusColors[b.status] || ''}>{b.status}</Badge>
+                  ${Number(b.total_price).toLocaleString()}
+                  {b.promo_code && <p className="text-xs text-muted-foreground">{b.promo_code} (−${Number(b.promo_discount).toLocaleString()})</p>}
+                  {Number(b.price_adjustment) !== 0 && (
+                    <p className="text-xs text-muted-foreground">
+                      Adjusted {Number(b.price_adjustment) > 0 ? '+' : '−'}${Math.abs(Number(b.price_adjustment)).toLocaleString()}
+                    </p>
+                  )}
+                </TableCell>
+                <TableCell>{paymentBadge(b)}</TableCell>
+                <TableCell>
+                  <Badge variant="outline" className={statusColors[b.status] || ''}>{b.status.replace('_', ' ')}</Badge>
+                  {b.overlap_flagged && (
+                    <p className="text-xs text-destructive" title="Booked before double-booking checks existed. Move or cancel it.">Overlaps another booking</p>
+                  )}
                 </TableCell>
                 <TableCell>
-                  <Input
-                    placeholder="Assign"
-                    defaultValue={b.driver || ''}
-                    className="h-8 w-28 text-xs"
-                    onBlur={(e) => updateDriver(b.id, e.target.value)}
+                  <DriverPicker
+                    drivers={drivers}
+                    value={b.driver_id}
+                    bookingId={b.id}
+                    range={{ start: new Date(b.starts_at), end: new Date(b.ends_at) }}
+                    onChange={(driverId) => updateDriver(b.id, driverId)}
+                    className="w-32"
                   />
                 </TableCell>
                 <TableCell>
                   <div className="flex gap-1">
-                    {b.status === 'pending' && (
-                      <>
-                        <Button size="sm" variant="outline" className="text-green-600 h-7 text-xs" onClick={() => updateStatus(b.id, 'approved')}>Approve</Button>
-                        <Button size="sm" variant="outline" className="text-destructive h-7 text-xs" onClick={() => updateStatus(b.id, 'rejected')}>Reject</Button>
-                      </>
-                    )}
-                    {b.status === 'approved' && (
-                      <Button size="sm" variant="outline" className="h-7 text-xs" onClick={() => updateStatus(b.id, 'completed')}>Complete</Button>
+                    {(transitions[b.status] || []).filter((status) => status !== 'cancelled').map((status) => (
+                      <Button key={status} size="sm" variant="outline" className={`h-7 text-xs ${statusActions[status]?.className || ''}`} onClick={() => updateStatus(b.id, status)}>
+                        {statusActions[status]?.label || status}
+                      </Button>
+                    ))}
+                    {canInvoice(b) && (
+                      <Button size="sm" variant="ghost" className="h-7 text-xs" onClick={() => setInvoiceFor([b])}>Invoice</Button>
                     )}
+                    <Button size="sm" variant="ghost" className="h-7 text-xs" onClick={() => setDetailId(b.id)}>Details</Button>
                   </div>
                 </TableCell>
               </TableRow>
             ))}
             {filtered.length === 0 && (
-              <TableRow><TableCell colSpan={8} className="text-center text-muted-foreground py-8">No bookings found</TableCell></TableRow>
+              <TableRow><TableCell colSpan={10} className="text-center text-muted-foreground py-8">No bookings found</TableCell></TableRow>
             )}
           </TableBody>
         </Table>
       </div>
+
+      <BookingDetailSheet
+        bookingId={detailId}
+        transitions={transitions}
+        cars={cars}
+        drivers={drivers}
+        carName={carName}
+        onOpenChange={(open) => { if (!open) setDetailId(null); }}
+        onChanged={fetchBookings}
+      />
+
+      <InvoiceDialog
+        bookings={invoiceFor}
+        onOpenChange={(open) => { if (!open) setInvoiceFor([]); }}
+        onIssued={() => setSelected([])}
+      />
     </div>
   );
 }
@@ -0,0 +1,222 @@
+import { useEffect, useState } from 'react';
+import { Plus, Trash2, Edit, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Switch } from '@/components/ui/switch';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { supabase } from '@/integrations/supabase/client';
+import { useToast } from '@/hooks/use-toast';
+import {
+  deleteCancellationPolicy, describePolicy, fetchCancellationPolicies, saveCancellationPolicy, sortTiers,
+  type CancellationPolicy, type CancellationTier,
+} from '@/data/cancellations';
+
+const emptyForm = {
+  name: '',
+  description: '',
+  after_pickup_fee_percent: 100,
+  car_types: [] as string[],
+  is_default: false,
+  tiers: [{ hours_before: 24, fee_percent: 0 }, { hours_before: 0, fee_percent: 50 }] as CancellationTier[],
+};
+
+export default function CancellationPoliciesManagement() {
+  const [policies, setPolicies] = useState<CancellationPolicy[]>([]);
+  const [carTypes, setCarTypes] = useState<string[]>([]);
+  const [form, setForm] = useState(emptyForm);
+  const [editId, setEditId] = useState<string | null>(null);
+  const [open, setOpen] = useState(false);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    supabase.from('cars').select('type').then(({ data }) => {
+      if (data) setCarTypes(Array.from(new Set(data.map((c) => c.type))).sort());
+    });
+    fetchPolicies();
+  }, []);
+
+  const fetchPolicies = async () => {
+    try {
+      setPolicies(await fetchCancellationPolicies());
+    } catch {
+      setPolicies([]);
+    }
+  };
+
+  const handleSave = async () => {
+    if (!form.name.trim()) {
+      toast({ title: 'Missing fields', description: 'A policy needs a name.', variant: 'destructive' });
+      return;
+    }
+    const hours = form.tiers.map((tier) => tier.hours_before);
+    if (new Set(hours).size !== hours.length) {
+      toast({ title: 'Invalid tiers', description: 'Each tier needs a different notice period.', variant: 'destructive' });
+      return;
+    }
+    const percents = [...form.tiers.map((tier) => tier.fee_percent), form.after_pickup_fee_percent];
+    if (hours.some((h) => h < 0) || percents.some((p) => p < 0 || p > 100)) {
+      toast({ title: 'Invalid tiers', description: 'Notice must be positive and fees between 0% and 100%.', variant: 'destructive' });
+      return;
+    }
+    try {
+      await saveCancellationPolicy(editId, {
+        name: form.name.trim(),
+        description: form.description || null,
+        after_pickup_fee_percent: form.after_pickup_fee_percent,
+        car_types: form.car_types.length ? form.car_types : null,
+        is_default: form.is_default,
+        tiers: sortTiers(form.tiers),
+      });
+    } catch (error) {
+      toast({ title: 'Error', description: (error as Error).message, variant: 'destructive' });
+      return;
+    }
+    toast({ title: editId ? 'Policy updated' : 'Policy added' });
+    setOpen(false); setEditId(null); setForm(emptyForm);
+    fetchPolicies();
+  };
+
+  const handleEdit = (policy: CancellationPolicy) => {
+    setForm({
+      name: policy.name,
+      description: policy.description || '',
+      after_pickup_fee_percent: policy.after_pickup_fee_percent,
+      car_types: policy.car_types || [],
+      is_default: policy.is_default,
+      tiers: sortTiers(policy.cancellation_policy_tiers),
+    });
+    setEditId(policy.id);
+    setOpen(true);
+  };
+
+  const handleDelete = async (policy: CancellationPolicy) => {
+    if (!confirm(`Delete policy "${policy.name}"? Pricing rules using it fall back to the car type or default policy.`)) return;
+    try {
+      await deleteCancellationPolicy(policy.id);
+    } catch (error) {
+      toast({ title: 'Error', description: (error as Error).message, variant: 'destructive' });
+      return;
+    }
+    toast({ title: 'Policy deleted' });
+    fetchPolicies();
+  };
+
+  const toggleCarType = (type: string, checked: boolean) =>
+    setForm({ ...form, car_types: checked ? [...form.car_types, type] : form.car_types.filter((t) => t !== type) });
+
+  const updateTier = (index: number, tier: Partial<CancellationTier>) =>
+    setForm({ ...form, tiers: form.tiers.map((t, i) => (i === index ? { ...t, ...tier } : t)) });
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between flex-wrap gap-4">
+        <div>
+          <h1 className="text-2xl font-bold">Cancellation Policies</h1>
+          <p className="text-muted-foreground text-sm">
+            Fees charged when a booking is cancelled. A pricing rule's policy wins, then one for the car type, then the default.
+          </p>
+        </div>
+        <Dialog open={open} onOpenChange={(v) => { setOpen(v); if (!v) { setEditId(null); setForm(emptyForm); } }}>
+          <DialogTrigger asChild><Button className="gap-2"><Plus className="w-4 h-4" /> Add Policy</Button></DialogTrigger>
+          <DialogContent className="max-h-[90vh] overflow-y-auto">
+            <DialogHeader><DialogTitle>{editId ? 'Edit Policy' : 'Add Cancellation Policy'}</DialogTitle></DialogHeader>
+            <div className="space-y-4 mt-2">
+              <div className="grid grid-cols-2 gap-4">
+                <div><Label>Name *</Label><Input value={form.name} onChange={(e) => setForm({ ...form, name: e.target.value })} placeholder="e.g. Flexible" /></div>
+                <div className="flex items-end gap-2 pb-2">
+                  <Switch checked={form.is_default} onCheckedChange={(v) => setForm({ ...form, is_default: v })} />
+                  <Label>Default policy</Label>
+                </div>
+              </div>
+              <div><Label>Description (optional)</Label><Input value={form.description} onChange={(e) => setForm({ ...form, description: e.target.value })} /></div>
+              <div>
+                <Label>Fee tiers</Label>
+                <p className="text-xs text-muted-foreground mb-2">
+                  The tier with the longest notice the customer still gave applies. Shorter notice than every tier is charged like a cancellation after pickup.
+                </p>
+                <div className="space-y-2">
+                  {form.tiers.map((tier, i) => (
+                    <div key={i} className="flex items-center gap-2 text-sm">
+                      <Input type="number" min={0} className="w-20" value={tier.hours_before} onChange={(e) => updateTier(i, { hours_before: parseInt(e.target.value) || 0 })} />
+                      <span className="text-muted-foreground whitespace-nowrap">h or more before:</span>
+                      <Input type="number" min={0} max={100} className="w-20" value={tier.fee_percent} onChange={(e) => updateTier(i, { fee_percent: parseFloat(e.target.value) || 0 })} />
+                      <span className="text-muted-foreground">% fee</span>
+                      <Button variant="ghost" size="icon" className="h-7 w-7" onClick={() => setForm({ ...form, tiers: form.tiers.filter((_, j) => j !== i) })}>
+                        <X className="w-3 h-3" />
+                      </Button>
+                    </div>
+                  ))}
+                  <Button variant="outline" size="sm" className="gap-1" onClick={() => setForm({ ...form, tiers: [...form.tiers, { hours_before: 0, fee_percent: 0 }] })}>
+                    <Plus className="w-3 h-3" /> Add tier
+                  </Button>
+                </div>
+              </div>
+              <div>
+                <Label>Fee after pickup (%)</Label>
+                <Input type="number" min={0} max={100} value={form.after_pickup_fee_percent} onChange={(e) => setForm({ ...form, after_pickup_fee_percent: parseFloat(e.target.value) || 0 })} />
+              </div>
+              {carTypes.length > 0 && (
+                <div>
+                  <Label>Car types</Label>
+                  <p className="text-xs text-muted-foreground mb-2">Applies to these car types unless their pricing rule names another policy.</p>
+                  <div className="flex flex-wrap gap-4">
+                    {carTypes.map((type) => (
+                      <label key={type} className="flex items-center gap-2 text-sm">
+                        <Checkbox checked={form.car_types.includes(type)} onCheckedChange={(v) => toggleCarType(type, v === true)} />
+                        {type}
+                      </label>
+                    ))}
+                  </div>
+                </div>
+              )}
+              <Button onClick={handleSave} className="w-full">{editId ? 'Update' : 'Add Policy'}</Button>
+            </div>
+          </DialogContent>
+        </Dialog>
+      </div>
+
+      <div className="border rounded-lg overflow-auto">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Policy</TableHead>
+              <TableHead>Fees</TableHead>
+              <TableHead>Car Types</TableHead>
+              <TableHead>Actions</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {policies.map((policy) => (
+              <TableRow key={policy.id}>
+                <TableCell>
+                  <div className="font-medium flex items-center gap-2">
+                    {policy.name}
+                    {policy.is_default && <Badge variant="secondary">Default</Badge>}
+                  </div>
+                  {policy.description && <div className="text-xs text-muted-foreground">{policy.description}</div>}
+                </TableCell>
+                <TableCell className="text-sm">{describePolicy(policy)}</TableCell>
+                <TableCell className="text-sm text-muted-foreground">{policy.car_types?.length ? policy.car_types.join(', ') : '—'}</TableCell>
+                <TableCell>
+                  <div className="flex items-center gap-1">
+                    <Button variant="outline" size="sm" className="h-7" onClick={() => handleEdit(policy)}>
+                      <Edit className="w-3 h-3" />
+                    </Button>
+                    <Button variant="outline" size="sm" className="h-7 text-destructive" onClick={() => handleDelete(policy)}>
+                      <Trash2 className="w-3 h-3" />
+                    </Button>
+                  </div>
+                </TableCell>
+              </TableRow>
+            ))}
+            {policies.length === 0 && <TableRow><TableCell colSpan={4} className="text-center text-muted-foreground py-8">No cancellation policies yet. Cancellations are free.</TableCell></TableRow>}
+          </TableBody>
+        </Table>
+      </div>
+    </div>
+  );
+}
@@ -17,6 +17,7 @@ interface CarRow {
   name: string;
   type: string;
   seats: number;
+  security_deposit: number;
   description: string | null;
   features: string[];
   image: string | null;
@@ -24,7 +25,7 @@ interface CarRow {
   status: string;
 }
 
-const emptyForm = { name: '', type: '', seats: 5, description: '', features: '', image: '', status: 'available' };
+const emptyForm = { name: '', type: '', seats: 5, security_deposit: 0, description: '', features: '', image: '', status: 'available' };
 
 export default function CarsManagement() {
   const [cars, setCars] = useState<CarRow[]>([]);
@@ -71,6 +72,7 @@ export default function CarsManagement() {
       name: form.name,
       type: form.type,
       seats: form.seats,
+      security_deposit: form.security_deposit,
       description: form.description,
       features: featuresArr,
       image: form.image || null,
@@ -98,6 +100,7 @@ export default function CarsManagement() {
       name: car.name,
       type: car.type,
       seats: car.seats,
+      security_deposit: Number(car.security_deposit),
       description: car.description || '',
       features: car.features?.join(', ') || '',
       image: car.image || '',
@@ -139,6 +142,11 @@ export default function CarsManagement() {
                   <Input type="number" value={form.seats} onChange={(e) => setForm({ ...form, seats: parseInt(e.target.value) || 5 })} />
                 </div>
               </div>
+              <div>
+                <Label>Security deposit ($)</Label>
+                <Input type="number" min={0} value={form.security_deposit} onChange={(e) => setForm({ ...form, security_deposit: parseFloat(e.target.value) || 0 })} />
+                <p className="text-xs text-muted-foreground mt-1">Refundable amount held at pickup against damage. Leave at 0 if none is needed.</p>
+              </div>
               <div>
                 <Label>Description</Label>
                 <Textarea value={form.description} onChange={(e) => setForm({ ...form, description: e.target.value })} rows={2} />
@@ -239,7 +247,10 @@ export default function CarsManagement() {
               <div className="flex items-start justify-between mb-3">
                 <div>
                   <h3 className="font-bold text-base">{car.name}</h3>
-                  <p className="text-sm text-muted-foreground">{car.type} · {car.seats} seats</p>
+                  <p className="text-sm text-muted-foreground">
+                    {car.type} · {car.seats} seats
+                    {Number(car.security_deposit) > 0 && ` · $${Number(car.security_deposit).toLocaleString()} deposit`}
+                  </p>
                 </div>
                 <Badge variant={car.status === 'available' ? 'default' : 'secondary'} className="shrink-0">
                   {car.status}
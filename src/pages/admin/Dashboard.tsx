@@ -3,6 +3,9 @@ import { motion } from 'framer-motion';
 import { Car, CalendarCheck, DollarSign, Receipt, TrendingUp } from 'lucide-react';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { supabase } from '@/integrations/supabase/client';
+import { MaintenanceDueCard } from '@/components/admin/MaintenanceDueCard';
+import { toast } from '@/hooks/use-toast';
+import { fetchCollectedIncome, type CollectedIncome } from '@/data/payments';
 import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, Legend } from 'recharts';
 
 interface Stats {
@@ -20,6 +23,12 @@ interface RecentBooking {
   status: string;
 }
 
+const loadIncome = () =>
+  fetchCollectedIncome().catch((error): CollectedIncome[] => {
+    toast({ title: 'Could not load income', description: error.message, variant: 'destructive' });
+    return [];
+  });
+
 export default function Dashboard() {
   const [stats, setStats] = useState<Stats>({ totalCars: 0, totalBookings: 0, totalIncome: 0, totalExpenses: 0 });
   const [recentBookings, setRecentBookings] = useState<RecentBooking[]>([]);
@@ -32,16 +41,17 @@ export default function Dashboard() {
   }, []);
 
   const fetchStats = async () => {
-    const [carsRes, bookingsRes, expensesRes] = await Promise.all([
+    const [carsRes, bookingsRes, expensesRes, collected] = await Promise.all([
       supabase.from('cars').select('id', { count: 'exact', head: true }),
-      supabase.from('bookings').select('total_price'),
+      supabase.from('bookings').select('id', { count: 'exact', head: true }),
       supabase.from('expenses').select('amount'),
+      loadIncome(),
     ]);
-    const totalIncome = (bookingsRes.data || []).reduce((sum: number, b: any) => sum + Number(b.total_price || 0), 0);
+    const totalIncome = collected.reduce((sum, row) => sum + row.collected - row.refunded, 0);
     const totalExpenses = (expensesRes.data || []).reduce((sum: number, e: any) => sum + Number(e.amount || 0), 0);
     setStats({
       totalCars: carsRes.count || 0,
-      totalBookings: bookingsRes.data?.length || 0,
+      totalBookings: bookingsRes.count || 0,
       totalIncome: totalIncome,
       totalExpenses: totalExpenses,
     });
@@ -57,16 +67,13 @@ export default function Dashboard() {
   };
 
   const fetchChartData = async () => {
-    const { data: bookings } = await supabase.from('bookings').select('booking_date, total_price');
+    const collected = await loadIncome();
     const { data: expenses } = await supabase.from('expenses').select('expense_date, amount');
 
     const map: Record<string, { income: number; expense: number }> = {};
-    (bookings || []).forEach((b: any) => {
-      const month = b.booking_date?.slice(0, 7);
-      if (month) {
-        if (!map[month]) map[month] = { income: 0, expense: 0 };
-        map[month].income += Number(b.total_price || 0);
-      }
+    collected.forEach((row) => {
+      if (!map[row.month]) map[row.month] = { income: 0, expense: 0 };
+      map[row.month].income += row.collected - row.refunded;
     });
     (expenses || []).forEach((e: any) => {
       const month = e.expense_date?.slice(0, 7);
@@ -93,6 +100,7 @@ export default function Dashboard() {
   const statusColor: Record<string, string> = {
     pending: 'bg-yellow-500/20 text-yellow-600',
     approved: 'bg-green-500/20 text-green-600',
+    in_progress: 'bg-blue-500/20 text-blue-600',
     rejected: 'bg-destructive/20 text-destructive',
     completed: 'bg-accent/20 text-accent',
     cancelled: 'bg-muted text-muted-foreground',
@@ -161,6 +169,8 @@ export default function Dashboard() {
           </CardContent>
         </Card>
       </div>
+
+      <MaintenanceDueCard />
     </div>
   );
 }
@@ -0,0 +1,245 @@
+import { useEffect, useState } from 'react';
+import { format } from 'date-fns';
+import { Edit, ExternalLink, Paperclip, Plus, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { supabase } from '@/integrations/supabase/client';
+import { useToast } from '@/hooks/use-toast';
+import {
+  daysUntilExpiry,
+  documentKindLabels,
+  fetchCarDocuments,
+  fetchDocumentUrl,
+  removeCarDocumentFile,
+  uploadCarDocument,
+  type CarDocument,
+} from '@/data/documents';
+
+interface CarOption { id: string; name: string; }
+
+const emptyForm = {
+  car_id: '',
+  kind: 'insurance',
+  reference: '',
+  issued_on: '',
+  expires_on: '',
+  reminder_days: '30, 14, 3',
+  notes: '',
+};
+
+export default function DocumentsManagement() {
+  const [documents, setDocuments] = useState<CarDocument[]>([]);
+  const [cars, setCars] = useState<CarOption[]>([]);
+  const [filterCar, setFilterCar] = useState('all');
+  const [form, setForm] = useState(emptyForm);
+  const [file, setFile] = useState<File | null>(null);
+  const [editing, setEditing] = useState<CarDocument | null>(null);
+  const [open, setOpen] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    fetchDocuments();
+    supabase.from('cars').select('id, name').order('name').then(({ data }) => { if (data) setCars(data as CarOption[]); });
+  }, []);
+
+  const fetchDocuments = async () => {
+    setDocuments(await fetchCarDocuments().catch(() => []));
+  };
+
+  const resetForm = () => { setEditing(null); setForm(emptyForm); setFile(null); };
+
+  const handleSave = async () => {
+    if (!form.car_id || !form.expires_on) {
+      toast({ title: 'Missing fields', description: 'Car and expiry date are required.', variant: 'destructive' });
+      return;
+    }
+    const reminderDays = form.reminder_days.split(',').map((d) => parseInt(d.trim())).filter((d) => !isNaN(d) && d >= 0);
+    setSaving(true);
+    try {
+      // Replace the scan only after the new one is stored, so a failed upload keeps the old file
+      const filePath = file ? await uploadCarDocument(form.car_id, file) : editing?.file_path || null;
+      const payload = {
+        car_id: form.car_id,
+        kind: form.kind,
+        reference: form.reference || null,
+        issued_on: form.issued_on || null,
+        expires_on: form.expires_on,
+        reminder_days: reminderDays,
+        file_path: filePath,
+        notes: form.notes || null,
+      };
+      const { error } = editing
+        ? await supabase.from('car_documents').update(payload).eq('id', editing.id)
+        : await supabase.from('car_documents').insert(payload);
+      if (error) throw error;
+      if (file && editing?.file_path) await removeCarDocumentFile(editing.file_path).catch(() => undefined);
+      toast({ title: editing ? 'Document updated' : 'Document added' });
+      setOpen(false); resetForm();
+      fetchDocuments();
+    } catch (error) {
+      toast({ title: 'Error', description: (error as Error).message, variant: 'destructive' });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleEdit = (doc: CarDocument) => {
+    setForm({
+      car_id: doc.car_id,
+      kind: doc.kind,
+      reference: doc.reference || '',
+      issued_on: doc.issued_on || '',
+      expires_on: doc.expires_on,
+      reminder_days: doc.reminder_days.join(', '),
+      notes: doc.notes || '',
+    });
+    setFile(null);
+    setEditing(doc);
+    setOpen(true);
+  };
+
+  const handleDelete = async (doc: CarDocument) => {
+    if (!confirm(`Delete this ${documentKindLabels[doc.kind]?.toLowerCase() || 'document'}?`)) return;
+    await supabase.from('car_documents').delete().eq('id', doc.id);
+    if (doc.file_path) await removeCarDocumentFile(doc.file_path).catch(() => undefined);
+    toast({ title: 'Document deleted' });
+    fetchDocuments();
+  };
+
+  const handleOpenFile = async (path: string) => {
+    try {
+      window.open(await fetchDocumentUrl(path), '_blank', 'noopener');
+    } catch (error) {
+      toast({ title: 'Error', description: (error as Error).message, variant: 'destructive' });
+    }
+  };
+
+  const expiryBadge = (doc: CarDocument) => {
+    const days = daysUntilExpiry(doc);
+    if (days < 0) return <Badge variant="destructive">Expired</Badge>;
+    if (days <= Math.max(...doc.reminder_days, 0)) {
+      return <Badge variant="outline" className="text-yellow-600 border-yellow-500/30">{days === 0 ? 'Expires today' : `${days} day(s) left`}</Badge>;
+    }
+    return <Badge variant="outline">Valid</Badge>;
+  };
+
+  const carName = (id: string) => cars.find((c) => c.id === id)?.name || '—';
+  const filtered = filterCar === 'all' ? documents : documents.filter((d) => d.car_id === filterCar);
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between flex-wrap gap-4">
+        <div>
+          <h1 className="text-2xl font-bold">Documents</h1>
+          <p className="text-muted-foreground text-sm">Insurance, technical control and registration papers, with reminders before they expire</p>
+        </div>
+        <Dialog open={open} onOpenChange={(v) => { setOpen(v); if (!v) resetForm(); }}>
+          <DialogTrigger asChild><Button className="gap-2"><Plus className="w-4 h-4" /> Add Document</Button></DialogTrigger>
+          <DialogContent className="max-h-[90vh] overflow-y-auto">
+            <DialogHeader><DialogTitle>{editing ? 'Edit Document' : 'Add Document'}</DialogTitle></DialogHeader>
+            <div className="space-y-4 mt-2">
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <Label>Car *</Label>
+                  <Select value={form.car_id} onValueChange={(v) => setForm({ ...form, car_id: v })}>
+                    <SelectTrigger><SelectValue placeholder="Select car" /></SelectTrigger>
+                    <SelectContent>{cars.map((c) => <SelectItem key={c.id} value={c.id}>{c.name}</SelectItem>)}</SelectContent>
+                  </Select>
+                </div>
+                <div>
+                  <Label>Type</Label>
+                  <Select value={form.kind} onValueChange={(v) => setForm({ ...form, kind: v })}>
+                    <SelectTrigger><SelectValue /></SelectTrigger>
+                    <SelectContent>
+                      {Object.entries(documentKindLabels).map(([value, label]) => <SelectItem key={value} value={value}>{label}</SelectItem>)}
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+              <div><Label>Reference / policy number</Label><Input value={form.reference} onChange={(e) => setForm({ ...form, reference: e.target.value })} /></div>
+              <div className="grid grid-cols-2 gap-4">
+                <div><Label>Issued</Label><Input type="date" value={form.issued_on} onChange={(e) => setForm({ ...form, issued_on: e.target.value })} /></div>
+                <div><Label>Expires *</Label><Input type="date" value={form.expires_on} onChange={(e) => setForm({ ...form, expires_on: e.target.value })} /></div>
+              </div>
+              <div>
+                <Label>Remind (days before expiry)</Label>
+                <Input value={form.reminder_days} onChange={(e) => setForm({ ...form, reminder_days: e.target.value })} placeholder="30, 14, 3" />
+                <p className="text-xs text-muted-foreground mt-1">A warning appears in notifications at each of these.</p>
+              </div>
+              <div>
+                <Label>Scan</Label>
+                <Input type="file" accept="image/*,application/pdf" onChange={(e) => setFile(e.target.files?.[0] || null)} />
+                {editing?.file_path && !file && <p className="text-xs text-muted-foreground mt-1">A file is attached; choose another to replace it.</p>}
+              </div>
+              <div><Label>Notes</Label><Textarea value={form.notes} onChange={(e) => setForm({ ...form, notes: e.target.value })} rows={2} /></div>
+              <Button onClick={handleSave} disabled={saving} className="w-full">{editing ? 'Update' : 'Add Document'}</Button>
+            </div>
+          </DialogContent>
+        </Dialog>
+      </div>
+
+      <div className="flex items-center gap-3">
+        <Label>Car</Label>
+        <Select value={filterCar} onValueChange={setFilterCar}>
+          <SelectTrigger className="w-56"><SelectValue /></SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">All cars</SelectItem>
+            {cars.map((c) => <SelectItem key={c.id} value={c.id}>{c.name}</SelectItem>)}
+          </SelectContent>
+        </Select>
+      </div>
+
+      <div className="border rounded-lg overflow-auto">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Car</TableHead>
+              <TableHead>Document</TableHead>
+              <TableHead>Issued</TableHead>
+              <TableHead>Expires</TableHead>
+              <TableHead>Status</TableHead>
+              <TableHead>Actions</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {filtered.map((doc) => (
+              <TableRow key={doc.id}>
+                <TableCell className="font-medium">{carName(doc.car_id)}</TableCell>
+                <TableCell>
+                  <p>{documentKindLabels[doc.kind] || doc.kind}</p>
+                  {doc.reference && <p className="text-xs text-muted-foreground font-mono">{doc.reference}</p>}
+                </TableCell>
+                <TableCell className="text-sm">{doc.issued_on ? format(new Date(`${doc.issued_on}T00:00:00`), 'MMM d, yyyy') : '—'}</TableCell>
+                <TableCell className="text-sm">{format(new Date(`${doc.expires_on}T00:00:00`), 'MMM d, yyyy')}</TableCell>
+                <TableCell>{expiryBadge(doc)}</TableCell>
+                <TableCell>
+                  <div className="flex items-center gap-1">
+                    {doc.file_path && (
+                      <Button variant="outline" size="sm" className="h-7 gap-1" onClick={() => handleOpenFile(doc.file_path!)}>
+                        <Paperclip className="w-3 h-3" /> <ExternalLink className="w-3 h-3" />
+                      </Button>
+                    )}
+                    <Button variant="outline" size="sm" className="h-7" onClick={() => handleEdit(doc)}>
+                      <Edit className="w-3 h-3" />
+                    </Button>
+                    <Button variant="outline" size="sm" className="h-7 text-destructive" onClick={() => handleDelete(doc)}>
+                      <Trash2 className="w-3 h-3" />
+                    </Button>
+                  </div>
+                </TableCell>
+              </TableRow>
+            ))}
+            {filtered.length === 0 && <TableRow><TableCell colSpan={6} className="text-center text-muted-foreground py-8">No documents yet</TableCell></TableRow>}
+          </TableBody>
+        </Table>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,193 @@
+import { useEffect, useState } from 'react';
+import { addDays, format, isBefore } from 'date-fns';
+import { Plus, Trash2, Edit } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { supabase } from '@/integrations/supabase/client';
+import { useToast } from '@/hooks/use-toast';
+import { driverStatusLabels, fetchDriverWorkloads, fetchDrivers, type Driver } from '@/data/drivers';
+
+const emptyForm = {
+  name: '',
+  phone: '',
+  email: '',
+  license_number: '',
+  license_expiry: '',
+  languages: '',
+  status: 'active',
+};
+
+const statusVariants: Record<string, 'default' | 'secondary' | 'outline'> = {
+  active: 'default',
+  on_leave: 'outline',
+  inactive: 'secondary',
+};
+
+export default function DriversManagement() {
+  const [drivers, setDrivers] = useState<Driver[]>([]);
+  const [workloads, setWorkloads] = useState<Record<string, number>>({});
+  const [form, setForm] = useState(emptyForm);
+  const [editId, setEditId] = useState<string | null>(null);
+  const [open, setOpen] = useState(false);
+  const { toast } = useToast();
+
+  useEffect(() => { fetchRoster(); }, []);
+
+  const fetchRoster = async () => {
+    const [roster, counts] = await Promise.all([fetchDrivers().catch(() => []), fetchDriverWorkloads().catch(() => ({}))]);
+    setDrivers(roster);
+    setWorkloads(counts);
+  };
+
+  const handleSave = async () => {
+    if (!form.name.trim()) {
+      toast({ title: 'Missing fields', description: 'Driver name is required.', variant: 'destructive' });
+      return;
+    }
+    const payload = {
+      name: form.name.trim(),
+      phone: form.phone || null,
+      email: form.email.trim() || null,
+      license_number: form.license_number || null,
+      license_expiry: form.license_expiry || null,
+      languages: form.languages.split(',').map((l) => l.trim()).filter(Boolean),
+      status: form.status,
+    };
+    const { error } = editId
+      ? await supabase.from('drivers').update(payload).eq('id', editId)
+      : await supabase.from('drivers').insert(payload);
+    if (error) { toast({ title: 'Error', description: error.message, variant: 'destructive' }); return; }
+    toast({ title: editId ? 'Driver updated' : 'Driver added' });
+    setOpen(false); setEditId(null); setForm(emptyForm);
+    fetchRoster();
+  };
+
+  const handleEdit = (driver: Driver) => {
+    setForm({
+      name: driver.name,
+      phone: driver.phone || '',
+      email: driver.email || '',
+      license_number: driver.license_number || '',
+      license_expiry: driver.license_expiry || '',
+      languages: driver.languages.join(', '),
+      status: driver.status,
+    });
+    setEditId(driver.id);
+    setOpen(true);
+  };
+
+  const handleDelete = async (driver: Driver) => {
+    if (!confirm(`Delete ${driver.name}? Their bookings will become unassigned.`)) return;
+    await supabase.from('drivers').delete().eq('id', driver.id);
+    toast({ title: 'Driver deleted' });
+    fetchRoster();
+  };
+
+  const licenseBadge = (expiry: string | null) => {
+    if (!expiry) return null;
+    const date = new Date(`${expiry}T00:00:00`);
+    if (isBefore(date, new Date())) return <Badge variant="destructive">Expired</Badge>;
+    if (isBefore(date, addDays(new Date(), 30))) return <Badge variant="outline" className="text-yellow-600 border-yellow-500/30">Expires soon</Badge>;
+    return null;
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between flex-wrap gap-4">
+        <div>
+          <h1 className="text-2xl font-bold">Drivers</h1>
+          <p className="text-muted-foreground text-sm">Driver roster, licences and upcoming assignments</p>
+        </div>
+        <Dialog open={open} onOpenChange={(v) => { setOpen(v); if (!v) { setEditId(null); setForm(emptyForm); } }}>
+          <DialogTrigger asChild><Button className="gap-2"><Plus className="w-4 h-4" /> Add Driver</Button></DialogTrigger>
+          <DialogContent className="max-h-[90vh] overflow-y-auto">
+            <DialogHeader><DialogTitle>{editId ? 'Edit Driver' : 'Add Driver'}</DialogTitle></DialogHeader>
+            <div className="space-y-4 mt-2">
+              <div className="grid grid-cols-2 gap-4">
+                <div><Label>Name *</Label><Input value={form.name} onChange={(e) => setForm({ ...form, name: e.target.value })} /></div>
+                <div><Label>Phone</Label><Input type="tel" value={form.phone} onChange={(e) => setForm({ ...form, phone: e.target.value })} placeholder="+250 7XX XXX XXX" /></div>
+              </div>
+              <div>
+                <Label>Login email</Label>
+                <Input type="email" value={form.email} onChange={(e) => setForm({ ...form, email: e.target.value })} placeholder="driver@example.com" />
+                <p className="text-xs text-muted-foreground mt-1">The driver signs up with this email and confirms it to see their trips at /driver.</p>
+              </div>
+              <div className="grid grid-cols-2 gap-4">
+                <div><Label>License number</Label><Input value={form.license_number} onChange={(e) => setForm({ ...form, license_number: e.target.value })} /></div>
+                <div><Label>License expiry</Label><Input type="date" value={form.license_expiry} onChange={(e) => setForm({ ...form, license_expiry: e.target.value })} /></div>
+              </div>
+              <div><Label>Languages</Label><Input value={form.languages} onChange={(e) => setForm({ ...form, languages: e.target.value })} placeholder="e.g. Kinyarwanda, English, French" /></div>
+              <div>
+                <Label>Status</Label>
+                <Select value={form.status} onValueChange={(v) => setForm({ ...form, status: v })}>
+                  <SelectTrigger><SelectValue /></SelectTrigger>
+                  <SelectContent>
+                    {Object.entries(driverStatusLabels).map(([value, label]) => <SelectItem key={value} value={value}>{label}</SelectItem>)}
+                  </SelectContent>
+                </Select>
+              </div>
+              <Button onClick={handleSave} className="w-full">{editId ? 'Update' : 'Add Driver'}</Button>
+            </div>
+          </DialogContent>
+        </Dialog>
+      </div>
+
+      <div className="border rounded-lg overflow-auto">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Driver</TableHead>
+              <TableHead>License</TableHead>
+              <TableHead>Languages</TableHead>
+              <TableHead>Upcoming</TableHead>
+              <TableHead>Status</TableHead>
+              <TableHead>Actions</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {drivers.map((driver) => (
+              <TableRow key={driver.id}>
+                <TableCell>
+                  <p className="font-medium">{driver.name}</p>
+                  {driver.phone && <p className="text-xs text-muted-foreground">{driver.phone}</p>}
+                  {driver.email && (
+                    <p className="text-xs text-muted-foreground">
+                      {driver.email} · {driver.user_id ? 'App linked' : 'Not signed up or confirmed yet'}
+                    </p>
+                  )}
+                </TableCell>
+                <TableCell className="text-sm">
+                  <div>{driver.license_number || '—'}</div>
+                  {driver.license_expiry && (
+                    <div className="flex items-center gap-2 text-xs text-muted-foreground">
+                      {format(new Date(`${driver.license_expiry}T00:00:00`), 'MMM d, yyyy')} {licenseBadge(driver.license_expiry)}
+                    </div>
+                  )}
+                </TableCell>
+                <TableCell className="text-sm text-muted-foreground">{driver.languages.join(', ') || '—'}</TableCell>
+                <TableCell>{workloads[driver.id] || 0}</TableCell>
+                <TableCell><Badge variant={statusVariants[driver.status] || 'outline'}>{driverStatusLabels[driver.status] || driver.status}</Badge></TableCell>
+                <TableCell>
+                  <div className="flex items-center gap-1">
+                    <Button variant="outline" size="sm" className="h-7" onClick={() => handleEdit(driver)}>
+                      <Edit className="w-3 h-3" />
+                    </Button>
+                    <Button variant="outline" size="sm" className="h-7 text-destructive" onClick={() => handleDelete(driver)}>
+                      <Trash2 className="w-3 h-3" />
+                    </Button>
+                  </div>
+                </TableCell>
+              </TableRow>
+            ))}
+            {drivers.length === 0 && <TableRow><TableCell colSpan={6} className="text-center text-muted-foreground py-8">No drivers yet</TableCell></TableRow>}
+          </TableBody>
+        </Table>
+      </div>
+    </div>
+  );
+}
@@ -20,11 +20,14 @@ export default function ExpensesManagement() {
   const [form, setForm] = useState({ car_id: '', amount: 0, description: '', expense_date: new Date().toISOString().split('T')[0] });
   const [editId, setEditId] = useState<string | null>(null);
   const [open, setOpen] = useState(false);
+  const [alertThreshold, setAlertThreshold] = useState('');
   const { toast } = useToast();
 
   useEffect(() => {
     fetchExpenses();
     supabase.from('cars').select('id, name').then(({ data }) => { if (data) setCars(data as CarOption[]); });
+    supabase.from('app_settings').select('value').eq('key', 'expense_alert_threshold').maybeSingle()
+      .then(({ data }) => setAlertThreshold(data ? String(data.value) : ''));
   }, []);
 
   const fetchExpenses = async () => {
@@ -51,6 +54,17 @@ export default function ExpensesManagement() {
     fetchExpenses();
   };
 
+  const saveAlertThreshold = async () => {
+    const amount = parseFloat(alertThreshold);
+    if (isNaN(amount) || amount < 0) {
+      toast({ title: 'Invalid amount', description: 'Enter an amount (0 or more).', variant: 'destructive' });
+      return;
+    }
+    const { error } = await supabase.from('app_settings').update({ value: amount }).eq('key', 'expense_alert_threshold');
+    if (error) { toast({ title: 'Error', description: error.message, variant: 'destructive' }); return; }
+    toast({ title: 'Alert threshold updated' });
+  };
+
   const carName = (id: string | null) => cars.find((c) => c.id === id)?.name || 'General';
   const filtered = filterCar === 'all' ? expenses : expenses.filter((e) => e.car_id === filterCar);
   const totalAmount = filtered.reduce((sum, e) => sum + Number(e.amount), 0);
@@ -92,6 +106,14 @@ export default function ExpensesManagement() {
         </div>
       </div>
 
+      <div className="flex items-end gap-2">
+        <div>
+          <Label className="text-xs">Notify admins of expenses from ($)</Label>
+          <Input type="number" min={0} value={alertThreshold} onChange={(e) => setAlertThreshold(e.target.value)} className="h-8 w-32" />
+        </div>
+        <Button variant="outline" size="sm" className="h-8" onClick={saveAlertThreshold}>Save</Button>
+      </div>
+
       <div className="border rounded-lg overflow-auto">
         <Table>
           <TableHeader>
@@ -1,10 +1,12 @@
 import { useEffect, useState } from 'react';
 import { motion } from 'framer-motion';
-import { DollarSign, Download, TrendingUp, Car, Calendar } from 'lucide-react';
+import { DollarSign, Download, TrendingUp, Car, Calendar, RotateCcw } from 'lucide-react';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { supabase } from '@/integrations/supabase/client';
+import { toast } from '@/hooks/use-toast';
+import { fetchBookingBalances, fetchCollectedIncome, type BookingBalanceRow, type CollectedIncome } from '@/data/payments';
 import * as XLSX from 'xlsx';
 import {
   AreaChart, Area, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer
@@ -17,6 +19,8 @@ interface IncomeRow {
   car_name: string;
   car_type: string;
   total_price: number;
+  paid: number;
+  balance_due: number;
   status: string;
   pickup_location: string;
   duration_hours: number;
@@ -25,7 +29,7 @@ interface IncomeRow {
 export default function IncomeManagement() {
   const [rows, setRows] = useState<IncomeRow[]>([]);
   const [monthlyData, setMonthlyData] = useState<any[]>([]);
-  const [totals, setTotals] = useState({ total: 0, completed: 0, pending: 0, count: 0 });
+  const [totals, setTotals] = useState({ collected: 0, outstanding: 0, refunded: 0, count: 0 });
   const [loading, setLoading] = useState(true);
 
   useEffect(() => { fetchData(); }, []);
@@ -40,6 +44,19 @@ export default function IncomeManagement() {
     const carMap: Record<string, { name: string; type: string }> = {};
     (cars || []).forEach((c: any) => { carMap[c.id] = { name: c.name, type: c.type }; });
 
+    // Income is what was actually collected, dated when the money came in
+    const [collected, balances] = await Promise.all([
+      fetchCollectedIncome().catch((error): CollectedIncome[] => {
+        toast({ title: 'Could not load income', description: error.message, variant: 'destructive' });
+        return [];
+      }),
+      fetchBookingBalances().catch((): BookingBalanceRow[] => []),
+    ]);
+    const balanceMap: Record<string, { paid: number; balance_due: number }> = {};
+    balances.forEach((b) => {
+      if (b.booking_id) balanceMap[b.booking_id] = { paid: Number(b.amount_paid || 0) - Number(b.amount_refunded || 0), balance_due: Number(b.balance_due || 0) };
+    });
+
     const enriched: IncomeRow[] = (bookings || []).map((b: any) => ({
       id: b.id,
       client_name: b.client_name,
@@ -47,6 +64,8 @@ export default function IncomeManagement() {
       car_name: carMap[b.car_id]?.name || 'Unknown',
       car_type: carMap[b.car_id]?.type || '',
       total_price: Number(b.total_price || 0),
+      paid: balanceMap[b.id]?.paid || 0,
+      balance_due: balanceMap[b.id]?.balance_due || 0,
       status: b.status,
       pickup_location: b.pickup_location,
       duration_hours: b.duration_hours || 1,
@@ -56,19 +75,18 @@ export default function IncomeManagement() {
 
     // Monthly aggregation
     const monthMap: Record<string, number> = {};
-    enriched.forEach((r) => {
-      const month = r.booking_date?.slice(0, 7);
-      if (month) monthMap[month] = (monthMap[month] || 0) + r.total_price;
+    collected.forEach((row) => {
+      monthMap[row.month] = (monthMap[row.month] || 0) + row.collected - row.refunded;
     });
     const sorted = Object.entries(monthMap)
       .sort(([a], [b]) => a.localeCompare(b))
       .map(([month, income]) => ({ month, income }));
     setMonthlyData(sorted);
 
-    const total = enriched.reduce((s, r) => s + r.total_price, 0);
-    const completed = enriched.filter((r) => r.status === 'completed').reduce((s, r) => s + r.total_price, 0);
-    const pending = enriched.filter((r) => r.status === 'pending').reduce((s, r) => s + r.total_price, 0);
-    setTotals({ total, completed, pending, count: enriched.length });
+    const refunded = collected.reduce((s, row) => s + row.refunded, 0);
+    const total = collected.reduce((s, row) => s + row.collected, 0) - refunded;
+    const outstanding = enriched.filter((r) => r.balance_due > 0).reduce((s, r) => s + r.balance_due, 0);
+    setTotals({ collected: total, outstanding, refunded, count: enriched.length });
     setLoading(false);
   };
 
@@ -81,15 +99,17 @@ export default function IncomeManagement() {
       'Booking Date': r.booking_date,
       'Duration (hrs)': r.duration_hours,
       'Pickup': r.pickup_location,
-      'Income ($)': r.total_price,
+      'Total ($)': r.total_price,
+      'Paid ($)': r.paid,
+      'Balance ($)': r.balance_due,
       'Status': r.status,
     }));
 
     // Summary sheet
     const summary = [
-      { Metric: 'Total Income', Value: `$${totals.total.toLocaleString()}` },
-      { Metric: 'Completed Income', Value: `$${totals.completed.toLocaleString()}` },
-      { Metric: 'Pending Income', Value: `$${totals.pending.toLocaleString()}` },
+      { Metric: 'Collected Income', Value: `$${totals.collected.toLocaleString()}` },
+      { Metric: 'Outstanding Balance', Value: `$${totals.outstanding.toLocaleString()}` },
+      { Metric: 'Refunded', Value: `$${totals.refunded.toLocaleString()}` },
       { Metric: 'Total Bookings', Value: totals.count },
     ];
 
@@ -100,7 +120,7 @@ export default function IncomeManagement() {
     // Column widths
     ws['!cols'] = [
       { wch: 4 }, { wch: 20 }, { wch: 18 }, { wch: 12 }, { wch: 14 },
-      { wch: 14 }, { wch: 20 }, { wch: 12 }, { wch: 12 },
+      { wch: 14 }, { wch: 20 }, { wch: 12 }, { wch: 12 }, { wch: 12 }, { wch: 12 },
     ];
 
     XLSX.utils.book_append_sheet(wb, wsSummary, 'Summary');
@@ -111,6 +131,7 @@ export default function IncomeManagement() {
   const statusColor: Record<string, string> = {
     pending: 'bg-yellow-500/20 text-yellow-600 border-yellow-500/30',
     approved: 'bg-blue-500/20 text-blue-600 border-blue-500/30',
+    in_progress: 'bg-purple-500/20 text-purple-600 border-purple-500/30',
     completed: 'bg-green-500/20 text-green-600 border-green-500/30',
     cancelled: 'bg-muted text-muted-foreground border-border',
     rejected: 'bg-destructive/20 text-destructive border-destructive/30',
@@ -134,7 +155,7 @@ export default function IncomeManagement() {
           </div>
           <div>
             <h1 className="text-2xl font-bold">Income Management</h1>
-            <p className="text-sm text-muted-foreground">All booking income and revenue tracking</p>
+            <p className="text-sm text-muted-foreground">Money collected from bookings, net of refunds</p>
           </div>
         </div>
         <Button onClick={exportToExcel} className="gap-2 bg-green-600 hover:bg-green-700 text-white">
@@ -145,9 +166,9 @@ export default function IncomeManagement() {
       {/* Summary Cards */}
       <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-4">
         {[
-          { label: 'Total Income', value: `$${totals.total.toLocaleString()}`, icon: DollarSign, color: 'text-accent', bg: 'bg-accent/10' },
-          { label: 'Completed Income', value: `$${totals.completed.toLocaleString()}`, icon: TrendingUp, color: 'text-green-500', bg: 'bg-green-500/10' },
-          { label: 'Pending Income', value: `$${totals.pending.toLocaleString()}`, icon: Calendar, color: 'text-yellow-500', bg: 'bg-yellow-500/10' },
+          { label: 'Collected Income', value: `$${totals.collected.toLocaleString()}`, icon: DollarSign, color: 'text-accent', bg: 'bg-accent/10' },
+          { label: 'Outstanding Balance', value: `$${totals.outstanding.toLocaleString()}`, icon: Calendar, color: 'text-yellow-500', bg: 'bg-yellow-500/10' },
+          { label: 'Refunded', value: `$${totals.refunded.toLocaleString()}`, icon: RotateCcw, color: 'text-destructive', bg: 'bg-destructive/10' },
           { label: 'Total Bookings', value: totals.count, icon: Car, color: 'text-primary', bg: 'bg-primary/10' },
         ].map((card, i) => (
           <motion.div key={card.label} initial={{ opacity: 0, y: 20 }} animate={{ opacity: 1, y: 0 }} transition={{ delay: i * 0.05 }}>
@@ -211,7 +232,7 @@ export default function IncomeManagement() {
               <table className="w-full text-sm">
                 <thead>
                   <tr className="border-b border-border">
-                    {['#', 'Client', 'Car', 'Date', 'Duration', 'Income', 'Status'].map((h) => (
+                    {['#', 'Client', 'Car', 'Date', 'Duration', 'Total', 'Paid', 'Balance', 'Status'].map((h) => (
                       <th key={h} className="text-left py-2 px-3 text-muted-foreground font-medium whitespace-nowrap">{h}</th>
                     ))}
                   </tr>
@@ -229,7 +250,11 @@ export default function IncomeManagement() {
                       </td>
                       <td className="py-2 px-3 text-muted-foreground whitespace-nowrap">{r.booking_date}</td>
                       <td className="py-2 px-3 text-muted-foreground">{r.duration_hours}h</td>
-                      <td className="py-2 px-3 font-bold text-accent">${r.total_price.toLocaleString()}</td>
+                      <td className="py-2 px-3 text-muted-foreground">${r.total_price.toLocaleString()}</td>
+                      <td className="py-2 px-3 font-bold text-accent">${r.paid.toLocaleString()}</td>
+                      <td className={`py-2 px-3 ${r.balance_due < 0 ? 'text-destructive' : r.balance_due > 0 ? 'text-yellow-600' : 'text-muted-foreground'}`}>
+                        {r.balance_due < 0 ? '−' : ''}${Math.abs(r.balance_due).toLocaleString()}
+                      </td>
                       <td className="py-2 px-3">
                         <span className={`text-xs px-2 py-0.5 rounded-full border ${statusColor[r.status] || ''}`}>
                           {r.status}
@@ -240,8 +265,9 @@ export default function IncomeManagement() {
                 </tbody>
                 <tfoot>
                   <tr className="border-t-2 border-border bg-muted/20">
-                    <td colSpan={5} className="py-3 px-3 font-bold text-right text-muted-foreground">Total:</td>
-                    <td className="py-3 px-3 font-bold text-accent text-lg">${totals.total.toLocaleString()}</td>
+                    <td colSpan={6} className="py-3 px-3 font-bold text-right text-muted-foreground">Total:</td>
+                    <td className="py-3 px-3 font-bold text-accent text-lg">${rows.reduce((s, r) => s + r.paid, 0).toLocaleString()}</td>
+                    <td className="py-3 px-3 font-bold text-yellow-600">${totals.outstanding.toLocaleString()}</td>
                     <td />
                   </tr>
                 </tfoot>
@@ -0,0 +1,174 @@
+import { useEffect, useState } from 'react';
+import { format } from 'date-fns';
+import { Download, Ban } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Textarea } from '@/components/ui/textarea';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { useToast } from '@/hooks/use-toast';
+import {
+  fetchInvoiceTaxRate, fetchInvoices, invoiceItems, saveInvoiceTaxRate, voidInvoice,
+  type Invoice,
+} from '@/data/invoices';
+import { downloadInvoicePdf } from '@/lib/invoice-pdf';
+
+export default function InvoicesManagement() {
+  const [invoices, setInvoices] = useState<Invoice[]>([]);
+  const [search, setSearch] = useState('');
+  const [taxRate, setTaxRate] = useState('');
+  const [voiding, setVoiding] = useState<Invoice | null>(null);
+  const [voidReason, setVoidReason] = useState('');
+  const { toast } = useToast();
+
+  useEffect(() => {
+    fetchAll();
+    fetchInvoiceTaxRate().then((rate) => setTaxRate(String(rate))).catch(() => setTaxRate(''));
+  }, []);
+
+  const fetchAll = async () => {
+    try {
+      setInvoices(await fetchInvoices());
+    } catch {
+      setInvoices([]);
+    }
+  };
+
+  const handleDownload = async (invoice: Invoice) => {
+    try {
+      await downloadInvoicePdf(invoice);
+    } catch (error) {
+      toast({ title: 'Error', description: (error as Error).message, variant: 'destructive' });
+    }
+  };
+
+  const handleVoid = async () => {
+    if (!voiding) return;
+    try {
+      await voidInvoice(voiding.id, voidReason.trim());
+    } catch (error) {
+      toast({ title: 'Error', description: (error as Error).message, variant: 'destructive' });
+      return;
+    }
+    toast({ title: `Invoice ${voiding.number} voided` });
+    setVoiding(null); setVoidReason('');
+    fetchAll();
+  };
+
+  const saveTaxRate = async () => {
+    const rate = parseFloat(taxRate);
+    if (isNaN(rate) || rate < 0 || rate > 100) {
+      toast({ title: 'Invalid rate', description: 'Enter a rate between 0% and 100%.', variant: 'destructive' });
+      return;
+    }
+    try {
+      await saveInvoiceTaxRate(rate);
+    } catch (error) {
+      toast({ title: 'Error', description: (error as Error).message, variant: 'destructive' });
+      return;
+    }
+    toast({ title: 'VAT rate updated', description: 'Invoices issued from now on use the new rate.' });
+  };
+
+  const references = (invoice: Invoice) => invoiceItems(invoice).map((item) => item.reference);
+
+  const filtered = invoices.filter((invoice) =>
+    !search || [invoice.number, invoice.bill_to_name, invoice.bill_to_company, ...references(invoice)]
+      .join(' ').toLowerCase().includes(search.toLowerCase()),
+  );
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-2xl font-bold">Invoices</h1>
+        <p className="text-muted-foreground text-sm">
+          Numbered in order with no gaps. Issue them from Bookings; a wrong invoice is voided and issued again.
+        </p>
+      </div>
+
+      <div className="flex items-end gap-2 flex-wrap">
+        <Input placeholder="Search by number, client or booking..." value={search} onChange={(e) => setSearch(e.target.value)} className="w-72 h-8" />
+        <div className="ml-auto">
+          <Label className="text-xs">VAT included in prices (%)</Label>
+          <Input type="number" min={0} max={100} value={taxRate} onChange={(e) => setTaxRate(e.target.value)} className="h-8 w-32" />
+        </div>
+        <Button variant="outline" size="sm" className="h-8" onClick={saveTaxRate}>Save</Button>
+      </div>
+
+      <div className="border rounded-lg overflow-auto">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Invoice</TableHead>
+              <TableHead>Bill To</TableHead>
+              <TableHead>Bookings</TableHead>
+              <TableHead>Total</TableHead>
+              <TableHead>Status</TableHead>
+              <TableHead>Actions</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {filtered.map((invoice) => (
+              <TableRow key={invoice.id} className={invoice.voided_at ? 'opacity-60' : ''}>
+                <TableCell>
+                  <div className="font-mono font-medium">{invoice.number}</div>
+                  <div className="text-xs text-muted-foreground">{format(new Date(invoice.issued_at), 'PPP')} · {invoice.issued_by_name || '—'}</div>
+                </TableCell>
+                <TableCell>
+                  <div className="font-medium">{invoice.bill_to_company || invoice.bill_to_name}</div>
+                  {invoice.bill_to_company && <div className="text-xs text-muted-foreground">{invoice.bill_to_name}</div>}
+                  {invoice.bill_to_tax_id && <div className="text-xs text-muted-foreground">TIN {invoice.bill_to_tax_id}</div>}
+                </TableCell>
+                <TableCell className="text-xs font-mono">{references(invoice).join(', ')}</TableCell>
+                <TableCell>
+                  ${Number(invoice.total).toLocaleString()}
+                  <div className="text-xs text-muted-foreground">incl. ${Number(invoice.tax_amount).toLocaleString()} VAT</div>
+                </TableCell>
+                <TableCell>
+                  {invoice.voided_at ? (
+                    <div>
+                      <Badge variant="outline" className="text-destructive border-destructive/30">Void</Badge>
+                      {invoice.void_reason && <p className="text-xs text-muted-foreground max-w-[180px] truncate">{invoice.void_reason}</p>}
+                    </div>
+                  ) : (
+                    <Badge variant="secondary">Issued</Badge>
+                  )}
+                </TableCell>
+                <TableCell>
+                  <div className="flex items-center gap-1">
+                    <Button variant="outline" size="sm" className="h-7" onClick={() => handleDownload(invoice)}>
+                      <Download className="w-3 h-3" />
+                    </Button>
+                    {!invoice.voided_at && (
+                      <Button variant="outline" size="sm" className="h-7 text-destructive" onClick={() => setVoiding(invoice)}>
+                        <Ban className="w-3 h-3" />
+                      </Button>
+                    )}
+                  </div>
+                </TableCell>
+              </TableRow>
+            ))}
+            {filtered.length === 0 && (
+              <TableRow><TableCell colSpan={6} className="text-center text-muted-foreground py-8">No invoices yet</TableCell></TableRow>
+            )}
+          </TableBody>
+        </Table>
+      </div>
+
+      <Dialog open={!!voiding} onOpenChange={(v) => { if (!v) { setVoiding(null); setVoidReason(''); } }}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Void {voiding?.number}</DialogTitle>
+            <DialogDescription>The number stays used so the sequence has no gaps, and its bookings can be invoiced again.</DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div><Label>Reason *</Label><Textarea value={voidReason} onChange={(e) => setVoidReason(e.target.value)} rows={2} placeholder="e.g. Wrong company details" /></div>
+            <Button variant="destructive" onClick={handleVoid} disabled={!voidReason.trim()} className="w-full">Void invoice</Button>
+          </div>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
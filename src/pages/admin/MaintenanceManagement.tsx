@@ -0,0 +1,347 @@
+import { useEffect, useState } from 'react';
+import { addDays, format } from 'date-fns';
+import { AlertTriangle, CheckCircle2, Edit, Plus, Trash2, XCircle } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Textarea } from '@/components/ui/textarea';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { supabase } from '@/integrations/supabase/client';
+import { useToast } from '@/hooks/use-toast';
+import { fetchConflictingBookings, type BookingConflict } from '@/data/bookings';
+import { fetchMaintenanceRecords, fetchServiceTypes, type MaintenanceRecord, type ServiceType } from '@/data/maintenance';
+
+interface CarOption { id: string; name: string; }
+
+const toLocalInput = (iso: string) => format(new Date(iso), "yyyy-MM-dd'T'HH:mm");
+
+const emptyForm = () => ({
+  car_id: '',
+  service_type_id: '',
+  starts_at: toLocalInput(new Date().toISOString()),
+  ends_at: toLocalInput(addDays(new Date(), 1).toISOString()),
+  odometer: '',
+  cost: '',
+  notes: '',
+});
+
+const emptyTypeForm = { name: '', interval_days: '', interval_km: '' };
+
+export default function MaintenanceManagement() {
+  const [records, setRecords] = useState<MaintenanceRecord[]>([]);
+  const [serviceTypes, setServiceTypes] = useState<ServiceType[]>([]);
+  const [cars, setCars] = useState<CarOption[]>([]);
+  const [filterCar, setFilterCar] = useState('all');
+  const [form, setForm] = useState(emptyForm);
+  const [editId, setEditId] = useState<string | null>(null);
+  const [open, setOpen] = useState(false);
+  const [conflicts, setConflicts] = useState<BookingConflict[]>([]);
+  const [typeForm, setTypeForm] = useState(emptyTypeForm);
+  const [typeEditId, setTypeEditId] = useState<string | null>(null);
+  const [typeOpen, setTypeOpen] = useState(false);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    fetchRecords();
+    fetchTypes();
+    supabase.from('cars').select('id, name').order('name').then(({ data }) => { if (data) setCars(data as CarOption[]); });
+  }, []);
+
+  // Bookings already in the window are not moved; the admin is warned so they can reassign them
+  useEffect(() => {
+    if (!open || !form.car_id || !form.starts_at || !form.ends_at) { setConflicts([]); return; }
+    const range = { start: new Date(form.starts_at), end: new Date(form.ends_at) };
+    if (range.end <= range.start) { setConflicts([]); return; }
+    fetchConflictingBookings('car_id', form.car_id, range).then(setConflicts).catch(() => setConflicts([]));
+  }, [open, form.car_id, form.starts_at, form.ends_at]);
+
+  const fetchRecords = async () => {
+    setRecords(await fetchMaintenanceRecords().catch(() => []));
+  };
+
+  const fetchTypes = async () => {
+    setServiceTypes(await fetchServiceTypes().catch(() => []));
+  };
+
+  const carName = (id: string) => cars.find((c) => c.id === id)?.name || '—';
+  const typeName = (id: string | null) => serviceTypes.find((s) => s.id === id)?.name || 'Other';
+
+  const handleSave = async () => {
+    if (!form.car_id || !form.starts_at || !form.ends_at) {
+      toast({ title: 'Missing fields', description: 'Car, start and end are required.', variant: 'destructive' });
+      return;
+    }
+    if (new Date(form.ends_at) <= new Date(form.starts_at)) {
+      toast({ title: 'Invalid window', description: 'The service must end after it starts.', variant: 'destructive' });
+      return;
+    }
+    const payload = {
+      car_id: form.car_id,
+      service_type_id: form.service_type_id || null,
+      starts_at: new Date(form.starts_at).toISOString(),
+      ends_at: new Date(form.ends_at).toISOString(),
+      odometer: form.odometer ? parseInt(form.odometer) : null,
+      cost: parseFloat(form.cost) || 0,
+      notes: form.notes || null,
+    };
+    const { error } = editId
+      ? await supabase.from('maintenance_records').update(payload).eq('id', editId)
+      : await supabase.from('maintenance_records').insert(payload);
+    if (error) { toast({ title: 'Error', description: error.message, variant: 'destructive' }); return; }
+    toast({ title: editId ? 'Service updated' : 'Service scheduled' });
+    setOpen(false); setEditId(null); setForm(emptyForm());
+    fetchRecords();
+  };
+
+  const handleEdit = (record: MaintenanceRecord) => {
+    setForm({
+      car_id: record.car_id,
+      service_type_id: record.service_type_id || '',
+      starts_at: toLocalInput(record.starts_at),
+      ends_at: toLocalInput(record.ends_at),
+      odometer: record.odometer != null ? String(record.odometer) : '',
+      cost: record.cost ? String(record.cost) : '',
+      notes: record.notes || '',
+    });
+    setEditId(record.id);
+    setOpen(true);
+  };
+
+  // Finishing early releases the rest of the window for bookings
+  const handleComplete = async (record: MaintenanceRecord) => {
+    const now = new Date();
+    const endsAt = new Date(record.ends_at) > now && new Date(record.starts_at) < now ? now.toISOString() : record.ends_at;
+    const { error } = await supabase.from('maintenance_records').update({ status: 'completed', ends_at: endsAt }).eq('id', record.id);
+    if (error) { toast({ title: 'Error', description: error.message, variant: 'destructive' }); return; }
+    toast({ title: 'Service marked done' });
+    fetchRecords();
+  };
+
+  const handleCancel = async (record: MaintenanceRecord) => {
+    if (!confirm('Cancel this service? The car becomes bookable again for that window.')) return;
+    const { error } = await supabase.from('maintenance_records').update({ status: 'cancelled' }).eq('id', record.id);
+    if (error) { toast({ title: 'Error', description: error.message, variant: 'destructive' }); return; }
+    toast({ title: 'Service cancelled' });
+    fetchRecords();
+  };
+
+  const handleDelete = async (record: MaintenanceRecord) => {
+    if (!confirm('Delete this service record?')) return;
+    await supabase.from('maintenance_records').delete().eq('id', record.id);
+    toast({ title: 'Service deleted' });
+    fetchRecords();
+  };
+
+  const handleSaveType = async () => {
+    if (!typeForm.name.trim() || (!typeForm.interval_days && !typeForm.interval_km)) {
+      toast({ title: 'Missing fields', description: 'A name and at least one interval are required.', variant: 'destructive' });
+      return;
+    }
+    const payload = {
+      name: typeForm.name.trim(),
+      interval_days: typeForm.interval_days ? parseInt(typeForm.interval_days) : null,
+      interval_km: typeForm.interval_km ? parseInt(typeForm.interval_km) : null,
+    };
+    const { error } = typeEditId
+      ? await supabase.from('service_types').update(payload).eq('id', typeEditId)
+      : await supabase.from('service_types').insert(payload);
+    if (error) { toast({ title: 'Error', description: error.message, variant: 'destructive' }); return; }
+    toast({ title: typeEditId ? 'Service type updated' : 'Service type added' });
+    setTypeOpen(false); setTypeEditId(null); setTypeForm(emptyTypeForm);
+    fetchTypes();
+  };
+
+  const handleEditType = (type: ServiceType) => {
+    setTypeForm({
+      name: type.name,
+      interval_days: type.interval_days ? String(type.interval_days) : '',
+      interval_km: type.interval_km ? String(type.interval_km) : '',
+    });
+    setTypeEditId(type.id);
+    setTypeOpen(true);
+  };
+
+  const handleDeleteType = async (type: ServiceType) => {
+    if (!confirm(`Delete ${type.name}? Past records keep their dates but lose the type.`)) return;
+    await supabase.from('service_types').delete().eq('id', type.id);
+    toast({ title: 'Service type deleted' });
+    fetchTypes();
+  };
+
+  const statusBadge = (record: MaintenanceRecord) => {
+    if (record.status === 'completed') return <Badge>Done</Badge>;
+    if (record.status === 'cancelled') return <Badge variant="secondary">Cancelled</Badge>;
+    const now = new Date();
+    if (new Date(record.starts_at) > now) return <Badge variant="outline">Scheduled</Badge>;
+    if (new Date(record.ends_at) > now) return <Badge variant="outline" className="text-blue-600 border-blue-500/30">In service</Badge>;
+    return <Badge variant="outline" className="text-yellow-600 border-yellow-500/30">Not marked done</Badge>;
+  };
+
+  const intervalText = (type: ServiceType) =>
+    [type.interval_days && `${type.interval_days} days`, type.interval_km && `${type.interval_km.toLocaleString()} km`].filter(Boolean).join(' or ');
+
+  const filtered = filterCar === 'all' ? records : records.filter((r) => r.car_id === filterCar);
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between flex-wrap gap-4">
+        <div>
+          <h1 className="text-2xl font-bold">Maintenance</h1>
+          <p className="text-muted-foreground text-sm">Service windows block bookings for the car while they are scheduled or done</p>
+        </div>
+        <Dialog open={open} onOpenChange={(v) => { setOpen(v); if (!v) { setEditId(null); setForm(emptyForm()); } }}>
+          <DialogTrigger asChild><Button className="gap-2"><Plus className="w-4 h-4" /> Schedule Service</Button></DialogTrigger>
+          <DialogContent className="max-h-[90vh] overflow-y-auto">
+            <DialogHeader><DialogTitle>{editId ? 'Edit Service' : 'Schedule Service'}</DialogTitle></DialogHeader>
+            <div className="space-y-4 mt-2">
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <Label>Car *</Label>
+                  <Select value={form.car_id} onValueChange={(v) => setForm({ ...form, car_id: v })}>
+                    <SelectTrigger><SelectValue placeholder="Select car" /></SelectTrigger>
+                    <SelectContent>{cars.map((c) => <SelectItem key={c.id} value={c.id}>{c.name}</SelectItem>)}</SelectContent>
+                  </Select>
+                </div>
+                <div>
+                  <Label>Service</Label>
+                  <Select value={form.service_type_id} onValueChange={(v) => setForm({ ...form, service_type_id: v })}>
+                    <SelectTrigger><SelectValue placeholder="Select service" /></SelectTrigger>
+                    <SelectContent>{serviceTypes.map((s) => <SelectItem key={s.id} value={s.id}>{s.name}</SelectItem>)}</SelectContent>
+                  </Select>
+                </div>
+              </div>
+              <div className="grid grid-cols-2 gap-4">
+                <div><Label>Starts *</Label><Input type="datetime-local" value={form.starts_at} onChange={(e) => setForm({ ...form, starts_at: e.target.value })} /></div>
+                <div><Label>Ends *</Label><Input type="datetime-local" value={form.ends_at} onChange={(e) => setForm({ ...form, ends_at: e.target.value })} /></div>
+              </div>
+              {conflicts.length > 0 && (
+                <div className="flex gap-2 p-3 rounded-lg bg-destructive/10 text-destructive text-sm">
+                  <AlertTriangle className="w-4 h-4 shrink-0 mt-0.5" />
+                  <div>
+                    <p className="font-medium">{conflicts.length} booking(s) already overlap this window and must be moved or reassigned:</p>
+                    {conflicts.map((c) => (
+                      <p key={c.id} className="text-xs">{c.reference} · {c.client_name} · {format(new Date(c.starts_at), 'MMM d, HH:mm')}</p>
+                    ))}
+                  </div>
+                </div>
+              )}
+              <div className="grid grid-cols-2 gap-4">
+                <div><Label>Odometer (km)</Label><Input type="number" min={0} value={form.odometer} onChange={(e) => setForm({ ...form, odometer: e.target.value })} /></div>
+                <div><Label>Cost ($)</Label><Input type="number" min={0} value={form.cost} onChange={(e) => setForm({ ...form, cost: e.target.value })} /></div>
+              </div>
+              <p className="text-xs text-muted-foreground">The cost is added to expenses when the service is marked done.</p>
+              <div><Label>Notes</Label><Textarea value={form.notes} onChange={(e) => setForm({ ...form, notes: e.target.value })} rows={2} /></div>
+              <Button onClick={handleSave} className="w-full">{editId ? 'Update' : 'Schedule'}</Button>
+            </div>
+          </DialogContent>
+        </Dialog>
+      </div>
+
+      <div className="flex items-center gap-3">
+        <Label>Car</Label>
+        <Select value={filterCar} onValueChange={setFilterCar}>
+          <SelectTrigger className="w-56"><SelectValue /></SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">All cars</SelectItem>
+            {cars.map((c) => <SelectItem key={c.id} value={c.id}>{c.name}</SelectItem>)}
+          </SelectContent>
+        </Select>
+      </div>
+
+      <div className="border rounded-lg overflow-auto">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Car</TableHead>
+              <TableHead>Service</TableHead>
+              <TableHead>Window</TableHead>
+              <TableHead>Odometer</TableHead>
+              <TableHead>Cost</TableHead>
+              <TableHead>Status</TableHead>
+              <TableHead>Actions</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {filtered.map((record) => (
+              <TableRow key={record.id}>
+                <TableCell className="font-medium">{carName(record.car_id)}</TableCell>
+                <TableCell>
+                  <p>{typeName(record.service_type_id)}</p>
+                  {record.notes && <p className="text-xs text-muted-foreground">{record.notes}</p>}
+                </TableCell>
+                <TableCell className="text-sm whitespace-nowrap">
+                  <div>{format(new Date(record.starts_at), 'MMM d, yyyy HH:mm')}</div>
+                  <div className="text-xs text-muted-foreground">to {format(new Date(record.ends_at), 'MMM d, yyyy HH:mm')}</div>
+                </TableCell>
+                <TableCell>{record.odometer != null ? `${record.odometer.toLocaleString()} km` : '—'}</TableCell>
+                <TableCell>{record.cost ? `$${Number(record.cost).toLocaleString()}` : '—'}</TableCell>
+                <TableCell>{statusBadge(record)}</TableCell>
+                <TableCell>
+                  <div className="flex items-center gap-1">
+                    {record.status === 'scheduled' && (
+                      <>
+                        <Button variant="outline" size="sm" className="h-7 gap-1 text-green-600" onClick={() => handleComplete(record)}>
+                          <CheckCircle2 className="w-3 h-3" /> Done
+                        </Button>
+                        <Button variant="outline" size="sm" className="h-7" onClick={() => handleCancel(record)}>
+                          <XCircle className="w-3 h-3" />
+                        </Button>
+                      </>
+                    )}
+                    <Button variant="outline" size="sm" className="h-7" onClick={() => handleEdit(record)}>
+                      <Edit className="w-3 h-3" />
+                    </Button>
+                    <Button variant="outline" size="sm" className="h-7 text-destructive" onClick={() => handleDelete(record)}>
+                      <Trash2 className="w-3 h-3" />
+                    </Button>
+                  </div>
+                </TableCell>
+              </TableRow>
+            ))}
+            {filtered.length === 0 && <TableRow><TableCell colSpan={7} className="text-center text-muted-foreground py-8">No service records yet</TableCell></TableRow>}
+          </TableBody>
+        </Table>
+      </div>
+
+      <Card className="glass">
+        <CardHeader className="flex flex-row items-center justify-between">
+          <CardTitle className="text-base">Service Types</CardTitle>
+          <Dialog open={typeOpen} onOpenChange={(v) => { setTypeOpen(v); if (!v) { setTypeEditId(null); setTypeForm(emptyTypeForm); } }}>
+            <DialogTrigger asChild><Button size="sm" variant="outline" className="gap-2"><Plus className="w-4 h-4" /> Add Type</Button></DialogTrigger>
+            <DialogContent>
+              <DialogHeader><DialogTitle>{typeEditId ? 'Edit Service Type' : 'Add Service Type'}</DialogTitle></DialogHeader>
+              <div className="space-y-4 mt-2">
+                <div><Label>Name *</Label><Input value={typeForm.name} onChange={(e) => setTypeForm({ ...typeForm, name: e.target.value })} placeholder="e.g. Brake pads" /></div>
+                <div className="grid grid-cols-2 gap-4">
+                  <div><Label>Every (days)</Label><Input type="number" min={1} value={typeForm.interval_days} onChange={(e) => setTypeForm({ ...typeForm, interval_days: e.target.value })} /></div>
+                  <div><Label>Every (km)</Label><Input type="number" min={1} value={typeForm.interval_km} onChange={(e) => setTypeForm({ ...typeForm, interval_km: e.target.value })} /></div>
+                </div>
+                <p className="text-xs text-muted-foreground">The service falls due at whichever interval is reached first.</p>
+                <Button onClick={handleSaveType} className="w-full">{typeEditId ? 'Update' : 'Add Type'}</Button>
+              </div>
+            </DialogContent>
+          </Dialog>
+        </CardHeader>
+        <CardContent className="space-y-2">
+          {serviceTypes.map((type) => (
+            <div key={type.id} className="flex items-center justify-between p-2 rounded-lg bg-muted/30">
+              <div>
+                <p className="text-sm font-medium">{type.name}</p>
+                <p className="text-xs text-muted-foreground">Every {intervalText(type)}</p>
+              </div>
+              <div className="flex items-center gap-1">
+                <Button variant="ghost" size="sm" className="h-7" onClick={() => handleEditType(type)}><Edit className="w-3 h-3" /></Button>
+                <Button variant="ghost" size="sm" className="h-7 text-destructive" onClick={() => handleDeleteType(type)}><Trash2 className="w-3 h-3" /></Button>
+              </div>
+            </div>
+          ))}
+          {serviceTypes.length === 0 && <p className="text-muted-foreground text-sm text-center py-4">No service types yet</p>}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
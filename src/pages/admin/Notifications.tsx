@@ -0,0 +1,75 @@
+import { useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { ChevronLeft, ChevronRight } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { useAuth } from '@/contexts/AuthContext';
+import { NotificationItem } from '@/components/admin/NotificationItem';
+import { NotificationTypeFilter } from '@/components/admin/NotificationTypeFilter';
+import { useMarkAllNotificationsRead, useMarkNotificationRead, useNotifications, useUnreadCount } from '@/hooks/use-notifications';
+import type { AdminNotification } from '@/data/notifications';
+
+const PAGE_SIZE = 25;
+
+export default function Notifications() {
+  const { user } = useAuth();
+  const navigate = useNavigate();
+  const [type, setType] = useState('all');
+  const [page, setPage] = useState(0);
+  const { data, isLoading } = useNotifications(type === 'all' ? undefined : type, page, PAGE_SIZE);
+  const { data: unreadCount = 0 } = useUnreadCount();
+  const markRead = useMarkNotificationRead(user?.id);
+  const markAllRead = useMarkAllNotificationsRead();
+  const notifications = data?.rows || [];
+  const pageCount = Math.max(1, Math.ceil((data?.total || 0) / PAGE_SIZE));
+
+  const openNotification = (n: AdminNotification) => {
+    if (!n.read) markRead.mutate(n.id);
+    if (n.link) navigate(n.link);
+  };
+
+  const changeType = (value: string) => {
+    setType(value);
+    setPage(0);
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between flex-wrap gap-4">
+        <div>
+          <h1 className="text-2xl font-bold">Notifications</h1>
+          <p className="text-muted-foreground text-sm">{unreadCount} unread</p>
+        </div>
+        <div className="flex gap-3">
+          <NotificationTypeFilter value={type} onChange={changeType} className="w-[180px]" />
+          <Button
+            variant="outline"
+            disabled={unreadCount === 0 || markAllRead.isPending}
+            onClick={() => markAllRead.mutate(type === 'all' ? undefined : type)}
+          >
+            Mark all read
+          </Button>
+        </div>
+      </div>
+
+      <div className="space-y-3">
+        {isLoading && <p className="text-center text-muted-foreground animate-pulse py-8">Loading...</p>}
+        {!isLoading && notifications.length === 0 && (
+          <p className="text-sm text-muted-foreground text-center py-8">No notifications</p>
+        )}
+        {notifications.map((n) => <NotificationItem key={n.id} notification={n} onOpen={openNotification} />)}
+      </div>
+
+      {pageCount > 1 && (
+        <div className="flex items-center justify-center gap-3">
+          <Button variant="outline" size="sm" disabled={page === 0} onClick={() => setPage(page - 1)}>
+            <ChevronLeft className="w-4 h-4" />
+          </Button>
+          <span className="text-sm text-muted-foreground">Page {page + 1} of {pageCount}</span>
+          <Button variant="outline" size="sm" disabled={page + 1 >= pageCount} onClick={() => setPage(page + 1)}>
+            <ChevronRight className="w-4 h-4" />
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+}
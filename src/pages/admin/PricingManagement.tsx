@@ -8,41 +8,80 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
 import { supabase } from '@/integrations/supabase/client';
 import { useToast } from '@/hooks/use-toast';
+import { PricingCalendar } from '@/components/admin/PricingCalendar';
+import { PricingTiers } from '@/components/admin/PricingTiers';
+import { fetchCancellationPolicies, type CancellationPolicy } from '@/data/cancellations';
 
 interface CarOption { id: string; name: string; }
-interface PricingRule { id: string; car_id: string; pricing_type: string; amount: number; location: string | null; notes: string | null; }
+interface ZoneOption { id: string; name: string; }
+interface PricingRule {
+  id: string;
+  car_id: string;
+  pricing_type: string;
+  amount: number;
+  zone_id: string | null;
+  notes: string | null;
+  name: string | null;
+  starts_on: string | null;
+  ends_on: string | null;
+  day_filter: string;
+  priority: number;
+  cancellation_policy_id: string | null;
+}
+
+const emptyForm = { car_id: '', pricing_type: 'hour', amount: 0, zone_id: '', notes: '', name: '', starts_on: '', ends_on: '', day_filter: 'all', priority: 0, cancellation_policy_id: '' };
+
+const dayFilterLabels: Record<string, string> = { all: 'Every day', weekday: 'Weekdays only', weekend: 'Weekends only' };
 
 export default function PricingManagement() {
   const [cars, setCars] = useState<CarOption[]>([]);
+  const [zones, setZones] = useState<ZoneOption[]>([]);
+  const [policies, setPolicies] = useState<CancellationPolicy[]>([]);
   const [rules, setRules] = useState<PricingRule[]>([]);
   const [selectedCar, setSelectedCar] = useState<string>('all');
-  const [form, setForm] = useState({ car_id: '', pricing_type: 'hour', amount: 0, location: '', notes: '' });
+  const [form, setForm] = useState(emptyForm);
   const [editId, setEditId] = useState<string | null>(null);
   const [open, setOpen] = useState(false);
   const { toast } = useToast();
 
   useEffect(() => {
     supabase.from('cars').select('id, name').then(({ data }) => { if (data) setCars(data as CarOption[]); });
+    supabase.from('pricing_zones').select('id, name').order('name').then(({ data }) => { if (data) setZones(data as ZoneOption[]); });
+    fetchCancellationPolicies().then(setPolicies).catch(() => setPolicies([]));
     fetchRules();
   }, []);
 
   const fetchRules = async () => {
-    const { data } = await supabase.from('pricing_rules').select('*').order('created_at', { ascending: false });
+    const { data } = await supabase.from('pricing_rules').select('*').order('priority', { ascending: false }).order('created_at', { ascending: false });
     if (data) setRules(data as PricingRule[]);
   };
 
   const filtered = selectedCar === 'all' ? rules : rules.filter((r) => r.car_id === selectedCar);
 
   const handleSave = async () => {
-    const payload = { car_id: form.car_id, pricing_type: form.pricing_type, amount: form.amount, location: form.location || null, notes: form.notes || null };
-    if (editId) {
-      await supabase.from('pricing_rules').update(payload).eq('id', editId);
-      toast({ title: 'Rule updated' });
-    } else {
-      await supabase.from('pricing_rules').insert(payload);
-      toast({ title: 'Rule added' });
+    if (form.starts_on && form.ends_on && form.starts_on > form.ends_on) {
+      toast({ title: 'Invalid dates', description: 'The end date must be on or after the start date.', variant: 'destructive' });
+      return;
     }
-    setOpen(false); setEditId(null); setForm({ car_id: '', pricing_type: 'hour', amount: 0, location: '', notes: '' });
+    const payload = {
+      car_id: form.car_id,
+      pricing_type: form.pricing_type,
+      amount: form.amount,
+      zone_id: form.zone_id || null,
+      notes: form.notes || null,
+      name: form.name || null,
+      starts_on: form.starts_on || null,
+      ends_on: form.ends_on || null,
+      day_filter: form.day_filter,
+      priority: form.priority,
+      cancellation_policy_id: form.cancellation_policy_id || null,
+    };
+    const { error } = editId
+      ? await supabase.from('pricing_rules').update(payload).eq('id', editId)
+      : await supabase.from('pricing_rules').insert(payload);
+    if (error) { toast({ title: 'Error', description: error.message, variant: 'destructive' }); return; }
+    toast({ title: editId ? 'Rule updated' : 'Rule added' });
+    setOpen(false); setEditId(null); setForm(emptyForm);
     fetchRules();
   };
 
@@ -53,6 +92,8 @@ export default function PricingManagement() {
   };
 
   const carName = (id: string) => cars.find((c) => c.id === id)?.name || 'Unknown';
+  const zoneName = (id: string) => zones.find((z) => z.id === id)?.name || 'Unknown zone';
+  const policyName = (id: string) => policies.find((p) => p.id === id)?.name || 'Unknown policy';
 
   return (
     <div className="space-y-6">
@@ -68,7 +109,7 @@ export default function PricingManagement() {
           </Select>
           <Dialog open={open} onOpenChange={(v) => { setOpen(v); if (!v) { setEditId(null); } }}>
             <DialogTrigger asChild><Button className="gap-2"><Plus className="w-4 h-4" /> Add Rule</Button></DialogTrigger>
-            <DialogContent>
+            <DialogContent className="max-h-[90vh] overflow-y-auto">
               <DialogHeader><DialogTitle>{editId ? 'Edit Rule' : 'Add Pricing Rule'}</DialogTitle></DialogHeader>
               <div className="space-y-4 mt-2">
                 <div>
@@ -92,7 +133,44 @@ export default function PricingManagement() {
                   </div>
                   <div><Label>Amount ($)</Label><Input type="number" value={form.amount} onChange={(e) => setForm({ ...form, amount: parseFloat(e.target.value) || 0 })} /></div>
                 </div>
-                <div><Label>Location (optional)</Label><Input value={form.location} onChange={(e) => setForm({ ...form, location: e.target.value })} /></div>
+                <div>
+                  <Label>Zone</Label>
+                  <Select value={form.zone_id || 'default'} onValueChange={(v) => setForm({ ...form, zone_id: v === 'default' ? '' : v })}>
+                    <SelectTrigger><SelectValue /></SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="default">Default (all locations)</SelectItem>
+                      {zones.map((z) => <SelectItem key={z.id} value={z.id}>{z.name}</SelectItem>)}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div><Label>Rule name (optional)</Label><Input value={form.name} onChange={(e) => setForm({ ...form, name: e.target.value })} placeholder="e.g. Christmas season" /></div>
+                <div className="grid grid-cols-2 gap-4">
+                  <div><Label>From (optional)</Label><Input type="date" value={form.starts_on} onChange={(e) => setForm({ ...form, starts_on: e.target.value })} /></div>
+                  <div><Label>Until (optional)</Label><Input type="date" value={form.ends_on} onChange={(e) => setForm({ ...form, ends_on: e.target.value })} /></div>
+                </div>
+                <div className="grid grid-cols-2 gap-4">
+                  <div>
+                    <Label>Applies on</Label>
+                    <Select value={form.day_filter} onValueChange={(v) => setForm({ ...form, day_filter: v })}>
+                      <SelectTrigger><SelectValue /></SelectTrigger>
+                      <SelectContent>
+                        {Object.entries(dayFilterLabels).map(([value, label]) => <SelectItem key={value} value={value}>{label}</SelectItem>)}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div><Label>Priority</Label><Input type="number" value={form.priority} onChange={(e) => setForm({ ...form, priority: parseInt(e.target.value) || 0 })} /></div>
+                </div>
+                <p className="text-xs text-muted-foreground">When several rules match a day, the highest priority wins.</p>
+                <div>
+                  <Label>Cancellation policy</Label>
+                  <Select value={form.cancellation_policy_id || 'inherit'} onValueChange={(v) => setForm({ ...form, cancellation_policy_id: v === 'inherit' ? '' : v })}>
+                    <SelectTrigger><SelectValue /></SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="inherit">Car type or default policy</SelectItem>
+                      {policies.map((p) => <SelectItem key={p.id} value={p.id}>{p.name}</SelectItem>)}
+                    </SelectContent>
+                  </Select>
+                </div>
                 <div><Label>Notes (optional)</Label><Input value={form.notes} onChange={(e) => setForm({ ...form, notes: e.target.value })} /></div>
                 <Button onClick={handleSave} className="w-full">{editId ? 'Update' : 'Add Rule'}</Button>
               </div>
@@ -101,6 +179,10 @@ export default function PricingManagement() {
         </div>
       </div>
 
+      <PricingCalendar cars={cars} carId={selectedCar === 'all' ? undefined : selectedCar} refreshKey={rules} />
+
+      <PricingTiers cars={cars} carId={selectedCar === 'all' ? undefined : selectedCar} />
+
       <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
         {filtered.map((rule) => (
           <Card key={rule.id} className="glass">
@@ -108,14 +190,35 @@ export default function PricingManagement() {
               <div className="flex justify-between items-start">
                 <div>
                   <p className="font-bold">{carName(rule.car_id)}</p>
-                  <p className="text-sm text-muted-foreground capitalize">{rule.pricing_type}</p>
+                  <p className="text-sm text-muted-foreground capitalize">{rule.name ? `${rule.name} · ` : ''}{rule.pricing_type}</p>
                 </div>
                 <p className="text-xl font-bold text-accent">${rule.amount}</p>
               </div>
-              {rule.location && <p className="text-xs text-muted-foreground mt-2">📍 {rule.location}</p>}
+              {rule.zone_id && <p className="text-xs text-muted-foreground mt-2">📍 {zoneName(rule.zone_id)}</p>}
+              {(rule.starts_on || rule.ends_on) && (
+                <p className="text-xs text-muted-foreground mt-1">📅 {rule.starts_on || '…'} → {rule.ends_on || '…'}</p>
+              )}
+              {(rule.day_filter !== 'all' || rule.priority !== 0) && (
+                <p className="text-xs text-muted-foreground mt-1">
+                  {dayFilterLabels[rule.day_filter]}{rule.priority !== 0 && ` · priority ${rule.priority}`}
+                </p>
+              )}
+              {rule.cancellation_policy_id && <p className="text-xs text-muted-foreground mt-1">↩ {policyName(rule.cancellation_policy_id)} cancellation</p>}
               {rule.notes && <p className="text-xs text-muted-foreground mt-1">📝 {rule.notes}</p>}
               <div className="flex gap-2 mt-3">
-                <Button variant="outline" size="sm" onClick={() => { setForm({ car_id: rule.car_id, pricing_type: rule.pricing_type, amount: rule.amount, location: rule.location || '', notes: rule.notes || '' }); setEditId(rule.id); setOpen(true); }}>
+                <Button variant="outline" size="sm" onClick={() => { setForm({
+                    car_id: rule.car_id,
+                    pricing_type: rule.pricing_type,
+                    amount: rule.amount,
+                    zone_id: rule.zone_id || '',
+                    notes: rule.notes || '',
+                    name: rule.name || '',
+                    starts_on: rule.starts_on || '',
+                    ends_on: rule.ends_on || '',
+                    day_filter: rule.day_filter,
+                    priority: rule.priority,
+                    cancellation_policy_id: rule.cancellation_policy_id || '',
+                  }); setEditId(rule.id); setOpen(true); }}>
                   <Edit className="w-3 h-3 mr-1" /> Edit
                 </Button>
                 <Button variant="outline" size="sm" className="text-destructive" onClick={() => handleDelete(rule.id)}>
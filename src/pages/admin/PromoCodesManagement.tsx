@@ -0,0 +1,251 @@
+import { useEffect, useState } from 'react';
+import { format } from 'date-fns';
+import { Plus, Trash2, Edit } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Switch } from '@/components/ui/switch';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { supabase } from '@/integrations/supabase/client';
+import { useToast } from '@/hooks/use-toast';
+
+interface PromoCode {
+  id: string;
+  code: string;
+  description: string | null;
+  discount_type: string;
+  discount_value: number;
+  valid_from: string | null;
+  valid_until: string | null;
+  max_uses: number | null;
+  used_count: number;
+  car_types: string[] | null;
+  is_active: boolean;
+}
+
+const emptyForm = {
+  code: '',
+  description: '',
+  discount_type: 'percent',
+  discount_value: 10,
+  valid_from: '',
+  valid_until: '',
+  max_uses: '',
+  car_types: [] as string[],
+  is_active: true,
+};
+
+// Dates are entered as whole days: a code is valid from the start of `valid_from` until the end of `valid_until`
+const toStartOfDay = (date: string) => (date ? new Date(`${date}T00:00:00`).toISOString() : null);
+const toEndOfDay = (date: string) => (date ? new Date(`${date}T23:59:59.999`).toISOString() : null);
+const toDateInput = (value: string | null) => (value ? format(new Date(value), 'yyyy-MM-dd') : '');
+
+export default function PromoCodesManagement() {
+  const [codes, setCodes] = useState<PromoCode[]>([]);
+  const [carTypes, setCarTypes] = useState<string[]>([]);
+  const [form, setForm] = useState(emptyForm);
+  const [editId, setEditId] = useState<string | null>(null);
+  const [open, setOpen] = useState(false);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    supabase.from('cars').select('type').then(({ data }) => {
+      if (data) setCarTypes(Array.from(new Set(data.map((c) => c.type))).sort());
+    });
+    fetchCodes();
+  }, []);
+
+  const fetchCodes = async () => {
+    const { data } = await supabase.from('promo_codes').select('*').order('created_at', { ascending: false });
+    if (data) setCodes(data as PromoCode[]);
+  };
+
+  const handleSave = async () => {
+    const code = form.code.trim().toUpperCase();
+    if (!code || form.discount_value <= 0) {
+      toast({ title: 'Missing fields', description: 'Code and a positive discount are required.', variant: 'destructive' });
+      return;
+    }
+    if (form.discount_type === 'percent' && form.discount_value > 100) {
+      toast({ title: 'Invalid discount', description: 'A percentage discount cannot exceed 100%.', variant: 'destructive' });
+      return;
+    }
+    if (form.valid_from && form.valid_until && form.valid_from > form.valid_until) {
+      toast({ title: 'Invalid dates', description: 'The end date must be on or after the start date.', variant: 'destructive' });
+      return;
+    }
+    const payload = {
+      code,
+      description: form.description || null,
+      discount_type: form.discount_type,
+      discount_value: form.discount_value,
+      valid_from: toStartOfDay(form.valid_from),
+      valid_until: toEndOfDay(form.valid_until),
+      max_uses: form.max_uses ? parseInt(form.max_uses) : null,
+      car_types: form.car_types.length ? form.car_types : null,
+      is_active: form.is_active,
+    };
+    const { error } = editId
+      ? await supabase.from('promo_codes').update(payload).eq('id', editId)
+      : await supabase.from('promo_codes').insert(payload);
+    if (error) { toast({ title: 'Error', description: error.message, variant: 'destructive' }); return; }
+    toast({ title: editId ? 'Code updated' : 'Code added' });
+    setOpen(false); setEditId(null); setForm(emptyForm);
+    fetchCodes();
+  };
+
+  const handleEdit = (promo: PromoCode) => {
+    setForm({
+      code: promo.code,
+      description: promo.description || '',
+      discount_type: promo.discount_type,
+      discount_value: promo.discount_value,
+      valid_from: toDateInput(promo.valid_from),
+      valid_until: toDateInput(promo.valid_until),
+      max_uses: promo.max_uses?.toString() || '',
+      car_types: promo.car_types || [],
+      is_active: promo.is_active,
+    });
+    setEditId(promo.id);
+    setOpen(true);
+  };
+
+  const toggleActive = async (promo: PromoCode) => {
+    const { error } = await supabase.from('promo_codes').update({ is_active: !promo.is_active }).eq('id', promo.id);
+    if (error) { toast({ title: 'Error', description: error.message, variant: 'destructive' }); return; }
+    fetchCodes();
+  };
+
+  const handleDelete = async (promo: PromoCode) => {
+    if (!confirm(`Delete code ${promo.code}? Bookings that used it keep their discount.`)) return;
+    await supabase.from('promo_codes').delete().eq('id', promo.id);
+    toast({ title: 'Code deleted' });
+    fetchCodes();
+  };
+
+  const toggleCarType = (type: string, checked: boolean) =>
+    setForm({ ...form, car_types: checked ? [...form.car_types, type] : form.car_types.filter((t) => t !== type) });
+
+  const statusOf = (promo: PromoCode) => {
+    const now = new Date();
+    if (!promo.is_active) return { label: 'Disabled', variant: 'secondary' as const };
+    if (promo.valid_until && new Date(promo.valid_until) <= now) return { label: 'Expired', variant: 'secondary' as const };
+    if (promo.max_uses !== null && promo.used_count >= promo.max_uses) return { label: 'Used up', variant: 'secondary' as const };
+    if (promo.valid_from && new Date(promo.valid_from) > now) return { label: 'Scheduled', variant: 'outline' as const };
+    return { label: 'Active', variant: 'default' as const };
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between flex-wrap gap-4">
+        <div>
+          <h1 className="text-2xl font-bold">Promo Codes</h1>
+          <p className="text-muted-foreground text-sm">Discount codes for partners and campaigns, checked when a booking is placed</p>
+        </div>
+        <Dialog open={open} onOpenChange={(v) => { setOpen(v); if (!v) { setEditId(null); setForm(emptyForm); } }}>
+          <DialogTrigger asChild><Button className="gap-2"><Plus className="w-4 h-4" /> Add Code</Button></DialogTrigger>
+          <DialogContent className="max-h-[90vh] overflow-y-auto">
+            <DialogHeader><DialogTitle>{editId ? 'Edit Code' : 'Add Promo Code'}</DialogTitle></DialogHeader>
+            <div className="space-y-4 mt-2">
+              <div className="grid grid-cols-2 gap-4">
+                <div><Label>Code *</Label><Input value={form.code} onChange={(e) => setForm({ ...form, code: e.target.value.toUpperCase() })} placeholder="e.g. SERENA10" /></div>
+                <div className="flex items-end gap-2 pb-2">
+                  <Switch checked={form.is_active} onCheckedChange={(v) => setForm({ ...form, is_active: v })} />
+                  <Label>Active</Label>
+                </div>
+              </div>
+              <div><Label>Description (optional)</Label><Input value={form.description} onChange={(e) => setForm({ ...form, description: e.target.value })} placeholder="e.g. Serena Hotel guests" /></div>
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <Label>Discount</Label>
+                  <Select value={form.discount_type} onValueChange={(v) => setForm({ ...form, discount_type: v })}>
+                    <SelectTrigger><SelectValue /></SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="percent">Percent (%)</SelectItem>
+                      <SelectItem value="fixed">Fixed amount ($)</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div><Label>Value</Label><Input type="number" value={form.discount_value} onChange={(e) => setForm({ ...form, discount_value: parseFloat(e.target.value) || 0 })} /></div>
+              </div>
+              <div className="grid grid-cols-2 gap-4">
+                <div><Label>Valid from (optional)</Label><Input type="date" value={form.valid_from} onChange={(e) => setForm({ ...form, valid_from: e.target.value })} /></div>
+                <div><Label>Valid until (optional)</Label><Input type="date" value={form.valid_until} onChange={(e) => setForm({ ...form, valid_until: e.target.value })} /></div>
+              </div>
+              <div><Label>Usage limit (optional)</Label><Input type="number" min={1} value={form.max_uses} onChange={(e) => setForm({ ...form, max_uses: e.target.value })} placeholder="Unlimited" /></div>
+              {carTypes.length > 0 && (
+                <div>
+                  <Label>Car types</Label>
+                  <p className="text-xs text-muted-foreground mb-2">Leave all unchecked to allow every car.</p>
+                  <div className="flex flex-wrap gap-4">
+                    {carTypes.map((type) => (
+                      <label key={type} className="flex items-center gap-2 text-sm">
+                        <Checkbox checked={form.car_types.includes(type)} onCheckedChange={(v) => toggleCarType(type, v === true)} />
+                        {type}
+                      </label>
+                    ))}
+                  </div>
+                </div>
+              )}
+              <Button onClick={handleSave} className="w-full">{editId ? 'Update' : 'Add Code'}</Button>
+            </div>
+          </DialogContent>
+        </Dialog>
+      </div>
+
+      <div className="border rounded-lg overflow-auto">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Code</TableHead>
+              <TableHead>Discount</TableHead>
+              <TableHead>Validity</TableHead>
+              <TableHead>Uses</TableHead>
+              <TableHead>Car Types</TableHead>
+              <TableHead>Status</TableHead>
+              <TableHead>Actions</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {codes.map((promo) => {
+              const status = statusOf(promo);
+              return (
+                <TableRow key={promo.id}>
+                  <TableCell>
+                    <div className="font-mono font-medium">{promo.code}</div>
+                    {promo.description && <div className="text-xs text-muted-foreground">{promo.description}</div>}
+                  </TableCell>
+                  <TableCell>{promo.discount_type === 'percent' ? `${promo.discount_value}%` : `$${promo.discount_value}`}</TableCell>
+                  <TableCell className="text-sm text-muted-foreground">
+                    {promo.valid_from || promo.valid_until
+                      ? `${promo.valid_from ? format(new Date(promo.valid_from), 'MMM d, yyyy') : '…'} → ${promo.valid_until ? format(new Date(promo.valid_until), 'MMM d, yyyy') : '…'}`
+                      : 'Always'}
+                  </TableCell>
+                  <TableCell>{promo.used_count}{promo.max_uses !== null && ` / ${promo.max_uses}`}</TableCell>
+                  <TableCell className="text-sm text-muted-foreground">{promo.car_types?.length ? promo.car_types.join(', ') : 'All'}</TableCell>
+                  <TableCell><Badge variant={status.variant}>{status.label}</Badge></TableCell>
+                  <TableCell>
+                    <div className="flex items-center gap-1">
+                      <Switch checked={promo.is_active} onCheckedChange={() => toggleActive(promo)} />
+                      <Button variant="outline" size="sm" className="h-7" onClick={() => handleEdit(promo)}>
+                        <Edit className="w-3 h-3" />
+                      </Button>
+                      <Button variant="outline" size="sm" className="h-7 text-destructive" onClick={() => handleDelete(promo)}>
+                        <Trash2 className="w-3 h-3" />
+                      </Button>
+                    </div>
+                  </TableCell>
+                </TableRow>
+              );
+            })}
+            {codes.length === 0 && <TableRow><TableCell colSpan={7} className="text-center text-muted-foreground py-8">No promo codes yet</TableCell></TableRow>}
+          </TableBody>
+        </Table>
+      </div>
+    </div>
+  );
+}
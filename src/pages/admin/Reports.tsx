@@ -6,6 +6,8 @@ import { Label } from '@/components/ui/label';
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
 import { FileText, Download } from 'lucide-react';
 import { supabase } from '@/integrations/supabase/client';
+import { toast } from '@/hooks/use-toast';
+import { fetchCollectedIncome, type CollectedIncome } from '@/data/payments';
 
 interface CarProfit { name: string; income: number; expense: number; profit: number; }
 
@@ -21,9 +23,13 @@ export default function Reports() {
   useEffect(() => { fetchReport(); }, [startDate, endDate]);
 
   const fetchReport = async () => {
-    const [{ data: cars }, { data: bookings }, { data: expenses }] = await Promise.all([
+    const [{ data: cars }, { count: bookingCount }, collected, { data: expenses }] = await Promise.all([
       supabase.from('cars').select('id, name'),
-      supabase.from('bookings').select('car_id, total_price, booking_date').gte('booking_date', startDate).lte('booking_date', endDate),
+      supabase.from('bookings').select('id', { count: 'exact', head: true }).gte('booking_date', startDate).lte('booking_date', endDate),
+      fetchCollectedIncome({ from: startDate, to: endDate }).catch((error): CollectedIncome[] => {
+        toast({ title: 'Could not load income', description: error.message, variant: 'destructive' });
+        return [];
+      }),
       supabase.from('expenses').select('car_id, amount, expense_date').gte('expense_date', startDate).lte('expense_date', endDate),
     ]);
 
@@ -34,10 +40,11 @@ export default function Reports() {
     const expenseMap: Record<string, number> = {};
     let totalIncome = 0, totalExpense = 0;
 
-    (bookings || []).forEach((b: any) => {
-      const amt = Number(b.total_price || 0);
-      totalIncome += amt;
-      if (b.car_id) incomeMap[b.car_id] = (incomeMap[b.car_id] || 0) + amt;
+    // Income is money collected in the period, whenever the booking itself was made
+    collected.forEach((row) => {
+      const net = row.collected - row.refunded;
+      totalIncome += net;
+      incomeMap[row.carId] = (incomeMap[row.carId] || 0) + net;
     });
 
     (expenses || []).forEach((e: any) => {
@@ -55,7 +62,7 @@ export default function Reports() {
     })).sort((a, b) => b.profit - a.profit);
 
     setCarProfits(profits);
-    setSummary({ bookings: bookings?.length || 0, income: totalIncome, expenses: totalExpense });
+    setSummary({ bookings: bookingCount || 0, income: totalIncome, expenses: totalExpense });
   };
 
   const exportCSV = () => {
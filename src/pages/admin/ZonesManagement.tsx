@@ -0,0 +1,118 @@
+import { useEffect, useState } from 'react';
+import { Plus, Trash2, Edit } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { supabase } from '@/integrations/supabase/client';
+import { useToast } from '@/hooks/use-toast';
+
+interface Zone { id: string; name: string; notes: string | null; }
+
+const emptyForm = { name: '', notes: '' };
+
+export default function ZonesManagement() {
+  const [zones, setZones] = useState<Zone[]>([]);
+  const [ruleCounts, setRuleCounts] = useState<Record<string, number>>({});
+  const [form, setForm] = useState(emptyForm);
+  const [editId, setEditId] = useState<string | null>(null);
+  const [open, setOpen] = useState(false);
+  const { toast } = useToast();
+
+  useEffect(() => { fetchZones(); }, []);
+
+  const fetchZones = async () => {
+    const [{ data: zoneRows }, { data: rules }] = await Promise.all([
+      supabase.from('pricing_zones').select('id, name, notes').order('name'),
+      supabase.from('pricing_rules').select('zone_id').not('zone_id', 'is', null),
+    ]);
+    if (zoneRows) setZones(zoneRows as Zone[]);
+    const counts: Record<string, number> = {};
+    (rules || []).forEach((r) => { if (r.zone_id) counts[r.zone_id] = (counts[r.zone_id] || 0) + 1; });
+    setRuleCounts(counts);
+  };
+
+  const handleSave = async () => {
+    if (!form.name.trim()) {
+      toast({ title: 'Missing fields', description: 'Zone name is required.', variant: 'destructive' });
+      return;
+    }
+    const payload = { name: form.name.trim(), notes: form.notes || null };
+    const { error } = editId
+      ? await supabase.from('pricing_zones').update(payload).eq('id', editId)
+      : await supabase.from('pricing_zones').insert(payload);
+    if (error) { toast({ title: 'Error', description: error.message, variant: 'destructive' }); return; }
+    toast({ title: editId ? 'Zone updated' : 'Zone added' });
+    setOpen(false); setEditId(null); setForm(emptyForm);
+    fetchZones();
+  };
+
+  const handleDelete = async (zone: Zone) => {
+    const count = ruleCounts[zone.id] || 0;
+    if (count) {
+      toast({ title: 'Zone in use', description: `Move or delete its ${count} pricing rule(s) first.`, variant: 'destructive' });
+      return;
+    }
+    if (!confirm(`Delete ${zone.name}?`)) return;
+    const { error } = await supabase.from('pricing_zones').delete().eq('id', zone.id);
+    if (error) { toast({ title: 'Error', description: error.message, variant: 'destructive' }); return; }
+    toast({ title: 'Zone deleted' });
+    fetchZones();
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between flex-wrap gap-4">
+        <div>
+          <h1 className="text-2xl font-bold">Pricing Zones</h1>
+          <p className="text-muted-foreground text-sm">Pickup and dropoff areas that pricing rules can target</p>
+        </div>
+        <Dialog open={open} onOpenChange={(v) => { setOpen(v); if (!v) { setEditId(null); setForm(emptyForm); } }}>
+          <DialogTrigger asChild><Button className="gap-2"><Plus className="w-4 h-4" /> Add Zone</Button></DialogTrigger>
+          <DialogContent>
+            <DialogHeader><DialogTitle>{editId ? 'Edit Zone' : 'Add Zone'}</DialogTitle></DialogHeader>
+            <div className="space-y-4 mt-2">
+              <div><Label>Name *</Label><Input value={form.name} onChange={(e) => setForm({ ...form, name: e.target.value })} placeholder="e.g. Airport, Musanze" /></div>
+              <div><Label>Notes (optional)</Label><Input value={form.notes} onChange={(e) => setForm({ ...form, notes: e.target.value })} /></div>
+              <Button onClick={handleSave} className="w-full">{editId ? 'Update' : 'Add Zone'}</Button>
+            </div>
+          </DialogContent>
+        </Dialog>
+      </div>
+
+      <div className="border rounded-lg overflow-auto">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Zone</TableHead>
+              <TableHead>Notes</TableHead>
+              <TableHead>Pricing Rules</TableHead>
+              <TableHead>Actions</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {zones.map((z) => (
+              <TableRow key={z.id}>
+                <TableCell className="font-medium">{z.name}</TableCell>
+                <TableCell className="text-muted-foreground">{z.notes || '—'}</TableCell>
+                <TableCell>{ruleCounts[z.id] || 0}</TableCell>
+                <TableCell>
+                  <div className="flex gap-1">
+                    <Button variant="outline" size="sm" className="h-7" onClick={() => { setForm({ name: z.name, notes: z.notes || '' }); setEditId(z.id); setOpen(true); }}>
+                      <Edit className="w-3 h-3" />
+                    </Button>
+                    <Button variant="outline" size="sm" className="h-7 text-destructive" onClick={() => handleDelete(z)}>
+                      <Trash2 className="w-3 h-3" />
+                    </Button>
+                  </div>
+                </TableCell>
+              </TableRow>
+            ))}
+            {zones.length === 0 && <TableRow><TableCell colSpan={4} className="text-center text-muted-foreground py-8">No zones yet</TableCell></TableRow>}
+          </TableBody>
+        </Table>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,213 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient, type SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { providerFor, type PaymentMethod } from "./providers.ts";
+
+const mobileMoneyMethods: PaymentMethod[] = ["mtn_momo", "airtel_money"];
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+const json = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), { status, headers: { ...corsHeaders, "Content-Type": "application/json" } });
+
+interface Payment {
+  id: string;
+  booking_id: string;
+  method: PaymentMethod;
+  payer_phone: string;
+  status: string;
+  amount: number;
+  charged_amount: number;
+  charged_currency: string;
+  failure_reason: string | null;
+  created_at: string;
+}
+
+const publicPayment = (payment: Payment) => ({
+  paymentId: payment.id,
+  status: payment.status,
+  amount: payment.amount,
+  chargedAmount: payment.charged_amount,
+  chargedCurrency: payment.charged_currency,
+  failureReason: payment.failure_reason,
+});
+
+async function setting(supabase: SupabaseClient, key: string) {
+  const { data } = await supabase.from("app_settings").select("value").eq("key", key).maybeSingle();
+  return data?.value;
+}
+
+// Wallet prompts lapse after a few minutes. A request the provider still calls pending after this
+// is given up on, so the customer can try again with another number or method.
+const PENDING_TIMEOUT_MS = 10 * 60 * 1000;
+const EXPIRED_REASON = "The payment request expired before it was approved";
+const REPLACED_REASON = "Replaced by a new payment request";
+
+/** Fails a pending request on our side without hearing from the provider. */
+async function abandon(supabase: SupabaseClient, payment: Payment, reason: string): Promise<Payment> {
+  const { data } = await supabase
+    .from("payments")
+    .update({ status: "failed", failure_reason: reason, completed_at: new Date().toISOString() })
+    .eq("id", payment.id)
+    .eq("status", "pending")
+    .select()
+    .maybeSingle();
+  return (data as Payment | null) ?? payment;
+}
+
+/**
+ * Asks the provider where a pending payment stands and settles it. The callback body is never trusted.
+ * A callback can also revive a request we abandoned, in case the customer approved it late.
+ */
+async function refresh(supabase: SupabaseClient, payment: Payment, fromCallback = false): Promise<Payment> {
+  const abandoned = payment.status === "failed" && [EXPIRED_REASON, REPLACED_REASON].includes(payment.failure_reason ?? "");
+  if (payment.status !== "pending" && !(fromCallback && abandoned)) return payment;
+
+  const result = await providerFor(payment.method).getStatus(payment.id, payment.charged_currency);
+  if (result.status === "pending") {
+    const expired = payment.status === "pending" && Date.now() - Date.parse(payment.created_at) > PENDING_TIMEOUT_MS;
+    return expired ? await abandon(supabase, payment, EXPIRED_REASON) : payment;
+  }
+  if (result.status === payment.status) return payment;
+
+  const { data } = await supabase
+    .from("payments")
+    .update({
+      status: result.status,
+      provider_transaction_id: result.transactionId ?? null,
+      failure_reason: result.status === "failed" ? result.reason ?? "Payment failed" : null,
+      completed_at: new Date().toISOString(),
+    })
+    .eq("id", payment.id)
+    .eq("status", payment.status)
+    .select()
+    .maybeSingle();
+  return (data as Payment | null) ?? payment;
+}
+
+// The booking's client_request_id is only known to the browser that created it, so it doubles as
+// the customer's proof that they may pay for and watch this booking.
+async function findBooking(supabase: SupabaseClient, clientRequestId: string) {
+  const { data } = await supabase
+    .from("bookings")
+    .select("id, reference, status, total_price")
+    .eq("client_request_id", clientRequestId)
+    .maybeSingle();
+  return data;
+}
+
+async function requestDeposit(supabase: SupabaseClient, body: { clientRequestId: string; method: PaymentMethod; phone: string }) {
+  if (!mobileMoneyMethods.includes(body.method)) return json({ error: "Unsupported payment method" }, 400);
+  const booking = await findBooking(supabase, body.clientRequestId);
+  if (!booking) return json({ error: "Booking not found" }, 404);
+  if (!["pending", "approved"].includes(booking.status)) return json({ error: `A ${booking.status} booking cannot take a deposit` }, 409);
+  if (!body.phone?.trim()) return json({ error: "A phone number is required" }, 400);
+
+  // Only this flow's own deposit requests count; cash or bank payments an admin recorded do not
+  const { data: existing } = await supabase
+    .from("payments")
+    .select("*")
+    .eq("booking_id", booking.id)
+    .eq("purpose", "deposit")
+    .eq("kind", "payment")
+    .in("method", mobileMoneyMethods)
+    .in("status", ["pending", "successful"])
+    .order("created_at", { ascending: false })
+    .limit(1)
+    .maybeSingle();
+  if (existing) {
+    const current = await refresh(supabase, existing as Payment);
+    if (current.status === "successful") return json(publicPayment(current));
+    // A repeat of the open request (a double tap or remount) gets that request back; a different
+    // number or method replaces it
+    if (current.status === "pending") {
+      if (current.method === body.method && current.payer_phone === body.phone.trim()) return json(publicPayment(current));
+      await abandon(supabase, current, REPLACED_REASON);
+    }
+  }
+
+  const percent = Number(await setting(supabase, "deposit_percent") ?? 0);
+  const currency = String(await setting(supabase, "momo_currency") ?? "RWF");
+  const rate = Number(await setting(supabase, "momo_exchange_rate") ?? 1);
+  const amount = Math.round(Number(booking.total_price) * percent) / 100;
+  if (amount <= 0) return json({ error: "No deposit is due for this booking" }, 409);
+
+  const { data: payment, error } = await supabase
+    .from("payments")
+    .insert({
+      booking_id: booking.id,
+      method: body.method,
+      payer_phone: body.phone.trim(),
+      amount,
+      charged_amount: Math.ceil(amount * rate),
+      charged_currency: currency,
+    })
+    .select()
+    .single();
+  if (error) throw error;
+
+  const callbackBase = Deno.env.get("PAYMENTS_CALLBACK_URL") || `${Deno.env.get("SUPABASE_URL")}/functions/v1/momo-payments/callback`;
+  const callbackUrl = `${callbackBase}?payment=${payment.id}&token=${Deno.env.get("PAYMENTS_CALLBACK_SECRET") ?? ""}`;
+
+  try {
+    await providerFor(body.method).requestToPay({
+      paymentId: payment.id,
+      amount: payment.charged_amount,
+      currency,
+      phone: payment.payer_phone,
+      reference: booking.reference,
+      callbackUrl,
+    });
+    return json(publicPayment(payment as Payment));
+  } catch (e) {
+    const reason = e instanceof Error ? e.message : String(e);
+    const { data: failed } = await supabase
+      .from("payments")
+      .update({ status: "failed", failure_reason: reason, completed_at: new Date().toISOString() })
+      .eq("id", payment.id)
+      .select()
+      .single();
+    return json(publicPayment(failed as Payment));
+  }
+}
+
+async function paymentStatus(supabase: SupabaseClient, body: { clientRequestId: string; paymentId: string }) {
+  const booking = await findBooking(supabase, body.clientRequestId);
+  const { data: payment } = await supabase.from("payments").select("*").eq("id", body.paymentId).maybeSingle();
+  if (!booking || !payment || payment.booking_id !== booking.id) return json({ error: "Payment not found" }, 404);
+  return json(publicPayment(await refresh(supabase, payment as Payment)));
+}
+
+async function callback(supabase: SupabaseClient, url: URL) {
+  const secret = Deno.env.get("PAYMENTS_CALLBACK_SECRET");
+  if (!secret || url.searchParams.get("token") !== secret) return json({ error: "Forbidden" }, 403);
+  const { data: payment } = await supabase.from("payments").select("*").eq("id", url.searchParams.get("payment")).maybeSingle();
+  if (payment) await refresh(supabase, payment as Payment, true);
+  return json({ ok: true });
+}
+
+// Request-to-pay for booking deposits. The browser calls it with { action: "request" | "status" };
+// providers call back on /momo-payments/callback.
+serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const supabase = createClient(Deno.env.get("SUPABASE_URL")!, Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!);
+    const url = new URL(req.url);
+    if (url.pathname.endsWith("/callback")) return await callback(supabase, url);
+
+    const body = await req.json();
+    switch (body.action) {
+      case "request": return await requestDeposit(supabase, body);
+      case "status": return await paymentStatus(supabase, body);
+      default: return json({ error: "Unknown action" }, 400);
+    }
+  } catch (error) {
+    console.error("momo-payments error:", error);
+    return json({ error: error instanceof Error ? error.message : "Unknown error" }, 500);
+  }
+});
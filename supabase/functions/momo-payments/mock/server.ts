@@ -0,0 +1,58 @@
+// Local stand-in for the mobile money gateways.
+//
+//   deno run --allow-net supabase/functions/momo-payments/mock/server.ts
+//
+// then serve the function with PAYMENTS_PROVIDER=mock. Each request "approves" itself after a few
+// seconds and calls the function's callback URL. Payer numbers ending in 0 are declined and
+// numbers ending in 9 never answer, to exercise the failure and timeout paths.
+
+interface MockPayment {
+  paymentId: string;
+  amount: number;
+  currency: string;
+  phone: string;
+  callbackUrl: string;
+  status: "pending" | "successful" | "failed";
+  transactionId?: string;
+  reason?: string;
+}
+
+const SETTLE_AFTER_MS = 5000;
+const payments = new Map<string, MockPayment>();
+
+function settle(payment: MockPayment) {
+  if (payment.phone.endsWith("9")) return;
+  if (payment.phone.endsWith("0")) {
+    payment.status = "failed";
+    payment.reason = "Payer declined the request";
+  } else {
+    payment.status = "successful";
+    payment.transactionId = `MOCK-${Date.now()}`;
+  }
+  console.log(`[mock momo] ${payment.paymentId} ${payment.status}`);
+  fetch(payment.callbackUrl, { method: "POST", body: JSON.stringify({ referenceId: payment.paymentId, status: payment.status }) })
+    .then((response) => response.body?.cancel())
+    .catch((error) => console.error(`[mock momo] callback failed: ${error.message}`));
+}
+
+Deno.serve({ port: Number(Deno.env.get("PORT") || 8787) }, async (req) => {
+  const url = new URL(req.url);
+
+  if (req.method === "POST" && url.pathname === "/requesttopay") {
+    const body = await req.json();
+    const payment: MockPayment = { ...body, status: "pending" };
+    payments.set(payment.paymentId, payment);
+    console.log(`[mock momo] prompt sent to ${payment.phone} for ${payment.amount} ${payment.currency}`);
+    setTimeout(() => settle(payment), SETTLE_AFTER_MS);
+    return new Response(null, { status: 202 });
+  }
+
+  const match = url.pathname.match(/^\/requesttopay\/([\w-]+)$/);
+  if (req.method === "GET" && match) {
+    const payment = payments.get(match[1]);
+    if (!payment) return new Response("Not found", { status: 404 });
+    return Response.json({ status: payment.status, transactionId: payment.transactionId ?? null, reason: payment.reason ?? null });
+  }
+
+  return new Response("Not found", { status: 404 });
+});
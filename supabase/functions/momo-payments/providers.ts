@@ -0,0 +1,177 @@
+export type PaymentMethod = "mtn_momo" | "airtel_money";
+
+export interface PaymentRequest {
+  /** Our payment id, used as the provider's reference so callbacks and lookups need no mapping. */
+  paymentId: string;
+  amount: number;
+  currency: string;
+  phone: string;
+  /** Shown on the customer's prompt and statement. */
+  reference: string;
+  callbackUrl: string;
+}
+
+export interface PaymentStatus {
+  status: "pending" | "successful" | "failed";
+  transactionId?: string | null;
+  reason?: string | null;
+}
+
+export interface PaymentProvider {
+  /** Sends the approval prompt to the payer's phone. Throws if the provider rejects the request. */
+  requestToPay(request: PaymentRequest): Promise<void>;
+  /** `currency` is the one the request was charged in. */
+  getStatus(paymentId: string, currency: string): Promise<PaymentStatus>;
+}
+
+function requireEnv(name: string): string {
+  const value = Deno.env.get(name);
+  if (!value) throw new Error(`${name} is not configured`);
+  return value;
+}
+
+const digits = (phone: string) => phone.replace(/\D/g, "");
+
+async function expectOk(response: Response, provider: string) {
+  if (!response.ok) throw new Error(`${provider} error ${response.status}: ${await response.text()}`);
+}
+
+// MTN MoMo Collection API: https://momodeveloper.mtn.com/api-documentation
+const mtnMomoProvider = (): PaymentProvider => {
+  const baseUrl = Deno.env.get("MTN_MOMO_BASE_URL") || "https://sandbox.momodeveloper.mtn.com";
+  const headers = () => ({
+    "Ocp-Apim-Subscription-Key": requireEnv("MTN_MOMO_SUBSCRIPTION_KEY"),
+    "X-Target-Environment": Deno.env.get("MTN_MOMO_TARGET_ENVIRONMENT") || "sandbox",
+  });
+
+  const token = async () => {
+    const response = await fetch(`${baseUrl}/collection/token/`, {
+      method: "POST",
+      headers: {
+        ...headers(),
+        Authorization: `Basic ${btoa(`${requireEnv("MTN_MOMO_API_USER")}:${requireEnv("MTN_MOMO_API_KEY")}`)}`,
+      },
+    });
+    await expectOk(response, "MTN MoMo");
+    return (await response.json()).access_token as string;
+  };
+
+  return {
+    async requestToPay(request) {
+      const response = await fetch(`${baseUrl}/collection/v1_0/requesttopay`, {
+        method: "POST",
+        headers: {
+          ...headers(),
+          Authorization: `Bearer ${await token()}`,
+          "X-Reference-Id": request.paymentId,
+          "X-Callback-Url": request.callbackUrl,
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({
+          amount: String(request.amount),
+          currency: request.currency,
+          externalId: request.reference,
+          payer: { partyIdType: "MSISDN", partyId: digits(request.phone) },
+          payerMessage: `Smart Move deposit ${request.reference}`,
+          payeeNote: request.reference,
+        }),
+      });
+      await expectOk(response, "MTN MoMo");
+    },
+
+    async getStatus(paymentId) {
+      const response = await fetch(`${baseUrl}/collection/v1_0/requesttopay/${paymentId}`, {
+        headers: { ...headers(), Authorization: `Bearer ${await token()}` },
+      });
+      await expectOk(response, "MTN MoMo");
+      const data = await response.json();
+      if (data.status === "SUCCESSFUL") return { status: "successful", transactionId: data.financialTransactionId };
+      if (data.status === "FAILED") return { status: "failed", reason: data.reason || "Payment failed" };
+      return { status: "pending" };
+    },
+  };
+};
+
+// Airtel Money Collection API: https://developers.airtel.africa
+const airtelMoneyProvider = (): PaymentProvider => {
+  const baseUrl = Deno.env.get("AIRTEL_MONEY_BASE_URL") || "https://openapiuat.airtel.africa";
+
+  const headers = async (currency: string) => {
+    const response = await fetch(`${baseUrl}/auth/oauth2/token`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({
+        client_id: requireEnv("AIRTEL_MONEY_CLIENT_ID"),
+        client_secret: requireEnv("AIRTEL_MONEY_CLIENT_SECRET"),
+        grant_type: "client_credentials",
+      }),
+    });
+    await expectOk(response, "Airtel Money");
+    const { access_token } = await response.json();
+    return {
+      Authorization: `Bearer ${access_token}`,
+      "X-Country": "RW",
+      "X-Currency": currency,
+      "Content-Type": "application/json",
+    };
+  };
+
+  return {
+    async requestToPay(request) {
+      const response = await fetch(`${baseUrl}/merchant/v1/payments/`, {
+        method: "POST",
+        headers: await headers(request.currency),
+        body: JSON.stringify({
+          reference: request.reference,
+          subscriber: { country: "RW", currency: request.currency, msisdn: digits(request.phone).replace(/^250/, "") },
+          transaction: { amount: request.amount, country: "RW", currency: request.currency, id: request.paymentId },
+        }),
+      });
+      await expectOk(response, "Airtel Money");
+      const data = await response.json();
+      if (data?.status?.success === false) throw new Error(data.status.message || "Airtel Money refused the request");
+    },
+
+    async getStatus(paymentId, currency) {
+      const response = await fetch(`${baseUrl}/standard/v1/payments/${paymentId}`, {
+        headers: await headers(currency),
+      });
+      await expectOk(response, "Airtel Money");
+      const transaction = (await response.json())?.data?.transaction;
+      if (transaction?.status === "TS") return { status: "successful", transactionId: transaction.airtel_money_id };
+      if (transaction?.status === "TF") return { status: "failed", reason: transaction.message || "Payment failed" };
+      return { status: "pending" };
+    },
+  };
+};
+
+/** Talks to mock/server.ts instead of a real wallet; see that file for how to drive it. */
+const mockProvider = (): PaymentProvider => {
+  const baseUrl = Deno.env.get("MOCK_MOMO_URL") || "http://host.docker.internal:8787";
+  return {
+    async requestToPay(request) {
+      const response = await fetch(`${baseUrl}/requesttopay`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(request),
+      });
+      await expectOk(response, "Mock MoMo");
+    },
+
+    async getStatus(paymentId) {
+      const response = await fetch(`${baseUrl}/requesttopay/${paymentId}`);
+      await expectOk(response, "Mock MoMo");
+      return await response.json();
+    },
+  };
+};
+
+/** PAYMENTS_PROVIDER=mock routes every method to the local mock server. */
+export function providerFor(method: PaymentMethod): PaymentProvider {
+  if (Deno.env.get("PAYMENTS_PROVIDER") === "mock") return mockProvider();
+  switch (method) {
+    case "mtn_momo": return mtnMomoProvider();
+    case "airtel_money": return airtelMoneyProvider();
+    default: throw new Error(`Unsupported payment method "${method}"`);
+  }
+}
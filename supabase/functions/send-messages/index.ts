@@ -0,0 +1,94 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { providerFor, type Channel } from "./providers.ts";
+import { renderTemplate } from "./templates.ts";
+
+const MAX_ATTEMPTS = 5;
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+interface OutboxRow {
+  id: string;
+  channel: Channel;
+  recipient: string;
+  template: string;
+  language: string;
+  params: Record<string, string>;
+  attempts: number;
+}
+
+// verify_jwt only proves the token was signed for this project; anon and user tokens pass it too.
+// The gateway has checked the signature, so the role claim can be read as is.
+function callerRole(req: Request): string | null {
+  const token = req.headers.get("Authorization")?.replace(/^Bearer\s+/i, "") ?? "";
+  try {
+    const payload = JSON.parse(atob(token.split(".")[1].replace(/-/g, "+").replace(/_/g, "/")));
+    return typeof payload.role === "string" ? payload.role : null;
+  } catch {
+    return null;
+  }
+}
+
+// Delivers due rows from message_outbox. Called every minute by pg_cron; failed messages are
+// retried with a growing delay until MAX_ATTEMPTS.
+serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  if (callerRole(req) !== "service_role") {
+    return new Response(JSON.stringify({ error: "Forbidden" }), {
+      status: 403,
+      headers: { ...corsHeaders, "Content-Type": "application/json" },
+    });
+  }
+
+  try {
+    const supabase = createClient(Deno.env.get("SUPABASE_URL")!, Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!);
+
+    const { data: rows, error } = await supabase.rpc("claim_outbox_messages", { _limit: 20 });
+    if (error) throw error;
+
+    let sent = 0;
+    let failed = 0;
+    for (const row of (rows || []) as OutboxRow[]) {
+      let providerName: string | null = null;
+      try {
+        const provider = providerFor(row.channel);
+        providerName = provider.name;
+        const { subject, body } = renderTemplate(row.template, row.language, row.params);
+        const messageId = await provider.send({ channel: row.channel, to: row.recipient, subject, body });
+        await supabase.from("message_outbox").update({
+          status: "sent",
+          provider: providerName,
+          provider_message_id: messageId,
+          sent_at: new Date().toISOString(),
+          last_error: null,
+        }).eq("id", row.id);
+        sent++;
+      } catch (e) {
+        const giveUp = row.attempts >= MAX_ATTEMPTS;
+        await supabase.from("message_outbox").update({
+          status: giveUp ? "failed" : "pending",
+          provider: providerName,
+          last_error: e instanceof Error ? e.message : String(e),
+          send_after: new Date(Date.now() + 2 ** row.attempts * 60_000).toISOString(),
+        }).eq("id", row.id);
+        failed++;
+      }
+    }
+
+    return new Response(JSON.stringify({ sent, failed }), {
+      headers: { ...corsHeaders, "Content-Type": "application/json" },
+    });
+  } catch (e) {
+    console.error("send-messages error:", e);
+    return new Response(JSON.stringify({ error: e instanceof Error ? e.message : "Unknown error" }), {
+      status: 500,
+      headers: { ...corsHeaders, "Content-Type": "application/json" },
+    });
+  }
+});
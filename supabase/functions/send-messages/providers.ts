@@ -0,0 +1,95 @@
+export type Channel = "sms" | "email";
+
+export interface OutgoingMessage {
+  channel: Channel;
+  to: string;
+  subject: string;
+  body: string;
+}
+
+export interface MessageProvider {
+  name: string;
+  /** Resolves with the gateway's message id; throws when the gateway refuses the message. */
+  send(message: OutgoingMessage): Promise<string | null>;
+}
+
+function requireEnv(name: string): string {
+  const value = Deno.env.get(name);
+  if (!value) throw new Error(`${name} is not configured`);
+  return value;
+}
+
+/** Logs instead of sending, so the whole pipeline can run locally and in staging. */
+const stubProvider: MessageProvider = {
+  name: "stub",
+  async send(message) {
+    console.log(`[stub ${message.channel}] to=${message.to} subject="${message.subject}"\n${message.body}`);
+    return `stub-${crypto.randomUUID()}`;
+  },
+};
+
+const africasTalkingProvider: MessageProvider = {
+  name: "africastalking",
+  async send(message) {
+    const params = new URLSearchParams({
+      username: requireEnv("AFRICASTALKING_USERNAME"),
+      to: message.to,
+      message: message.body,
+    });
+    const senderId = Deno.env.get("AFRICASTALKING_SENDER_ID");
+    if (senderId) params.set("from", senderId);
+
+    const response = await fetch("https://api.africastalking.com/version1/messaging", {
+      method: "POST",
+      headers: {
+        apiKey: requireEnv("AFRICASTALKING_API_KEY"),
+        Accept: "application/json",
+        "Content-Type": "application/x-www-form-urlencoded",
+      },
+      body: params,
+    });
+    if (!response.ok) throw new Error(`Africa's Talking error ${response.status}: ${await response.text()}`);
+    const data = await response.json();
+    const recipient = data?.SMSMessageData?.Recipients?.[0];
+    if (!recipient || recipient.status !== "Success") {
+      throw new Error(recipient?.status || data?.SMSMessageData?.Message || "SMS was not accepted");
+    }
+    return recipient.messageId ?? null;
+  },
+};
+
+const resendProvider: MessageProvider = {
+  name: "resend",
+  async send(message) {
+    const response = await fetch("https://api.resend.com/emails", {
+      method: "POST",
+      headers: {
+        Authorization: `Bearer ${requireEnv("RESEND_API_KEY")}`,
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify({
+        from: requireEnv("EMAIL_FROM"),
+        to: [message.to],
+        subject: message.subject,
+        text: message.body,
+      }),
+    });
+    if (!response.ok) throw new Error(`Resend error ${response.status}: ${await response.text()}`);
+    const data = await response.json();
+    return data?.id ?? null;
+  },
+};
+
+const providers: Record<string, MessageProvider> = {
+  stub: stubProvider,
+  africastalking: africasTalkingProvider,
+  resend: resendProvider,
+};
+
+/** SMS_PROVIDER and EMAIL_PROVIDER pick the gateway per channel; both default to the stub. */
+export function providerFor(channel: Channel): MessageProvider {
+  const name = Deno.env.get(channel === "sms" ? "SMS_PROVIDER" : "EMAIL_PROVIDER") || "stub";
+  const provider = providers[name];
+  if (!provider) throw new Error(`Unknown ${channel} provider "${name}"`);
+  return provider;
+}
@@ -0,0 +1,20 @@
+import en from "../../../src/i18n/translations/en.json" with { type: "json" };
+import rw from "../../../src/i18n/translations/rw.json" with { type: "json" };
+
+type Templates = typeof en.messages;
+
+const templates: Record<string, Templates> = { en: en.messages, rw: rw.messages };
+
+const fill = (text: string, params: Record<string, string>) =>
+  text.replace(/\{(\w+)\}/g, (_, key) => params[key] ?? "");
+
+/** Renders a `messages.*` entry from the app's translation files, falling back to English. */
+export function renderTemplate(template: string, language: string, params: Record<string, string>) {
+  const messages = templates[language] || templates.en;
+  const entry = (messages as Record<string, unknown>)[template] as { subject: string; body: string } | undefined;
+  if (!entry) throw new Error(`Unknown message template "${template}"`);
+
+  const reason = params.reason ? ` ${fill(messages.reason, params)}` : "";
+  const values = { ...params, reason };
+  return { subject: fill(entry.subject, values), body: fill(entry.body, values) };
+}
@@ -0,0 +1,103 @@
+-- Booking time ranges and double-booking prevention
+CREATE EXTENSION IF NOT EXISTS btree_gist;
+
+ALTER TABLE public.bookings
+  ADD COLUMN starts_at TIMESTAMPTZ,
+  ADD COLUMN ends_at TIMESTAMPTZ;
+
+-- Backfill from the legacy date/time/duration columns (times are Kigali local)
+UPDATE public.bookings
+SET starts_at = ((booking_date + COALESCE(NULLIF(booking_time, '')::time, '00:00'::time)) AT TIME ZONE 'Africa/Kigali'),
+    ends_at = ((booking_date + COALESCE(NULLIF(booking_time, '')::time, '00:00'::time)) AT TIME ZONE 'Africa/Kigali')
+              + make_interval(hours => GREATEST(COALESCE(duration_hours, 1), 1));
+
+-- Existing bookings that already clash would fail the constraint below. The earliest booking
+-- of each clash keeps the slot; later ones are flagged for an admin to move or cancel, and
+-- the constraint skips them until their car, time or status is next changed.
+ALTER TABLE public.bookings ADD COLUMN overlap_flagged BOOLEAN NOT NULL DEFAULT false;
+
+UPDATE public.bookings b
+SET overlap_flagged = true
+WHERE b.car_id IS NOT NULL
+  AND b.status IN ('pending', 'approved')
+  AND EXISTS (
+    SELECT 1 FROM public.bookings o
+    WHERE o.car_id = b.car_id
+      AND o.status IN ('pending', 'approved')
+      AND (o.created_at, o.id) < (b.created_at, b.id)
+      AND tstzrange(o.starts_at, o.ends_at, '[)') && tstzrange(b.starts_at, b.ends_at, '[)')
+  );
+
+-- starts_at/ends_at are authoritative; booking_date/booking_time are derived from them.
+-- Writers that only send the legacy columns (or a new duration) get the range recomputed.
+CREATE OR REPLACE FUNCTION public.set_booking_range()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    IF NEW.starts_at IS NULL THEN
+      NEW.starts_at := (NEW.booking_date + COALESCE(NULLIF(NEW.booking_time, '')::time, '00:00'::time)) AT TIME ZONE 'Africa/Kigali';
+    END IF;
+    IF NEW.ends_at IS NULL THEN
+      NEW.ends_at := NEW.starts_at + make_interval(hours => GREATEST(COALESCE(NEW.duration_hours, 1), 1));
+    END IF;
+    NEW.overlap_flagged := false;
+  ELSE
+    IF NEW.starts_at = OLD.starts_at
+       AND (NEW.booking_date, NEW.booking_time) IS DISTINCT FROM (OLD.booking_date, OLD.booking_time) THEN
+      NEW.starts_at := (NEW.booking_date + COALESCE(NULLIF(NEW.booking_time, '')::time, '00:00'::time)) AT TIME ZONE 'Africa/Kigali';
+    END IF;
+    IF NEW.ends_at = OLD.ends_at
+       AND (NEW.starts_at <> OLD.starts_at OR NEW.duration_hours IS DISTINCT FROM OLD.duration_hours) THEN
+      NEW.ends_at := NEW.starts_at + make_interval(hours => GREATEST(COALESCE(NEW.duration_hours, 1), 1));
+    END IF;
+    -- Moving or re-approving a flagged booking puts it back under the overlap constraint
+    IF (NEW.car_id, NEW.starts_at, NEW.ends_at, NEW.status) IS DISTINCT FROM (OLD.car_id, OLD.starts_at, OLD.ends_at, OLD.status) THEN
+      NEW.overlap_flagged := false;
+    END IF;
+  END IF;
+
+  IF NEW.ends_at <= NEW.starts_at THEN
+    RAISE EXCEPTION 'Booking must end after it starts';
+  END IF;
+
+  NEW.booking_date := (NEW.starts_at AT TIME ZONE 'Africa/Kigali')::date;
+  NEW.booking_time := to_char(NEW.starts_at AT TIME ZONE 'Africa/Kigali', 'HH24:MI');
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER set_bookings_range BEFORE INSERT OR UPDATE ON public.bookings
+  FOR EACH ROW EXECUTE FUNCTION public.set_booking_range();
+
+ALTER TABLE public.bookings
+  ALTER COLUMN starts_at SET NOT NULL,
+  ALTER COLUMN ends_at SET NOT NULL;
+
+-- Pending and approved bookings for the same car may not overlap
+ALTER TABLE public.bookings
+  ADD CONSTRAINT bookings_no_overlap
+  EXCLUDE USING gist (car_id WITH =, tstzrange(starts_at, ends_at, '[)') WITH &&)
+  WHERE (car_id IS NOT NULL AND status IN ('pending', 'approved') AND NOT overlap_flagged);
+
+CREATE INDEX bookings_car_range_idx ON public.bookings (car_id, starts_at, ends_at);
+
+-- Busy windows for a car, readable by anyone without exposing client details
+CREATE OR REPLACE FUNCTION public.get_car_availability(_car_id UUID, _from TIMESTAMPTZ, _to TIMESTAMPTZ)
+RETURNS TABLE (starts_at TIMESTAMPTZ, ends_at TIMESTAMPTZ)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT b.starts_at, b.ends_at
+  FROM public.bookings b
+  WHERE b.car_id = _car_id
+    AND b.status IN ('pending', 'approved')
+    AND tstzrange(b.starts_at, b.ends_at, '[)') && tstzrange(_from, _to, '[)')
+  ORDER BY b.starts_at
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_car_availability(UUID, TIMESTAMPTZ, TIMESTAMPTZ) TO anon, authenticated;
@@ -0,0 +1,105 @@
+-- Server-side booking quotes: total_price is computed from pricing_rules, never trusted from the client
+ALTER TABLE public.bookings
+  ADD COLUMN pricing_type TEXT NOT NULL DEFAULT 'hour' CHECK (pricing_type IN ('hour', 'trip', 'day')),
+  ADD COLUMN quantity INTEGER NOT NULL DEFAULT 1 CHECK (quantity > 0);
+
+UPDATE public.bookings SET quantity = GREATEST(COALESCE(duration_hours, 1), 1);
+
+-- The booked range now follows from what is priced: a day per unit on day plans, an hour per unit
+-- otherwise, as in the booking wizard. ends_at and duration_hours from the client are overwritten,
+-- so a booking priced for one hour cannot hold the car for longer.
+CREATE OR REPLACE FUNCTION public.set_booking_range()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    IF NEW.starts_at IS NULL THEN
+      NEW.starts_at := (NEW.booking_date + COALESCE(NULLIF(NEW.booking_time, '')::time, '00:00'::time)) AT TIME ZONE 'Africa/Kigali';
+    END IF;
+    NEW.overlap_flagged := false;
+  ELSIF NEW.starts_at = OLD.starts_at
+        AND (NEW.booking_date, NEW.booking_time) IS DISTINCT FROM (OLD.booking_date, OLD.booking_time) THEN
+    NEW.starts_at := (NEW.booking_date + COALESCE(NULLIF(NEW.booking_time, '')::time, '00:00'::time)) AT TIME ZONE 'Africa/Kigali';
+  END IF;
+
+  NEW.duration_hours := CASE WHEN NEW.pricing_type = 'day' THEN NEW.quantity * 24 ELSE NEW.quantity END;
+  NEW.ends_at := NEW.starts_at + make_interval(hours => NEW.duration_hours);
+
+  -- Moving or re-approving a flagged booking puts it back under the overlap constraint
+  IF TG_OP = 'UPDATE'
+     AND (NEW.car_id, NEW.starts_at, NEW.ends_at, NEW.status) IS DISTINCT FROM (OLD.car_id, OLD.starts_at, OLD.ends_at, OLD.status) THEN
+    NEW.overlap_flagged := false;
+  END IF;
+
+  NEW.booking_date := (NEW.starts_at AT TIME ZONE 'Africa/Kigali')::date;
+  NEW.booking_time := to_char(NEW.starts_at AT TIME ZONE 'Africa/Kigali', 'HH24:MI');
+  RETURN NEW;
+END;
+$$;
+
+-- Price a booking from the car's default (location-less) rule for the pricing type
+CREATE OR REPLACE FUNCTION public.quote_booking(_car_id UUID, _pricing_type TEXT, _quantity INTEGER)
+RETURNS JSONB
+LANGUAGE plpgsql
+STABLE
+SET search_path = public
+AS $$
+DECLARE
+  _rule public.pricing_rules;
+BEGIN
+  IF _quantity IS NULL OR _quantity < 1 THEN
+    RAISE EXCEPTION 'Quantity must be at least 1';
+  END IF;
+
+  SELECT * INTO _rule
+  FROM public.pricing_rules
+  WHERE car_id = _car_id
+    AND pricing_type = _pricing_type
+    AND location IS NULL
+  ORDER BY updated_at DESC
+  LIMIT 1;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'No % rate is configured for this car', _pricing_type;
+  END IF;
+
+  RETURN jsonb_build_object(
+    'pricing_type', _pricing_type,
+    'quantity', _quantity,
+    'unit_price', _rule.amount,
+    'total', _rule.amount * _quantity,
+    'rule_id', _rule.id
+  );
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.quote_booking(UUID, TEXT, INTEGER) TO anon, authenticated;
+
+-- Inserts always get the quoted price. Updates are re-quoted when the pricing inputs
+-- change, unless the same statement sets total_price explicitly (admin adjustment).
+CREATE OR REPLACE FUNCTION public.set_booking_total()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'UPDATE' THEN
+    IF (NEW.car_id, NEW.pricing_type, NEW.quantity) IS NOT DISTINCT FROM (OLD.car_id, OLD.pricing_type, OLD.quantity)
+       OR NEW.total_price IS DISTINCT FROM OLD.total_price THEN
+      RETURN NEW;
+    END IF;
+  END IF;
+
+  IF NEW.car_id IS NULL THEN
+    NEW.total_price := 0;
+  ELSE
+    NEW.total_price := (public.quote_booking(NEW.car_id, NEW.pricing_type, NEW.quantity)->>'total')::numeric;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER set_bookings_total BEFORE INSERT OR UPDATE ON public.bookings
+  FOR EACH ROW EXECUTE FUNCTION public.set_booking_total();
@@ -0,0 +1,121 @@
+-- Canonical pricing zones replace the free-text pricing_rules.location
+CREATE TABLE public.pricing_zones (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    name TEXT NOT NULL UNIQUE,
+    notes TEXT,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.pricing_zones ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view pricing zones" ON public.pricing_zones
+  FOR SELECT USING (true);
+CREATE POLICY "Admins can manage pricing zones" ON public.pricing_zones
+  FOR ALL TO authenticated USING (public.has_role(auth.uid(), 'admin'))
+  WITH CHECK (public.has_role(auth.uid(), 'admin'));
+
+CREATE TRIGGER update_pricing_zones_updated_at BEFORE UPDATE ON public.pricing_zones
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+INSERT INTO public.pricing_zones (name) VALUES ('Kigali'), ('Airport'), ('Musanze'), ('Rubavu')
+ON CONFLICT (name) DO NOTHING;
+
+-- Carry over any locations admins already typed in
+INSERT INTO public.pricing_zones (name)
+SELECT DISTINCT trim(location) FROM public.pricing_rules
+WHERE location IS NOT NULL AND trim(location) <> ''
+ON CONFLICT (name) DO NOTHING;
+
+ALTER TABLE public.pricing_rules
+  -- A zone with rules cannot be deleted; its rules are moved or removed first
+  ADD COLUMN zone_id UUID REFERENCES public.pricing_zones(id) ON DELETE RESTRICT;
+
+UPDATE public.pricing_rules r
+SET zone_id = z.id
+FROM public.pricing_zones z
+WHERE z.name = trim(r.location);
+
+ALTER TABLE public.pricing_rules DROP COLUMN location;
+
+ALTER TABLE public.bookings
+  ADD COLUMN pickup_zone_id UUID REFERENCES public.pricing_zones(id) ON DELETE SET NULL,
+  ADD COLUMN dropoff_zone_id UUID REFERENCES public.pricing_zones(id) ON DELETE SET NULL;
+
+-- Rule precedence: pickup zone, then dropoff zone, then the car's default rule
+DROP FUNCTION public.quote_booking(UUID, TEXT, INTEGER);
+
+CREATE OR REPLACE FUNCTION public.quote_booking(
+  _car_id UUID,
+  _pricing_type TEXT,
+  _quantity INTEGER,
+  _pickup_zone_id UUID DEFAULT NULL,
+  _dropoff_zone_id UUID DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+STABLE
+SET search_path = public
+AS $$
+DECLARE
+  _rule public.pricing_rules;
+BEGIN
+  IF _quantity IS NULL OR _quantity < 1 THEN
+    RAISE EXCEPTION 'Quantity must be at least 1';
+  END IF;
+
+  SELECT * INTO _rule
+  FROM public.pricing_rules
+  WHERE car_id = _car_id
+    AND pricing_type = _pricing_type
+    AND (zone_id IS NULL OR zone_id = _pickup_zone_id OR zone_id = _dropoff_zone_id)
+  ORDER BY
+    CASE
+      WHEN zone_id = _pickup_zone_id THEN 0
+      WHEN zone_id = _dropoff_zone_id THEN 1
+      ELSE 2
+    END,
+    updated_at DESC
+  LIMIT 1;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'No % rate is configured for this car', _pricing_type;
+  END IF;
+
+  RETURN jsonb_build_object(
+    'pricing_type', _pricing_type,
+    'quantity', _quantity,
+    'unit_price', _rule.amount,
+    'total', _rule.amount * _quantity,
+    'rule_id', _rule.id,
+    'zone_id', _rule.zone_id
+  );
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.quote_booking(UUID, TEXT, INTEGER, UUID, UUID) TO anon, authenticated;
+
+CREATE OR REPLACE FUNCTION public.set_booking_total()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'UPDATE' THEN
+    IF (NEW.car_id, NEW.pricing_type, NEW.quantity, NEW.pickup_zone_id, NEW.dropoff_zone_id)
+         IS NOT DISTINCT FROM (OLD.car_id, OLD.pricing_type, OLD.quantity, OLD.pickup_zone_id, OLD.dropoff_zone_id)
+       OR NEW.total_price IS DISTINCT FROM OLD.total_price THEN
+      RETURN NEW;
+    END IF;
+  END IF;
+
+  IF NEW.car_id IS NULL THEN
+    NEW.total_price := 0;
+  ELSE
+    NEW.total_price := (public.quote_booking(
+      NEW.car_id, NEW.pricing_type, NEW.quantity, NEW.pickup_zone_id, NEW.dropoff_zone_id
+    )->>'total')::numeric;
+  END IF;
+  RETURN NEW;
+END;
+$$;
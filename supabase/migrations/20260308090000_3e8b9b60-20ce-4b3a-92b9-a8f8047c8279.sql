@@ -0,0 +1,163 @@
+-- Seasonal, weekend and date-range pricing rules with explicit priority
+ALTER TABLE public.pricing_rules
+  ADD COLUMN name TEXT,
+  ADD COLUMN starts_on DATE,
+  ADD COLUMN ends_on DATE,
+  ADD COLUMN day_filter TEXT NOT NULL DEFAULT 'all' CHECK (day_filter IN ('all', 'weekday', 'weekend')),
+  ADD COLUMN priority INTEGER NOT NULL DEFAULT 0,
+  ADD CONSTRAINT pricing_rules_date_range_check CHECK (starts_on IS NULL OR ends_on IS NULL OR starts_on <= ends_on);
+
+-- The rule in force for one day. Higher priority wins, then the most specific zone,
+-- then the most recently edited rule. Returns a NULL row when nothing applies.
+CREATE OR REPLACE FUNCTION public.pricing_rule_for_day(
+  _car_id UUID,
+  _pricing_type TEXT,
+  _day DATE,
+  _pickup_zone_id UUID DEFAULT NULL,
+  _dropoff_zone_id UUID DEFAULT NULL
+)
+RETURNS public.pricing_rules
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT *
+  FROM public.pricing_rules
+  WHERE car_id = _car_id
+    AND pricing_type = _pricing_type
+    AND (zone_id IS NULL OR zone_id = _pickup_zone_id OR zone_id = _dropoff_zone_id)
+    AND (starts_on IS NULL OR starts_on <= _day)
+    AND (ends_on IS NULL OR ends_on >= _day)
+    AND (day_filter = 'all'
+         OR (day_filter = 'weekend' AND extract(isodow FROM _day) IN (6, 7))
+         OR (day_filter = 'weekday' AND extract(isodow FROM _day) < 6))
+  ORDER BY
+    priority DESC,
+    CASE
+      WHEN zone_id = _pickup_zone_id THEN 0
+      WHEN zone_id = _dropoff_zone_id THEN 1
+      ELSE 2
+    END,
+    updated_at DESC
+  LIMIT 1
+$$;
+
+CREATE OR REPLACE FUNCTION public.quote_line(_rule public.pricing_rules, _quantity INTEGER, _from DATE)
+RETURNS JSONB
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT jsonb_build_object(
+    'rule_id', _rule.id,
+    'description', COALESCE(_rule.name, initcap(_rule.pricing_type) || ' rate'),
+    'from', _from,
+    'unit_price', _rule.amount,
+    'quantity', _quantity,
+    'amount', _rule.amount * _quantity
+  )
+$$;
+
+-- Day plans are priced day by day so seasonal and weekend rates only cover the days they
+-- apply to; consecutive days on the same rule collapse into one line. Hourly and trip plans
+-- use the rate in force on the start date.
+DROP FUNCTION public.quote_booking(UUID, TEXT, INTEGER, UUID, UUID);
+
+CREATE OR REPLACE FUNCTION public.quote_booking(
+  _car_id UUID,
+  _pricing_type TEXT,
+  _quantity INTEGER,
+  _pickup_zone_id UUID DEFAULT NULL,
+  _dropoff_zone_id UUID DEFAULT NULL,
+  _starts_at TIMESTAMPTZ DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+STABLE
+SET search_path = public
+AS $$
+DECLARE
+  _first_day DATE := (COALESCE(_starts_at, now()) AT TIME ZONE 'Africa/Kigali')::date;
+  _day DATE;
+  _rule public.pricing_rules;
+  _current public.pricing_rules;
+  _line_from DATE;
+  _line_qty INTEGER := 0;
+  _lines JSONB := '[]'::jsonb;
+BEGIN
+  IF _quantity IS NULL OR _quantity < 1 THEN
+    RAISE EXCEPTION 'Quantity must be at least 1';
+  END IF;
+
+  FOR i IN 0 .. (CASE WHEN _pricing_type = 'day' THEN _quantity ELSE 1 END) - 1 LOOP
+    _day := _first_day + i;
+    _rule := public.pricing_rule_for_day(_car_id, _pricing_type, _day, _pickup_zone_id, _dropoff_zone_id);
+    IF _rule.id IS NULL THEN
+      RAISE EXCEPTION 'No % rate is configured for this car on %', _pricing_type, _day;
+    END IF;
+
+    IF _current.id IS DISTINCT FROM _rule.id THEN
+      IF _current.id IS NOT NULL THEN
+        _lines := _lines || public.quote_line(_current, _line_qty, _line_from);
+      END IF;
+      _current := _rule;
+      _line_from := _day;
+      _line_qty := 0;
+    END IF;
+    _line_qty := _line_qty + 1;
+  END LOOP;
+
+  IF _pricing_type <> 'day' THEN
+    _line_qty := _quantity;
+  END IF;
+  _lines := _lines || public.quote_line(_current, _line_qty, _line_from);
+
+  RETURN jsonb_build_object(
+    'pricing_type', _pricing_type,
+    'quantity', _quantity,
+    'total', (SELECT sum((l->>'amount')::numeric) FROM jsonb_array_elements(_lines) l),
+    'lines', _lines
+  );
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.quote_booking(UUID, TEXT, INTEGER, UUID, UUID, TIMESTAMPTZ) TO anon, authenticated;
+
+-- Which rule applies on each day of a range, for the admin calendar preview
+CREATE OR REPLACE FUNCTION public.pricing_calendar(_car_id UUID, _pricing_type TEXT, _from DATE, _to DATE)
+RETURNS TABLE (day DATE, rule_id UUID, name TEXT, amount NUMERIC)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT d::date, r.id, r.name, r.amount
+  FROM generate_series(_from, _to, interval '1 day') AS d
+  LEFT JOIN LATERAL public.pricing_rule_for_day(_car_id, _pricing_type, d::date) r ON true
+  ORDER BY 1
+$$;
+
+GRANT EXECUTE ON FUNCTION public.pricing_calendar(UUID, TEXT, DATE, DATE) TO authenticated;
+
+CREATE OR REPLACE FUNCTION public.set_booking_total()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'UPDATE' THEN
+    IF (NEW.car_id, NEW.pricing_type, NEW.quantity, NEW.pickup_zone_id, NEW.dropoff_zone_id, NEW.starts_at)
+         IS NOT DISTINCT FROM (OLD.car_id, OLD.pricing_type, OLD.quantity, OLD.pickup_zone_id, OLD.dropoff_zone_id, OLD.starts_at)
+       OR NEW.total_price IS DISTINCT FROM OLD.total_price THEN
+      RETURN NEW;
+    END IF;
+  END IF;
+
+  IF NEW.car_id IS NULL THEN
+    NEW.total_price := 0;
+  ELSE
+    NEW.total_price := (public.quote_booking(
+      NEW.car_id, NEW.pricing_type, NEW.quantity, NEW.pickup_zone_id, NEW.dropoff_zone_id, NEW.starts_at
+    )->>'total')::numeric;
+  END IF;
+  RETURN NEW;
+END;
+$$;
@@ -0,0 +1,168 @@
+-- Duration tiers: percentage discounts by unit range and flat package rates (e.g. weekly, monthly)
+CREATE TABLE public.pricing_tiers (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    car_id UUID REFERENCES public.cars(id) ON DELETE CASCADE NOT NULL,
+    pricing_type TEXT NOT NULL CHECK (pricing_type IN ('hour', 'trip', 'day')),
+    kind TEXT NOT NULL CHECK (kind IN ('discount', 'package')),
+    name TEXT,
+    from_unit INTEGER CHECK (from_unit >= 1),
+    to_unit INTEGER,
+    discount_percent NUMERIC CHECK (discount_percent > 0 AND discount_percent <= 100),
+    units INTEGER CHECK (units >= 1),
+    amount NUMERIC CHECK (amount >= 0),
+    created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+    CHECK (
+      (kind = 'discount' AND from_unit IS NOT NULL AND discount_percent IS NOT NULL
+        AND (to_unit IS NULL OR to_unit >= from_unit))
+      OR (kind = 'package' AND units IS NOT NULL AND amount IS NOT NULL)
+    )
+);
+
+ALTER TABLE public.pricing_tiers ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view pricing tiers" ON public.pricing_tiers
+  FOR SELECT USING (true);
+CREATE POLICY "Admins can manage pricing tiers" ON public.pricing_tiers
+  FOR ALL TO authenticated USING (public.has_role(auth.uid(), 'admin'))
+  WITH CHECK (public.has_role(auth.uid(), 'admin'));
+
+CREATE TRIGGER update_pricing_tiers_updated_at BEFORE UPDATE ON public.pricing_tiers
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Quotes walk the booking unit by unit, so a booking is capped at a year of days
+ALTER TABLE public.bookings
+  DROP CONSTRAINT bookings_quantity_check,
+  ADD CONSTRAINT bookings_quantity_check CHECK (quantity BETWEEN 1 AND 366);
+
+DROP FUNCTION public.quote_line(public.pricing_rules, INTEGER, DATE);
+
+CREATE OR REPLACE FUNCTION public.quote_line(
+  _kind TEXT,
+  _description TEXT,
+  _unit_price NUMERIC,
+  _quantity INTEGER,
+  _rule_id UUID DEFAULT NULL,
+  _from DATE DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT jsonb_build_object(
+    'kind', _kind,
+    'rule_id', _rule_id,
+    'description', _description,
+    'from', _from,
+    'unit_price', _unit_price,
+    'quantity', _quantity,
+    'amount', _unit_price * _quantity
+  )
+$$;
+
+-- Quote pipeline:
+--   1. every unit (day for day plans; the start day for hourly and trip plans) gets the
+--      rule in force for it,
+--   2. package tiers consume whole blocks from the start of the booking, largest first,
+--   3. the remaining units are itemised, consecutive units on the same rule sharing a line,
+--   4. discount tiers take a percentage off the itemised units whose position falls in range.
+CREATE OR REPLACE FUNCTION public.quote_booking(
+  _car_id UUID,
+  _pricing_type TEXT,
+  _quantity INTEGER,
+  _pickup_zone_id UUID DEFAULT NULL,
+  _dropoff_zone_id UUID DEFAULT NULL,
+  _starts_at TIMESTAMPTZ DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+STABLE
+SET search_path = public
+AS $$
+DECLARE
+  _first_day DATE := (COALESCE(_starts_at, now()) AT TIME ZONE 'Africa/Kigali')::date;
+  _unit_noun TEXT := initcap(_pricing_type) || 's';
+  _rule public.pricing_rules;
+  _rules public.pricing_rules[] := '{}';
+  _tier public.pricing_tiers;
+  _covered INTEGER := 0;
+  _blocks INTEGER;
+  _line_start INTEGER;
+  _base NUMERIC;
+  _lines JSONB := '[]'::jsonb;
+BEGIN
+  -- Bounded because the quote loops over every unit
+  IF _quantity IS NULL OR _quantity NOT BETWEEN 1 AND 366 THEN
+    RAISE EXCEPTION 'Quantity must be between 1 and 366';
+  END IF;
+
+  FOR i IN 1 .. _quantity LOOP
+    IF i = 1 OR _pricing_type = 'day' THEN
+      _rule := public.pricing_rule_for_day(_car_id, _pricing_type, _first_day + (i - 1), _pickup_zone_id, _dropoff_zone_id);
+      IF _rule.id IS NULL THEN
+        RAISE EXCEPTION 'No % rate is configured for this car on %', _pricing_type, _first_day + (i - 1);
+      END IF;
+    END IF;
+    _rules := _rules || _rule;
+  END LOOP;
+
+  FOR _tier IN
+    SELECT * FROM public.pricing_tiers
+    WHERE car_id = _car_id AND pricing_type = _pricing_type AND kind = 'package'
+    ORDER BY units DESC, amount ASC
+  LOOP
+    _blocks := (_quantity - _covered) / _tier.units;
+    IF _blocks > 0 THEN
+      _lines := _lines || public.quote_line(
+        'package',
+        COALESCE(_tier.name, _tier.units || '-' || _pricing_type || ' package'),
+        _tier.amount,
+        _blocks
+      );
+      _covered := _covered + _blocks * _tier.units;
+    END IF;
+  END LOOP;
+
+  _line_start := _covered + 1;
+  FOR i IN _covered + 1 .. _quantity LOOP
+    IF i = _quantity OR _rules[i + 1].id IS DISTINCT FROM _rules[i].id THEN
+      _lines := _lines || public.quote_line(
+        'rate',
+        COALESCE(_rules[i].name, initcap(_pricing_type) || ' rate'),
+        _rules[i].amount,
+        CASE WHEN _pricing_type = 'day' THEN i - _line_start + 1 ELSE _quantity - _covered END,
+        _rules[i].id,
+        CASE WHEN _pricing_type = 'day' THEN _first_day + (_line_start - 1) ELSE _first_day END
+      );
+      _line_start := i + 1;
+    END IF;
+  END LOOP;
+
+  FOR _tier IN
+    SELECT * FROM public.pricing_tiers
+    WHERE car_id = _car_id AND pricing_type = _pricing_type AND kind = 'discount'
+    ORDER BY from_unit
+  LOOP
+    SELECT COALESCE(sum(_rules[n].amount), 0) INTO _base
+    FROM generate_series(GREATEST(_tier.from_unit, _covered + 1), LEAST(COALESCE(_tier.to_unit, _quantity), _quantity)) AS n;
+    IF _base > 0 THEN
+      _lines := _lines || public.quote_line(
+        'discount',
+        COALESCE(
+          _tier.name,
+          _unit_noun || ' ' || _tier.from_unit || COALESCE('–' || _tier.to_unit, '+') || ' (−' || _tier.discount_percent || '%)'
+        ),
+        -round(_base * _tier.discount_percent / 100, 2),
+        1
+      );
+    END IF;
+  END LOOP;
+
+  RETURN jsonb_build_object(
+    'pricing_type', _pricing_type,
+    'quantity', _quantity,
+    'total', (SELECT sum((l->>'amount')::numeric) FROM jsonb_array_elements(_lines) l),
+    'lines', _lines
+  );
+END;
+$$;
@@ -0,0 +1,383 @@
+-- Promo and partner discount codes, validated and applied by the database at booking time
+CREATE TABLE public.promo_codes (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    code TEXT NOT NULL UNIQUE CHECK (code = upper(btrim(code)) AND code <> ''),
+    description TEXT,
+    discount_type TEXT NOT NULL CHECK (discount_type IN ('percent', 'fixed')),
+    discount_value NUMERIC NOT NULL CHECK (discount_value > 0),
+    valid_from TIMESTAMPTZ,
+    valid_until TIMESTAMPTZ,
+    max_uses INTEGER CHECK (max_uses > 0),
+    used_count INTEGER NOT NULL DEFAULT 0,
+    car_types TEXT[],
+    is_active BOOLEAN NOT NULL DEFAULT true,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+    CHECK (discount_type <> 'percent' OR discount_value <= 100),
+    CHECK (valid_from IS NULL OR valid_until IS NULL OR valid_from < valid_until)
+);
+
+-- Codes are handed out privately, so only admins can list them; customers go through find_promo_code
+ALTER TABLE public.promo_codes ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can manage promo codes" ON public.promo_codes
+  FOR ALL TO authenticated USING (public.has_role(auth.uid(), 'admin'))
+  WITH CHECK (public.has_role(auth.uid(), 'admin'));
+
+CREATE TRIGGER update_promo_codes_updated_at BEFORE UPDATE ON public.promo_codes
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+ALTER TABLE public.bookings
+  ADD COLUMN promo_code TEXT,
+  ADD COLUMN promo_code_id UUID REFERENCES public.promo_codes(id) ON DELETE SET NULL,
+  ADD COLUMN promo_discount NUMERIC NOT NULL DEFAULT 0;
+
+-- Address of the client calling through the API, or NULL outside an API request. Clients can
+-- send their own X-Forwarded-For, so only the last entry, appended by the proxy, is trusted.
+CREATE OR REPLACE FUNCTION public.request_ip()
+RETURNS TEXT
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT NULLIF(btrim(substring(COALESCE(current_setting('request.headers', true)::json->>'x-forwarded-for', '') FROM '[^,]*$')), '')
+$$;
+
+-- Promo code checks made through quotes and bookings, so guessing codes can be throttled.
+-- Only record_promo_attempt writes it.
+CREATE TABLE public.promo_code_attempts (
+    id BIGINT GENERATED ALWAYS AS IDENTITY PRIMARY KEY,
+    client_ip TEXT NOT NULL,
+    succeeded BOOLEAN NOT NULL,
+    attempted_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX promo_code_attempts_ip_idx ON public.promo_code_attempts (client_ip, attempted_at);
+CREATE INDEX promo_code_attempts_attempted_at_idx ON public.promo_code_attempts (attempted_at);
+
+ALTER TABLE public.promo_code_attempts ENABLE ROW LEVEL SECURITY;
+
+-- Looks up a code and raises a customer-facing error when it cannot be used for this car right now.
+-- Internal: customers only see codes through quote_booking, never the row with its usage counts.
+-- Every unusable code gets the same error, so guesses cannot tell which codes exist. A client IP
+-- with 10 failed checks in the last hour is refused outright.
+CREATE OR REPLACE FUNCTION public.find_promo_code(_code TEXT, _car_id UUID)
+RETURNS public.promo_codes
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _promo public.promo_codes;
+  _car_type TEXT;
+  _ip TEXT := public.request_ip();
+BEGIN
+  IF _ip IS NOT NULL AND (SELECT count(*) FROM public.promo_code_attempts a
+      WHERE a.client_ip = _ip AND NOT a.succeeded AND a.attempted_at > now() - interval '1 hour') >= 10 THEN
+    RAISE EXCEPTION 'Too many promo code attempts. Please try again later.';
+  END IF;
+
+  SELECT * INTO _promo FROM public.promo_codes WHERE code = upper(btrim(_code));
+  IF _promo.car_types IS NOT NULL AND cardinality(_promo.car_types) > 0 THEN
+    SELECT type INTO _car_type FROM public.cars WHERE id = _car_id;
+  END IF;
+  IF _promo.id IS NULL
+     OR NOT _promo.is_active
+     OR (_promo.valid_from IS NOT NULL AND now() < _promo.valid_from)
+     OR (_promo.valid_until IS NOT NULL AND now() >= _promo.valid_until)
+     OR (_promo.max_uses IS NOT NULL AND _promo.used_count >= _promo.max_uses)
+     OR (_promo.car_types IS NOT NULL AND cardinality(_promo.car_types) > 0
+         AND (_car_type IS NULL OR NOT (_car_type = ANY (_promo.car_types)))) THEN
+    RAISE EXCEPTION 'This promo code is not valid';
+  END IF;
+  RETURN _promo;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.find_promo_code(TEXT, UUID) FROM PUBLIC, anon, authenticated;
+
+-- Logs a promo check from the calling client. Rows only matter for the one-hour throttle window,
+-- so older ones are pruned, and failures from an IP that is already refused are not stored.
+CREATE OR REPLACE FUNCTION public.record_promo_attempt(_succeeded BOOLEAN)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _ip TEXT := public.request_ip();
+BEGIN
+  DELETE FROM public.promo_code_attempts WHERE attempted_at <= now() - interval '1 hour';
+  IF _ip IS NULL THEN
+    RETURN;
+  END IF;
+  IF _succeeded OR (SELECT count(*) FROM public.promo_code_attempts a
+      WHERE a.client_ip = _ip AND NOT a.succeeded) < 10 THEN
+    INSERT INTO public.promo_code_attempts (client_ip, succeeded) VALUES (_ip, _succeeded);
+  END IF;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.record_promo_attempt(BOOLEAN) FROM PUBLIC, anon, authenticated;
+
+-- Takes one use of a code for a new booking. An unusable code returns no row instead of raising,
+-- so the booking goes ahead undiscounted and the failed attempt is not rolled back with it.
+CREATE OR REPLACE FUNCTION public.redeem_promo_code(_code TEXT, _car_id UUID)
+RETURNS public.promo_codes
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _promo public.promo_codes;
+  _redeemed UUID;
+BEGIN
+  BEGIN
+    _promo := public.find_promo_code(_code, _car_id);
+  EXCEPTION WHEN raise_exception THEN
+    PERFORM public.record_promo_attempt(false);
+    RETURN NULL;
+  END;
+  -- Guarded increment so two bookings cannot both take the last use
+  UPDATE public.promo_codes SET used_count = used_count + 1
+  WHERE id = _promo.id AND (max_uses IS NULL OR used_count < max_uses)
+  RETURNING id INTO _redeemed;
+  PERFORM public.record_promo_attempt(_redeemed IS NOT NULL);
+  IF _redeemed IS NULL THEN
+    RETURN NULL;
+  END IF;
+  RETURN _promo;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.redeem_promo_code(TEXT, UUID) FROM PUBLIC, anon, authenticated;
+
+-- Appends the promo line to a quote and recomputes its total. The discount never exceeds the subtotal.
+CREATE OR REPLACE FUNCTION public.apply_promo(_quote JSONB, _promo public.promo_codes)
+RETURNS JSONB
+LANGUAGE plpgsql
+IMMUTABLE
+AS $$
+DECLARE
+  _subtotal NUMERIC := (_quote->>'total')::numeric;
+  _discount NUMERIC;
+BEGIN
+  IF _promo.id IS NULL THEN
+    RETURN _quote;
+  END IF;
+  _discount := LEAST(
+    _subtotal,
+    CASE WHEN _promo.discount_type = 'percent'
+      THEN round(_subtotal * _promo.discount_value / 100, 2)
+      ELSE _promo.discount_value
+    END
+  );
+  RETURN _quote || jsonb_build_object(
+    'total', _subtotal - _discount,
+    'promo_code', _promo.code,
+    'lines', (_quote->'lines') || public.quote_line(
+      'promo',
+      'Promo ' || _promo.code || CASE WHEN _promo.discount_type = 'percent' THEN ' (−' || _promo.discount_value || '%)' ELSE '' END,
+      -_discount,
+      1
+    )
+  );
+END;
+$$;
+
+DROP FUNCTION public.quote_booking(UUID, TEXT, INTEGER, UUID, UUID, TIMESTAMPTZ);
+
+CREATE OR REPLACE FUNCTION public.quote_booking(
+  _car_id UUID,
+  _pricing_type TEXT,
+  _quantity INTEGER,
+  _pickup_zone_id UUID DEFAULT NULL,
+  _dropoff_zone_id UUID DEFAULT NULL,
+  _starts_at TIMESTAMPTZ DEFAULT NULL,
+  _promo_code TEXT DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+VOLATILE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _first_day DATE := (COALESCE(_starts_at, now()) AT TIME ZONE 'Africa/Kigali')::date;
+  _unit_noun TEXT := initcap(_pricing_type) || 's';
+  _rule public.pricing_rules;
+  _rules public.pricing_rules[] := '{}';
+  _tier public.pricing_tiers;
+  _covered INTEGER := 0;
+  _blocks INTEGER;
+  _line_start INTEGER;
+  _base NUMERIC;
+  _lines JSONB := '[]'::jsonb;
+  _quote JSONB;
+  _promo public.promo_codes;
+  _promo_error TEXT;
+BEGIN
+  -- Bounded because the quote loops over every unit
+  IF _quantity IS NULL OR _quantity NOT BETWEEN 1 AND 366 THEN
+    RAISE EXCEPTION 'Quantity must be between 1 and 366';
+  END IF;
+
+  FOR i IN 1 .. _quantity LOOP
+    IF i = 1 OR _pricing_type = 'day' THEN
+      _rule := public.pricing_rule_for_day(_car_id, _pricing_type, _first_day + (i - 1), _pickup_zone_id, _dropoff_zone_id);
+      IF _rule.id IS NULL THEN
+        RAISE EXCEPTION 'No % rate is configured for this car on %', _pricing_type, _first_day + (i - 1);
+      END IF;
+    END IF;
+    _rules := _rules || _rule;
+  END LOOP;
+
+  FOR _tier IN
+    SELECT * FROM public.pricing_tiers
+    WHERE car_id = _car_id AND pricing_type = _pricing_type AND kind = 'package'
+    ORDER BY units DESC, amount ASC
+  LOOP
+    _blocks := (_quantity - _covered) / _tier.units;
+    IF _blocks > 0 THEN
+      _lines := _lines || public.quote_line(
+        'package',
+        COALESCE(_tier.name, _tier.units || '-' || _pricing_type || ' package'),
+        _tier.amount,
+        _blocks
+      );
+      _covered := _covered + _blocks * _tier.units;
+    END IF;
+  END LOOP;
+
+  _line_start := _covered + 1;
+  FOR i IN _covered + 1 .. _quantity LOOP
+    IF i = _quantity OR _rules[i + 1].id IS DISTINCT FROM _rules[i].id THEN
+      _lines := _lines || public.quote_line(
+        'rate',
+        COALESCE(_rules[i].name, initcap(_pricing_type) || ' rate'),
+        _rules[i].amount,
+        CASE WHEN _pricing_type = 'day' THEN i - _line_start + 1 ELSE _quantity - _covered END,
+        _rules[i].id,
+        CASE WHEN _pricing_type = 'day' THEN _first_day + (_line_start - 1) ELSE _first_day END
+      );
+      _line_start := i + 1;
+    END IF;
+  END LOOP;
+
+  FOR _tier IN
+    SELECT * FROM public.pricing_tiers
+    WHERE car_id = _car_id AND pricing_type = _pricing_type AND kind = 'discount'
+    ORDER BY from_unit
+  LOOP
+    SELECT COALESCE(sum(_rules[n].amount), 0) INTO _base
+    FROM generate_series(GREATEST(_tier.from_unit, _covered + 1), LEAST(COALESCE(_tier.to_unit, _quantity), _quantity)) AS n;
+    IF _base > 0 THEN
+      _lines := _lines || public.quote_line(
+        'discount',
+        COALESCE(
+          _tier.name,
+          _unit_noun || ' ' || _tier.from_unit || COALESCE('–' || _tier.to_unit, '+') || ' (−' || _tier.discount_percent || '%)'
+        ),
+        -round(_base * _tier.discount_percent / 100, 2),
+        1
+      );
+    END IF;
+  END LOOP;
+
+  _quote := jsonb_build_object(
+    'pricing_type', _pricing_type,
+    'quantity', _quantity,
+    'total', (SELECT sum((l->>'amount')::numeric) FROM jsonb_array_elements(_lines) l),
+    'lines', _lines
+  );
+
+  -- A code that cannot be used comes back as promo_error on an undiscounted quote rather than
+  -- an error, so the failed attempt is kept for throttling
+  IF NULLIF(btrim(_promo_code), '') IS NOT NULL THEN
+    BEGIN
+      _promo := public.find_promo_code(_promo_code, _car_id);
+    EXCEPTION WHEN raise_exception THEN
+      _promo_error := SQLERRM;
+    END;
+    PERFORM public.record_promo_attempt(_promo_error IS NULL);
+    IF _promo_error IS NOT NULL THEN
+      RETURN _quote || jsonb_build_object('promo_error', _promo_error);
+    END IF;
+    _quote := public.apply_promo(_quote, _promo);
+  END IF;
+  RETURN _quote;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.quote_booking(UUID, TEXT, INTEGER, UUID, UUID, TIMESTAMPTZ, TEXT) TO anon, authenticated;
+
+-- A code is validated and redeemed once, when the booking is created. A code that cannot be used
+-- stays on the booking as entered but gives no discount, rather than failing the insert, so the
+-- attempt counts towards the throttle. Later re-pricing keeps the code that was redeemed even if it
+-- has since expired or run out. SECURITY DEFINER so the usage counter can be bumped on behalf of
+-- anonymous customers.
+CREATE OR REPLACE FUNCTION public.set_booking_total()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _quote JSONB;
+  _promo public.promo_codes;
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    NEW.promo_code := NULLIF(upper(btrim(NEW.promo_code)), '');
+    NEW.promo_code_id := NULL;
+  ELSIF (NEW.car_id, NEW.pricing_type, NEW.quantity, NEW.pickup_zone_id, NEW.dropoff_zone_id, NEW.starts_at)
+          IS NOT DISTINCT FROM (OLD.car_id, OLD.pricing_type, OLD.quantity, OLD.pickup_zone_id, OLD.dropoff_zone_id, OLD.starts_at)
+        OR NEW.total_price IS DISTINCT FROM OLD.total_price THEN
+    RETURN NEW;
+  END IF;
+
+  IF NEW.car_id IS NULL THEN
+    NEW.total_price := 0;
+    NEW.promo_discount := 0;
+    RETURN NEW;
+  END IF;
+
+  _quote := public.quote_booking(
+    NEW.car_id, NEW.pricing_type, NEW.quantity, NEW.pickup_zone_id, NEW.dropoff_zone_id, NEW.starts_at
+  );
+
+  IF TG_OP = 'INSERT' AND NEW.promo_code IS NOT NULL THEN
+    _promo := public.redeem_promo_code(NEW.promo_code, NEW.car_id);
+    NEW.promo_code_id := _promo.id;
+  ELSIF NEW.promo_code_id IS NOT NULL THEN
+    SELECT * INTO _promo FROM public.promo_codes WHERE id = NEW.promo_code_id;
+  END IF;
+
+  _quote := public.apply_promo(_quote, _promo);
+  NEW.total_price := (_quote->>'total')::numeric;
+  NEW.promo_discount := COALESCE(
+    (SELECT -(l->>'amount')::numeric FROM jsonb_array_elements(_quote->'lines') l WHERE l->>'kind' = 'promo'),
+    0
+  );
+  RETURN NEW;
+END;
+$$;
+
+-- A cancelled or rejected booking gives its promo use back
+CREATE OR REPLACE FUNCTION public.release_promo_code()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE public.promo_codes SET used_count = GREATEST(used_count - 1, 0) WHERE id = NEW.promo_code_id;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER release_bookings_promo_code AFTER UPDATE OF status ON public.bookings
+  FOR EACH ROW
+  WHEN (NEW.promo_code_id IS NOT NULL
+        AND NEW.status IN ('cancelled', 'rejected')
+        AND OLD.status NOT IN ('cancelled', 'rejected'))
+  EXECUTE FUNCTION public.release_promo_code();
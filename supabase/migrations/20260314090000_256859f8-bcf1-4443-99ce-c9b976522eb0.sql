@@ -0,0 +1,55 @@
+-- Idempotency key for bookings placed from the offline outbox. Clients retry with the same key,
+-- so a booking that already reached the server is skipped instead of duplicated.
+ALTER TABLE public.bookings ADD COLUMN client_request_id UUID UNIQUE;
+
+-- A retried insert is discarded by ON CONFLICT, but BEFORE triggers still run first. Skip pricing
+-- for keys that already exist so the retry does not redeem the promo code a second time.
+CREATE OR REPLACE FUNCTION public.set_booking_total()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _quote JSONB;
+  _promo public.promo_codes;
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    IF NEW.client_request_id IS NOT NULL
+       AND EXISTS (SELECT 1 FROM public.bookings WHERE client_request_id = NEW.client_request_id) THEN
+      RETURN NEW;
+    END IF;
+    NEW.promo_code := NULLIF(upper(btrim(NEW.promo_code)), '');
+    NEW.promo_code_id := NULL;
+  ELSIF (NEW.car_id, NEW.pricing_type, NEW.quantity, NEW.pickup_zone_id, NEW.dropoff_zone_id, NEW.starts_at)
+          IS NOT DISTINCT FROM (OLD.car_id, OLD.pricing_type, OLD.quantity, OLD.pickup_zone_id, OLD.dropoff_zone_id, OLD.starts_at)
+        OR NEW.total_price IS DISTINCT FROM OLD.total_price THEN
+    RETURN NEW;
+  END IF;
+
+  IF NEW.car_id IS NULL THEN
+    NEW.total_price := 0;
+    NEW.promo_discount := 0;
+    RETURN NEW;
+  END IF;
+
+  _quote := public.quote_booking(
+    NEW.car_id, NEW.pricing_type, NEW.quantity, NEW.pickup_zone_id, NEW.dropoff_zone_id, NEW.starts_at
+  );
+
+  IF TG_OP = 'INSERT' AND NEW.promo_code IS NOT NULL THEN
+    _promo := public.redeem_promo_code(NEW.promo_code, NEW.car_id);
+    NEW.promo_code_id := _promo.id;
+  ELSIF NEW.promo_code_id IS NOT NULL THEN
+    SELECT * INTO _promo FROM public.promo_codes WHERE id = NEW.promo_code_id;
+  END IF;
+
+  _quote := public.apply_promo(_quote, _promo);
+  NEW.total_price := (_quote->>'total')::numeric;
+  NEW.promo_discount := COALESCE(
+    (SELECT -(l->>'amount')::numeric FROM jsonb_array_elements(_quote->'lines') l WHERE l->>'kind' = 'promo'),
+    0
+  );
+  RETURN NEW;
+END;
+$$;
@@ -0,0 +1,146 @@
+-- Operational settings that admins can change without a deploy
+CREATE TABLE public.app_settings (
+    key TEXT PRIMARY KEY,
+    value JSONB NOT NULL,
+    description TEXT,
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.app_settings ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view settings" ON public.app_settings
+  FOR SELECT USING (true);
+CREATE POLICY "Admins can manage settings" ON public.app_settings
+  FOR ALL TO authenticated USING (public.has_role(auth.uid(), 'admin'))
+  WITH CHECK (public.has_role(auth.uid(), 'admin'));
+
+CREATE TRIGGER update_app_settings_updated_at BEFORE UPDATE ON public.app_settings
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+INSERT INTO public.app_settings (key, value, description) VALUES
+  ('change_cutoff_hours', '24', 'Customers cannot request a cancellation or reschedule later than this many hours before pickup');
+
+-- Customer requests to cancel or move a booking; nothing changes until an admin approves
+CREATE TABLE public.booking_change_requests (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    booking_id UUID REFERENCES public.bookings(id) ON DELETE CASCADE NOT NULL,
+    user_id UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+    kind TEXT NOT NULL CHECK (kind IN ('cancel', 'reschedule')),
+    requested_starts_at TIMESTAMPTZ,
+    requested_ends_at TIMESTAMPTZ,
+    reason TEXT,
+    status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'approved', 'rejected')),
+    admin_note TEXT,
+    resolved_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+    resolved_at TIMESTAMPTZ,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+    CHECK (kind = 'cancel' OR (requested_starts_at IS NOT NULL AND requested_ends_at > requested_starts_at))
+);
+
+CREATE UNIQUE INDEX booking_change_requests_one_pending
+  ON public.booking_change_requests (booking_id) WHERE status = 'pending';
+
+ALTER TABLE public.booking_change_requests ENABLE ROW LEVEL SECURITY;
+
+-- Inserts and resolutions go through the functions below
+CREATE POLICY "Users can view own change requests" ON public.booking_change_requests
+  FOR SELECT TO authenticated USING (auth.uid() = user_id);
+CREATE POLICY "Admins can manage change requests" ON public.booking_change_requests
+  FOR ALL TO authenticated USING (public.has_role(auth.uid(), 'admin'))
+  WITH CHECK (public.has_role(auth.uid(), 'admin'));
+
+ALTER PUBLICATION supabase_realtime ADD TABLE public.booking_change_requests;
+
+CREATE OR REPLACE FUNCTION public.request_booking_change(
+  _booking_id UUID,
+  _kind TEXT,
+  _starts_at TIMESTAMPTZ DEFAULT NULL,
+  _reason TEXT DEFAULT NULL
+)
+RETURNS public.booking_change_requests
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _booking public.bookings;
+  _cutoff INTEGER;
+  _request public.booking_change_requests;
+BEGIN
+  SELECT * INTO _booking FROM public.bookings WHERE id = _booking_id AND user_id = auth.uid();
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Booking not found';
+  END IF;
+  IF _booking.status NOT IN ('pending', 'approved') THEN
+    RAISE EXCEPTION 'A % booking cannot be changed', _booking.status;
+  END IF;
+
+  SELECT (value #>> '{}')::integer INTO _cutoff FROM public.app_settings WHERE key = 'change_cutoff_hours';
+  IF _booking.starts_at < now() + make_interval(hours => COALESCE(_cutoff, 0)) THEN
+    RAISE EXCEPTION 'Changes must be requested at least % hours before pickup', COALESCE(_cutoff, 0);
+  END IF;
+  IF _kind = 'reschedule' AND (_starts_at IS NULL OR _starts_at < now() + make_interval(hours => COALESCE(_cutoff, 0))) THEN
+    RAISE EXCEPTION 'The new pickup time must be at least % hours from now', COALESCE(_cutoff, 0);
+  END IF;
+  IF EXISTS (SELECT 1 FROM public.booking_change_requests WHERE booking_id = _booking_id AND status = 'pending') THEN
+    RAISE EXCEPTION 'This booking already has a request waiting for review';
+  END IF;
+
+  INSERT INTO public.booking_change_requests (booking_id, user_id, kind, requested_starts_at, requested_ends_at, reason)
+  VALUES (
+    _booking_id,
+    auth.uid(),
+    _kind,
+    CASE WHEN _kind = 'reschedule' THEN _starts_at END,
+    CASE WHEN _kind = 'reschedule' THEN _starts_at + (_booking.ends_at - _booking.starts_at) END,
+    NULLIF(btrim(_reason), '')
+  )
+  RETURNING * INTO _request;
+  RETURN _request;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.request_booking_change(UUID, TEXT, TIMESTAMPTZ, TEXT) TO authenticated;
+
+-- Approving applies the change to the booking in the same transaction, so a reschedule into a
+-- taken slot fails on bookings_no_overlap and the request stays pending.
+CREATE OR REPLACE FUNCTION public.resolve_booking_change(_request_id UUID, _approve BOOLEAN, _note TEXT DEFAULT NULL)
+RETURNS public.booking_change_requests
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _request public.booking_change_requests;
+BEGIN
+  IF NOT public.has_role(auth.uid(), 'admin') THEN
+    RAISE EXCEPTION 'Only admins can resolve change requests';
+  END IF;
+
+  SELECT * INTO _request FROM public.booking_change_requests WHERE id = _request_id FOR UPDATE;
+  IF NOT FOUND OR _request.status <> 'pending' THEN
+    RAISE EXCEPTION 'Request not found or already resolved';
+  END IF;
+
+  IF _approve THEN
+    IF _request.kind = 'cancel' THEN
+      UPDATE public.bookings SET status = 'cancelled' WHERE id = _request.booking_id;
+    ELSE
+      UPDATE public.bookings
+      SET starts_at = _request.requested_starts_at, ends_at = _request.requested_ends_at
+      WHERE id = _request.booking_id;
+    END IF;
+  END IF;
+
+  UPDATE public.booking_change_requests
+  SET status = CASE WHEN _approve THEN 'approved' ELSE 'rejected' END,
+      admin_note = NULLIF(btrim(_note), ''),
+      resolved_by = auth.uid(),
+      resolved_at = now()
+  WHERE id = _request_id
+  RETURNING * INTO _request;
+  RETURN _request;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.resolve_booking_change(UUID, BOOLEAN, TEXT) TO authenticated;
@@ -0,0 +1,139 @@
+-- Short human-readable booking references (e.g. SM-7K3Q) and a rate-limited public lookup
+
+-- No 0/O, 1/I/L so references survive being read out over the phone
+CREATE OR REPLACE FUNCTION public.generate_booking_reference()
+RETURNS TEXT
+LANGUAGE plpgsql
+VOLATILE
+SET search_path = public
+AS $$
+DECLARE
+  _alphabet CONSTANT TEXT := '23456789ABCDEFGHJKMNPQRSTUVWXYZ';
+  _length INTEGER := 4;
+  _reference TEXT;
+BEGIN
+  LOOP
+    _reference := 'SM-';
+    FOR i IN 1 .. _length LOOP
+      _reference := _reference || substr(_alphabet, 1 + floor(random() * length(_alphabet))::integer, 1);
+    END LOOP;
+    EXIT WHEN NOT EXISTS (SELECT 1 FROM public.bookings WHERE reference = _reference);
+    -- Grow the code once the short space gets crowded instead of looping for long
+    _length := LEAST(_length + 1, 8);
+  END LOOP;
+  RETURN _reference;
+END;
+$$;
+
+ALTER TABLE public.bookings ADD COLUMN reference TEXT UNIQUE;
+
+UPDATE public.bookings SET reference = public.generate_booking_reference() WHERE reference IS NULL;
+
+ALTER TABLE public.bookings
+  ALTER COLUMN reference SET NOT NULL,
+  ALTER COLUMN reference SET DEFAULT public.generate_booking_reference();
+
+-- Clients never choose their own reference, and it never changes once issued
+CREATE OR REPLACE FUNCTION public.set_booking_reference()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    NEW.reference := public.generate_booking_reference();
+  ELSE
+    NEW.reference := OLD.reference;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER set_bookings_reference
+  BEFORE INSERT OR UPDATE OF reference ON public.bookings
+  FOR EACH ROW EXECUTE FUNCTION public.set_booking_reference();
+
+-- Guests cannot read bookings, so the app asks for the reference using the idempotency key it
+-- generated; that UUID is only known to the device that placed the booking.
+CREATE OR REPLACE FUNCTION public.booking_reference(_client_request_id UUID)
+RETURNS TEXT
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT reference FROM public.bookings WHERE client_request_id = _client_request_id
+$$;
+
+GRANT EXECUTE ON FUNCTION public.booking_reference(UUID) TO anon, authenticated;
+
+-- Every lookup attempt, so guessing references can be throttled. Only the functions below touch it.
+CREATE TABLE public.booking_lookup_attempts (
+    id BIGINT GENERATED ALWAYS AS IDENTITY PRIMARY KEY,
+    reference TEXT NOT NULL,
+    client_ip TEXT,
+    succeeded BOOLEAN NOT NULL,
+    attempted_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX booking_lookup_attempts_reference_idx ON public.booking_lookup_attempts (reference, client_ip, attempted_at);
+CREATE INDEX booking_lookup_attempts_ip_idx ON public.booking_lookup_attempts (client_ip, attempted_at);
+
+ALTER TABLE public.booking_lookup_attempts ENABLE ROW LEVEL SECURITY;
+
+-- Compare phone numbers on their last 9 digits so +250 788 123 456 and 0788123456 match
+CREATE OR REPLACE FUNCTION public.phone_key(_phone TEXT)
+RETURNS TEXT
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT right(regexp_replace(COALESCE(_phone, ''), '\D', '', 'g'), 9)
+$$;
+
+-- Returns no row when the reference and phone do not match. At most 5 failed attempts per
+-- reference from one client IP, and 20 per client IP overall, in any hour; past that the caller
+-- gets an error instead. Guesses from elsewhere never lock the real customer out.
+CREATE OR REPLACE FUNCTION public.lookup_booking(_reference TEXT, _phone TEXT)
+RETURNS TABLE (
+  reference TEXT,
+  status TEXT,
+  car_name TEXT,
+  starts_at TIMESTAMPTZ,
+  ends_at TIMESTAMPTZ,
+  pickup_location TEXT,
+  total_price NUMERIC
+)
+LANGUAGE plpgsql
+VOLATILE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _ref TEXT := upper(btrim(_reference));
+  _ip TEXT := public.request_ip();
+  _matches INTEGER;
+BEGIN
+  IF (SELECT count(*) FROM public.booking_lookup_attempts a
+      WHERE a.reference = _ref AND a.client_ip IS NOT DISTINCT FROM _ip
+        AND NOT a.succeeded AND a.attempted_at > now() - interval '1 hour') >= 5
+     OR (_ip IS NOT NULL AND (SELECT count(*) FROM public.booking_lookup_attempts a
+      WHERE a.client_ip = _ip AND NOT a.succeeded AND a.attempted_at > now() - interval '1 hour') >= 20) THEN
+    RAISE EXCEPTION 'Too many attempts. Please try again later.';
+  END IF;
+
+  RETURN QUERY
+  SELECT b.reference, b.status, c.name, b.starts_at, b.ends_at, b.pickup_location, b.total_price
+  FROM public.bookings b
+  LEFT JOIN public.cars c ON c.id = b.car_id
+  WHERE b.reference = _ref
+    AND public.phone_key(b.client_phone) <> ''
+    AND public.phone_key(b.client_phone) = public.phone_key(_phone);
+
+  GET DIAGNOSTICS _matches = ROW_COUNT;
+  INSERT INTO public.booking_lookup_attempts (reference, client_ip, succeeded)
+  VALUES (_ref, _ip, _matches > 0);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.lookup_booking(TEXT, TEXT) TO anon, authenticated;
@@ -0,0 +1,190 @@
+-- Booking lifecycle: allowed status transitions enforced in the database, with a history log
+ALTER TABLE public.bookings DROP CONSTRAINT bookings_status_check;
+ALTER TABLE public.bookings ADD CONSTRAINT bookings_status_check
+  CHECK (status IN ('pending', 'approved', 'rejected', 'in_progress', 'completed', 'cancelled'));
+
+-- A car that is out on a rental is just as busy as one that is booked
+ALTER TABLE public.bookings DROP CONSTRAINT bookings_no_overlap;
+ALTER TABLE public.bookings
+  ADD CONSTRAINT bookings_no_overlap
+  EXCLUDE USING gist (car_id WITH =, tstzrange(starts_at, ends_at, '[)') WITH &&)
+  WHERE (car_id IS NOT NULL AND status IN ('pending', 'approved', 'in_progress') AND NOT overlap_flagged);
+
+CREATE OR REPLACE FUNCTION public.get_car_availability(_car_id UUID, _from TIMESTAMPTZ, _to TIMESTAMPTZ)
+RETURNS TABLE (starts_at TIMESTAMPTZ, ends_at TIMESTAMPTZ)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT b.starts_at, b.ends_at
+  FROM public.bookings b
+  WHERE b.car_id = _car_id
+    AND b.status IN ('pending', 'approved', 'in_progress')
+    AND tstzrange(b.starts_at, b.ends_at, '[)') && tstzrange(_from, _to, '[)')
+  ORDER BY b.starts_at
+$$;
+
+-- The allowed moves; the admin UI reads this table to decide which actions to offer
+CREATE TABLE public.booking_status_transitions (
+    from_status TEXT NOT NULL,
+    to_status TEXT NOT NULL,
+    PRIMARY KEY (from_status, to_status)
+);
+
+ALTER TABLE public.booking_status_transitions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view status transitions" ON public.booking_status_transitions
+  FOR SELECT USING (true);
+
+INSERT INTO public.booking_status_transitions (from_status, to_status) VALUES
+  ('pending', 'approved'),
+  ('pending', 'rejected'),
+  ('pending', 'cancelled'),
+  ('approved', 'in_progress'),
+  ('approved', 'cancelled'),
+  ('in_progress', 'completed');
+
+CREATE TABLE public.booking_status_history (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    booking_id UUID REFERENCES public.bookings(id) ON DELETE CASCADE NOT NULL,
+    from_status TEXT,
+    to_status TEXT NOT NULL,
+    changed_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+    actor_name TEXT,
+    reason TEXT,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX booking_status_history_booking_idx ON public.booking_status_history (booking_id, created_at);
+
+ALTER TABLE public.booking_status_history ENABLE ROW LEVEL SECURITY;
+
+-- Rows are only written by the trigger below
+CREATE POLICY "Admins can view status history" ON public.booking_status_history
+  FOR SELECT TO authenticated USING (public.has_role(auth.uid(), 'admin'));
+
+INSERT INTO public.booking_status_history (booking_id, from_status, to_status, actor_name, reason, created_at)
+SELECT id, NULL, status, 'System', 'Recorded when status history was introduced', created_at
+FROM public.bookings;
+
+CREATE OR REPLACE FUNCTION public.enforce_booking_status()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    IF NEW.status <> 'pending' AND NOT public.has_role(auth.uid(), 'admin') THEN
+      RAISE EXCEPTION 'New bookings start as pending';
+    END IF;
+  ELSIF NEW.status IS DISTINCT FROM OLD.status
+        AND NOT EXISTS (SELECT 1 FROM public.booking_status_transitions
+                        WHERE from_status = OLD.status AND to_status = NEW.status) THEN
+    RAISE EXCEPTION 'A booking cannot move from % to %', OLD.status, NEW.status
+      USING ERRCODE = 'check_violation';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER enforce_bookings_status
+  BEFORE INSERT OR UPDATE OF status ON public.bookings
+  FOR EACH ROW EXECUTE FUNCTION public.enforce_booking_status();
+
+-- The reason travels in a transaction-local setting, filled in by set_booking_status and other
+-- functions that change status on someone's behalf.
+CREATE OR REPLACE FUNCTION public.log_booking_status()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'UPDATE' AND NEW.status IS NOT DISTINCT FROM OLD.status THEN
+    RETURN NEW;
+  END IF;
+
+  INSERT INTO public.booking_status_history (booking_id, from_status, to_status, changed_by, actor_name, reason)
+  VALUES (
+    NEW.id,
+    CASE WHEN TG_OP = 'UPDATE' THEN OLD.status END,
+    NEW.status,
+    auth.uid(),
+    CASE
+      WHEN auth.uid() IS NULL THEN CASE WHEN TG_OP = 'INSERT' THEN 'Guest' ELSE 'System' END
+      ELSE COALESCE((SELECT full_name FROM public.profiles WHERE user_id = auth.uid()), 'User')
+    END,
+    NULLIF(current_setting('app.status_reason', true), '')
+  );
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER log_bookings_status
+  AFTER INSERT OR UPDATE OF status ON public.bookings
+  FOR EACH ROW EXECUTE FUNCTION public.log_booking_status();
+
+CREATE OR REPLACE FUNCTION public.set_booking_status(_booking_id UUID, _status TEXT, _reason TEXT DEFAULT NULL)
+RETURNS public.bookings
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  _booking public.bookings;
+BEGIN
+  PERFORM set_config('app.status_reason', COALESCE(btrim(_reason), ''), true);
+  UPDATE public.bookings SET status = _status WHERE id = _booking_id RETURNING * INTO _booking;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Booking not found';
+  END IF;
+  PERFORM set_config('app.status_reason', '', true);
+  RETURN _booking;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.set_booking_status(UUID, TEXT, TEXT) TO authenticated;
+
+-- Approved customer cancellations now carry their reason into the history
+CREATE OR REPLACE FUNCTION public.resolve_booking_change(_request_id UUID, _approve BOOLEAN, _note TEXT DEFAULT NULL)
+RETURNS public.booking_change_requests
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _request public.booking_change_requests;
+BEGIN
+  IF NOT public.has_role(auth.uid(), 'admin') THEN
+    RAISE EXCEPTION 'Only admins can resolve change requests';
+  END IF;
+
+  SELECT * INTO _request FROM public.booking_change_requests WHERE id = _request_id FOR UPDATE;
+  IF NOT FOUND OR _request.status <> 'pending' THEN
+    RAISE EXCEPTION 'Request not found or already resolved';
+  END IF;
+
+  IF _approve THEN
+    IF _request.kind = 'cancel' THEN
+      PERFORM public.set_booking_status(
+        _request.booking_id,
+        'cancelled',
+        'Cancelled at customer request' || COALESCE(': ' || _request.reason, '')
+      );
+    ELSE
+      UPDATE public.bookings
+      SET starts_at = _request.requested_starts_at, ends_at = _request.requested_ends_at
+      WHERE id = _request.booking_id;
+    END IF;
+  END IF;
+
+  UPDATE public.booking_change_requests
+  SET status = CASE WHEN _approve THEN 'approved' ELSE 'rejected' END,
+      admin_note = NULLIF(btrim(_note), ''),
+      resolved_by = auth.uid(),
+      resolved_at = now()
+  WHERE id = _request_id
+  RETURNING * INTO _request;
+  RETURN _request;
+END;
+$$;
@@ -0,0 +1,101 @@
+-- Manual price adjustments made from the admin booking sheet. The adjustment is kept apart from
+-- the quoted price so a re-quote (car, dates or plan changed) still carries it, and every
+-- adjustment must say why.
+ALTER TABLE public.bookings
+  ADD COLUMN price_adjustment NUMERIC NOT NULL DEFAULT 0,
+  ADD COLUMN price_adjustment_reason TEXT,
+  ADD CONSTRAINT bookings_price_adjustment_reason_check
+    CHECK (price_adjustment = 0 OR NULLIF(btrim(price_adjustment_reason), '') IS NOT NULL);
+
+CREATE OR REPLACE FUNCTION public.set_booking_total()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _quote JSONB;
+  _promo public.promo_codes;
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    IF NEW.client_request_id IS NOT NULL
+       AND EXISTS (SELECT 1 FROM public.bookings WHERE client_request_id = NEW.client_request_id) THEN
+      RETURN NEW;
+    END IF;
+    NEW.promo_code := NULLIF(upper(btrim(NEW.promo_code)), '');
+    NEW.promo_code_id := NULL;
+    -- Only admins adjust prices
+    IF NOT public.has_role(auth.uid(), 'admin') THEN
+      NEW.price_adjustment := 0;
+      NEW.price_adjustment_reason := NULL;
+    END IF;
+  ELSIF (NEW.car_id, NEW.pricing_type, NEW.quantity, NEW.pickup_zone_id, NEW.dropoff_zone_id, NEW.starts_at)
+          IS NOT DISTINCT FROM (OLD.car_id, OLD.pricing_type, OLD.quantity, OLD.pickup_zone_id, OLD.dropoff_zone_id, OLD.starts_at)
+        OR NEW.total_price IS DISTINCT FROM OLD.total_price THEN
+    -- Nothing to re-quote; shift the existing total by the change in adjustment
+    IF NEW.price_adjustment IS DISTINCT FROM OLD.price_adjustment AND NEW.total_price IS NOT DISTINCT FROM OLD.total_price THEN
+      NEW.total_price := GREATEST(COALESCE(OLD.total_price, 0) - OLD.price_adjustment + NEW.price_adjustment, 0);
+    END IF;
+    RETURN NEW;
+  END IF;
+
+  IF NEW.car_id IS NULL THEN
+    NEW.total_price := GREATEST(NEW.price_adjustment, 0);
+    NEW.promo_discount := 0;
+    RETURN NEW;
+  END IF;
+
+  _quote := public.quote_booking(
+    NEW.car_id, NEW.pricing_type, NEW.quantity, NEW.pickup_zone_id, NEW.dropoff_zone_id, NEW.starts_at
+  );
+
+  IF TG_OP = 'INSERT' AND NEW.promo_code IS NOT NULL THEN
+    _promo := public.redeem_promo_code(NEW.promo_code, NEW.car_id);
+    NEW.promo_code_id := _promo.id;
+  ELSIF NEW.promo_code_id IS NOT NULL THEN
+    SELECT * INTO _promo FROM public.promo_codes WHERE id = NEW.promo_code_id;
+  END IF;
+
+  _quote := public.apply_promo(_quote, _promo);
+  NEW.total_price := GREATEST((_quote->>'total')::numeric + NEW.price_adjustment, 0);
+  NEW.promo_discount := COALESCE(
+    (SELECT -(l->>'amount')::numeric FROM jsonb_array_elements(_quote->'lines') l WHERE l->>'kind' = 'promo'),
+    0
+  );
+  RETURN NEW;
+END;
+$$;
+
+-- Internal notes on a booking, visible to admins only
+CREATE TABLE public.booking_notes (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  booking_id UUID NOT NULL REFERENCES public.bookings(id) ON DELETE CASCADE,
+  author_id UUID,
+  author_name TEXT,
+  body TEXT NOT NULL CHECK (btrim(body) <> ''),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX booking_notes_booking_idx ON public.booking_notes (booking_id, created_at);
+
+ALTER TABLE public.booking_notes ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can manage booking notes" ON public.booking_notes
+  FOR ALL TO authenticated
+  USING (public.has_role(auth.uid(), 'admin'))
+  WITH CHECK (public.has_role(auth.uid(), 'admin'));
+
+CREATE OR REPLACE FUNCTION public.set_booking_note_author()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  NEW.author_id := auth.uid();
+  NEW.author_name := COALESCE((SELECT full_name FROM public.profiles WHERE user_id = auth.uid()), 'Admin');
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER set_booking_notes_author BEFORE INSERT ON public.booking_notes
+  FOR EACH ROW EXECUTE FUNCTION public.set_booking_note_author();
@@ -0,0 +1,59 @@
+-- Driver roster, replacing the free-text bookings.driver column
+CREATE TABLE public.drivers (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    name TEXT NOT NULL CHECK (btrim(name) <> ''),
+    phone TEXT,
+    license_number TEXT,
+    license_expiry DATE,
+    languages TEXT[] NOT NULL DEFAULT '{}',
+    status TEXT NOT NULL DEFAULT 'active' CHECK (status IN ('active', 'on_leave', 'inactive')),
+    created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.drivers ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can manage drivers" ON public.drivers
+  FOR ALL TO authenticated USING (public.has_role(auth.uid(), 'admin'))
+  WITH CHECK (public.has_role(auth.uid(), 'admin'));
+
+CREATE TRIGGER update_drivers_updated_at BEFORE UPDATE ON public.drivers
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+ALTER TABLE public.bookings
+  ADD COLUMN driver_id UUID REFERENCES public.drivers(id) ON DELETE SET NULL;
+
+CREATE INDEX bookings_driver_range_idx ON public.bookings (driver_id, starts_at, ends_at)
+  WHERE driver_id IS NOT NULL;
+
+-- Carry over the names typed so far, merging entries that differ only in case or spacing
+INSERT INTO public.drivers (name)
+SELECT DISTINCT ON (lower(btrim(driver))) btrim(driver)
+FROM public.bookings
+WHERE NULLIF(btrim(driver), '') IS NOT NULL
+ORDER BY lower(btrim(driver)), created_at DESC;
+
+UPDATE public.bookings b
+SET driver_id = d.id
+FROM public.drivers d
+WHERE lower(btrim(b.driver)) = lower(d.name);
+
+ALTER TABLE public.bookings DROP COLUMN driver;
+
+-- Anyone can create a booking, but only admins fill in how it is run. Columns later migrations
+-- add for admin use are reset here too.
+CREATE OR REPLACE FUNCTION public.reset_booking_admin_fields()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT public.has_role(auth.uid(), 'admin') THEN
+    NEW.driver_id := NULL;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER reset_bookings_admin_fields BEFORE INSERT ON public.bookings
+  FOR EACH ROW EXECUTE FUNCTION public.reset_booking_admin_fields();
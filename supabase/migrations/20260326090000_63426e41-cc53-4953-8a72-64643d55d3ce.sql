@@ -0,0 +1,2 @@
+-- New enum values cannot be used in the transaction that adds them, so this stands alone
+ALTER TYPE public.app_role ADD VALUE IF NOT EXISTS 'driver';
@@ -0,0 +1,179 @@
+-- Driver logins. Admins enter the email a driver signs up with; the matching account is linked
+-- to the roster entry and given the driver role, whether it exists yet or is created later.
+-- Only confirmed emails count, so signing up first with a driver's address gets nobody in.
+ALTER TABLE public.drivers
+  ADD COLUMN email TEXT,
+  ADD COLUMN user_id UUID UNIQUE REFERENCES auth.users(id) ON DELETE SET NULL;
+
+CREATE UNIQUE INDEX drivers_email_key ON public.drivers (lower(email));
+
+ALTER TABLE public.bookings
+  ADD COLUMN picked_up_at TIMESTAMPTZ,
+  ADD COLUMN dropped_off_at TIMESTAMPTZ;
+
+-- Trip times are only recorded by record_trip_event or an admin
+CREATE OR REPLACE FUNCTION public.reset_booking_admin_fields()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT public.has_role(auth.uid(), 'admin') THEN
+    NEW.driver_id := NULL;
+    NEW.picked_up_at := NULL;
+    NEW.dropped_off_at := NULL;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.link_driver_account()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  NEW.email := NULLIF(lower(btrim(NEW.email)), '');
+  IF TG_OP = 'INSERT' OR NEW.email IS DISTINCT FROM OLD.email THEN
+    NEW.user_id := (SELECT id FROM auth.users WHERE lower(email) = NEW.email AND email_confirmed_at IS NOT NULL);
+  END IF;
+
+  IF TG_OP = 'UPDATE' AND OLD.user_id IS NOT NULL AND OLD.user_id IS DISTINCT FROM NEW.user_id THEN
+    DELETE FROM public.user_roles WHERE user_id = OLD.user_id AND role = 'driver';
+  END IF;
+  IF NEW.user_id IS NOT NULL THEN
+    INSERT INTO public.user_roles (user_id, role) VALUES (NEW.user_id, 'driver')
+    ON CONFLICT (user_id, role) DO NOTHING;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER link_drivers_account BEFORE INSERT OR UPDATE OF email ON public.drivers
+  FOR EACH ROW EXECUTE FUNCTION public.link_driver_account();
+
+CREATE OR REPLACE FUNCTION public.unlink_driver_account()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  DELETE FROM public.user_roles WHERE user_id = OLD.user_id AND role = 'driver';
+  RETURN OLD;
+END;
+$$;
+
+CREATE TRIGGER unlink_drivers_account AFTER DELETE ON public.drivers
+  FOR EACH ROW WHEN (OLD.user_id IS NOT NULL) EXECUTE FUNCTION public.unlink_driver_account();
+
+-- Links a confirmed account to the unlinked roster entry with its email, if there is one
+CREATE OR REPLACE FUNCTION public.link_driver_user(_user_id UUID, _email TEXT)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE public.drivers SET user_id = _user_id
+  WHERE email = lower(_email) AND user_id IS NULL;
+  IF FOUND THEN
+    INSERT INTO public.user_roles (user_id, role) VALUES (_user_id, 'driver')
+    ON CONFLICT (user_id, role) DO NOTHING;
+  END IF;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.link_driver_user(UUID, TEXT) FROM PUBLIC, anon, authenticated;
+
+-- Drivers who sign up after being added to the roster are linked once their email is confirmed:
+-- on signup when confirmation is off, otherwise when they follow the confirmation link
+CREATE OR REPLACE FUNCTION public.handle_new_user()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  INSERT INTO public.profiles (user_id, full_name)
+  VALUES (NEW.id, NEW.raw_user_meta_data->>'full_name');
+
+  IF NEW.email_confirmed_at IS NOT NULL THEN
+    PERFORM public.link_driver_user(NEW.id, NEW.email);
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.handle_user_email_confirmed()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM public.link_driver_user(NEW.id, NEW.email);
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER on_auth_user_email_confirmed
+  AFTER UPDATE OF email, email_confirmed_at ON auth.users
+  FOR EACH ROW
+  WHEN (NEW.email_confirmed_at IS NOT NULL
+        AND (OLD.email_confirmed_at IS NULL OR NEW.email IS DISTINCT FROM OLD.email))
+  EXECUTE FUNCTION public.handle_user_email_confirmed();
+
+CREATE OR REPLACE FUNCTION public.current_driver_id()
+RETURNS UUID
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT id FROM public.drivers WHERE user_id = auth.uid()
+$$;
+
+CREATE POLICY "Drivers can view their own record" ON public.drivers
+  FOR SELECT TO authenticated USING (user_id = auth.uid());
+
+CREATE POLICY "Drivers can view assigned bookings" ON public.bookings
+  FOR SELECT TO authenticated USING (driver_id = public.current_driver_id());
+
+-- Pickup starts the rental and dropoff completes it; both go through the status rules and history
+CREATE OR REPLACE FUNCTION public.record_trip_event(_booking_id UUID, _event TEXT)
+RETURNS public.bookings
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _booking public.bookings;
+BEGIN
+  SELECT * INTO _booking FROM public.bookings WHERE id = _booking_id FOR UPDATE;
+  -- Callers with no driver record must not match an unassigned booking on NULL = NULL
+  IF NOT FOUND OR public.current_driver_id() IS NULL OR _booking.driver_id IS DISTINCT FROM public.current_driver_id() THEN
+    RAISE EXCEPTION 'This trip is not assigned to you';
+  END IF;
+
+  IF _event = 'picked_up' THEN
+    IF _booking.status <> 'approved' THEN
+      RAISE EXCEPTION 'Only approved bookings can be picked up';
+    END IF;
+    UPDATE public.bookings SET picked_up_at = now() WHERE id = _booking_id;
+    _booking := public.set_booking_status(_booking_id, 'in_progress', 'Picked up by driver');
+  ELSIF _event = 'dropped_off' THEN
+    IF _booking.status <> 'in_progress' THEN
+      RAISE EXCEPTION 'Only trips in progress can be dropped off';
+    END IF;
+    UPDATE public.bookings SET dropped_off_at = now() WHERE id = _booking_id;
+    _booking := public.set_booking_status(_booking_id, 'completed', 'Dropped off by driver');
+  ELSE
+    RAISE EXCEPTION 'Unknown trip event %', _event;
+  END IF;
+  RETURN _booking;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.record_trip_event(UUID, TEXT) TO authenticated;
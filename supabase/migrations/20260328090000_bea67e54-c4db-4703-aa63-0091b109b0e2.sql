@@ -0,0 +1,98 @@
+-- Check-out (pickup) and check-in (return) inspections: odometer, fuel, panel damage and photos
+CREATE TABLE public.booking_inspections (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    booking_id UUID NOT NULL REFERENCES public.bookings(id) ON DELETE CASCADE,
+    kind TEXT NOT NULL CHECK (kind IN ('pickup', 'return')),
+    odometer INTEGER NOT NULL CHECK (odometer >= 0),
+    -- Fuel gauge in eighths: 0 is empty, 8 is full
+    fuel_level SMALLINT NOT NULL CHECK (fuel_level BETWEEN 0 AND 8),
+    -- Panel key -> 'ok' | 'scratch' | 'dent' | 'crack' | 'missing'
+    damage JSONB NOT NULL DEFAULT '{}',
+    photos TEXT[] NOT NULL DEFAULT '{}',
+    notes TEXT,
+    inspected_by UUID,
+    inspector_name TEXT,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+    UNIQUE (booking_id, kind)
+);
+
+ALTER TABLE public.booking_inspections ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can manage inspections" ON public.booking_inspections
+  FOR ALL TO authenticated USING (public.has_role(auth.uid(), 'admin'))
+  WITH CHECK (public.has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Drivers can view inspections of assigned bookings" ON public.booking_inspections
+  FOR SELECT TO authenticated
+  USING (EXISTS (SELECT 1 FROM public.bookings b WHERE b.id = booking_id AND b.driver_id = public.current_driver_id()));
+
+CREATE POLICY "Drivers can record inspections of assigned bookings" ON public.booking_inspections
+  FOR INSERT TO authenticated
+  WITH CHECK (EXISTS (SELECT 1 FROM public.bookings b WHERE b.id = booking_id AND b.driver_id = public.current_driver_id()));
+
+CREATE POLICY "Drivers can update inspections of assigned bookings" ON public.booking_inspections
+  FOR UPDATE TO authenticated
+  USING (EXISTS (SELECT 1 FROM public.bookings b WHERE b.id = booking_id AND b.driver_id = public.current_driver_id()));
+
+CREATE TRIGGER update_booking_inspections_updated_at BEFORE UPDATE ON public.booking_inspections
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Pickup inspections belong to rentals that have started (or are about to), returns to rentals
+-- that are under way or done. A return cannot show fewer kilometres than its pickup.
+CREATE OR REPLACE FUNCTION public.validate_booking_inspection()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _status TEXT;
+  _other INTEGER;
+BEGIN
+  SELECT status INTO _status FROM public.bookings WHERE id = NEW.booking_id;
+  IF NEW.kind = 'pickup' AND _status NOT IN ('approved', 'in_progress', 'completed') THEN
+    RAISE EXCEPTION 'A pickup inspection needs an approved or started booking';
+  ELSIF NEW.kind = 'return' AND _status NOT IN ('in_progress', 'completed') THEN
+    RAISE EXCEPTION 'A return inspection needs a booking that is in progress or completed';
+  END IF;
+
+  SELECT odometer INTO _other FROM public.booking_inspections
+  WHERE booking_id = NEW.booking_id AND kind <> NEW.kind;
+  IF (NEW.kind = 'return' AND NEW.odometer < _other) OR (NEW.kind = 'pickup' AND NEW.odometer > _other) THEN
+    RAISE EXCEPTION 'The return odometer cannot be lower than the pickup odometer';
+  END IF;
+
+  NEW.inspected_by := auth.uid();
+  NEW.inspector_name := COALESCE((SELECT full_name FROM public.profiles WHERE user_id = auth.uid()), 'Staff');
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER validate_booking_inspections BEFORE INSERT OR UPDATE ON public.booking_inspections
+  FOR EACH ROW EXECUTE FUNCTION public.validate_booking_inspection();
+
+-- Private bucket; files live under <booking_id>/<kind>/ and are shown through signed URLs
+INSERT INTO storage.buckets (id, name, public) VALUES ('inspection-photos', 'inspection-photos', false)
+ON CONFLICT (id) DO NOTHING;
+
+CREATE POLICY "Admins can manage inspection photos"
+ON storage.objects FOR ALL
+USING (bucket_id = 'inspection-photos' AND has_role(auth.uid(), 'admin'::app_role))
+WITH CHECK (bucket_id = 'inspection-photos' AND has_role(auth.uid(), 'admin'::app_role));
+
+CREATE POLICY "Drivers can view photos of assigned bookings"
+ON storage.objects FOR SELECT
+USING (
+  bucket_id = 'inspection-photos'
+  AND EXISTS (SELECT 1 FROM public.bookings b
+              WHERE b.id::text = (storage.foldername(name))[1] AND b.driver_id = public.current_driver_id())
+);
+
+CREATE POLICY "Drivers can upload photos of assigned bookings"
+ON storage.objects FOR INSERT
+WITH CHECK (
+  bucket_id = 'inspection-photos'
+  AND EXISTS (SELECT 1 FROM public.bookings b
+              WHERE b.id::text = (storage.foldername(name))[1] AND b.driver_id = public.current_driver_id())
+);
@@ -0,0 +1,192 @@
+-- Maintenance: service types with date and/or odometer intervals, and per-car service records
+CREATE TABLE public.service_types (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    name TEXT NOT NULL UNIQUE,
+    interval_days INTEGER CHECK (interval_days > 0),
+    interval_km INTEGER CHECK (interval_km > 0),
+    created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.service_types ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can manage service types" ON public.service_types
+  FOR ALL TO authenticated USING (public.has_role(auth.uid(), 'admin'))
+  WITH CHECK (public.has_role(auth.uid(), 'admin'));
+
+CREATE TRIGGER update_service_types_updated_at BEFORE UPDATE ON public.service_types
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+INSERT INTO public.service_types (name, interval_days, interval_km) VALUES
+  ('Oil change', 180, 5000),
+  ('Tyres', 730, 40000),
+  ('Insurance renewal', 365, NULL),
+  ('Technical inspection', 180, NULL);
+
+-- A record is a service window: while it is scheduled or done, the car cannot be booked in it
+CREATE TABLE public.maintenance_records (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    car_id UUID NOT NULL REFERENCES public.cars(id) ON DELETE CASCADE,
+    service_type_id UUID REFERENCES public.service_types(id) ON DELETE SET NULL,
+    starts_at TIMESTAMPTZ NOT NULL,
+    ends_at TIMESTAMPTZ NOT NULL,
+    status TEXT NOT NULL DEFAULT 'scheduled' CHECK (status IN ('scheduled', 'completed', 'cancelled')),
+    odometer INTEGER CHECK (odometer >= 0),
+    cost NUMERIC NOT NULL DEFAULT 0 CHECK (cost >= 0),
+    notes TEXT,
+    expense_id UUID REFERENCES public.expenses(id) ON DELETE SET NULL,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+    CHECK (ends_at > starts_at)
+);
+
+CREATE INDEX maintenance_records_car_range_idx ON public.maintenance_records (car_id, starts_at, ends_at);
+
+ALTER TABLE public.maintenance_records ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can manage maintenance" ON public.maintenance_records
+  FOR ALL TO authenticated USING (public.has_role(auth.uid(), 'admin'))
+  WITH CHECK (public.has_role(auth.uid(), 'admin'));
+
+CREATE TRIGGER update_maintenance_records_updated_at BEFORE UPDATE ON public.maintenance_records
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Completing a paid service books its cost as an expense against the car
+CREATE OR REPLACE FUNCTION public.record_maintenance_expense()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.status = 'completed' AND NEW.cost > 0 AND NEW.expense_id IS NULL THEN
+    INSERT INTO public.expenses (car_id, amount, description, expense_date)
+    VALUES (
+      NEW.car_id,
+      NEW.cost,
+      'Service: ' || COALESCE((SELECT name FROM public.service_types WHERE id = NEW.service_type_id), 'maintenance'),
+      (NEW.ends_at AT TIME ZONE 'Africa/Kigali')::date
+    )
+    RETURNING id INTO NEW.expense_id;
+  ELSIF NEW.expense_id IS NOT NULL THEN
+    UPDATE public.expenses SET amount = NEW.cost WHERE id = NEW.expense_id AND amount <> NEW.cost;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER record_maintenance_records_expense BEFORE INSERT OR UPDATE ON public.maintenance_records
+  FOR EACH ROW EXECUTE FUNCTION public.record_maintenance_expense();
+
+-- New or moved bookings may not overlap a service window. Raised as an exclusion violation so
+-- clients report it the same way as a clash with another booking.
+CREATE OR REPLACE FUNCTION public.block_maintenance_windows()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.car_id IS NULL OR NEW.status NOT IN ('pending', 'approved', 'in_progress') THEN
+    RETURN NEW;
+  END IF;
+  IF TG_OP = 'UPDATE' AND (NEW.car_id, NEW.starts_at, NEW.ends_at) IS NOT DISTINCT FROM (OLD.car_id, OLD.starts_at, OLD.ends_at) THEN
+    RETURN NEW;
+  END IF;
+  IF EXISTS (
+    SELECT 1 FROM public.maintenance_records m
+    WHERE m.car_id = NEW.car_id
+      AND m.status <> 'cancelled'
+      AND tstzrange(m.starts_at, m.ends_at, '[)') && tstzrange(NEW.starts_at, NEW.ends_at, '[)')
+  ) THEN
+    RAISE EXCEPTION 'This car is in service during the requested time' USING ERRCODE = 'exclusion_violation';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+-- Triggers fire in name order; this one must come after set_bookings_range has derived ends_at
+CREATE TRIGGER validate_bookings_maintenance BEFORE INSERT OR UPDATE ON public.bookings
+  FOR EACH ROW EXECUTE FUNCTION public.block_maintenance_windows();
+
+-- Service windows show up as busy slots in the booking wizard
+CREATE OR REPLACE FUNCTION public.get_car_availability(_car_id UUID, _from TIMESTAMPTZ, _to TIMESTAMPTZ)
+RETURNS TABLE (starts_at TIMESTAMPTZ, ends_at TIMESTAMPTZ)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT s.starts_at, s.ends_at
+  FROM (
+    SELECT b.starts_at, b.ends_at
+    FROM public.bookings b
+    WHERE b.car_id = _car_id AND b.status IN ('pending', 'approved', 'in_progress')
+    UNION ALL
+    SELECT m.starts_at, m.ends_at
+    FROM public.maintenance_records m
+    WHERE m.car_id = _car_id AND m.status <> 'cancelled'
+  ) s
+  WHERE tstzrange(s.starts_at, s.ends_at, '[)') && tstzrange(_from, _to, '[)')
+  ORDER BY s.starts_at
+$$;
+
+-- Services that are overdue or coming up, from each car's last completed service of that type.
+-- A car never serviced for a type counts from the day it was added, at 0 km, and last_done_on is NULL.
+-- The current odometer is the highest reading from inspections and service records.
+CREATE OR REPLACE FUNCTION public.maintenance_due(_within_days INTEGER DEFAULT 14, _within_km INTEGER DEFAULT 500)
+RETURNS TABLE (
+  car_id UUID,
+  service_type_id UUID,
+  last_done_on DATE,
+  due_on DATE,
+  due_km INTEGER,
+  current_odometer INTEGER,
+  overdue BOOLEAN
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  WITH odometers AS (
+    SELECT o.car_id, max(o.odometer) AS odometer
+    FROM (
+      SELECT b.car_id, i.odometer
+      FROM public.booking_inspections i
+      JOIN public.bookings b ON b.id = i.booking_id
+      UNION ALL
+      SELECT m.car_id, m.odometer FROM public.maintenance_records m WHERE m.odometer IS NOT NULL
+    ) o
+    GROUP BY o.car_id
+  ),
+  last_done AS (
+    SELECT DISTINCT ON (m.car_id, m.service_type_id)
+      m.car_id, m.service_type_id, (m.ends_at AT TIME ZONE 'Africa/Kigali')::date AS done_on, m.odometer
+    FROM public.maintenance_records m
+    WHERE m.status = 'completed' AND m.service_type_id IS NOT NULL
+    ORDER BY m.car_id, m.service_type_id, m.ends_at DESC
+  ),
+  due AS (
+    SELECT c.id AS car_id, t.id AS service_type_id, l.done_on,
+           COALESCE(l.done_on, (c.created_at AT TIME ZONE 'Africa/Kigali')::date) + t.interval_days AS due_on,
+           CASE WHEN l.car_id IS NULL THEN 0 ELSE l.odometer END + t.interval_km AS due_km,
+           o.odometer AS current_odometer
+    FROM public.cars c
+    CROSS JOIN public.service_types t
+    LEFT JOIN last_done l ON l.car_id = c.id AND l.service_type_id = t.id
+    LEFT JOIN odometers o ON o.car_id = c.id
+  )
+  SELECT d.car_id, d.service_type_id, d.done_on, d.due_on, d.due_km, d.current_odometer,
+         COALESCE(d.due_on < (now() AT TIME ZONE 'Africa/Kigali')::date, false)
+           OR COALESCE(d.current_odometer >= d.due_km, false)
+  FROM due d
+  WHERE (d.due_on <= (now() AT TIME ZONE 'Africa/Kigali')::date + _within_days
+         OR d.current_odometer >= d.due_km - _within_km)
+    AND NOT EXISTS (
+      SELECT 1 FROM public.maintenance_records m
+      WHERE m.car_id = d.car_id AND m.service_type_id = d.service_type_id
+        AND m.status = 'scheduled'
+    )
+  ORDER BY 7 DESC, d.due_on NULLS LAST
+$$;
+
+GRANT EXECUTE ON FUNCTION public.maintenance_due(INTEGER, INTEGER) TO authenticated;
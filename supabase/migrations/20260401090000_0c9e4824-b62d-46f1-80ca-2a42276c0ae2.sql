@@ -0,0 +1,108 @@
+-- Vehicle papers (insurance, technical control, registration) with expiry reminders
+CREATE TABLE public.car_documents (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    car_id UUID NOT NULL REFERENCES public.cars(id) ON DELETE CASCADE,
+    kind TEXT NOT NULL CHECK (kind IN ('insurance', 'technical_control', 'registration', 'other')),
+    reference TEXT,
+    issued_on DATE,
+    expires_on DATE NOT NULL,
+    file_path TEXT,
+    reminder_days INTEGER[] NOT NULL DEFAULT '{30,14,3}',
+    -- Thresholds already announced for the current expiry date
+    notified_days INTEGER[] NOT NULL DEFAULT '{}',
+    notes TEXT,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+    CHECK (issued_on IS NULL OR expires_on >= issued_on)
+);
+
+CREATE INDEX car_documents_expires_on_idx ON public.car_documents (expires_on);
+
+ALTER TABLE public.car_documents ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can manage car documents" ON public.car_documents
+  FOR ALL TO authenticated USING (public.has_role(auth.uid(), 'admin'))
+  WITH CHECK (public.has_role(auth.uid(), 'admin'));
+
+CREATE TRIGGER update_car_documents_updated_at BEFORE UPDATE ON public.car_documents
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- A renewed document starts its reminders over
+CREATE OR REPLACE FUNCTION public.reset_document_reminders()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.expires_on IS DISTINCT FROM OLD.expires_on OR NEW.reminder_days IS DISTINCT FROM OLD.reminder_days THEN
+    NEW.notified_days := '{}';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER reset_car_document_reminders BEFORE UPDATE ON public.car_documents
+  FOR EACH ROW EXECUTE FUNCTION public.reset_document_reminders();
+
+-- One warning per document when it crosses a threshold; crossing several at once (a late upload,
+-- a missed run) only sends the nearest one
+CREATE OR REPLACE FUNCTION public.notify_document_expiry()
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _today DATE := (now() AT TIME ZONE 'Africa/Kigali')::date;
+  _doc RECORD;
+  _crossed INTEGER[];
+  _sent INTEGER := 0;
+BEGIN
+  FOR _doc IN
+    SELECT d.*, c.name AS car_name, d.expires_on - _today AS days_left
+    FROM public.car_documents d
+    JOIN public.cars c ON c.id = d.car_id
+  LOOP
+    SELECT COALESCE(array_agg(r), '{}') INTO _crossed
+    FROM unnest(_doc.reminder_days) r
+    WHERE _doc.days_left <= r AND NOT r = ANY (_doc.notified_days);
+
+    CONTINUE WHEN cardinality(_crossed) = 0;
+
+    INSERT INTO public.notifications (title, message, type)
+    VALUES (
+      CASE WHEN _doc.days_left < 0 THEN 'Document expired' ELSE 'Document expiring soon' END,
+      format('%s for %s %s on %s.',
+             initcap(replace(_doc.kind, '_', ' ')),
+             _doc.car_name,
+             CASE WHEN _doc.days_left < 0 THEN 'expired' ELSE format('expires in %s day(s)', _doc.days_left) END,
+             to_char(_doc.expires_on, 'DD Mon YYYY')),
+      'warning'
+    );
+
+    UPDATE public.car_documents
+    SET notified_days = notified_days || _crossed
+    WHERE id = _doc.id;
+
+    _sent := _sent + 1;
+  END LOOP;
+  RETURN _sent;
+END;
+$$;
+
+-- Only the scheduler runs it
+REVOKE EXECUTE ON FUNCTION public.notify_document_expiry() FROM PUBLIC, anon, authenticated;
+
+-- Checked every morning, Kigali time (UTC+2)
+CREATE EXTENSION IF NOT EXISTS pg_cron;
+
+SELECT cron.schedule('notify-document-expiry', '0 5 * * *', $$SELECT public.notify_document_expiry()$$);
+
+-- Private bucket; files live under <car_id>/
+INSERT INTO storage.buckets (id, name, public) VALUES ('car-documents', 'car-documents', false)
+ON CONFLICT (id) DO NOTHING;
+
+CREATE POLICY "Admins can manage car documents files"
+ON storage.objects FOR ALL
+USING (bucket_id = 'car-documents' AND has_role(auth.uid(), 'admin'::app_role))
+WITH CHECK (bucket_id = 'car-documents' AND has_role(auth.uid(), 'admin'::app_role));
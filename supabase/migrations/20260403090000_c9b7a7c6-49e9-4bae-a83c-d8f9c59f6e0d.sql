@@ -0,0 +1,166 @@
+-- Notifications point at the admin page they are about; alerts raised by schedules carry a key so
+-- they are only raised once
+ALTER TABLE public.notifications
+  ADD COLUMN link TEXT,
+  ADD COLUMN dedupe_key TEXT;
+
+CREATE UNIQUE INDEX notifications_dedupe_key_idx ON public.notifications (dedupe_key) WHERE dedupe_key IS NOT NULL;
+
+INSERT INTO public.app_settings (key, value, description) VALUES
+  ('expense_alert_threshold', '500', 'Admins are notified of any single expense at or above this amount');
+
+-- New bookings and cancellations
+CREATE OR REPLACE FUNCTION public.notify_booking_event()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _car_name TEXT;
+  _when TEXT := to_char(NEW.starts_at AT TIME ZONE 'Africa/Kigali', 'DD Mon HH24:MI');
+  _reason TEXT := NULLIF(current_setting('app.status_reason', true), '');
+BEGIN
+  SELECT name INTO _car_name FROM public.cars WHERE id = NEW.car_id;
+
+  IF TG_OP = 'INSERT' THEN
+    INSERT INTO public.notifications (title, message, type, link)
+    VALUES (
+      'New booking',
+      format('%s booked %s for %s (%s).', NEW.client_name, COALESCE(_car_name, 'a car'), _when, NEW.reference),
+      'booking',
+      '/admin/bookings?booking=' || NEW.id
+    );
+  ELSIF NEW.status = 'cancelled' AND OLD.status IS DISTINCT FROM 'cancelled' THEN
+    INSERT INTO public.notifications (title, message, type, link)
+    VALUES (
+      'Booking cancelled',
+      format('%s cancelled %s for %s (%s).%s', NEW.client_name, COALESCE(_car_name, 'a car'), _when, NEW.reference,
+             COALESCE(' Reason: ' || _reason, '')),
+      'booking',
+      '/admin/bookings?booking=' || NEW.id
+    );
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER notify_booking_insert AFTER INSERT ON public.bookings
+  FOR EACH ROW EXECUTE FUNCTION public.notify_booking_event();
+
+CREATE TRIGGER notify_booking_cancelled AFTER UPDATE OF status ON public.bookings
+  FOR EACH ROW EXECUTE FUNCTION public.notify_booking_event();
+
+-- Large expenses, including those booked automatically from maintenance
+CREATE OR REPLACE FUNCTION public.notify_large_expense()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _threshold NUMERIC;
+  _car_name TEXT;
+BEGIN
+  SELECT (value #>> '{}')::numeric INTO _threshold FROM public.app_settings WHERE key = 'expense_alert_threshold';
+  IF _threshold IS NULL OR NEW.amount < _threshold
+     OR (TG_OP = 'UPDATE' AND OLD.amount >= _threshold) THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT name INTO _car_name FROM public.cars WHERE id = NEW.car_id;
+  INSERT INTO public.notifications (title, message, type, link)
+  VALUES (
+    'Large expense',
+    format('$%s for %s: %s', NEW.amount, COALESCE(_car_name, 'general costs'), NEW.description),
+    'warning',
+    '/admin/expenses'
+  );
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER notify_large_expense AFTER INSERT OR UPDATE OF amount ON public.expenses
+  FOR EACH ROW EXECUTE FUNCTION public.notify_large_expense();
+
+-- Confirmed bookings starting in the next two hours that still have nobody to drive them.
+-- The key includes the start time so a rescheduled booking is flagged again.
+CREATE OR REPLACE FUNCTION public.notify_unassigned_bookings()
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _sent INTEGER;
+BEGIN
+  INSERT INTO public.notifications (title, message, type, link, dedupe_key)
+  SELECT
+    'Driver needed',
+    format('%s (%s) starts at %s and has no driver assigned.',
+           b.reference, b.client_name, to_char(b.starts_at AT TIME ZONE 'Africa/Kigali', 'HH24:MI')),
+    'warning',
+    '/admin/bookings?booking=' || b.id,
+    format('unassigned:%s:%s', b.id, extract(epoch FROM b.starts_at)::bigint)
+  FROM public.bookings b
+  WHERE b.status IN ('pending', 'approved')
+    AND b.driver_id IS NULL
+    AND b.starts_at > now()
+    AND b.starts_at <= now() + interval '2 hours'
+  ON CONFLICT (dedupe_key) WHERE dedupe_key IS NOT NULL DO NOTHING;
+
+  GET DIAGNOSTICS _sent = ROW_COUNT;
+  RETURN _sent;
+END;
+$$;
+
+-- Only the scheduler runs it
+REVOKE EXECUTE ON FUNCTION public.notify_unassigned_bookings() FROM PUBLIC, anon, authenticated;
+
+SELECT cron.schedule('notify-unassigned-bookings', '*/10 * * * *', $$SELECT public.notify_unassigned_bookings()$$);
+
+-- Document reminders now open the documents page
+CREATE OR REPLACE FUNCTION public.notify_document_expiry()
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _today DATE := (now() AT TIME ZONE 'Africa/Kigali')::date;
+  _doc RECORD;
+  _crossed INTEGER[];
+  _sent INTEGER := 0;
+BEGIN
+  FOR _doc IN
+    SELECT d.*, c.name AS car_name, d.expires_on - _today AS days_left
+    FROM public.car_documents d
+    JOIN public.cars c ON c.id = d.car_id
+  LOOP
+    SELECT COALESCE(array_agg(r), '{}') INTO _crossed
+    FROM unnest(_doc.reminder_days) r
+    WHERE _doc.days_left <= r AND NOT r = ANY (_doc.notified_days);
+
+    CONTINUE WHEN cardinality(_crossed) = 0;
+
+    INSERT INTO public.notifications (title, message, type, link)
+    VALUES (
+      CASE WHEN _doc.days_left < 0 THEN 'Document expired' ELSE 'Document expiring soon' END,
+      format('%s for %s %s on %s.',
+             initcap(replace(_doc.kind, '_', ' ')),
+             _doc.car_name,
+             CASE WHEN _doc.days_left < 0 THEN 'expired' ELSE format('expires in %s day(s)', _doc.days_left) END,
+             to_char(_doc.expires_on, 'DD Mon YYYY')),
+      'warning',
+      '/admin/documents'
+    );
+
+    UPDATE public.car_documents
+    SET notified_days = notified_days || _crossed
+    WHERE id = _doc.id;
+
+    _sent := _sent + 1;
+  END LOOP;
+  RETURN _sent;
+END;
+$$;
@@ -0,0 +1,68 @@
+-- Read state is per admin: one admin opening a notification no longer hides it from the others
+CREATE TABLE public.notification_reads (
+    notification_id UUID NOT NULL REFERENCES public.notifications(id) ON DELETE CASCADE,
+    user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    read_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+    PRIMARY KEY (notification_id, user_id)
+);
+
+CREATE INDEX notification_reads_user_idx ON public.notification_reads (user_id);
+
+ALTER TABLE public.notification_reads ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can manage their own read receipts" ON public.notification_reads
+  FOR ALL TO authenticated
+  USING (user_id = auth.uid() AND public.has_role(auth.uid(), 'admin'))
+  WITH CHECK (user_id = auth.uid() AND public.has_role(auth.uid(), 'admin'));
+
+-- Whatever was already read counts as read for every current admin
+INSERT INTO public.notification_reads (notification_id, user_id)
+SELECT n.id, r.user_id
+FROM public.notifications n
+CROSS JOIN public.user_roles r
+WHERE n.is_read AND r.role = 'admin'
+ON CONFLICT DO NOTHING;
+
+ALTER TABLE public.notifications DROP COLUMN is_read;
+
+CREATE INDEX notifications_created_at_idx ON public.notifications (created_at DESC);
+
+CREATE OR REPLACE FUNCTION public.unread_notification_count()
+RETURNS INTEGER
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT count(*)::integer
+  FROM public.notifications n
+  WHERE public.has_role(auth.uid(), 'admin')
+    AND NOT EXISTS (SELECT 1 FROM public.notification_reads r WHERE r.notification_id = n.id AND r.user_id = auth.uid())
+$$;
+GRANT EXECUTE ON FUNCTION public.unread_notification_count() TO authenticated;
+
+-- Marks everything (or everything of one type) read for the calling admin
+CREATE OR REPLACE FUNCTION public.mark_all_notifications_read(_type TEXT DEFAULT NULL)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _marked INTEGER;
+BEGIN
+  IF NOT public.has_role(auth.uid(), 'admin') THEN
+    RAISE EXCEPTION 'Only admins can read notifications';
+  END IF;
+
+  INSERT INTO public.notification_reads (notification_id, user_id)
+  SELECT n.id, auth.uid()
+  FROM public.notifications n
+  WHERE _type IS NULL OR n.type = _type
+  ON CONFLICT DO NOTHING;
+
+  GET DIAGNOSTICS _marked = ROW_COUNT;
+  RETURN _marked;
+END;
+$$;
+GRANT EXECUTE ON FUNCTION public.mark_all_notifications_read(TEXT) TO authenticated;
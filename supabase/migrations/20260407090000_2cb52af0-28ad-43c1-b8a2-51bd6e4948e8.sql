@@ -0,0 +1,158 @@
+-- Customers hear back in the language they booked in
+ALTER TABLE public.bookings
+  ADD COLUMN language TEXT NOT NULL DEFAULT 'en' CHECK (language IN ('en', 'rw'));
+
+-- Outbound SMS and email. Rows are written by triggers and schedules and delivered by the
+-- send-messages edge function; the text is rendered there from the app's translation files.
+CREATE TABLE public.message_outbox (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    booking_id UUID REFERENCES public.bookings(id) ON DELETE SET NULL,
+    channel TEXT NOT NULL CHECK (channel IN ('sms', 'email')),
+    recipient TEXT NOT NULL,
+    template TEXT NOT NULL,
+    language TEXT NOT NULL DEFAULT 'en' CHECK (language IN ('en', 'rw')),
+    params JSONB NOT NULL DEFAULT '{}',
+    status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'sending', 'sent', 'failed')),
+    attempts INTEGER NOT NULL DEFAULT 0,
+    last_error TEXT,
+    provider TEXT,
+    provider_message_id TEXT,
+    send_after TIMESTAMPTZ NOT NULL DEFAULT now(),
+    sent_at TIMESTAMPTZ,
+    dedupe_key TEXT,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX message_outbox_due_idx ON public.message_outbox (send_after) WHERE status = 'pending';
+CREATE INDEX message_outbox_booking_idx ON public.message_outbox (booking_id);
+CREATE UNIQUE INDEX message_outbox_dedupe_key_idx ON public.message_outbox (channel, dedupe_key) WHERE dedupe_key IS NOT NULL;
+
+ALTER TABLE public.message_outbox ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can manage messages" ON public.message_outbox
+  FOR ALL TO authenticated USING (public.has_role(auth.uid(), 'admin'))
+  WITH CHECK (public.has_role(auth.uid(), 'admin'));
+
+CREATE TRIGGER update_message_outbox_updated_at BEFORE UPDATE ON public.message_outbox
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Queues one message per contact channel the customer gave us
+CREATE OR REPLACE FUNCTION public.enqueue_booking_message(_booking public.bookings, _template TEXT, _dedupe_key TEXT DEFAULT NULL)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _params JSONB;
+BEGIN
+  _params := jsonb_build_object(
+    'name', _booking.client_name,
+    'reference', _booking.reference,
+    'car', COALESCE((SELECT name FROM public.cars WHERE id = _booking.car_id), ''),
+    'date', to_char(_booking.starts_at AT TIME ZONE 'Africa/Kigali', 'DD/MM/YYYY'),
+    'time', to_char(_booking.starts_at AT TIME ZONE 'Africa/Kigali', 'HH24:MI'),
+    'pickup', _booking.pickup_location,
+    'reason', COALESCE(NULLIF(current_setting('app.status_reason', true), ''), '')
+  );
+
+  INSERT INTO public.message_outbox (booking_id, channel, recipient, template, language, params, dedupe_key)
+  SELECT _booking.id, c.channel, c.recipient, _template, _booking.language, _params, _dedupe_key
+  FROM (VALUES ('sms', NULLIF(btrim(_booking.client_phone), '')),
+               ('email', NULLIF(btrim(_booking.client_email), ''))) AS c(channel, recipient)
+  WHERE c.recipient IS NOT NULL
+  ON CONFLICT (channel, dedupe_key) WHERE dedupe_key IS NOT NULL DO NOTHING;
+END;
+$$;
+
+-- Internal: a caller could otherwise pass a made-up booking and have us message any number
+REVOKE EXECUTE ON FUNCTION public.enqueue_booking_message(public.bookings, TEXT, TEXT) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION public.message_booking_status_change()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.status IS DISTINCT FROM OLD.status THEN
+    CASE NEW.status
+      WHEN 'approved' THEN PERFORM public.enqueue_booking_message(NEW, 'bookingApproved');
+      WHEN 'rejected' THEN PERFORM public.enqueue_booking_message(NEW, 'bookingRejected');
+      WHEN 'cancelled' THEN PERFORM public.enqueue_booking_message(NEW, 'bookingCancelled');
+      ELSE NULL;
+    END CASE;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER message_booking_status_change AFTER UPDATE OF status ON public.bookings
+  FOR EACH ROW EXECUTE FUNCTION public.message_booking_status_change();
+
+-- Evening reminder for confirmed bookings starting tomorrow (Kigali dates); the key includes the
+-- pickup date so a booking moved to another day is reminded again
+CREATE OR REPLACE FUNCTION public.enqueue_booking_reminders()
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _booking public.bookings;
+  _tomorrow DATE := (now() AT TIME ZONE 'Africa/Kigali')::date + 1;
+  _queued INTEGER := 0;
+BEGIN
+  FOR _booking IN
+    SELECT * FROM public.bookings
+    WHERE status = 'approved' AND (starts_at AT TIME ZONE 'Africa/Kigali')::date = _tomorrow
+  LOOP
+    PERFORM public.enqueue_booking_message(_booking, 'bookingReminder', format('reminder:%s:%s', _booking.id, _tomorrow));
+    _queued := _queued + 1;
+  END LOOP;
+  RETURN _queued;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.enqueue_booking_reminders() FROM PUBLIC, anon, authenticated;
+
+SELECT cron.schedule('enqueue-booking-reminders', '0 16 * * *', $$SELECT public.enqueue_booking_reminders()$$);
+
+-- Hands due messages to one sender at a time. Messages stuck in 'sending' (a crashed run) are
+-- picked up again after ten minutes.
+CREATE OR REPLACE FUNCTION public.claim_outbox_messages(_limit INTEGER DEFAULT 20)
+RETURNS SETOF public.message_outbox
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  UPDATE public.message_outbox m
+  SET status = 'sending', attempts = m.attempts + 1
+  WHERE m.id IN (
+    SELECT id FROM public.message_outbox
+    WHERE (status = 'pending' AND send_after <= now())
+       OR (status = 'sending' AND updated_at < now() - interval '10 minutes')
+    ORDER BY send_after
+    LIMIT _limit
+    FOR UPDATE SKIP LOCKED
+  )
+  RETURNING m.*
+$$;
+REVOKE EXECUTE ON FUNCTION public.claim_outbox_messages(INTEGER) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.claim_outbox_messages(INTEGER) TO service_role;
+
+-- The sender runs every minute. It needs the project URL and service role key stored in Vault
+-- as 'project_url' and 'service_role_key'.
+CREATE EXTENSION IF NOT EXISTS pg_net;
+
+SELECT cron.schedule('send-messages', '* * * * *', $$
+  SELECT net.http_post(
+    url := (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'project_url') || '/functions/v1/send-messages',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'service_role_key')
+    ),
+    body := '{}'::jsonb
+  )
+$$);
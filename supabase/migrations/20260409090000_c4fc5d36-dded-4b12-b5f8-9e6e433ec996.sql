@@ -0,0 +1,40 @@
+-- Mobile money payments. Rows are created and settled by the momo-payments edge function
+-- (service role); admins can read them, customers see their status through the function.
+CREATE TABLE public.payments (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    booking_id UUID NOT NULL REFERENCES public.bookings(id) ON DELETE CASCADE,
+    purpose TEXT NOT NULL DEFAULT 'deposit' CHECK (purpose IN ('deposit')),
+    method TEXT NOT NULL CHECK (method IN ('mtn_momo', 'airtel_money')),
+    payer_phone TEXT NOT NULL,
+    -- In the booking's currency (USD), as shown on the quote
+    amount NUMERIC NOT NULL CHECK (amount > 0),
+    -- What the wallet was actually charged
+    charged_amount NUMERIC NOT NULL CHECK (charged_amount > 0),
+    charged_currency TEXT NOT NULL,
+    status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'successful', 'failed')),
+    provider_transaction_id TEXT,
+    failure_reason TEXT,
+    completed_at TIMESTAMPTZ,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX payments_booking_idx ON public.payments (booking_id);
+
+-- One request in flight per booking, so a double tap cannot charge twice
+CREATE UNIQUE INDEX payments_one_pending_idx ON public.payments (booking_id, purpose) WHERE status = 'pending';
+
+ALTER TABLE public.payments ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can view payments" ON public.payments
+  FOR SELECT TO authenticated USING (public.has_role(auth.uid(), 'admin'));
+
+CREATE TRIGGER update_payments_updated_at BEFORE UPDATE ON public.payments
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+ALTER PUBLICATION supabase_realtime ADD TABLE public.payments;
+
+INSERT INTO public.app_settings (key, value, description) VALUES
+  ('deposit_percent', '30', 'Share of the booking total customers can pay upfront with mobile money'),
+  ('momo_currency', '"RWF"', 'Currency mobile money wallets are charged in'),
+  ('momo_exchange_rate', '1450', 'Wallet currency units per booking currency unit (RWF per USD)');
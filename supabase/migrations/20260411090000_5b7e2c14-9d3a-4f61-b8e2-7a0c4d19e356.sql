@@ -0,0 +1,141 @@
+-- Turn payments into a ledger of money received and refunded against each booking.
+-- Mobile money rows are still written by the momo-payments function; cash, card and
+-- bank transfers are recorded by admins.
+ALTER TABLE public.payments DROP CONSTRAINT payments_method_check;
+ALTER TABLE public.payments ADD CONSTRAINT payments_method_check
+  CHECK (method IN ('cash', 'mtn_momo', 'airtel_money', 'card', 'bank_transfer'));
+
+ALTER TABLE public.payments DROP CONSTRAINT payments_purpose_check;
+ALTER TABLE public.payments ADD CONSTRAINT payments_purpose_check
+  CHECK (purpose IN ('deposit', 'balance'));
+
+-- Only mobile money has a payer wallet and a charged currency
+ALTER TABLE public.payments ALTER COLUMN payer_phone DROP NOT NULL;
+ALTER TABLE public.payments ALTER COLUMN charged_amount DROP NOT NULL;
+ALTER TABLE public.payments ALTER COLUMN charged_currency DROP NOT NULL;
+
+ALTER TABLE public.payments
+  ADD COLUMN kind TEXT NOT NULL DEFAULT 'payment' CHECK (kind IN ('payment', 'refund')),
+  -- When the money changed hands; income is reported on this date
+  ADD COLUMN paid_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  ADD COLUMN note TEXT,
+  ADD COLUMN recorded_by UUID,
+  ADD COLUMN recorded_by_name TEXT;
+
+UPDATE public.payments SET paid_at = COALESCE(completed_at, created_at);
+
+CREATE INDEX payments_paid_at_idx ON public.payments (paid_at) WHERE status = 'successful';
+
+CREATE OR REPLACE FUNCTION public.set_payment_recorder()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  -- Null for rows written by edge functions with the service role
+  IF auth.uid() IS NOT NULL THEN
+    NEW.recorded_by := auth.uid();
+    NEW.recorded_by_name := COALESCE((SELECT full_name FROM public.profiles WHERE user_id = auth.uid()), 'Admin');
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER set_payments_recorder BEFORE INSERT ON public.payments
+  FOR EACH ROW EXECUTE FUNCTION public.set_payment_recorder();
+
+-- Mobile money settles after the row is created, so date it when the provider confirms
+CREATE OR REPLACE FUNCTION public.set_payment_paid_at()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.status = 'successful' AND OLD.status IS DISTINCT FROM 'successful' THEN
+    NEW.paid_at := COALESCE(NEW.completed_at, now());
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER set_payments_paid_at BEFORE UPDATE ON public.payments
+  FOR EACH ROW EXECUTE FUNCTION public.set_payment_paid_at();
+
+-- A refund can never return more than the booking has collected
+CREATE OR REPLACE FUNCTION public.check_refund_amount()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  _collected NUMERIC;
+BEGIN
+  IF NEW.kind <> 'refund' OR NEW.status <> 'successful' THEN
+    RETURN NEW;
+  END IF;
+
+  -- Serialises refunds per booking, so two settled at once cannot both pass the check
+  PERFORM 1 FROM public.bookings WHERE id = NEW.booking_id FOR UPDATE;
+
+  SELECT COALESCE(SUM(CASE WHEN kind = 'refund' THEN -amount ELSE amount END), 0) INTO _collected
+  FROM public.payments
+  WHERE booking_id = NEW.booking_id AND status = 'successful' AND id <> NEW.id;
+
+  IF NEW.amount > _collected THEN
+    RAISE EXCEPTION 'Refund of % exceeds the % collected for this booking', NEW.amount, _collected;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER check_payments_refund BEFORE INSERT OR UPDATE ON public.payments
+  FOR EACH ROW EXECUTE FUNCTION public.check_refund_amount();
+
+DROP POLICY "Admins can view payments" ON public.payments;
+
+CREATE POLICY "Admins can manage payments" ON public.payments
+  FOR ALL TO authenticated
+  USING (public.has_role(auth.uid(), 'admin'))
+  WITH CHECK (public.has_role(auth.uid(), 'admin'));
+
+-- What each booking has collected against its price. Rejected and cancelled bookings
+-- owe nothing, so whatever they still hold shows up as a negative balance to refund.
+CREATE VIEW public.booking_balances WITH (security_invoker = true) AS
+SELECT
+  b.id AS booking_id,
+  COALESCE(b.total_price, 0) AS total_price,
+  COALESCE(SUM(p.amount) FILTER (WHERE p.kind = 'payment'), 0) AS amount_paid,
+  COALESCE(SUM(p.amount) FILTER (WHERE p.kind = 'refund'), 0) AS amount_refunded,
+  CASE WHEN b.status IN ('rejected', 'cancelled') THEN 0 ELSE COALESCE(b.total_price, 0) END
+    - COALESCE(SUM(CASE WHEN p.kind = 'refund' THEN -p.amount ELSE p.amount END), 0) AS balance_due,
+  b.status NOT IN ('rejected', 'cancelled')
+    AND COALESCE(SUM(CASE WHEN p.kind = 'refund' THEN -p.amount ELSE p.amount END), 0) >= COALESCE(b.total_price, 0) AS paid_in_full
+FROM public.bookings b
+LEFT JOIN public.payments p ON p.booking_id = b.id AND p.status = 'successful'
+GROUP BY b.id;
+
+GRANT SELECT ON public.booking_balances TO authenticated;
+
+-- Settled money per Kigali month and car, summed here so report totals are never cut off at the
+-- API row limit. Dates are inclusive Kigali dates. Admins only, through the payments policy.
+CREATE OR REPLACE FUNCTION public.collected_income(_from DATE DEFAULT NULL, _to DATE DEFAULT NULL)
+RETURNS TABLE (month TEXT, car_id UUID, collected NUMERIC, refunded NUMERIC)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT
+    to_char(p.paid_at AT TIME ZONE 'Africa/Kigali', 'YYYY-MM'),
+    b.car_id,
+    COALESCE(SUM(p.amount) FILTER (WHERE p.kind = 'payment'), 0),
+    COALESCE(SUM(p.amount) FILTER (WHERE p.kind = 'refund'), 0)
+  FROM public.payments p
+  JOIN public.bookings b ON b.id = p.booking_id
+  WHERE p.status = 'successful'
+    AND (_from IS NULL OR (p.paid_at AT TIME ZONE 'Africa/Kigali')::date >= _from)
+    AND (_to IS NULL OR (p.paid_at AT TIME ZONE 'Africa/Kigali')::date <= _to)
+  GROUP BY 1, 2
+  ORDER BY 1, 2
+$$;
+
+GRANT EXECUTE ON FUNCTION public.collected_income(DATE, DATE) TO authenticated;
@@ -0,0 +1,316 @@
+-- Cancellation policies: what a cancelled booking still costs, depending on how much notice was given.
+-- A booking uses the policy of the pricing rule that priced its first day, then a policy for its
+-- car type, then the default policy.
+CREATE TABLE public.cancellation_policies (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    name TEXT NOT NULL,
+    description TEXT,
+    -- Charged when the notice is shorter than every tier, or the car was already picked up
+    after_pickup_fee_percent NUMERIC NOT NULL DEFAULT 100 CHECK (after_pickup_fee_percent BETWEEN 0 AND 100),
+    car_types TEXT[],
+    is_default BOOLEAN NOT NULL DEFAULT false,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE UNIQUE INDEX cancellation_policies_one_default_idx ON public.cancellation_policies (is_default) WHERE is_default;
+
+-- The tier with the largest hours_before that the notice still meets applies
+CREATE TABLE public.cancellation_policy_tiers (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    policy_id UUID NOT NULL REFERENCES public.cancellation_policies(id) ON DELETE CASCADE,
+    hours_before INTEGER NOT NULL CHECK (hours_before >= 0),
+    fee_percent NUMERIC NOT NULL CHECK (fee_percent BETWEEN 0 AND 100),
+    created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+    UNIQUE (policy_id, hours_before)
+);
+
+ALTER TABLE public.cancellation_policies ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.cancellation_policy_tiers ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view cancellation policies" ON public.cancellation_policies
+  FOR SELECT USING (true);
+CREATE POLICY "Admins can manage cancellation policies" ON public.cancellation_policies
+  FOR ALL TO authenticated USING (public.has_role(auth.uid(), 'admin'))
+  WITH CHECK (public.has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Anyone can view cancellation policy tiers" ON public.cancellation_policy_tiers
+  FOR SELECT USING (true);
+CREATE POLICY "Admins can manage cancellation policy tiers" ON public.cancellation_policy_tiers
+  FOR ALL TO authenticated USING (public.has_role(auth.uid(), 'admin'))
+  WITH CHECK (public.has_role(auth.uid(), 'admin'));
+
+CREATE TRIGGER update_cancellation_policies_updated_at BEFORE UPDATE ON public.cancellation_policies
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+WITH standard AS (
+  INSERT INTO public.cancellation_policies (name, description, after_pickup_fee_percent, is_default)
+  VALUES ('Standard', 'Free up to 24 hours before pickup, 50% within 24 hours, no refund after pickup', 100, true)
+  RETURNING id
+)
+INSERT INTO public.cancellation_policy_tiers (policy_id, hours_before, fee_percent)
+SELECT id, hours_before, fee_percent FROM standard, (VALUES (24, 0), (0, 50)) AS tiers (hours_before, fee_percent);
+
+ALTER TABLE public.pricing_rules
+  ADD COLUMN cancellation_policy_id UUID REFERENCES public.cancellation_policies(id) ON DELETE SET NULL;
+
+ALTER TABLE public.bookings
+  ADD COLUMN cancellation_policy_id UUID REFERENCES public.cancellation_policies(id) ON DELETE SET NULL,
+  ADD COLUMN cancellation_fee NUMERIC NOT NULL DEFAULT 0 CHECK (cancellation_fee >= 0);
+
+-- The fee and its policy are only set when the booking is cancelled
+CREATE OR REPLACE FUNCTION public.reset_booking_admin_fields()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT public.has_role(auth.uid(), 'admin') THEN
+    NEW.driver_id := NULL;
+    NEW.picked_up_at := NULL;
+    NEW.dropped_off_at := NULL;
+    NEW.cancellation_policy_id := NULL;
+    NEW.cancellation_fee := 0;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.cancellation_policy_for(_booking public.bookings)
+RETURNS public.cancellation_policies
+LANGUAGE plpgsql
+STABLE
+SET search_path = public
+AS $$
+DECLARE
+  _policy public.cancellation_policies;
+BEGIN
+  SELECT p.* INTO _policy
+  FROM public.cancellation_policies p
+  WHERE p.id = (public.pricing_rule_for_day(
+    _booking.car_id,
+    _booking.pricing_type,
+    (_booking.starts_at AT TIME ZONE 'Africa/Kigali')::date,
+    _booking.pickup_zone_id,
+    _booking.dropoff_zone_id
+  )).cancellation_policy_id;
+  IF FOUND THEN
+    RETURN _policy;
+  END IF;
+
+  SELECT p.* INTO _policy
+  FROM public.cancellation_policies p
+  JOIN public.cars c ON c.id = _booking.car_id
+  WHERE c.type = ANY (p.car_types)
+  ORDER BY p.updated_at DESC
+  LIMIT 1;
+  IF FOUND THEN
+    RETURN _policy;
+  END IF;
+
+  SELECT * INTO _policy FROM public.cancellation_policies WHERE is_default;
+  RETURN _policy;
+END;
+$$;
+
+-- What cancelling at _at costs and how much of the money collected goes back. No policy means free.
+CREATE OR REPLACE FUNCTION public.cancellation_terms(_booking public.bookings, _at TIMESTAMPTZ DEFAULT now())
+RETURNS JSONB
+LANGUAGE plpgsql
+STABLE
+SET search_path = public
+AS $$
+DECLARE
+  _policy public.cancellation_policies := public.cancellation_policy_for(_booking);
+  _notice NUMERIC := extract(epoch FROM _booking.starts_at - _at) / 3600;
+  _percent NUMERIC := 0;
+  _fee NUMERIC;
+  _collected NUMERIC;
+BEGIN
+  IF _policy.id IS NOT NULL THEN
+    IF _notice <= 0 OR _booking.picked_up_at IS NOT NULL THEN
+      _percent := _policy.after_pickup_fee_percent;
+    ELSE
+      SELECT fee_percent INTO _percent
+      FROM public.cancellation_policy_tiers
+      WHERE policy_id = _policy.id AND hours_before <= _notice
+      ORDER BY hours_before DESC
+      LIMIT 1;
+      _percent := COALESCE(_percent, _policy.after_pickup_fee_percent);
+    END IF;
+  END IF;
+
+  _fee := round(COALESCE(_booking.total_price, 0) * _percent / 100, 2);
+  SELECT COALESCE(SUM(CASE WHEN kind = 'refund' THEN -amount ELSE amount END), 0) INTO _collected
+  FROM public.payments
+  WHERE booking_id = _booking.id AND status = 'successful';
+
+  RETURN jsonb_build_object(
+    'policy_id', _policy.id,
+    'policy_name', _policy.name,
+    'notice_hours', round(_notice, 1),
+    'fee_percent', _percent,
+    'fee', _fee,
+    'collected', _collected,
+    'refund', GREATEST(_collected - _fee, 0)
+  );
+END;
+$$;
+
+-- Preview for the admin sheet and the customer's cancel dialog
+CREATE OR REPLACE FUNCTION public.cancellation_quote(_booking_id UUID)
+RETURNS JSONB
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _booking public.bookings;
+BEGIN
+  SELECT * INTO _booking FROM public.bookings
+  WHERE id = _booking_id AND (user_id = auth.uid() OR public.has_role(auth.uid(), 'admin'));
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Booking not found';
+  END IF;
+  RETURN public.cancellation_terms(_booking);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.cancellation_quote(UUID) TO authenticated;
+
+-- Customer cancellations are charged as of when they asked, not when an admin got to the request;
+-- resolve_booking_change passes that time in app.cancelled_at.
+CREATE OR REPLACE FUNCTION public.apply_cancellation_policy()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _terms JSONB;
+BEGIN
+  IF NEW.status = 'cancelled' AND OLD.status IS DISTINCT FROM 'cancelled' THEN
+    _terms := public.cancellation_terms(
+      NEW,
+      COALESCE(NULLIF(current_setting('app.cancelled_at', true), '')::timestamptz, now())
+    );
+    NEW.cancellation_policy_id := (_terms->>'policy_id')::uuid;
+    NEW.cancellation_fee := (_terms->>'fee')::numeric;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER apply_bookings_cancellation_policy
+  BEFORE UPDATE OF status ON public.bookings
+  FOR EACH ROW EXECUTE FUNCTION public.apply_cancellation_policy();
+
+-- Whatever was collected beyond the fee goes back to the customer. A rejected booking keeps
+-- nothing, since a deposit can be paid while it is still pending. The refund is left pending
+-- until an admin pays it out and marks it refunded in the ledger.
+CREATE OR REPLACE FUNCTION public.refund_closed_booking()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _collected NUMERIC;
+  _kept NUMERIC;
+  _last public.payments;
+BEGIN
+  IF NEW.status NOT IN ('cancelled', 'rejected') OR OLD.status IN ('cancelled', 'rejected') THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT COALESCE(SUM(CASE WHEN kind = 'refund' THEN -amount ELSE amount END), 0) INTO _collected
+  FROM public.payments
+  WHERE booking_id = NEW.id AND status = 'successful';
+  _kept := CASE WHEN NEW.status = 'cancelled' THEN NEW.cancellation_fee ELSE 0 END;
+  IF _collected <= _kept THEN
+    RETURN NEW;
+  END IF;
+
+  -- Refund the same way the customer last paid
+  SELECT * INTO _last FROM public.payments
+  WHERE booking_id = NEW.id AND status = 'successful' AND kind = 'payment'
+  ORDER BY paid_at DESC
+  LIMIT 1;
+
+  INSERT INTO public.payments (booking_id, kind, purpose, method, payer_phone, amount, status, note)
+  VALUES (
+    NEW.id, 'refund', 'balance', _last.method, _last.payer_phone, _collected - _kept, 'pending',
+    CASE
+      WHEN NEW.status = 'rejected' THEN 'Rejected booking refund'
+      ELSE 'Cancellation refund' || COALESCE(' under ' || (SELECT name FROM public.cancellation_policies WHERE id = NEW.cancellation_policy_id), '')
+    END
+  );
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER refund_closed_bookings
+  AFTER UPDATE OF status ON public.bookings
+  FOR EACH ROW EXECUTE FUNCTION public.refund_closed_booking();
+
+CREATE OR REPLACE FUNCTION public.resolve_booking_change(_request_id UUID, _approve BOOLEAN, _note TEXT DEFAULT NULL)
+RETURNS public.booking_change_requests
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _request public.booking_change_requests;
+BEGIN
+  IF NOT public.has_role(auth.uid(), 'admin') THEN
+    RAISE EXCEPTION 'Only admins can resolve change requests';
+  END IF;
+
+  SELECT * INTO _request FROM public.booking_change_requests WHERE id = _request_id FOR UPDATE;
+  IF NOT FOUND OR _request.status <> 'pending' THEN
+    RAISE EXCEPTION 'Request not found or already resolved';
+  END IF;
+
+  IF _approve THEN
+    IF _request.kind = 'cancel' THEN
+      PERFORM set_config('app.cancelled_at', _request.created_at::text, true);
+      PERFORM public.set_booking_status(
+        _request.booking_id,
+        'cancelled',
+        'Cancelled at customer request' || COALESCE(': ' || _request.reason, '')
+      );
+      PERFORM set_config('app.cancelled_at', '', true);
+    ELSE
+      UPDATE public.bookings
+      SET starts_at = _request.requested_starts_at, ends_at = _request.requested_ends_at
+      WHERE id = _request.booking_id;
+    END IF;
+  END IF;
+
+  UPDATE public.booking_change_requests
+  SET status = CASE WHEN _approve THEN 'approved' ELSE 'rejected' END,
+      admin_note = NULLIF(btrim(_note), ''),
+      resolved_by = auth.uid(),
+      resolved_at = now()
+  WHERE id = _request_id
+  RETURNING * INTO _request;
+  RETURN _request;
+END;
+$$;
+
+-- A cancelled booking still owes its cancellation fee
+CREATE OR REPLACE VIEW public.booking_balances WITH (security_invoker = true) AS
+SELECT
+  b.id AS booking_id,
+  COALESCE(b.total_price, 0) AS total_price,
+  COALESCE(SUM(p.amount) FILTER (WHERE p.kind = 'payment'), 0) AS amount_paid,
+  COALESCE(SUM(p.amount) FILTER (WHERE p.kind = 'refund'), 0) AS amount_refunded,
+  CASE b.status WHEN 'rejected' THEN 0 WHEN 'cancelled' THEN b.cancellation_fee ELSE COALESCE(b.total_price, 0) END
+    - COALESCE(SUM(CASE WHEN p.kind = 'refund' THEN -p.amount ELSE p.amount END), 0) AS balance_due,
+  CASE b.status WHEN 'rejected' THEN 0 WHEN 'cancelled' THEN b.cancellation_fee ELSE COALESCE(b.total_price, 0) END > 0
+    AND COALESCE(SUM(CASE WHEN p.kind = 'refund' THEN -p.amount ELSE p.amount END), 0)
+      >= CASE b.status WHEN 'rejected' THEN 0 WHEN 'cancelled' THEN b.cancellation_fee ELSE COALESCE(b.total_price, 0) END AS paid_in_full
+FROM public.bookings b
+LEFT JOIN public.payments p ON p.booking_id = b.id AND p.status = 'successful'
+GROUP BY b.id;
@@ -0,0 +1,202 @@
+-- Refundable security deposits for premium cars, and damage charges raised from the return
+-- inspection. The deposit is held outside the payment ledger because it is not income; only the
+-- part kept for damage is booked as a payment when the deposit is settled.
+ALTER TABLE public.cars
+  ADD COLUMN security_deposit NUMERIC NOT NULL DEFAULT 0 CHECK (security_deposit >= 0);
+
+UPDATE public.cars SET security_deposit = 1000 WHERE name IN ('Range Rover Sport', 'Mercedes S-Class');
+
+ALTER TABLE public.payments DROP CONSTRAINT payments_purpose_check;
+ALTER TABLE public.payments ADD CONSTRAINT payments_purpose_check
+  CHECK (purpose IN ('deposit', 'balance', 'damage'));
+
+-- Sum of the booking's damage charges, kept up to date by a trigger on damage_charges
+ALTER TABLE public.bookings
+  ADD COLUMN damage_total NUMERIC NOT NULL DEFAULT 0 CHECK (damage_total >= 0);
+
+-- Damage is only ever totalled from damage_charges
+CREATE OR REPLACE FUNCTION public.reset_booking_admin_fields()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT public.has_role(auth.uid(), 'admin') THEN
+    NEW.driver_id := NULL;
+    NEW.picked_up_at := NULL;
+    NEW.dropped_off_at := NULL;
+    NEW.cancellation_policy_id := NULL;
+    NEW.cancellation_fee := 0;
+    NEW.damage_total := 0;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TABLE public.security_deposits (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    booking_id UUID NOT NULL UNIQUE REFERENCES public.bookings(id) ON DELETE CASCADE,
+    amount NUMERIC NOT NULL CHECK (amount > 0),
+    method TEXT NOT NULL CHECK (method IN ('cash', 'mtn_momo', 'airtel_money', 'card', 'bank_transfer')),
+    -- Card pre-authorisation code, transaction id or receipt number
+    reference TEXT,
+    status TEXT NOT NULL DEFAULT 'held' CHECK (status IN ('held', 'released')),
+    held_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+    held_by UUID,
+    held_by_name TEXT,
+    -- Kept to cover damage charges when the deposit was settled
+    deducted_amount NUMERIC NOT NULL DEFAULT 0,
+    released_amount NUMERIC,
+    released_at TIMESTAMPTZ,
+    released_by UUID,
+    released_by_name TEXT,
+    note TEXT,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.security_deposits ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can manage security deposits" ON public.security_deposits
+  FOR ALL TO authenticated USING (public.has_role(auth.uid(), 'admin'))
+  WITH CHECK (public.has_role(auth.uid(), 'admin'));
+
+CREATE TRIGGER update_security_deposits_updated_at BEFORE UPDATE ON public.security_deposits
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE OR REPLACE FUNCTION public.set_security_deposit_holder()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  NEW.held_by := auth.uid();
+  NEW.held_by_name := COALESCE((SELECT full_name FROM public.profiles WHERE user_id = auth.uid()), 'Admin');
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER set_security_deposits_holder BEFORE INSERT ON public.security_deposits
+  FOR EACH ROW EXECUTE FUNCTION public.set_security_deposit_holder();
+
+CREATE TABLE public.damage_charges (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    booking_id UUID NOT NULL REFERENCES public.bookings(id) ON DELETE CASCADE,
+    -- The return inspection the damage was found in
+    inspection_id UUID REFERENCES public.booking_inspections(id) ON DELETE SET NULL,
+    panel TEXT,
+    description TEXT NOT NULL,
+    amount NUMERIC NOT NULL CHECK (amount > 0),
+    created_by UUID,
+    created_by_name TEXT,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX damage_charges_booking_idx ON public.damage_charges (booking_id);
+
+ALTER TABLE public.damage_charges ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can manage damage charges" ON public.damage_charges
+  FOR ALL TO authenticated USING (public.has_role(auth.uid(), 'admin'))
+  WITH CHECK (public.has_role(auth.uid(), 'admin'));
+
+CREATE TRIGGER update_damage_charges_updated_at BEFORE UPDATE ON public.damage_charges
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE OR REPLACE FUNCTION public.set_damage_charge_author()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  NEW.created_by := auth.uid();
+  NEW.created_by_name := COALESCE((SELECT full_name FROM public.profiles WHERE user_id = auth.uid()), 'Admin');
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER set_damage_charges_author BEFORE INSERT ON public.damage_charges
+  FOR EACH ROW EXECUTE FUNCTION public.set_damage_charge_author();
+
+CREATE OR REPLACE FUNCTION public.refresh_damage_total()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _booking_id UUID := CASE WHEN TG_OP = 'DELETE' THEN OLD.booking_id ELSE NEW.booking_id END;
+BEGIN
+  UPDATE public.bookings
+  SET damage_total = (SELECT COALESCE(SUM(amount), 0) FROM public.damage_charges WHERE booking_id = _booking_id)
+  WHERE id = _booking_id;
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER refresh_damage_charges_total
+  AFTER INSERT OR UPDATE OR DELETE ON public.damage_charges
+  FOR EACH ROW EXECUTE FUNCTION public.refresh_damage_total();
+
+-- Closes out a held deposit: damage charges are taken from it (and booked in the payment ledger),
+-- the rest goes back to the customer. Charges beyond the deposit stay on the booking's balance.
+CREATE OR REPLACE FUNCTION public.settle_security_deposit(_booking_id UUID, _note TEXT DEFAULT NULL)
+RETURNS public.security_deposits
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  _deposit public.security_deposits;
+  _damage NUMERIC;
+  _deducted NUMERIC;
+BEGIN
+  IF NOT public.has_role(auth.uid(), 'admin') THEN
+    RAISE EXCEPTION 'Only admins can settle security deposits';
+  END IF;
+
+  SELECT * INTO _deposit FROM public.security_deposits WHERE booking_id = _booking_id FOR UPDATE;
+  IF NOT FOUND OR _deposit.status <> 'held' THEN
+    RAISE EXCEPTION 'No security deposit is held for this booking';
+  END IF;
+
+  SELECT damage_total INTO _damage FROM public.bookings WHERE id = _booking_id;
+  _deducted := LEAST(_deposit.amount, COALESCE(_damage, 0));
+
+  IF _deducted > 0 THEN
+    INSERT INTO public.payments (booking_id, purpose, method, amount, status, completed_at, note)
+    VALUES (_booking_id, 'damage', _deposit.method, _deducted, 'successful', now(), 'Damage charges kept from the security deposit');
+  END IF;
+
+  UPDATE public.security_deposits
+  SET status = 'released',
+      deducted_amount = _deducted,
+      released_amount = amount - _deducted,
+      released_at = now(),
+      released_by = auth.uid(),
+      released_by_name = COALESCE((SELECT full_name FROM public.profiles WHERE user_id = auth.uid()), 'Admin'),
+      note = COALESCE(NULLIF(btrim(_note), ''), note)
+  WHERE id = _deposit.id
+  RETURNING * INTO _deposit;
+  RETURN _deposit;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.settle_security_deposit(UUID, TEXT) TO authenticated;
+
+-- Damage charges are owed on top of the rental price
+CREATE OR REPLACE VIEW public.booking_balances WITH (security_invoker = true) AS
+SELECT
+  b.id AS booking_id,
+  COALESCE(b.total_price, 0) AS total_price,
+  COALESCE(SUM(p.amount) FILTER (WHERE p.kind = 'payment'), 0) AS amount_paid,
+  COALESCE(SUM(p.amount) FILTER (WHERE p.kind = 'refund'), 0) AS amount_refunded,
+  CASE b.status WHEN 'rejected' THEN 0 WHEN 'cancelled' THEN b.cancellation_fee ELSE COALESCE(b.total_price, 0) END
+    + b.damage_total
+    - COALESCE(SUM(CASE WHEN p.kind = 'refund' THEN -p.amount ELSE p.amount END), 0) AS balance_due,
+  CASE b.status WHEN 'rejected' THEN 0 WHEN 'cancelled' THEN b.cancellation_fee ELSE COALESCE(b.total_price, 0) END + b.damage_total > 0
+    AND COALESCE(SUM(CASE WHEN p.kind = 'refund' THEN -p.amount ELSE p.amount END), 0)
+      >= CASE b.status WHEN 'rejected' THEN 0 WHEN 'cancelled' THEN b.cancellation_fee ELSE COALESCE(b.total_price, 0) END + b.damage_total AS paid_in_full
+FROM public.bookings b
+LEFT JOIN public.payments p ON p.booking_id = b.id AND p.status = 'successful'
+GROUP BY b.id;
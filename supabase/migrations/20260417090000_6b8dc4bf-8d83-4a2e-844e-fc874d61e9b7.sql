@@ -0,0 +1,391 @@
+-- Invoices for one booking or a group of bookings. An invoice is a snapshot: its lines and totals
+-- never change after issue, and a wrong one is voided (keeping its number) and issued again.
+
+-- The priced quote lines a booking was charged, so invoices can itemize them even after the
+-- pricing rules change. Bookings priced before this have none and are invoiced as one line.
+ALTER TABLE public.bookings
+  ADD COLUMN price_lines JSONB;
+
+-- Unchanged apart from keeping the quote's lines next to the total
+CREATE OR REPLACE FUNCTION public.set_booking_total()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _quote JSONB;
+  _promo public.promo_codes;
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    IF NEW.client_request_id IS NOT NULL
+       AND EXISTS (SELECT 1 FROM public.bookings WHERE client_request_id = NEW.client_request_id) THEN
+      RETURN NEW;
+    END IF;
+    NEW.promo_code := NULLIF(upper(btrim(NEW.promo_code)), '');
+    NEW.promo_code_id := NULL;
+    -- Only admins adjust prices
+    IF NOT public.has_role(auth.uid(), 'admin') THEN
+      NEW.price_adjustment := 0;
+      NEW.price_adjustment_reason := NULL;
+    END IF;
+  ELSIF (NEW.car_id, NEW.pricing_type, NEW.quantity, NEW.pickup_zone_id, NEW.dropoff_zone_id, NEW.starts_at)
+          IS NOT DISTINCT FROM (OLD.car_id, OLD.pricing_type, OLD.quantity, OLD.pickup_zone_id, OLD.dropoff_zone_id, OLD.starts_at)
+        OR NEW.total_price IS DISTINCT FROM OLD.total_price THEN
+    -- Nothing to re-quote; shift the existing total by the change in adjustment
+    IF NEW.price_adjustment IS DISTINCT FROM OLD.price_adjustment AND NEW.total_price IS NOT DISTINCT FROM OLD.total_price THEN
+      NEW.total_price := GREATEST(COALESCE(OLD.total_price, 0) - OLD.price_adjustment + NEW.price_adjustment, 0);
+    END IF;
+    RETURN NEW;
+  END IF;
+
+  IF NEW.car_id IS NULL THEN
+    NEW.total_price := GREATEST(NEW.price_adjustment, 0);
+    NEW.promo_discount := 0;
+    NEW.price_lines := NULL;
+    RETURN NEW;
+  END IF;
+
+  _quote := public.quote_booking(
+    NEW.car_id, NEW.pricing_type, NEW.quantity, NEW.pickup_zone_id, NEW.dropoff_zone_id, NEW.starts_at
+  );
+
+  IF TG_OP = 'INSERT' AND NEW.promo_code IS NOT NULL THEN
+    _promo := public.redeem_promo_code(NEW.promo_code, NEW.car_id);
+    NEW.promo_code_id := _promo.id;
+  ELSIF NEW.promo_code_id IS NOT NULL THEN
+    SELECT * INTO _promo FROM public.promo_codes WHERE id = NEW.promo_code_id;
+  END IF;
+
+  _quote := public.apply_promo(_quote, _promo);
+  NEW.total_price := GREATEST((_quote->>'total')::numeric + NEW.price_adjustment, 0);
+  NEW.price_lines := _quote->'lines';
+  NEW.promo_discount := COALESCE(
+    (SELECT -(l->>'amount')::numeric FROM jsonb_array_elements(_quote->'lines') l WHERE l->>'kind' = 'promo'),
+    0
+  );
+  RETURN NEW;
+END;
+$$;
+
+INSERT INTO public.app_settings (key, value, description) VALUES
+  ('invoice_tax_rate', '18', 'VAT rate (%) included in booking prices, shown separately on invoices');
+
+-- Last invoice number issued per year. Numbers are taken by updating this row inside the issuing
+-- transaction: a failed issue rolls the number back with it, so unlike a sequence there are no gaps.
+CREATE TABLE public.invoice_counters (
+    year INTEGER PRIMARY KEY,
+    last_number INTEGER NOT NULL DEFAULT 0
+);
+
+-- No policies: only issue_invoice reads and writes the counters
+ALTER TABLE public.invoice_counters ENABLE ROW LEVEL SECURITY;
+
+CREATE TABLE public.invoices (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    year INTEGER NOT NULL,
+    sequence INTEGER NOT NULL,
+    -- e.g. INV-2026-00042
+    number TEXT NOT NULL UNIQUE,
+    -- The customer who can download it; null when the bookings belong to different accounts
+    user_id UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+    bill_to_name TEXT NOT NULL,
+    bill_to_company TEXT,
+    bill_to_tax_id TEXT,
+    bill_to_phone TEXT,
+    bill_to_email TEXT,
+    -- One entry per booking: its reference, car, dates and priced lines
+    items JSONB NOT NULL,
+    subtotal NUMERIC NOT NULL,
+    tax_rate NUMERIC NOT NULL,
+    tax_amount NUMERIC NOT NULL,
+    total NUMERIC NOT NULL,
+    issued_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+    issued_by UUID,
+    issued_by_name TEXT,
+    voided_at TIMESTAMPTZ,
+    voided_by_name TEXT,
+    void_reason TEXT,
+    UNIQUE (year, sequence)
+);
+
+CREATE TABLE public.invoice_bookings (
+    invoice_id UUID NOT NULL REFERENCES public.invoices(id) ON DELETE CASCADE,
+    booking_id UUID NOT NULL REFERENCES public.bookings(id) ON DELETE CASCADE,
+    PRIMARY KEY (invoice_id, booking_id)
+);
+
+CREATE INDEX invoice_bookings_booking_idx ON public.invoice_bookings (booking_id);
+
+-- Read-only to clients: invoices are only created and voided through the functions below
+ALTER TABLE public.invoices ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.invoice_bookings ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can view invoices" ON public.invoices
+  FOR SELECT TO authenticated USING (public.has_role(auth.uid(), 'admin'));
+CREATE POLICY "Users can view own invoices" ON public.invoices
+  FOR SELECT TO authenticated USING (user_id = auth.uid());
+
+CREATE POLICY "Admins can view invoice bookings" ON public.invoice_bookings
+  FOR SELECT TO authenticated USING (public.has_role(auth.uid(), 'admin'));
+CREATE POLICY "Users can view own invoice bookings" ON public.invoice_bookings
+  FOR SELECT TO authenticated
+  USING (EXISTS (SELECT 1 FROM public.invoices i WHERE i.id = invoice_id AND i.user_id = auth.uid()));
+
+-- Issues an invoice for the given bookings, or returns the one already issued for them. Admins can
+-- invoice any bookings; customers only their own. _bill_to may carry company, tax_id, name, phone
+-- and email to override the details taken from the first booking.
+CREATE OR REPLACE FUNCTION public.issue_invoice(_booking_ids UUID[], _bill_to JSONB DEFAULT '{}')
+RETURNS public.invoices
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _ids UUID[] := ARRAY(SELECT DISTINCT unnest(_booking_ids) ORDER BY 1);
+  _is_admin BOOLEAN := public.has_role(auth.uid(), 'admin');
+  _invoice public.invoices;
+  _booking public.bookings;
+  _first public.bookings;
+  _lines JSONB;
+  _items JSONB := '[]';
+  _owners UUID[];
+  _total NUMERIC;
+  _rate NUMERIC;
+  _tax NUMERIC;
+  _year INTEGER := extract(year FROM now() AT TIME ZONE 'Africa/Kigali');
+  _sequence INTEGER;
+BEGIN
+  IF cardinality(_ids) = 0
+     OR (SELECT count(*) FROM public.bookings WHERE id = ANY(_ids)) <> cardinality(_ids) THEN
+    RAISE EXCEPTION 'Booking not found';
+  END IF;
+
+  IF NOT _is_admin
+     AND EXISTS (SELECT 1 FROM public.bookings WHERE id = ANY(_ids) AND user_id IS DISTINCT FROM auth.uid()) THEN
+    RAISE EXCEPTION 'You can only invoice your own bookings';
+  END IF;
+
+  -- Held until the invoice is in, so a concurrent issue for the same bookings waits and then finds
+  -- it below. Taken in id order so overlapping groups cannot deadlock.
+  PERFORM 1 FROM public.bookings WHERE id = ANY(_ids) ORDER BY id FOR UPDATE;
+
+  -- A booking is on at most one live invoice. Asking again for the same bookings, or for a single
+  -- booking of a group invoice the caller can see, returns that invoice.
+  FOR _invoice IN
+    SELECT DISTINCT i.* FROM public.invoices i
+    JOIN public.invoice_bookings ib ON ib.invoice_id = i.id
+    WHERE ib.booking_id = ANY(_ids) AND i.voided_at IS NULL
+  LOOP
+    IF ARRAY(SELECT booking_id FROM public.invoice_bookings WHERE invoice_id = _invoice.id ORDER BY 1) = _ids
+       OR (cardinality(_ids) = 1 AND (_is_admin OR _invoice.user_id = auth.uid())) THEN
+      RETURN _invoice;
+    END IF;
+    RAISE EXCEPTION 'A booking is already on invoice %. Void it first to invoice these bookings together.', _invoice.number;
+  END LOOP;
+
+  FOR _booking IN SELECT * FROM public.bookings WHERE id = ANY(_ids) ORDER BY starts_at LOOP
+    IF _booking.status = 'rejected' THEN
+      RAISE EXCEPTION 'Booking % was rejected and has nothing to invoice', _booking.reference;
+    ELSIF _booking.status = 'cancelled' AND _booking.cancellation_fee <= 0 THEN
+      RAISE EXCEPTION 'Booking % was cancelled free of charge and has nothing to invoice', _booking.reference;
+    ELSIF _booking.status NOT IN ('approved', 'in_progress', 'completed', 'cancelled') THEN
+      RAISE EXCEPTION 'Booking % cannot be invoiced until it is approved', _booking.reference;
+    END IF;
+    IF _first.id IS NULL THEN
+      _first := _booking;
+    END IF;
+
+    IF _booking.status = 'cancelled' THEN
+      _lines := CASE WHEN _booking.cancellation_fee > 0 THEN jsonb_build_array(jsonb_build_object(
+        'kind', 'cancellation', 'description', 'Cancellation fee',
+        'quantity', 1, 'unit_price', _booking.cancellation_fee, 'amount', _booking.cancellation_fee
+      )) ELSE '[]' END;
+    ELSIF _booking.price_lines IS NULL THEN
+      _lines := jsonb_build_array(jsonb_build_object(
+        'kind', 'rental', 'description', 'Car rental',
+        'quantity', 1, 'unit_price', COALESCE(_booking.total_price, 0), 'amount', COALESCE(_booking.total_price, 0)
+      ));
+    ELSE
+      SELECT COALESCE(jsonb_agg(jsonb_build_object(
+        'kind', l->>'kind', 'description', l->>'description',
+        'quantity', COALESCE((l->>'quantity')::numeric, 1),
+        'unit_price', COALESCE((l->>'unit_price')::numeric, (l->>'amount')::numeric),
+        'amount', (l->>'amount')::numeric
+      )), '[]') INTO _lines
+      FROM jsonb_array_elements(_booking.price_lines) l;
+      IF _booking.price_adjustment <> 0 THEN
+        _lines := _lines || jsonb_build_object(
+          'kind', 'adjustment', 'description', COALESCE(_booking.price_adjustment_reason, 'Price adjustment'),
+          'quantity', 1, 'unit_price', _booking.price_adjustment, 'amount', _booking.price_adjustment
+        );
+      END IF;
+    END IF;
+
+    _lines := _lines || COALESCE((
+      SELECT jsonb_agg(jsonb_build_object(
+        'kind', 'damage', 'description', 'Damage: ' || d.description,
+        'quantity', 1, 'unit_price', d.amount, 'amount', d.amount
+      ) ORDER BY d.created_at)
+      FROM public.damage_charges d WHERE d.booking_id = _booking.id
+    ), '[]');
+
+    _items := _items || jsonb_build_object(
+      'booking_id', _booking.id,
+      'reference', _booking.reference,
+      'car_name', (SELECT name FROM public.cars WHERE id = _booking.car_id),
+      'starts_at', _booking.starts_at,
+      'ends_at', _booking.ends_at,
+      'pickup_location', _booking.pickup_location,
+      'status', _booking.status,
+      'lines', _lines
+    );
+  END LOOP;
+
+  SELECT COALESCE(SUM((l->>'amount')::numeric), 0) INTO _total
+  FROM jsonb_array_elements(_items) i, jsonb_array_elements(i->'lines') l;
+
+  -- Prices include VAT, so the tax is carved out of the total rather than added to it
+  SELECT COALESCE((value #>> '{}')::numeric, 0) INTO _rate FROM public.app_settings WHERE key = 'invoice_tax_rate';
+  _rate := COALESCE(_rate, 0);
+  _tax := round(_total * _rate / (100 + _rate), 2);
+
+  _owners := ARRAY(SELECT DISTINCT user_id FROM public.bookings WHERE id = ANY(_ids));
+
+  INSERT INTO public.invoice_counters (year) VALUES (_year) ON CONFLICT (year) DO NOTHING;
+  -- The row lock also makes concurrent issues wait their turn
+  UPDATE public.invoice_counters SET last_number = last_number + 1 WHERE year = _year
+  RETURNING last_number INTO _sequence;
+
+  INSERT INTO public.invoices (
+    year, sequence, number, user_id,
+    bill_to_name, bill_to_company, bill_to_tax_id, bill_to_phone, bill_to_email,
+    items, subtotal, tax_rate, tax_amount, total, issued_by, issued_by_name
+  ) VALUES (
+    _year, _sequence, 'INV-' || _year || '-' || lpad(_sequence::text, 5, '0'),
+    CASE WHEN cardinality(_owners) = 1 THEN _owners[1] END,
+    COALESCE(NULLIF(btrim(_bill_to->>'name'), ''), _first.client_name),
+    NULLIF(btrim(_bill_to->>'company'), ''),
+    NULLIF(btrim(_bill_to->>'tax_id'), ''),
+    COALESCE(NULLIF(btrim(_bill_to->>'phone'), ''), _first.client_phone),
+    COALESCE(NULLIF(btrim(_bill_to->>'email'), ''), _first.client_email),
+    _items, _total - _tax, _rate, _tax, _total,
+    auth.uid(), COALESCE((SELECT full_name FROM public.profiles WHERE user_id = auth.uid()), _first.client_name)
+  ) RETURNING * INTO _invoice;
+
+  INSERT INTO public.invoice_bookings (invoice_id, booking_id)
+  SELECT _invoice.id, unnest(_ids);
+
+  RETURN _invoice;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.issue_invoice(UUID[], JSONB) TO authenticated;
+
+-- Voided invoices keep their number so the sequence stays unbroken; their bookings can be invoiced again
+CREATE OR REPLACE FUNCTION public.void_invoice(_invoice_id UUID, _reason TEXT)
+RETURNS public.invoices
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _invoice public.invoices;
+BEGIN
+  IF NOT public.has_role(auth.uid(), 'admin') THEN
+    RAISE EXCEPTION 'Only admins can void invoices';
+  END IF;
+  IF NULLIF(btrim(_reason), '') IS NULL THEN
+    RAISE EXCEPTION 'Give a reason for voiding the invoice';
+  END IF;
+
+  UPDATE public.invoices
+  SET voided_at = now(),
+      voided_by_name = COALESCE((SELECT full_name FROM public.profiles WHERE user_id = auth.uid()), 'Admin'),
+      void_reason = btrim(_reason)
+  WHERE id = _invoice_id AND voided_at IS NULL
+  RETURNING * INTO _invoice;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Invoice not found or already voided';
+  END IF;
+  RETURN _invoice;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.void_invoice(UUID, TEXT) TO authenticated;
+
+-- An invoice is a snapshot, so it is voided once its booking changes in a way it shows: the price,
+-- damage, car or dates, or a cancellation or rejection. Approved bookings keep their invoice as
+-- they go under way and complete. Asking for the invoice again then issues a fresh one.
+CREATE OR REPLACE FUNCTION public.void_stale_invoices()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF (NEW.total_price, NEW.damage_total, NEW.cancellation_fee, NEW.car_id, NEW.starts_at, NEW.ends_at)
+       IS NOT DISTINCT FROM (OLD.total_price, OLD.damage_total, OLD.cancellation_fee, OLD.car_id, OLD.starts_at, OLD.ends_at)
+     AND (NEW.status = OLD.status OR NEW.status NOT IN ('cancelled', 'rejected')) THEN
+    RETURN NEW;
+  END IF;
+
+  UPDATE public.invoices
+  SET voided_at = now(),
+      void_reason = 'Booking ' || NEW.reference || ' changed after this invoice was issued'
+  WHERE voided_at IS NULL
+    AND id IN (SELECT invoice_id FROM public.invoice_bookings WHERE booking_id = NEW.id);
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER void_bookings_stale_invoices
+  AFTER UPDATE OF status, total_price, damage_total, cancellation_fee, car_id, starts_at, ends_at ON public.bookings
+  FOR EACH ROW EXECUTE FUNCTION public.void_stale_invoices();
+
+-- Money received against an invoice's bookings and their security deposits, as they stand now.
+-- Customers cannot read payments directly, so this is how their invoice shows what was paid.
+CREATE OR REPLACE FUNCTION public.invoice_statement(_invoice_id UUID)
+RETURNS JSONB
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _result JSONB;
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM public.invoices
+    WHERE id = _invoice_id AND (user_id = auth.uid() OR public.has_role(auth.uid(), 'admin'))
+  ) THEN
+    RAISE EXCEPTION 'Invoice not found';
+  END IF;
+
+  SELECT jsonb_build_object(
+    'paid', COALESCE(SUM(p.amount) FILTER (WHERE p.kind = 'payment'), 0),
+    'refunded', COALESCE(SUM(p.amount) FILTER (WHERE p.kind = 'refund'), 0),
+    'payments', COALESCE(jsonb_agg(jsonb_build_object(
+      'reference', b.reference, 'kind', p.kind, 'purpose', p.purpose, 'method', p.method,
+      'amount', p.amount, 'paid_at', p.paid_at
+    ) ORDER BY p.paid_at) FILTER (WHERE p.id IS NOT NULL), '[]')
+  ) INTO _result
+  FROM public.invoice_bookings ib
+  JOIN public.bookings b ON b.id = ib.booking_id
+  LEFT JOIN public.payments p ON p.booking_id = ib.booking_id AND p.status = 'successful'
+  WHERE ib.invoice_id = _invoice_id;
+
+  RETURN _result || jsonb_build_object('deposits', COALESCE((
+    SELECT jsonb_agg(jsonb_build_object(
+      'reference', b.reference, 'amount', d.amount, 'status', d.status,
+      'deducted_amount', d.deducted_amount, 'released_amount', d.released_amount
+    ) ORDER BY d.held_at)
+    FROM public.invoice_bookings ib
+    JOIN public.bookings b ON b.id = ib.booking_id
+    JOIN public.security_deposits d ON d.booking_id = ib.booking_id
+    WHERE ib.invoice_id = _invoice_id
+  ), '[]'));
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.invoice_statement(UUID) TO authenticated;